@@ -0,0 +1,52 @@
+import { indexMigrationService } from '../src/services/indexMigration.service';
+import { AppError } from '../src/middleware/errorHandler';
+
+// Usage: ts-node scripts/migrate-index.ts [--status] [--delete-old]
+const args = process.argv.slice(2);
+
+async function migrateIndex() {
+  try {
+    const status = await indexMigrationService.getStatus();
+    console.log(`Alias: ${status.alias}`);
+    console.log(`Current indices: ${status.indices.join(', ') || '(none)'}`);
+    console.log(`Current mapping version: ${status.currentVersion ?? 'mixed'}`);
+    console.log(`Target mapping version: ${status.targetVersion}`);
+    for (const dedicated of status.dedicated) {
+      console.log(
+        `Dedicated index for ${dedicated.tenantId}: ${dedicated.indices.join(', ') || '(none)'} ` +
+          `(version ${dedicated.currentVersion ?? 'mixed'})`
+      );
+    }
+
+    if (args.includes('--status')) {
+      process.exit(0);
+    }
+    if (status.upToDate) {
+      console.log('\nIndices are up to date; nothing to migrate.');
+      process.exit(0);
+    }
+
+    console.log('\nMigrating...');
+    const migrations = await indexMigrationService.migrate({ deleteOld: args.includes('--delete-old') });
+
+    for (const migration of migrations) {
+      console.log(`\nAlias ${migration.alias} now points to ${migration.target}`);
+      for (const [tenantId, counts] of Object.entries(migration.tenants || {})) {
+        console.log(`Tenant ${tenantId}: ${counts.target} documents`);
+      }
+      if (migration.source && !args.includes('--delete-old')) {
+        console.log(`The previous index ${migration.source} was kept for rollback.`);
+      }
+    }
+    process.exit(0);
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode === 409) {
+      console.error(`Migration not started: ${error.message}`);
+    } else {
+      console.error('Error migrating index:', error);
+    }
+    process.exit(1);
+  }
+}
+
+migrateIndex();
@@ -3,6 +3,9 @@ import * as dotenv from 'dotenv';
 
 dotenv.config();
 
+// Imported after dotenv so the service config sees the .env values
+import { tenantRegistryService } from '../src/services/tenantRegistry.service';
+
 const OPENSEARCH_NODE = process.env.OPENSEARCH_NODE || 'http://localhost:9200';
 const OPENSEARCH_INDEX = process.env.OPENSEARCH_INDEX || 'documents';
 
@@ -100,12 +103,21 @@ async function seedData() {
       process.exit(1);
     }
 
-    // Index documents
+    // Register the tenants so the API accepts them
+    for (const tenantId of [tenant1, tenant2]) {
+      if (!(await tenantRegistryService.getTenant(tenantId))) {
+        await tenantRegistryService.createTenant(tenantId);
+        console.log(`Registered tenant: ${tenantId}`);
+      }
+    }
+
+    // Index documents, routed by tenant like the service does
     for (const doc of sampleDocuments) {
       const id = `${doc.tenant_id}_${doc.doc_id}`;
       await client.index({
         index: OPENSEARCH_INDEX,
         id,
+        routing: doc.tenant_id,
         body: doc,
         refresh: true,
       });
@@ -116,6 +128,7 @@ async function seedData() {
     console.log(`\nTenant ${tenant1}: 3 documents`);
     console.log(`Tenant ${tenant2}: 2 documents`);
     console.log('\nYou can now test the API with the provided curl commands.');
+    process.exit(0);
   } catch (error) {
     console.error('Error seeding data:', error);
     process.exit(1);
@@ -1,5 +1,17 @@
 jest.mock('../services/opensearch.service');
 jest.mock('../services/redis.service');
+jest.mock('../services/ingest.service');
+jest.mock('../services/quota.service', () => ({
+  quotaService: {
+    startReconciler: jest.fn(),
+  },
+}));
+jest.mock('../services/indexMigration.service', () => ({
+  indexMigrationService: {
+    getStatus: jest.fn().mockResolvedValue({ upToDate: true }),
+    recoverInterrupted: jest.fn().mockResolvedValue(undefined),
+  },
+}));
 jest.mock('../utils/logger');
 jest.mock('../config', () => ({
   config: {
@@ -28,6 +40,13 @@ jest.mock('../config', () => ({
       ttlSeconds: 60,
       searchTtlSeconds: 120,
     },
+    resilience: {
+      opensearch: { timeoutMs: 1000, retries: 0, bulkTimeoutMs: 5000, adminTimeoutMs: 5000 },
+      retryBaseDelayMs: 0,
+      retryMaxDelayMs: 0,
+      failureThreshold: 100,
+      resetTimeoutMs: 1000,
+    },
     logging: {
       level: 'info',
     },
@@ -36,6 +55,7 @@ jest.mock('../config', () => ({
 
 // Mock routes and middleware to prevent actual route registration
 jest.mock('../middleware/tenant');
+jest.mock('../middleware/auth');
 jest.mock('../middleware/rateLimiter');
 jest.mock('../middleware/errorHandler');
 jest.mock('../routes/documents.routes', () => ({
@@ -50,6 +70,18 @@ jest.mock('../routes/health.routes', () => ({
   __esModule: true,
   default: jest.fn((_req: any, _res: any, next: any) => next()),
 }));
+jest.mock('../routes/ingest.routes', () => ({
+  __esModule: true,
+  default: jest.fn((_req: any, _res: any, next: any) => next()),
+}));
+jest.mock('../routes/tenants.routes', () => ({
+  __esModule: true,
+  default: jest.fn((_req: any, _res: any, next: any) => next()),
+}));
+jest.mock('../routes/admin.routes', () => ({
+  __esModule: true,
+  default: jest.fn((_req: any, _res: any, next: any) => next()),
+}));
 
 // Mock swagger and yaml to prevent file loading errors
 jest.mock('swagger-ui-express', () => ({
@@ -146,6 +178,15 @@ describe('App', () => {
     await new Promise(resolve => setImmediate(resolve));
 
     expect(mockOpensearchService.initializeIndex).toHaveBeenCalled();
+
+    const { ingestService: mockIngestService } = await import('../services/ingest.service');
+    expect(mockIngestService.startWorker).toHaveBeenCalled();
+
+    const { quotaService: mockQuotaService } = await import('../services/quota.service');
+    expect(mockQuotaService.startReconciler).toHaveBeenCalled();
+
+    const { indexMigrationService: mockIndexMigrationService } = await import('../services/indexMigration.service');
+    expect(mockIndexMigrationService.recoverInterrupted).toHaveBeenCalled();
   });
 
   it('should handle initialization errors', async () => {
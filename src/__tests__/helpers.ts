@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { RequestContext } from '../types';
+import type { redisService } from '../services/redis.service';
 
 /**
  * Mock tenant middleware for testing
@@ -50,3 +51,66 @@ export const createMockNext = (): NextFunction => {
   return jest.fn();
 };
 
+
+export interface RedisFake {
+  // Plain keys, stored as the service would round-trip them through JSON
+  store: Record<string, any>;
+  sets: Record<string, Set<string>>;
+  lists: Record<string, any[]>;
+}
+
+/**
+ * Back a jest-mocked redisService with in-memory keys, sets and lists
+ */
+export const installRedisFake = (redis: typeof redisService): RedisFake => {
+  const fake: RedisFake = { store: {}, sets: {}, lists: {} };
+  const mock = (method: keyof typeof redisService, implementation: (...args: any[]) => any) =>
+    (redis[method] as jest.Mock).mockImplementation(implementation);
+  const list = (key: string) => (fake.lists[key] = fake.lists[key] || []);
+
+  mock('get', async (key: string) => fake.store[key] ?? null);
+  mock('read', async (key: string) => fake.store[key] ?? null);
+  mock('set', async (key: string, value: any) => {
+    fake.store[key] = JSON.parse(JSON.stringify(value));
+    return true;
+  });
+  mock('del', async (key: string) => {
+    delete fake.store[key];
+    return true;
+  });
+  mock('exists', async (key: string) => key in fake.store);
+  mock('incrby', async (key: string, amount: number) => {
+    fake.store[key] = (fake.store[key] || 0) + amount;
+    return fake.store[key];
+  });
+  mock('sadd', async (key: string, member: string) => {
+    (fake.sets[key] = fake.sets[key] || new Set()).add(member);
+    return true;
+  });
+  mock('srem', async (key: string, member: string) => {
+    fake.sets[key]?.delete(member);
+    return true;
+  });
+  mock('smembers', async (key: string) => Array.from(fake.sets[key] || []));
+  mock('lpush', async (key: string, value: any) => {
+    list(key).unshift(value);
+    return true;
+  });
+  mock('rpush', async (key: string, value: any) => {
+    list(key).push(value);
+    return true;
+  });
+  mock('lmove', async (source: string, destination: string) => {
+    const value = list(source).pop();
+    if (value === undefined) return null;
+    list(destination).unshift(value);
+    return value;
+  });
+  mock('lrange', async (key: string) => [...list(key)]);
+  mock('lrem', async (key: string, value: any) => {
+    fake.lists[key] = list(key).filter((item) => item !== value);
+    return true;
+  });
+
+  return fake;
+};
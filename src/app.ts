@@ -3,13 +3,19 @@ import cors from 'cors';
 import swaggerUi from 'swagger-ui-express';
 import YAML from 'yamljs';
 import path from 'path';
-import { extractTenantId } from './middleware/tenant';
-import { rateLimiter } from './middleware/rateLimiter';
+import { assertAuthConfig, authenticate, authorizeByMethod, requireAdmin, requireScope } from './middleware/auth';
+import { rateLimit, rateLimiter } from './middleware/rateLimiter';
 import { errorHandler } from './middleware/errorHandler';
 import documentsRoutes from './routes/documents.routes';
 import searchRoutes from './routes/search.routes';
 import healthRoutes from './routes/health.routes';
+import ingestRoutes from './routes/ingest.routes';
+import tenantsRoutes from './routes/tenants.routes';
+import adminRoutes from './routes/admin.routes';
 import { opensearchService } from './services/opensearch.service';
+import { ingestService } from './services/ingest.service';
+import { indexMigrationService } from './services/indexMigration.service';
+import { quotaService } from './services/quota.service';
 import { config } from './config';
 import logger from './utils/logger';
 
@@ -17,7 +23,7 @@ const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: config.server.bodyLimit }));
 app.use(express.urlencoded({ extended: true }));
 
 // Request logging
@@ -51,9 +57,16 @@ try {
   // Continue without Swagger - API will still work
 }
 
-// Protected routes (require tenant ID)
-app.use('/documents', extractTenantId, rateLimiter, documentsRoutes);
-app.use('/search', extractTenantId, rateLimiter, searchRoutes);
+// Protected routes (require API key or, when auth is optional, tenant ID header)
+app.use('/documents', authenticate, rateLimiter, authorizeByMethod, documentsRoutes);
+app.use('/search', authenticate, rateLimit('search'), requireScope('read'), searchRoutes);
+app.use('/ingest', authenticate, rateLimiter, authorizeByMethod, ingestRoutes);
+
+// Tenant administration (admin token or tenant admin API key)
+app.use('/tenants', tenantsRoutes);
+
+// Service administration (admin token only)
+app.use('/admin', requireAdmin, adminRoutes);
 
 // Error handler (must be last)
 app.use(errorHandler);
@@ -61,7 +74,20 @@ app.use(errorHandler);
 // Initialize OpenSearch index on startup
 async function initialize() {
   try {
+    assertAuthConfig();
     await opensearchService.initializeIndex();
+
+    const indexStatus = await indexMigrationService.getStatus();
+    if (!indexStatus.upToDate) {
+      logger.warn('Index mapping is outdated; run scripts/migrate-index.ts or POST /admin/index/migrate', {
+        alias: indexStatus.alias,
+        indices: indexStatus.indices,
+        targetVersion: indexStatus.targetVersion,
+      });
+    }
+    await indexMigrationService.recoverInterrupted();
+    ingestService.startWorker();
+    quotaService.startReconciler();
     logger.info('Application initialized successfully');
   } catch (error) {
     logger.error('Failed to initialize application', { error: (error as Error).message });
@@ -1,17 +1,40 @@
 import dotenv from 'dotenv';
+import { RateLimitLimits } from '../types';
 
 dotenv.config();
 
+/**
+ * Parse rate limit tiers: "free: search=30, write=10, read=60; premium: search=1000"
+ */
+function parseRateLimitTiers(spec: string): Record<string, RateLimitLimits> {
+  const tiers: Record<string, RateLimitLimits> = {};
+  for (const entry of spec.split(';')) {
+    const [name, limits = ''] = entry.split(':').map((part) => part.trim());
+    if (!name) continue;
+    tiers[name] = {};
+    for (const limit of limits.split(',')) {
+      const [group, value] = limit.split('=').map((part) => part.trim());
+      if (group && value) {
+        tiers[name][group as keyof RateLimitLimits] = parseInt(value, 10);
+      }
+    }
+  }
+  return tiers;
+}
+
 export const config = {
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
     nodeEnv: process.env.NODE_ENV || 'development',
+    bodyLimit: process.env.BODY_LIMIT || '10mb',
   },
   opensearch: {
     node: process.env.OPENSEARCH_NODE || 'http://localhost:9200',
     index: process.env.OPENSEARCH_INDEX || 'documents',
     username: process.env.OPENSEARCH_USERNAME || 'admin',
     password: process.env.OPENSEARCH_PASSWORD || 'admin',
+    // Primary shards of new indices; tenants are routed to a single shard of the shared index
+    shards: parseInt(process.env.OPENSEARCH_SHARDS || '1', 10),
   },
   redis: {
     host: process.env.REDIS_HOST || 'localhost',
@@ -20,13 +43,116 @@ export const config = {
     clusterMode: process.env.REDIS_CLUSTER_MODE === 'true',
     enableTLS: process.env.REDIS_ENABLE_TLS === 'true',
   },
+  tenants: {
+    // Reject requests for tenants that were never created in the registry; disable while
+    // registering tenants that predate it
+    registryRequired: process.env.TENANT_REGISTRY_REQUIRED !== 'false',
+  },
+  auth: {
+    required: process.env.AUTH_REQUIRED === 'true',
+    adminToken: process.env.ADMIN_API_TOKEN || undefined,
+    jwt: {
+      hs256Secret: process.env.JWT_HS256_SECRET || undefined,
+      jwksPath: process.env.JWT_JWKS_PATH || undefined,
+      issuer: process.env.JWT_ISSUER || undefined,
+      audience: process.env.JWT_AUDIENCE || undefined,
+      tenantClaim: process.env.JWT_TENANT_CLAIM || 'tenant_id',
+      rolesClaim: process.env.JWT_ROLES_CLAIM || 'roles',
+      groupsClaim: process.env.JWT_GROUPS_CLAIM || 'groups',
+      departmentClaim: process.env.JWT_DEPARTMENT_CLAIM || 'department',
+      // Claim with the token's scopes (falls back to `scp`), and a prefix that marks this
+      // service's scopes among others, e.g. `docs:` for `docs:read`
+      scopeClaim: process.env.JWT_SCOPE_CLAIM || 'scope',
+      scopePrefix: process.env.JWT_SCOPE_PREFIX || '',
+      clockToleranceSeconds: parseInt(process.env.JWT_CLOCK_TOLERANCE_SECONDS || '30', 10),
+    },
+  },
   rateLimit: {
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10),
+    // Limit for route groups that no tier names
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+    // Requests that may arrive at once, as a multiple of a policy's limit per window; the
+    // bucket refills at the policy's rate, so bursts cannot raise the sustained rate
+    burstFactor: parseFloat(process.env.RATE_LIMIT_BURST_FACTOR || '1'),
+    // Tier of tenants that were not assigned one
+    defaultTier: process.env.RATE_LIMIT_DEFAULT_TIER || 'standard',
+    // Requests per window by tier and route group (search, write, read)
+    tiers: parseRateLimitTiers(process.env.RATE_LIMIT_TIERS || ''),
   },
   cache: {
     ttlSeconds: parseInt(process.env.CACHE_TTL_SECONDS || '60', 10),
     searchTtlSeconds: parseInt(process.env.SEARCH_CACHE_TTL_SECONDS || '120', 10),
+    suggestTtlSeconds: parseInt(process.env.SUGGEST_CACHE_TTL_SECONDS || '10', 10),
+  },
+  search: {
+    // Buckets returned per terms facet
+    facetSize: parseInt(process.env.SEARCH_FACET_SIZE || '10', 10),
+    defaultFacetInterval: process.env.SEARCH_FACET_INTERVAL || 'month',
+    // "Did you mean" suggestions are added when a query has at most this many hits
+    suggestMaxHits: parseInt(process.env.SEARCH_SUGGEST_MAX_HITS || '3', 10),
+    // HMAC secret for pagination cursors; must be shared by all instances
+    cursorSecret: process.env.SEARCH_CURSOR_SECRET,
+    // How long a cursor's point-in-time stays open between pages, and how many may be open
+    // per tenant (0 = unlimited); each holds resources on every shard it searches
+    cursorKeepAliveSeconds: parseInt(process.env.SEARCH_CURSOR_KEEP_ALIVE_SECONDS || '60', 10),
+    maxOpenCursors: parseInt(process.env.SEARCH_MAX_OPEN_CURSORS || '20', 10),
+    // Language for tenants without their own default (en, de, fr, es, it, pt, nl); unset = none
+    defaultLanguage: process.env.SEARCH_DEFAULT_LANGUAGE || undefined,
+    // Search-time synonym rules, separated by semicolons: "timeout, time out; doc => document"
+    synonyms: (process.env.SEARCH_SYNONYMS || '')
+      .split(';')
+      .map((rule) => rule.trim())
+      .filter(Boolean),
+  },
+  searchConcurrency: {
+    // Searches running at once on this instance, overall and per tenant; 0 = unlimited
+    maxConcurrent: parseInt(process.env.SEARCH_MAX_CONCURRENT || '20', 10),
+    maxConcurrentPerTenant: parseInt(process.env.SEARCH_MAX_CONCURRENT_PER_TENANT || '5', 10),
+    // Searches waiting for a slot, overall and per tenant; beyond that they are shed with 503
+    maxQueued: parseInt(process.env.SEARCH_MAX_QUEUED || '100', 10),
+    maxQueuedPerTenant: parseInt(process.env.SEARCH_MAX_QUEUED_PER_TENANT || '20', 10),
+    // How long a search may wait for a slot
+    queueTimeoutMs: parseInt(process.env.SEARCH_QUEUE_TIMEOUT_MS || '5000', 10),
+  },
+  bulk: {
+    maxOperations: parseInt(process.env.BULK_MAX_OPERATIONS || '10000', 10),
+    chunkSize: parseInt(process.env.BULK_CHUNK_SIZE || '500', 10),
+  },
+  ingest: {
+    maxOperations: parseInt(process.env.INGEST_MAX_OPERATIONS || '100000', 10),
+    pollIntervalMs: parseInt(process.env.INGEST_POLL_INTERVAL_MS || '1000', 10),
+    jobTtlSeconds: parseInt(process.env.INGEST_JOB_TTL_SECONDS || '86400', 10),
+  },
+  quotas: {
+    // Defaults for every tenant, overridable per tenant; 0 = unlimited
+    maxDocuments: parseInt(process.env.TENANT_MAX_DOCUMENTS || '0', 10),
+    maxContentBytes: parseInt(process.env.TENANT_MAX_CONTENT_BYTES || '0', 10),
+    maxDocumentBytes: parseInt(process.env.TENANT_MAX_DOCUMENT_BYTES || '0', 10),
+    // How often usage counters are corrected from OpenSearch; 0 disables reconciliation
+    reconcileIntervalMs: parseInt(process.env.QUOTA_RECONCILE_INTERVAL_MS || '300000', 10),
+  },
+  resilience: {
+    // Time limit per attempt and further attempts for idempotent calls, per dependency
+    opensearch: {
+      timeoutMs: parseInt(process.env.OPENSEARCH_TIMEOUT_MS || '10000', 10),
+      retries: parseInt(process.env.OPENSEARCH_RETRIES || '2', 10),
+      // Bulk writes and index administration (reindex, delete by query, index changes) run
+      // longer, and have a circuit breaker of their own
+      bulkTimeoutMs: parseInt(process.env.OPENSEARCH_BULK_TIMEOUT_MS || '60000', 10),
+      adminTimeoutMs: parseInt(process.env.OPENSEARCH_ADMIN_TIMEOUT_MS || '120000', 10),
+      // How long to wait for a background task (reindex, delete by query) before cancelling it
+      taskTimeoutMs: parseInt(process.env.OPENSEARCH_TASK_TIMEOUT_MS || '3600000', 10),
+    },
+    redis: {
+      timeoutMs: parseInt(process.env.REDIS_TIMEOUT_MS || '1000', 10),
+      retries: parseInt(process.env.REDIS_RETRIES || '1', 10),
+    },
+    // Retries wait a random time up to base * 2^attempt, capped at the max
+    retryBaseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || '100', 10),
+    retryMaxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS || '2000', 10),
+    // Consecutive failures that open a dependency's circuit, and how long it stays open
+    failureThreshold: parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+    resetTimeoutMs: parseInt(process.env.CIRCUIT_RESET_TIMEOUT_MS || '30000', 10),
   },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
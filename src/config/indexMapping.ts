@@ -0,0 +1,142 @@
+import { config } from './index';
+import { buildLanguageAnalysis, buildLanguageMappings } from '../utils/language';
+import { hashString } from '../utils/hash';
+
+/**
+ * Declarative definition of the documents index.
+ *
+ * The service reads and writes through the `OPENSEARCH_INDEX` alias, which points at one
+ * physical index per mapping version (`documents_v1`, `documents_v2`, ...). Any change to the
+ * settings or mappings below must bump INDEX_MAPPING_VERSION and is rolled out with the index
+ * migration (scripts/migrate-index.ts or POST /admin/index/migrate).
+ *
+ * Tenants share the index and are routed to one shard each by tenant ID. Tenants placed in
+ * a dedicated index get their own alias (`documents-tenant-<id>`), versioned the same way.
+ *
+ * Version history:
+ * 1. Language fields
+ * 2. Routing by tenant required in the shared index
+ * 3. size_bytes for quota accounting
+ */
+export const INDEX_MAPPING_VERSION = 3;
+
+export function getVersionedIndexName(alias: string, version: number): string {
+  return `${alias}_v${version}`;
+}
+
+/**
+ * Alias of a tenant's dedicated index. Index names must be lowercase, so tenant IDs that are
+ * not get a hash suffix to keep `Acme` and `acme` apart.
+ */
+export function getTenantIndexAlias(alias: string, tenantId: string): string {
+  const name = tenantId.toLowerCase();
+  return `${alias}-tenant-${name}${name === tenantId ? '' : `-${hashString(tenantId).substring(0, 8)}`}`;
+}
+
+/**
+ * Mapping version of a physical index; legacy unversioned indices count as version 0
+ */
+export function getIndexVersion(alias: string, index: string): number {
+  const suffix = index.startsWith(`${alias}_v`) ? index.substring(alias.length + 2) : '';
+  return /^\d+$/.test(suffix) ? parseInt(suffix, 10) : 0;
+}
+
+/**
+ * Settings and mappings of a documents index. The shared index requires a routing value
+ * (the tenant ID) on every write, so no document can land on another tenant's shard.
+ */
+export function buildIndexDefinition(options: { shared: boolean } = { shared: true }): {
+  settings: Record<string, any>;
+  mappings: Record<string, any>;
+} {
+  const languageAnalysis = buildLanguageAnalysis(config.search.synonyms);
+
+  return {
+    settings: {
+      number_of_shards: config.opensearch.shards,
+      number_of_replicas: 0,
+      analysis: {
+        filter: {
+          autocomplete_edge_ngram: {
+            type: 'edge_ngram',
+            min_gram: 1,
+            max_gram: 20,
+          },
+          ...languageAnalysis.filter,
+        },
+        analyzer: {
+          default: {
+            type: 'standard',
+          },
+          // Indexes every word prefix so typeahead is a plain match at query time
+          autocomplete: {
+            type: 'custom',
+            tokenizer: 'standard',
+            filter: ['lowercase', 'autocomplete_edge_ngram'],
+          },
+          ...languageAnalysis.analyzer,
+        },
+      },
+    },
+    mappings: {
+      ...(options.shared && { _routing: { required: true } }),
+      properties: {
+        tenant_id: {
+          type: 'keyword',
+        },
+        doc_id: {
+          type: 'keyword',
+        },
+        title: {
+          type: 'text',
+          analyzer: 'standard',
+          fields: {
+            // Exact title for sorting
+            keyword: { type: 'keyword', ignore_above: 500 },
+            autocomplete: {
+              type: 'text',
+              analyzer: 'autocomplete',
+              search_analyzer: 'standard',
+            },
+          },
+        },
+        content: {
+          type: 'text',
+          analyzer: 'standard',
+        },
+        // UTF-8 size of content, summed to reconcile storage quotas
+        size_bytes: {
+          type: 'long',
+        },
+        language: {
+          type: 'keyword',
+        },
+        // title_<code>/content_<code>, stemmed for the document's language
+        ...buildLanguageMappings(),
+        tags: {
+          type: 'keyword',
+        },
+        metadata: {
+          properties: {
+            author: { type: 'keyword' },
+            type: { type: 'keyword' },
+            department: { type: 'keyword' },
+          },
+        },
+        acl: {
+          properties: {
+            users: { type: 'keyword' },
+            groups: { type: 'keyword' },
+            departments: { type: 'keyword' },
+          },
+        },
+        created_at: {
+          type: 'date',
+        },
+        updated_at: {
+          type: 'date',
+        },
+      },
+    },
+  };
+}
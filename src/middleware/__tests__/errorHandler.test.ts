@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { errorHandler, AppError } from '../errorHandler';
+import { errorHandler, AppError, ServiceUnavailableError } from '../errorHandler';
 import { RequestContext } from '../../types';
 
 describe('ErrorHandler Middleware', () => {
@@ -16,6 +16,7 @@ describe('ErrorHandler Middleware', () => {
     mockResponse = {
       status: jest.fn().mockReturnThis(),
       json: jest.fn().mockReturnThis(),
+      setHeader: jest.fn().mockReturnThis(),
     };
 
     mockNext = jest.fn();
@@ -78,6 +79,23 @@ describe('ErrorHandler Middleware', () => {
       });
     });
 
+    it('should send Retry-After with a ServiceUnavailableError', () => {
+      const error = new ServiceUnavailableError('Too many concurrent searches', 5);
+
+      errorHandler(
+        error,
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', '5');
+      expect(mockResponse.status).toHaveBeenCalledWith(503);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'Too many concurrent searches',
+      });
+    });
+
     it('should handle generic Error as 500', () => {
       const error = new Error('Unexpected error');
       
@@ -1,9 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
 import { rateLimiter } from '../rateLimiter';
 import { redisService } from '../../services/redis.service';
+import { config } from '../../config';
 import { AppError } from '../errorHandler';
 
 jest.mock('../../services/redis.service');
+jest.mock('../../services/tenantRegistry.service', () => ({
+  tenantRegistryService: {
+    getTenant: jest.fn(),
+  },
+}));
+jest.mock('../../services/metrics.service', () => ({
+  metricsService: {
+    recordRateLimitViolation: jest.fn(),
+  },
+}));
 jest.mock('../../utils/logger', () => ({
   info: jest.fn(),
   warn: jest.fn(),
@@ -15,6 +26,9 @@ jest.mock('../../config', () => ({
     rateLimit: {
       windowMs: 1000, // 1 second for testing
       maxRequests: 5, // 5 requests max for testing
+      burstFactor: 1,
+      defaultTier: 'standard',
+      tiers: {},
     },
     logging: {
       level: 'info',
@@ -45,14 +59,28 @@ describe('Rate Limiter Integration', () => {
   let mockRequest: Partial<Request>;
   let mockResponse: Partial<Response>;
   let mockNext: NextFunction;
-  let mockRedisStore: Map<string, number>;
+  let buckets: Map<string, { tokens: number; ts: number }>;
+
+  const flush = async () => {
+    for (let i = 0; i < 10; i++) {
+      await Promise.resolve();
+    }
+  };
+
+  const request = async () => {
+    rateLimiter(mockRequest as Request, mockResponse as Response, mockNext);
+    await flush();
+  };
+
+  const errors = () => (mockNext as jest.Mock).mock.calls.map((call) => call[0]);
 
   beforeEach(() => {
     jest.clearAllMocks();
-    jest.useFakeTimers({ advanceTimers: true });
+    jest.useFakeTimers();
     jest.setSystemTime(0);
+    config.rateLimit.burstFactor = 1;
 
-    mockRedisStore = new Map<string, number>();
+    buckets = new Map();
 
     mockRequest = {
       path: '/test',
@@ -67,111 +95,83 @@ describe('Rate Limiter Integration', () => {
 
     mockNext = jest.fn();
 
-    // Mock Redis get to return value from store
-    (redisService.get as jest.Mock).mockImplementation((key: string) => {
-      return Promise.resolve(mockRedisStore.get(key) || 0);
-    });
-
-    // Mock Redis set to store value
-    (redisService.set as jest.Mock).mockImplementation((key: string, value: number) => {
-      mockRedisStore.set(key, value);
-      return Promise.resolve(true);
-    });
+    // Same arithmetic as the token bucket script in RedisService
+    (redisService.takeTokens as jest.Mock).mockImplementation(
+      async (key: string, { capacity, refillPerMs }: { capacity: number; refillPerMs: number }) => {
+        const now = Date.now();
+        const bucket = buckets.get(key) || { tokens: capacity, ts: now };
+        const tokens = Math.min(capacity, bucket.tokens + (now - bucket.ts) * refillPerMs);
+        const allowed = tokens >= 1;
+        const left = allowed ? tokens - 1 : tokens;
+        buckets.set(key, { tokens: left, ts: now });
+        return {
+          allowed,
+          remaining: Math.floor(left),
+          retryAfterMs: allowed ? 0 : Math.ceil((1 - left) / refillPerMs),
+          resetMs: Math.ceil((capacity - left) / refillPerMs),
+        };
+      }
+    );
   });
 
   afterEach(() => {
     jest.useRealTimers();
-    mockRedisStore.clear();
   });
 
   it('should allow requests up to the limit', async () => {
-    // Make 5 requests (at the limit)
     for (let i = 0; i < 5; i++) {
-      rateLimiter(
-        mockRequest as Request,
-        mockResponse as Response,
-        mockNext
-      );
-      await jest.runAllTimersAsync();
-      await Promise.resolve();
+      await request();
     }
 
     expect(mockNext).toHaveBeenCalledTimes(5);
-    // Check that none of the calls had an error
-    const calls = (mockNext as jest.Mock).mock.calls;
-    calls.forEach(call => {
-      expect(call[0]).toBeUndefined();
-    });
+    errors().forEach((error) => expect(error).toBeUndefined());
   });
 
   it('should block requests exceeding the limit', async () => {
-    // Set up Redis to return count at limit
-    const windowMs = 1000;
-    const now = Date.now();
-    const windowStart = Math.floor(now / windowMs) * windowMs;
-    const key = `ratelimit:test-tenant:${windowStart}`;
-    mockRedisStore.set(key, 5); // Already at limit
-
-    rateLimiter(
-      mockRequest as Request,
-      mockResponse as Response,
-      mockNext
-    );
-
-    await jest.runAllTimersAsync();
-    await Promise.resolve();
+    for (let i = 0; i < 6; i++) {
+      await request();
+    }
 
-    expect(mockNext).toHaveBeenCalled();
-    const error = (mockNext as jest.Mock).mock.calls[0][0];
-    expect(error).toBeDefined();
+    const error = errors()[5];
     expect(error).toBeInstanceOf(AppError);
     expect(error.statusCode).toBe(429);
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', '1');
   });
 
-  it('should reset counter after window expires', async () => {
-    const windowMs = 1000;
-    const now = Date.now();
-    const windowStart = Math.floor(now / windowMs) * windowMs;
-    const key = `ratelimit:test-tenant:${windowStart}`;
-    
-    // Set count at limit for current window
-    mockRedisStore.set(key, 5);
-
-    // First request - should be blocked
-    rateLimiter(
-      mockRequest as Request,
-      mockResponse as Response,
-      mockNext
-    );
-    await jest.runAllTimersAsync();
-    await Promise.resolve();
-
-    expect(mockNext).toHaveBeenCalled();
-    const firstError = (mockNext as jest.Mock).mock.calls[0][0];
-    expect(firstError).toBeInstanceOf(AppError);
-    expect(firstError.statusCode).toBe(429);
-
-    // Advance time past the window (1001ms to ensure new window)
-    jest.advanceTimersByTime(1001);
-    jest.setSystemTime(Date.now() + 1001);
-
-    // Clear mocks for next request
-    (mockNext as jest.Mock).mockClear();
-    mockRedisStore.clear(); // Clear old window data
-
-    // Next request should be allowed (new window, count starts at 0)
-    rateLimiter(
-      mockRequest as Request,
-      mockResponse as Response,
-      mockNext
-    );
-    await jest.runAllTimersAsync();
-    await Promise.resolve();
+  it('should not let concurrent requests race past the limit', async () => {
+    for (let i = 0; i < 8; i++) {
+      rateLimiter(mockRequest as Request, mockResponse as Response, mockNext);
+    }
+    await flush();
 
-    expect(mockNext).toHaveBeenCalled();
-    // Should be called without error
-    const secondCall = (mockNext as jest.Mock).mock.calls[0];
-    expect(secondCall[0]).toBeUndefined();
+    expect(errors().filter((error) => error === undefined)).toHaveLength(5);
+    expect(errors().filter((error) => error instanceof AppError)).toHaveLength(3);
   });
-});
 
+  it('should refill tokens at the sustained rate instead of resetting at window edges', async () => {
+    for (let i = 0; i < 5; i++) {
+      await request();
+    }
+
+    // 5 requests per second refill one token every 200ms
+    jest.setSystemTime(199);
+    await request();
+    jest.setSystemTime(400);
+    await request();
+    await request();
+    await request();
+
+    expect(errors().slice(5).map((error) => error?.statusCode)).toEqual([429, undefined, undefined, 429]);
+  });
+
+  it('should allow bursts up to the configured capacity', async () => {
+    config.rateLimit.burstFactor = 2;
+
+    for (let i = 0; i < 11; i++) {
+      await request();
+    }
+
+    expect(errors().filter((error) => error === undefined)).toHaveLength(10);
+    expect(errors()[10].statusCode).toBe(429);
+  });
+});
@@ -1,9 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
-import { rateLimiter } from '../rateLimiter';
+import { rateLimit, rateLimiter } from '../rateLimiter';
 import { redisService } from '../../services/redis.service';
+import { tenantRegistryService } from '../../services/tenantRegistry.service';
+import { metricsService } from '../../services/metrics.service';
+import { config } from '../../config';
 import { AppError } from '../errorHandler';
 
 jest.mock('../../services/redis.service');
+jest.mock('../../services/tenantRegistry.service', () => ({
+  tenantRegistryService: {
+    getTenant: jest.fn(),
+  },
+}));
+jest.mock('../../services/metrics.service', () => ({
+  metricsService: {
+    recordRateLimitViolation: jest.fn(),
+  },
+}));
 jest.mock('../../utils/logger', () => ({
   info: jest.fn(),
   warn: jest.fn(),
@@ -15,6 +28,9 @@ jest.mock('../../config', () => ({
     rateLimit: {
       windowMs: 60000,
       maxRequests: 100,
+      burstFactor: 1,
+      defaultTier: 'standard',
+      tiers: {},
     },
     logging: {
       level: 'info',
@@ -46,9 +62,21 @@ describe('Rate Limiter Middleware', () => {
   let mockResponse: Partial<Response>;
   let mockNext: NextFunction;
 
+  const allowed = (remaining: number) => ({ allowed: true, remaining, retryAfterMs: 0, resetMs: 1000 });
+  const rejected = { allowed: false, remaining: 0, retryAfterMs: 1500, resetMs: 60000 };
+
+  const run = async (middleware = rateLimiter) => {
+    middleware(mockRequest as Request, mockResponse as Response, mockNext);
+    await jest.runAllTimersAsync();
+    await Promise.resolve();
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
     jest.useFakeTimers({ advanceTimers: true });
+    config.rateLimit.tiers = {};
+    config.rateLimit.burstFactor = 1;
+    (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue(null);
 
     mockRequest = {
       path: '/test',
@@ -69,36 +97,21 @@ describe('Rate Limiter Middleware', () => {
   });
 
   it('should allow request when under rate limit', async () => {
-    (redisService.get as jest.Mock).mockResolvedValue(50);
-    (redisService.set as jest.Mock).mockResolvedValue(true);
-
-    rateLimiter(
-      mockRequest as Request,
-      mockResponse as Response,
-      mockNext
-    );
+    (redisService.takeTokens as jest.Mock).mockResolvedValue(allowed(49));
 
-    // Wait for async operations - use runAllTimersAsync to handle fake timers
-    await jest.runAllTimersAsync();
-    await Promise.resolve();
+    await run();
 
-    expect(mockNext).toHaveBeenCalled();
+    expect(mockNext).toHaveBeenCalledWith();
     expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Limit', '100');
-    expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Remaining', expect.any(String));
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Remaining', '49');
     expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Reset', expect.any(String));
+    expect(metricsService.recordRateLimitViolation).not.toHaveBeenCalled();
   });
 
   it('should block request when rate limit exceeded', async () => {
-    (redisService.get as jest.Mock).mockResolvedValue(100);
+    (redisService.takeTokens as jest.Mock).mockResolvedValue(rejected);
 
-    rateLimiter(
-      mockRequest as Request,
-      mockResponse as Response,
-      mockNext
-    );
-
-    await jest.runAllTimersAsync();
-    await Promise.resolve();
+    await run();
 
     expect(mockNext).toHaveBeenCalled();
     const error = (mockNext as jest.Mock).mock.calls[0][0];
@@ -106,24 +119,19 @@ describe('Rate Limiter Middleware', () => {
     expect(error.statusCode).toBe(429);
     expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Limit', '100');
     expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Remaining', '0');
-    expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', expect.any(String));
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', '2');
   });
 
-  it('should skip rate limiting when no tenant ID', () => {
-    mockRequest.context = undefined;
+  it('should record a violation metric on rejection', async () => {
+    (redisService.takeTokens as jest.Mock).mockResolvedValue(rejected);
 
-    rateLimiter(
-      mockRequest as Request,
-      mockResponse as Response,
-      mockNext
-    );
+    await run();
 
-    expect(mockNext).toHaveBeenCalled();
-    expect(mockNext).toHaveBeenCalledWith();
+    expect(metricsService.recordRateLimitViolation).toHaveBeenCalledWith('test-tenant', 'standard:write');
   });
 
-  it('should allow request when Redis fails (fail open)', async () => {
-    (redisService.get as jest.Mock).mockRejectedValue(new Error('Redis connection failed'));
+  it('should skip rate limiting when no tenant ID', () => {
+    mockRequest.context = undefined;
 
     rateLimiter(
       mockRequest as Request,
@@ -131,110 +139,118 @@ describe('Rate Limiter Middleware', () => {
       mockNext
     );
 
-    await jest.runAllTimersAsync();
-    await Promise.resolve();
-
     expect(mockNext).toHaveBeenCalled();
     expect(mockNext).toHaveBeenCalledWith();
   });
 
-  it('should increment counter correctly', async () => {
-    (redisService.get as jest.Mock).mockResolvedValue(5);
-    (redisService.set as jest.Mock).mockResolvedValue(true);
-
-    rateLimiter(
-      mockRequest as Request,
-      mockResponse as Response,
-      mockNext
-    );
-
-    await jest.runAllTimersAsync();
-    await Promise.resolve();
-
-    expect(redisService.set).toHaveBeenCalledWith(
-      expect.stringContaining('ratelimit:test-tenant'),
-      6,
-      expect.any(Number)
-    );
-  });
-
-  it('should calculate remaining requests correctly', async () => {
-    (redisService.get as jest.Mock).mockResolvedValue(75);
-    (redisService.set as jest.Mock).mockResolvedValue(true);
-
-    rateLimiter(
-      mockRequest as Request,
-      mockResponse as Response,
-      mockNext
-    );
+  it('should allow request when Redis fails (fail open)', async () => {
+    (redisService.takeTokens as jest.Mock).mockResolvedValue(null);
 
-    await jest.runAllTimersAsync();
-    await Promise.resolve();
+    await run();
 
-    expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Remaining', '24');
+    expect(mockNext).toHaveBeenCalledWith();
+    expect(mockResponse.setHeader).not.toHaveBeenCalled();
   });
 
-  it('should handle zero current count', async () => {
-    (redisService.get as jest.Mock).mockResolvedValue(0);
-    (redisService.set as jest.Mock).mockResolvedValue(true);
+  it('should allow request when the tenant lookup fails (fail open)', async () => {
+    (tenantRegistryService.getTenant as jest.Mock).mockRejectedValue(new Error('Redis connection failed'));
 
-    rateLimiter(
-      mockRequest as Request,
-      mockResponse as Response,
-      mockNext
-    );
+    await run();
 
-    await jest.runAllTimersAsync();
-    await Promise.resolve();
-
-    expect(redisService.set).toHaveBeenCalledWith(
-      expect.any(String),
-      1,
-      expect.any(Number)
-    );
+    expect(mockNext).toHaveBeenCalledWith();
   });
 
-  it('should handle null response from Redis', async () => {
-    (redisService.get as jest.Mock).mockResolvedValue(null);
-    (redisService.set as jest.Mock).mockResolvedValue(true);
-
-    rateLimiter(
-      mockRequest as Request,
-      mockResponse as Response,
-      mockNext
-    );
+  it('should size the bucket from the policy rate and burst', async () => {
+    config.rateLimit.burstFactor = 0.5;
+    (redisService.takeTokens as jest.Mock).mockResolvedValue(allowed(10));
 
-    await jest.runAllTimersAsync();
-    await Promise.resolve();
+    await run();
 
-    expect(redisService.set).toHaveBeenCalledWith(
-      expect.any(String),
-      1,
-      expect.any(Number)
-    );
-    expect(mockNext).toHaveBeenCalled();
+    expect(redisService.takeTokens).toHaveBeenCalledWith('ratelimit:test-tenant:write', {
+      capacity: 50,
+      refillPerMs: 100 / 60000,
+    });
   });
 
-  it('should set correct reset time header', async () => {
+  it('should set the reset time to when the bucket is full again', async () => {
     const now = Date.now();
     jest.setSystemTime(now);
-    
-    (redisService.get as jest.Mock).mockResolvedValue(10);
-    (redisService.set as jest.Mock).mockResolvedValue(true);
+    (redisService.takeTokens as jest.Mock).mockResolvedValue({ ...allowed(10), resetMs: 30000 });
 
-    rateLimiter(
-      mockRequest as Request,
-      mockResponse as Response,
-      mockNext
-    );
+    await run();
 
-    await jest.runAllTimersAsync();
-    await Promise.resolve();
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Reset', new Date(now + 30000).toISOString());
+  });
 
-    expect(mockResponse.setHeader).toHaveBeenCalledWith(
-      'X-RateLimit-Reset',
-      expect.any(String)
-    );
+  describe('policies', () => {
+    beforeEach(() => {
+      config.rateLimit.tiers = {
+        standard: { search: 20, write: 10 },
+        premium: { search: 500, write: 200, read: 1000 },
+      };
+      (redisService.takeTokens as jest.Mock).mockResolvedValue(allowed(5));
+    });
+
+    it('should report the default tier policy of the route group', async () => {
+      await run(rateLimit('search'));
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Policy', 'standard:search');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Limit', '20');
+    });
+
+    it('should count each route group in its own bucket', async () => {
+      await run(rateLimit('search'));
+      mockRequest = { ...mockRequest, method: 'GET' };
+      await run();
+
+      const keys = (redisService.takeTokens as jest.Mock).mock.calls.map((call) => call[0]);
+      expect(keys).toEqual(['ratelimit:test-tenant:search', 'ratelimit:test-tenant:read']);
+      // The tier does not name read, so the global limit applies
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Policy', 'standard:read');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Limit', '100');
+    });
+
+    it('should apply the tenant tier and overrides', async () => {
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue({
+        id: 'test-tenant',
+        tier: 'premium',
+        rateLimits: { write: 5 },
+      });
+
+      await run(rateLimit('search'));
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Policy', 'premium:search');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Limit', '500');
+
+      await run(rateLimit('write'));
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Policy', 'tenant:write');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Limit', '5');
+    });
+
+    it('should reject every request to a group limited to 0 without asking Redis', async () => {
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue({
+        id: 'test-tenant',
+        rateLimits: { write: 0 },
+      });
+
+      await run(rateLimit('write'));
+
+      const error = (mockNext as jest.Mock).mock.calls[0][0];
+      expect(error.statusCode).toBe(429);
+      expect(redisService.takeTokens).not.toHaveBeenCalled();
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Limit', '0');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', '60');
+      expect(metricsService.recordRateLimitViolation).toHaveBeenCalledWith('test-tenant', 'tenant:write');
+    });
+
+    it('should name the route group when rejecting', async () => {
+      (redisService.takeTokens as jest.Mock).mockResolvedValue(rejected);
+
+      await run();
+
+      const error = (mockNext as jest.Mock).mock.calls[0][0];
+      expect(error.statusCode).toBe(429);
+      expect(error.message).toContain('Maximum 10 write requests');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-RateLimit-Policy', 'standard:write');
+    });
   });
 });
-
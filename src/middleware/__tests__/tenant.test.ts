@@ -1,5 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
 import { extractTenantId } from '../tenant';
+import { tenantRegistryService } from '../../services/tenantRegistry.service';
+import { AppError } from '../errorHandler';
+
+jest.mock('../../services/tenantRegistry.service', () => ({
+  tenantRegistryService: {
+    assertActive: jest.fn(),
+  },
+}));
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+// The registry lookup resolves asynchronously; let pending promises settle
+const flush = () => new Promise((resolve) => setImmediate(resolve));
 
 describe('Tenant Middleware', () => {
   let mockRequest: Partial<Request>;
@@ -7,6 +24,9 @@ describe('Tenant Middleware', () => {
   let mockNext: NextFunction;
 
   beforeEach(() => {
+    jest.clearAllMocks();
+    (tenantRegistryService.assertActive as jest.Mock).mockResolvedValue(undefined);
+
     mockRequest = {
       path: '/test',
       headers: {},
@@ -20,7 +40,7 @@ describe('Tenant Middleware', () => {
     mockNext = jest.fn();
   });
 
-  it('should extract valid tenant ID from header', () => {
+  it('should extract valid tenant ID from header', async () => {
     mockRequest.headers = {
       'x-tenant-id': 'tenant-123',
     };
@@ -30,6 +50,7 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     expect(mockRequest.context).toBeDefined();
     expect(mockRequest.context?.tenantId).toBe('tenant-123');
@@ -37,7 +58,7 @@ describe('Tenant Middleware', () => {
     expect(mockResponse.status).not.toHaveBeenCalled();
   });
 
-  it('should reject missing tenant ID header', () => {
+  it('should reject missing tenant ID header', async () => {
     mockRequest.headers = {};
 
     extractTenantId(
@@ -45,6 +66,7 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     expect(mockResponse.status).toHaveBeenCalledWith(400);
     expect(mockResponse.json).toHaveBeenCalledWith({
@@ -53,7 +75,7 @@ describe('Tenant Middleware', () => {
     expect(mockNext).not.toHaveBeenCalled();
   });
 
-  it('should reject tenant ID with invalid characters', () => {
+  it('should reject tenant ID with invalid characters', async () => {
     mockRequest.headers = {
       'x-tenant-id': 'tenant@123',
     };
@@ -63,6 +85,7 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     expect(mockResponse.status).toHaveBeenCalledWith(400);
     expect(mockResponse.json).toHaveBeenCalledWith({
@@ -71,7 +94,7 @@ describe('Tenant Middleware', () => {
     expect(mockNext).not.toHaveBeenCalled();
   });
 
-  it('should reject tenant ID with spaces', () => {
+  it('should reject tenant ID with spaces', async () => {
     mockRequest.headers = {
       'x-tenant-id': 'tenant 123',
     };
@@ -81,12 +104,13 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     expect(mockResponse.status).toHaveBeenCalledWith(400);
     expect(mockNext).not.toHaveBeenCalled();
   });
 
-  it('should accept tenant ID with hyphens', () => {
+  it('should accept tenant ID with hyphens', async () => {
     mockRequest.headers = {
       'x-tenant-id': 'tenant-123-abc',
     };
@@ -96,12 +120,13 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     expect(mockRequest.context?.tenantId).toBe('tenant-123-abc');
     expect(mockNext).toHaveBeenCalled();
   });
 
-  it('should accept tenant ID with underscores', () => {
+  it('should accept tenant ID with underscores', async () => {
     mockRequest.headers = {
       'x-tenant-id': 'tenant_123_abc',
     };
@@ -111,12 +136,13 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     expect(mockRequest.context?.tenantId).toBe('tenant_123_abc');
     expect(mockNext).toHaveBeenCalled();
   });
 
-  it('should accept tenant ID with numbers', () => {
+  it('should accept tenant ID with numbers', async () => {
     mockRequest.headers = {
       'x-tenant-id': '123456',
     };
@@ -126,12 +152,13 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     expect(mockRequest.context?.tenantId).toBe('123456');
     expect(mockNext).toHaveBeenCalled();
   });
 
-  it('should accept tenant ID with mixed alphanumeric', () => {
+  it('should accept tenant ID with mixed alphanumeric', async () => {
     mockRequest.headers = {
       'x-tenant-id': 'tenant123ABC',
     };
@@ -141,12 +168,13 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     expect(mockRequest.context?.tenantId).toBe('tenant123ABC');
     expect(mockNext).toHaveBeenCalled();
   });
 
-  it('should reject empty tenant ID', () => {
+  it('should reject empty tenant ID', async () => {
     mockRequest.headers = {
       'x-tenant-id': '',
     };
@@ -156,12 +184,13 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     expect(mockResponse.status).toHaveBeenCalledWith(400);
     expect(mockNext).not.toHaveBeenCalled();
   });
 
-  it('should reject tenant ID that is too long', () => {
+  it('should reject tenant ID that is too long', async () => {
     const longTenantId = 'a'.repeat(101);
     mockRequest.headers = {
       'x-tenant-id': longTenantId,
@@ -172,12 +201,13 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     expect(mockResponse.status).toHaveBeenCalledWith(400);
     expect(mockNext).not.toHaveBeenCalled();
   });
 
-  it('should accept tenant ID at maximum length', () => {
+  it('should accept tenant ID at maximum length', async () => {
     const maxTenantId = 'a'.repeat(100);
     mockRequest.headers = {
       'x-tenant-id': maxTenantId,
@@ -188,12 +218,13 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     expect(mockRequest.context?.tenantId).toBe(maxTenantId);
     expect(mockNext).toHaveBeenCalled();
   });
 
-  it('should handle case-insensitive header name', () => {
+  it('should handle case-insensitive header name', async () => {
     mockRequest.headers = {
       'X-TENANT-ID': 'tenant-123',
     } as any;
@@ -203,6 +234,7 @@ describe('Tenant Middleware', () => {
       mockResponse as Response,
       mockNext
     );
+    await flush();
 
     // Express normalizes headers to lowercase, so this should work
     // But if it doesn't, we'd need to handle it
@@ -210,5 +242,31 @@ describe('Tenant Middleware', () => {
       expect(mockRequest.context.tenantId).toBe('tenant-123');
     }
   });
-});
 
+  it('should reject a tenant that is not registered', async () => {
+    (tenantRegistryService.assertActive as jest.Mock).mockRejectedValue(new AppError(404, 'Tenant not found'));
+    mockRequest.headers = {
+      'x-tenant-id': 'tenant-typo',
+    };
+
+    extractTenantId(mockRequest as Request, mockResponse as Response, mockNext);
+    await flush();
+
+    expect(tenantRegistryService.assertActive).toHaveBeenCalledWith('tenant-typo');
+    expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 404 }));
+    expect(mockRequest.context).toBeUndefined();
+  });
+
+  it('should reject a suspended tenant', async () => {
+    (tenantRegistryService.assertActive as jest.Mock).mockRejectedValue(new AppError(403, 'Tenant is suspended'));
+    mockRequest.headers = {
+      'x-tenant-id': 'tenant-123',
+    };
+
+    extractTenantId(mockRequest as Request, mockResponse as Response, mockNext);
+    await flush();
+
+    expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+    expect(mockRequest.context).toBeUndefined();
+  });
+});
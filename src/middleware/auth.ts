@@ -0,0 +1,241 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { apiKeyService } from '../services/apiKey.service';
+import { jwtService } from '../services/jwt.service';
+import { tenantRegistryService } from '../services/tenantRegistry.service';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { hashString } from '../utils/hash';
+import { AppError } from './errorHandler';
+import { extractTenantId, TenantIdSchema } from './tenant';
+import { ApiKeyScope } from '../types';
+
+function getBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header) {
+    return undefined;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  return match ? match[1].trim() : undefined;
+}
+
+function unauthorized(res: Response, message: string): AppError {
+  res.setHeader('WWW-Authenticate', 'Bearer');
+  return new AppError(401, message);
+}
+
+function isAdminToken(token: string): boolean {
+  if (!config.auth.adminToken) {
+    return false;
+  }
+  // Compare fixed-length digests so the comparison is constant-time
+  return crypto.timingSafeEqual(
+    Buffer.from(hashString(token), 'hex'),
+    Buffer.from(hashString(config.auth.adminToken), 'hex')
+  );
+}
+
+function hasScope(scopes: ApiKeyScope[], required: ApiKeyScope): boolean {
+  return scopes.includes('admin') || scopes.includes(required);
+}
+
+function authenticateJwt(req: Request, res: Response, next: NextFunction, token: string): void {
+  let principal;
+  try {
+    principal = jwtService.verify(token);
+  } catch (error) {
+    logger.warn('Invalid bearer token', { path: req.path, error: (error as Error).message });
+    if (error instanceof AppError && error.statusCode === 401) {
+      res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    }
+    next(error);
+    return;
+  }
+
+  if (!TenantIdSchema.safeParse(principal.tenantId).success) {
+    next(new AppError(403, 'Token tenant claim is not a valid tenant ID'));
+    return;
+  }
+
+  const headerTenantId = req.headers['x-tenant-id'] as string | undefined;
+  if (headerTenantId && headerTenantId !== principal.tenantId) {
+    logger.warn('Tenant header does not match token', { path: req.path, userId: principal.userId });
+    next(new AppError(403, 'X-Tenant-Id does not match the tenant of the token'));
+    return;
+  }
+
+  tenantRegistryService.assertActive(principal.tenantId).then(() => {
+    req.context = {
+      tenantId: principal.tenantId,
+      userId: principal.userId,
+      roles: principal.roles,
+      groups: principal.groups,
+      department: principal.department,
+      scopes: principal.scopes,
+    };
+    next();
+  }, next);
+}
+
+/**
+ * Refuse to start with JWT authentication while AUTH_REQUIRED is off: a caller could drop
+ * its token and send X-Tenant-Id instead, acting for the whole tenant past document ACLs.
+ */
+export function assertAuthConfig(): void {
+  if (jwtService.isEnabled() && !config.auth.required) {
+    throw new Error('JWT authentication requires AUTH_REQUIRED=true');
+  }
+}
+
+/**
+ * Authenticate tenant requests.
+ * A Bearer API key or SSO-issued JWT determines the tenant; an X-Tenant-Id header, if also sent, must agree.
+ * Without credentials, falls back to the X-Tenant-Id header unless AUTH_REQUIRED is set.
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  const token = getBearerToken(req);
+
+  if (!token) {
+    if (config.auth.required) {
+      logger.warn('Missing API key', { path: req.path });
+      next(unauthorized(res, 'Missing or invalid Authorization header'));
+      return;
+    }
+    extractTenantId(req, res, next);
+    return;
+  }
+
+  if (!apiKeyService.isApiKey(token) && jwtService.isEnabled() && jwtService.isJwt(token)) {
+    authenticateJwt(req, res, next, token);
+    return;
+  }
+
+  (async () => {
+    try {
+      const apiKey = await apiKeyService.verifyKey(token);
+      if (!apiKey) {
+        logger.warn('Invalid API key', { path: req.path });
+        next(unauthorized(res, 'Invalid API key'));
+        return;
+      }
+
+      const headerTenantId = req.headers['x-tenant-id'] as string | undefined;
+      if (headerTenantId && headerTenantId !== apiKey.tenantId) {
+        logger.warn('Tenant header does not match API key', { path: req.path, keyId: apiKey.id });
+        next(new AppError(403, 'X-Tenant-Id does not match the tenant of the API key'));
+        return;
+      }
+
+      await tenantRegistryService.assertActive(apiKey.tenantId);
+
+      req.context = {
+        tenantId: apiKey.tenantId,
+        apiKeyId: apiKey.id,
+        scopes: apiKey.scopes,
+      };
+      next();
+    } catch (error) {
+      next(error);
+    }
+  })();
+}
+
+/**
+ * Require a scope on the authenticated API key. Legacy header-only requests carry no
+ * scopes and are let through (they are only possible when AUTH_REQUIRED is off).
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const scopes = req.context?.scopes;
+    if (scopes && !hasScope(scopes, scope)) {
+      logger.warn('Insufficient API key scope', { path: req.path, required: scope, tenantId: req.context?.tenantId });
+      next(new AppError(403, `API key lacks required scope: ${scope}`));
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Require `read` for safe methods and `write` for everything else
+ */
+export function authorizeByMethod(req: Request, res: Response, next: NextFunction): void {
+  const scope: ApiKeyScope = ['GET', 'HEAD', 'OPTIONS'].includes(req.method) ? 'read' : 'write';
+  requireScope(scope)(req, res, next);
+}
+
+/**
+ * Guard for /tenants/:tenantId/* management routes.
+ * Accepts the bootstrap admin token, or an API key with `admin` scope for that same tenant
+ * while the tenant is active.
+ */
+export function requireTenantAdmin(req: Request, res: Response, next: NextFunction): void {
+  const tenantResult = TenantIdSchema.safeParse(req.params.tenantId);
+  if (!tenantResult.success) {
+    next(new AppError(400, 'Invalid tenant ID format. Must be alphanumeric with hyphens/underscores.'));
+    return;
+  }
+  const tenantId = tenantResult.data;
+
+  const token = getBearerToken(req);
+  if (!token) {
+    next(unauthorized(res, 'Missing or invalid Authorization header'));
+    return;
+  }
+
+  if (isAdminToken(token)) {
+    // The service admin may still manage a suspended tenant, but not an unknown one
+    tenantRegistryService.getTenant(tenantId).then((tenant) => {
+      if (!tenant && config.tenants.registryRequired) {
+        next(new AppError(404, 'Tenant not found'));
+        return;
+      }
+      req.context = { tenantId, scopes: ['admin'], admin: true };
+      next();
+    }, next);
+    return;
+  }
+
+  (async () => {
+    try {
+      const apiKey = await apiKeyService.verifyKey(token);
+      if (!apiKey) {
+        next(unauthorized(res, 'Invalid API key'));
+        return;
+      }
+
+      if (apiKey.tenantId !== tenantId || !apiKey.scopes.includes('admin')) {
+        logger.warn('API key not allowed to administer tenant', { tenantId, keyId: apiKey.id });
+        next(new AppError(403, 'API key is not an admin key for this tenant'));
+        return;
+      }
+
+      await tenantRegistryService.assertActive(tenantId);
+
+      req.context = { tenantId, apiKeyId: apiKey.id, scopes: apiKey.scopes };
+      next();
+    } catch (error) {
+      next(error);
+    }
+  })();
+}
+
+/**
+ * Guard for /admin routes, which act on the whole service rather than one tenant.
+ * Only the bootstrap admin token is accepted.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const token = getBearerToken(req);
+  if (!token) {
+    next(unauthorized(res, 'Missing or invalid Authorization header'));
+    return;
+  }
+
+  if (!isAdminToken(token)) {
+    logger.warn('Non-admin credentials on admin route', { path: req.path });
+    next(new AppError(403, 'Admin token required'));
+    return;
+  }
+
+  next();
+}
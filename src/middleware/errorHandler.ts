@@ -12,6 +12,16 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * 503 for load the service sheds; the client is told when to retry
+ */
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(503, message);
+    Object.setPrototypeOf(this, ServiceUnavailableError.prototype);
+  }
+}
+
 export function errorHandler(
   err: Error | AppError,
   req: Request,
@@ -26,6 +36,10 @@ export function errorHandler(
       tenantId: req.context?.tenantId,
     });
 
+    if (err instanceof ServiceUnavailableError) {
+      res.setHeader('Retry-After', err.retryAfterSeconds.toString());
+    }
+
     res.status(err.statusCode).json({
       error: err.message,
     });
@@ -1,66 +1,86 @@
 import { Request, Response, NextFunction } from 'express';
 import { redisService } from '../services/redis.service';
-import { config } from '../config';
+import { tenantRegistryService } from '../services/tenantRegistry.service';
+import { metricsService } from '../services/metrics.service';
+import { resolveRateLimitPolicy } from '../utils/rateLimit';
 import logger from '../utils/logger';
 import { AppError } from './errorHandler';
+import { RateLimitGroup } from '../types';
 
-export function rateLimiter(req: Request, res: Response, next: NextFunction): void {
-  const tenantId = req.context?.tenantId;
-  
-  if (!tenantId) {
-    // If no tenant ID, skip rate limiting (shouldn't happen if tenant middleware runs first)
-    next();
-    return;
-  }
+/**
+ * Rate limit requests per tenant and route group. Each group has its own bucket, so a
+ * burst of searches does not use up the budget for writes. The limit comes from the
+ * tenant's tier or its overrides; see resolveRateLimitPolicy.
+ *
+ * Buckets are token buckets in Redis, updated atomically by a script: they hold up to
+ * the policy's burst and refill at maxRequests per window.
+ *
+ * Without a fixed group, safe methods count as `read` and everything else as `write`.
+ */
+export function rateLimit(group?: RateLimitGroup) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const tenantId = req.context?.tenantId;
 
-  // Use async IIFE to handle Redis calls
-  (async () => {
-    try {
-      const key = `ratelimit:${tenantId}`;
-      const windowMs = config.rateLimit.windowMs;
-      const maxRequests = config.rateLimit.maxRequests;
-      const now = Date.now();
-      const windowStart = Math.floor(now / windowMs) * windowMs;
-      const resetTime = windowStart + windowMs;
+    if (!tenantId) {
+      // If no tenant ID, skip rate limiting (shouldn't happen if tenant middleware runs first)
+      next();
+      return;
+    }
+
+    const routeGroup = group || (['GET', 'HEAD', 'OPTIONS'].includes(req.method) ? 'read' : 'write');
 
-      // Get current count
-      const countKey = `${key}:${windowStart}`;
-      const currentCount = await redisService.get<number>(countKey) || 0;
+    // Use async IIFE to handle Redis calls
+    (async () => {
+      try {
+        const policy = resolveRateLimitPolicy(await tenantRegistryService.getTenant(tenantId), routeGroup);
+        const { windowMs, maxRequests } = policy;
 
-      if (currentCount >= maxRequests) {
-        const retryAfter = Math.ceil((resetTime - now) / 1000);
+        // A limit of 0 blocks the group outright; a bucket that never refills has no expiry
+        const bucket =
+          maxRequests > 0
+            ? await redisService.takeTokens(`ratelimit:${tenantId}:${routeGroup}`, {
+                capacity: policy.burst,
+                refillPerMs: maxRequests / windowMs,
+              })
+            : { allowed: false, remaining: 0, retryAfterMs: windowMs, resetMs: windowMs };
+        if (!bucket) {
+          // Redis unavailable: fail open
+          next();
+          return;
+        }
+
+        res.setHeader('X-RateLimit-Policy', policy.name);
         res.setHeader('X-RateLimit-Limit', maxRequests.toString());
-        res.setHeader('X-RateLimit-Remaining', '0');
-        res.setHeader('X-RateLimit-Reset', new Date(resetTime).toISOString());
-        res.setHeader('Retry-After', retryAfter.toString());
+        res.setHeader('X-RateLimit-Remaining', bucket.remaining.toString());
+        res.setHeader('X-RateLimit-Reset', new Date(Date.now() + bucket.resetMs).toISOString());
 
-        logger.warn('Rate limit exceeded', { tenantId, currentCount, maxRequests });
-        
-        const error = new AppError(
-          429,
-          `Rate limit exceeded. Maximum ${maxRequests} requests per ${windowMs / 1000} seconds. Retry after ${retryAfter} seconds.`
-        );
-        next(error);
-        return;
-      }
+        if (!bucket.allowed) {
+          const retryAfter = Math.max(1, Math.ceil(bucket.retryAfterMs / 1000));
+          res.setHeader('Retry-After', retryAfter.toString());
 
-      // Increment counter
-      const newCount = currentCount + 1;
-      await redisService.set(countKey, newCount, Math.ceil(windowMs / 1000));
+          metricsService.recordRateLimitViolation(tenantId, policy.name);
+          logger.warn('Rate limit exceeded', { tenantId, policy: policy.name, maxRequests, burst: policy.burst });
 
-      res.setHeader('X-RateLimit-Limit', maxRequests.toString());
-      res.setHeader('X-RateLimit-Remaining', Math.max(0, maxRequests - newCount).toString());
-      res.setHeader('X-RateLimit-Reset', new Date(resetTime).toISOString());
+          const error = new AppError(
+            429,
+            `Rate limit exceeded. Maximum ${maxRequests} ${routeGroup} requests per ${windowMs / 1000} seconds. Retry after ${retryAfter} seconds.`
+          );
+          next(error);
+          return;
+        }
 
-      next();
-    } catch (error) {
-      // If Redis fails, log but allow request (fail open)
-      logger.error('Rate limiter error', {
-        error: (error as Error).message,
-        tenantId,
-      });
-      next();
-    }
-  })();
+        next();
+      } catch (error) {
+        // If Redis fails, log but allow request (fail open)
+        logger.error('Rate limiter error', {
+          error: (error as Error).message,
+          tenantId,
+        });
+        next();
+      }
+    })();
+  };
 }
 
+// Read/write limits by request method
+export const rateLimiter = rateLimit();
@@ -1,8 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import { tenantRegistryService } from '../services/tenantRegistry.service';
 import logger from '../utils/logger';
 
-const TenantIdSchema = z.string().min(1).max(100).regex(/^[a-zA-Z0-9_-]+$/);
+export const TenantIdSchema = z.string().min(1).max(100).regex(/^[a-zA-Z0-9_-]+$/);
 
 export function extractTenantId(req: Request, res: Response, next: NextFunction): void {
   const tenantId = req.headers['x-tenant-id'] as string;
@@ -24,10 +25,17 @@ export function extractTenantId(req: Request, res: Response, next: NextFunction)
     return;
   }
 
-  req.context = {
-    tenantId: validationResult.data,
-  };
-
-  next();
+  tenantRegistryService.assertActive(validationResult.data).then(
+    () => {
+      req.context = {
+        tenantId: validationResult.data,
+      };
+      next();
+    },
+    (error) => {
+      logger.warn('Tenant rejected', { tenantId, path: req.path, error: (error as Error).message });
+      next(error);
+    }
+  );
 }
 
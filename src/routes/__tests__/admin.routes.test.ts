@@ -0,0 +1,292 @@
+import request from 'supertest';
+import express from 'express';
+import adminRoutes from '../admin.routes';
+import { indexMigrationService } from '../../services/indexMigration.service';
+import { tenantRegistryService } from '../../services/tenantRegistry.service';
+import { tenantDeletionService } from '../../services/tenantDeletion.service';
+import { quotaService } from '../../services/quota.service';
+import { errorHandler, AppError } from '../../middleware/errorHandler';
+
+jest.mock('../../services/indexMigration.service', () => ({
+  indexMigrationService: {
+    getStatus: jest.fn(),
+    startMigration: jest.fn(),
+    startTenantMove: jest.fn(),
+  },
+}));
+jest.mock('../../services/tenantRegistry.service', () => ({
+  tenantRegistryService: {
+    createTenant: jest.fn(),
+    getTenant: jest.fn(),
+    listTenants: jest.fn(),
+    setStatus: jest.fn(),
+    removeTenant: jest.fn(),
+    setQuotas: jest.fn(),
+    setRateLimits: jest.fn(),
+  },
+}));
+jest.mock('../../services/tenantDeletion.service', () => ({
+  tenantDeletionService: {
+    startDeletion: jest.fn(),
+  },
+}));
+jest.mock('../../services/quota.service', () => ({
+  quotaService: {
+    getUsage: jest.fn(),
+  },
+}));
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/admin', adminRoutes);
+app.use(errorHandler);
+
+describe('Admin Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the index status', async () => {
+    const status = {
+      alias: 'documents',
+      indices: ['documents'],
+      currentVersion: 0,
+      targetVersion: 2,
+      upToDate: false,
+      dedicated: [],
+    };
+    (indexMigrationService.getStatus as jest.Mock).mockResolvedValue(status);
+
+    const response = await request(app).get('/admin/index');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(status);
+  });
+
+  it('should start a migration in the background', async () => {
+    const migration = {
+      status: 'running',
+      alias: 'documents',
+      source: 'documents',
+      target: 'documents_v3',
+      startedAt: '2024-01-01T00:00:00Z',
+    };
+    (indexMigrationService.startMigration as jest.Mock).mockResolvedValue([migration]);
+
+    const response = await request(app).post('/admin/index/migrate').send({ deleteOld: true });
+
+    expect(response.status).toBe(202);
+    expect(response.headers.location).toBe('/admin/index');
+    expect(response.body).toEqual({ migrations: [migration] });
+    expect(indexMigrationService.startMigration).toHaveBeenCalledWith({ deleteOld: true });
+  });
+
+  it('should report a migration that cannot start as a conflict', async () => {
+    (indexMigrationService.startMigration as jest.Mock).mockRejectedValue(
+      new AppError(409, 'An index migration is already running')
+    );
+
+    const response = await request(app).post('/admin/index/migrate');
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should validate the request body', async () => {
+    const response = await request(app).post('/admin/index/migrate').send({ deleteOld: 'yes' });
+
+    expect(response.status).toBe(400);
+    expect(indexMigrationService.startMigration).not.toHaveBeenCalled();
+  });
+
+  describe('PUT /admin/tenants/:tenantId/placement', () => {
+    it('should start moving the tenant', async () => {
+      const migration = {
+        status: 'running',
+        alias: 'documents-tenant-big',
+        tenantId: 'big',
+        placement: 'dedicated',
+        source: 'documents',
+        target: 'documents-tenant-big_v3',
+      };
+      (indexMigrationService.startTenantMove as jest.Mock).mockResolvedValue(migration);
+
+      const response = await request(app).put('/admin/tenants/big/placement').send({ placement: 'dedicated' });
+
+      expect(response.status).toBe(202);
+      expect(response.headers.location).toBe('/admin/index');
+      expect(response.body).toEqual(migration);
+      expect(indexMigrationService.startTenantMove).toHaveBeenCalledWith('big', 'dedicated');
+    });
+
+    it('should reject an unknown placement', async () => {
+      const response = await request(app).put('/admin/tenants/big/placement').send({ placement: 'own' });
+
+      expect(response.status).toBe(400);
+      expect(indexMigrationService.startTenantMove).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid tenant ID', async () => {
+      const response = await request(app).put('/admin/tenants/bad%20id/placement').send({ placement: 'dedicated' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('tenant lifecycle', () => {
+    const tenant = {
+      id: 'tenant-1',
+      name: 'Acme',
+      status: 'active',
+      placement: 'shared',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    };
+
+    it('should create a tenant', async () => {
+      (tenantRegistryService.createTenant as jest.Mock).mockResolvedValue(tenant);
+
+      const response = await request(app).post('/admin/tenants').send({ id: 'tenant-1', name: 'Acme' });
+
+      expect(response.status).toBe(201);
+      expect(response.headers.location).toBe('/admin/tenants/tenant-1');
+      expect(response.body).toEqual(tenant);
+      expect(tenantRegistryService.createTenant).toHaveBeenCalledWith('tenant-1', { name: 'Acme' });
+    });
+
+    it('should reject an invalid tenant ID on creation', async () => {
+      const response = await request(app).post('/admin/tenants').send({ id: 'bad id' });
+
+      expect(response.status).toBe(400);
+      expect(tenantRegistryService.createTenant).not.toHaveBeenCalled();
+    });
+
+    it('should list and get tenants', async () => {
+      (tenantRegistryService.listTenants as jest.Mock).mockResolvedValue([tenant]);
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue(tenant);
+
+      const list = await request(app).get('/admin/tenants');
+      const single = await request(app).get('/admin/tenants/tenant-1');
+
+      expect(list.body).toEqual({ tenants: [tenant] });
+      expect(single.body).toEqual(tenant);
+    });
+
+    it('should return 404 for an unknown tenant', async () => {
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app).get('/admin/tenants/tenant-2');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should suspend and resume a tenant', async () => {
+      (tenantRegistryService.setStatus as jest.Mock).mockImplementation(async (_id: string, status: string) => ({
+        ...tenant,
+        status,
+      }));
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue({ ...tenant, status: 'suspended' });
+
+      const suspended = await request(app).post('/admin/tenants/tenant-1/suspend');
+      const resumed = await request(app).post('/admin/tenants/tenant-1/resume');
+
+      expect(suspended.body.status).toBe('suspended');
+      expect(resumed.body.status).toBe('active');
+      expect(tenantRegistryService.setStatus).toHaveBeenNthCalledWith(1, 'tenant-1', 'suspended');
+      expect(tenantRegistryService.setStatus).toHaveBeenNthCalledWith(2, 'tenant-1', 'active');
+    });
+
+    it('should not resume a tenant that is being deleted', async () => {
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue({ ...tenant, status: 'deleting' });
+
+      const response = await request(app).post('/admin/tenants/tenant-1/resume');
+
+      expect(response.status).toBe(409);
+      expect(tenantRegistryService.setStatus).not.toHaveBeenCalled();
+    });
+
+    it('should start purging the tenant and point to its record', async () => {
+      (tenantDeletionService.startDeletion as jest.Mock).mockResolvedValue({ ...tenant, status: 'deleting' });
+
+      const response = await request(app).delete('/admin/tenants/tenant-1');
+
+      expect(response.status).toBe(202);
+      expect(response.headers.location).toBe('/admin/tenants/tenant-1');
+      expect(response.body).toMatchObject({ id: 'tenant-1', status: 'deleting' });
+      expect(tenantDeletionService.startDeletion).toHaveBeenCalledWith('tenant-1');
+    });
+
+    it('should return 404 when deleting an unknown tenant', async () => {
+      (tenantDeletionService.startDeletion as jest.Mock).mockRejectedValue(new AppError(404, 'Tenant not found'));
+
+      const response = await request(app).delete('/admin/tenants/tenant-2');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PUT /admin/tenants/:tenantId/quotas', () => {
+    it('should override quotas and return the usage against them', async () => {
+      const usage = {
+        tenantId: 'tenant-1',
+        documents: 10,
+        contentBytes: 2048,
+        limits: { maxDocuments: 1000, maxContentBytes: 0, maxDocumentBytes: 0 },
+      };
+      (quotaService.getUsage as jest.Mock).mockResolvedValue(usage);
+
+      const response = await request(app)
+        .put('/admin/tenants/tenant-1/quotas')
+        .send({ maxDocuments: 1000, maxContentBytes: null });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(usage);
+      expect(tenantRegistryService.setQuotas).toHaveBeenCalledWith('tenant-1', {
+        maxDocuments: 1000,
+        maxContentBytes: null,
+      });
+    });
+
+    it('should reject negative and unknown limits', async () => {
+      const negative = await request(app).put('/admin/tenants/tenant-1/quotas').send({ maxDocuments: -1 });
+      const unknown = await request(app).put('/admin/tenants/tenant-1/quotas').send({ maxTags: 10 });
+
+      expect(negative.status).toBe(400);
+      expect(unknown.status).toBe(400);
+      expect(tenantRegistryService.setQuotas).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /admin/tenants/:tenantId/rate-limits', () => {
+    it('should assign the tier and overrides', async () => {
+      const tenant = { id: 'tenant-1', status: 'active', tier: 'standard', rateLimits: { search: 50 } };
+      (tenantRegistryService.setRateLimits as jest.Mock).mockResolvedValue(tenant);
+
+      const response = await request(app)
+        .put('/admin/tenants/tenant-1/rate-limits')
+        .send({ tier: 'standard', limits: { search: 50, write: null } });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(tenant);
+      expect(tenantRegistryService.setRateLimits).toHaveBeenCalledWith('tenant-1', {
+        tier: 'standard',
+        limits: { search: 50, write: null },
+      });
+    });
+
+    it('should reject unknown tiers and route groups', async () => {
+      const tier = await request(app).put('/admin/tenants/tenant-1/rate-limits').send({ tier: 'gold' });
+      const group = await request(app).put('/admin/tenants/tenant-1/rate-limits').send({ limits: { admin: 5 } });
+
+      expect(tier.status).toBe(400);
+      expect(tier.body.error).toBe("Unknown rate limit tier 'gold'");
+      expect(group.status).toBe(400);
+      expect(tenantRegistryService.setRateLimits).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -3,11 +3,18 @@ import express, { Request, Response, NextFunction } from 'express';
 import documentsRoutes from '../documents.routes';
 import { opensearchService } from '../../services/opensearch.service';
 import { cacheService } from '../../services/cache.service';
-import { errorHandler } from '../../middleware/errorHandler';
+import { quotaService } from '../../services/quota.service';
+import { redisService } from '../../services/redis.service';
+import { tenantRegistryService } from '../../services/tenantRegistry.service';
+import { errorHandler, AppError } from '../../middleware/errorHandler';
+import { TenantUsage } from '../../types';
+import { RedisFake, installRedisFake } from '../../__tests__/helpers';
 
 jest.mock('../../services/opensearch.service');
 jest.mock('../../services/redis.service');
 jest.mock('../../services/cache.service');
+jest.mock('../../services/quota.service');
+jest.mock('../../services/tenantRegistry.service');
 jest.mock('../../utils/logger', () => ({
   info: jest.fn(),
   warn: jest.fn(),
@@ -19,7 +26,7 @@ jest.mock('../../utils/logger', () => ({
 const mockTenantMiddleware = (req: Request,_res: Response, next: NextFunction) => {
   const tenantId = req.headers['x-tenant-id'] as string;
   if (tenantId) {
-    req.context = { tenantId };
+    req.context = { tenantId, userId: req.headers['x-user-id'] as string | undefined };
   }
   next();
 };
@@ -29,9 +36,38 @@ app.use(express.json());
 app.use('/documents', mockTenantMiddleware, documentsRoutes);
 app.use(errorHandler);
 
+const usage: TenantUsage = {
+  tenantId: 'tenant-1',
+  documents: 41,
+  contentBytes: 5000,
+  limits: { maxDocuments: 100, maxContentBytes: 0, maxDocumentBytes: 0 },
+};
+
+// Single-document updates and deletes run through the real quota accounting
+const actualQuotaService = jest.requireActual('../../services/quota.service').quotaService;
+
 describe('Documents Routes', () => {
+  let redis: RedisFake;
+
   beforeEach(() => {
     jest.clearAllMocks();
+    redis = installRedisFake(redisService);
+    redis.store['quota:tenant-1:documents'] = 41;
+    redis.store['quota:tenant-1:bytes'] = 5000;
+    (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue({ id: 'tenant-1', status: 'active' });
+    (opensearchService.getContentSizes as jest.Mock).mockResolvedValue(new Map());
+    (quotaService.executeUpdate as jest.Mock).mockImplementation((...args) => actualQuotaService.executeUpdate(...args));
+    (quotaService.executeDelete as jest.Mock).mockImplementation((...args) => actualQuotaService.executeDelete(...args));
+    (quotaService.admitDocument as jest.Mock).mockResolvedValue({
+      rejections: [undefined],
+      reserved: { documents: 1, contentBytes: 12 },
+      usage,
+    });
+    // Quota checks pass everything through, so bulk tests see the OpenSearch results
+    (quotaService.executeBulk as jest.Mock).mockImplementation(async (tenantId, operations, principal) => ({
+      results: await opensearchService.bulk(tenantId, operations, principal),
+      usage,
+    }));
   });
 
   describe('POST /documents', () => {
@@ -42,7 +78,15 @@ describe('Documents Routes', () => {
         content: 'Test content',
       };
 
-      (opensearchService.indexDocument as jest.Mock).mockResolvedValue(undefined);
+      const generatedId = '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d';
+      (opensearchService.indexDocument as jest.Mock).mockResolvedValue({
+        ...document,
+        id: generatedId,
+        tenantId,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+        version: '0-1',
+      });
       (cacheService.invalidateTenantSearches as jest.Mock).mockResolvedValue(undefined);
 
       const response = await request(app)
@@ -51,9 +95,12 @@ describe('Documents Routes', () => {
         .send(document);
 
       expect(response.status).toBe(201);
-      expect(response.body).toHaveProperty('id');
+      expect(response.body).toHaveProperty('id', generatedId);
       expect(response.body).toHaveProperty('tenantId', tenantId);
       expect(response.body).toHaveProperty('status', 'indexed');
+      expect(response.body).toHaveProperty('version', '0-1');
+      expect(response.headers.location).toBe(`/documents/${generatedId}`);
+      expect(response.headers.etag).toBe('"0-1"');
       expect(opensearchService.indexDocument).toHaveBeenCalled();
       expect(cacheService.invalidateTenantSearches).toHaveBeenCalledWith(tenantId);
     });
@@ -70,7 +117,7 @@ describe('Documents Routes', () => {
         },
       };
 
-      (opensearchService.indexDocument as jest.Mock).mockResolvedValue(undefined);
+      (opensearchService.indexDocument as jest.Mock).mockResolvedValue({ ...document, id: 'doc-1', tenantId });
       (cacheService.invalidateTenantSearches as jest.Mock).mockResolvedValue(undefined);
 
       const response = await request(app)
@@ -86,8 +133,23 @@ describe('Documents Routes', () => {
           content: document.content,
           tags: document.tags,
           metadata: document.metadata,
-        })
+        }),
+        { createOnly: true }
+      );
+    });
+
+    it('should return 409 when the supplied id already exists', async () => {
+      (opensearchService.indexDocument as jest.Mock).mockRejectedValue(
+        new AppError(409, "Document with id 'doc-1' already exists")
       );
+
+      const response = await request(app)
+        .post('/documents')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({ id: 'doc-1', title: 'Test Document', content: 'Test content' });
+
+      expect(response.status).toBe(409);
+      expect(cacheService.invalidateTenantSearches).not.toHaveBeenCalled();
     });
 
     it('should reject document with missing title', async () => {
@@ -170,6 +232,179 @@ describe('Documents Routes', () => {
 
       expect(response.status).toBe(500);
       expect(response.body).toHaveProperty('error');
+      expect(quotaService.release).toHaveBeenCalledWith(tenantId, { documents: 1, contentBytes: 12 });
+    });
+
+    it('should report quota usage in headers', async () => {
+      (opensearchService.indexDocument as jest.Mock).mockResolvedValue({ id: 'doc-1', tenantId: 'tenant-1' });
+
+      const response = await request(app)
+        .post('/documents')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({ title: 'Test Document', content: 'Test content' });
+
+      expect(response.status).toBe(201);
+      expect(quotaService.admitDocument).toHaveBeenCalledWith('tenant-1', 'Test content', true);
+      expect(response.headers['x-quota-documents-used']).toBe('41');
+      expect(response.headers['x-quota-documents-limit']).toBe('100');
+      expect(response.headers['x-quota-storage-used']).toBe('5000');
+      expect(response.headers['x-quota-storage-limit']).toBeUndefined();
+    });
+
+    it('should reject documents beyond the quota without indexing them', async () => {
+      (quotaService.admitDocument as jest.Mock).mockRejectedValue(
+        new AppError(429, 'Document quota of 100 documents exceeded')
+      );
+
+      const response = await request(app)
+        .post('/documents')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({ title: 'Test Document', content: 'Test content' });
+
+      expect(response.status).toBe(429);
+      expect(response.body.error).toBe('Document quota of 100 documents exceeded');
+      expect(opensearchService.indexDocument).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /documents/_bulk', () => {
+    it('should execute a JSON array of operations', async () => {
+      const tenantId = 'tenant-1';
+
+      (opensearchService.bulk as jest.Mock).mockResolvedValue([
+        { position: 0, action: 'create', id: 'a', status: 201, result: 'created' },
+        { position: 1, action: 'update', id: 'b', status: 200, result: 'updated' },
+        { position: 2, action: 'delete', id: 'c', status: 200, result: 'deleted' },
+      ]);
+
+      const response = await request(app)
+        .post('/documents/_bulk')
+        .set('X-Tenant-Id', tenantId)
+        .send([
+          { action: 'create', document: { id: 'a', title: 'A', content: 'a' } },
+          { action: 'update', id: 'b', document: { title: 'B' } },
+          { action: 'delete', id: 'c' },
+        ]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.errors).toBe(false);
+      expect(response.body.items).toHaveLength(3);
+      expect(opensearchService.bulk).toHaveBeenCalledWith(
+        tenantId,
+        [
+          { action: 'create', document: { id: 'a', title: 'A', content: 'a', tenantId } },
+          { action: 'update', id: 'b', changes: { title: 'B' } },
+          { action: 'delete', id: 'c' },
+        ],
+        undefined
+      );
+      expect(cacheService.invalidateDocuments).toHaveBeenCalledWith(tenantId, ['b', 'c']);
+      expect(cacheService.invalidateTenantSearches).toHaveBeenCalledTimes(1);
+      expect(response.headers['x-quota-documents-used']).toBe('41');
+    });
+
+    it('should report operations rejected by the quota', async () => {
+      (quotaService.executeBulk as jest.Mock).mockResolvedValue({
+        results: [
+          { position: 0, action: 'create', id: 'a', status: 201, result: 'created' },
+          { position: 1, action: 'create', id: 'b', status: 429, error: 'Document quota of 100 documents exceeded' },
+        ],
+        usage,
+      });
+
+      const response = await request(app)
+        .post('/documents/_bulk')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send([
+          { action: 'create', document: { id: 'a', title: 'A', content: 'a' } },
+          { action: 'create', document: { id: 'b', title: 'B', content: 'b' } },
+        ]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.errors).toBe(true);
+      expect(response.body.items[1]).toMatchObject({ position: 1, status: 429 });
+    });
+
+    it('should limit the operations to documents the caller may access', async () => {
+      (opensearchService.bulk as jest.Mock).mockResolvedValue([
+        { position: 0, action: 'delete', id: 'a', status: 404, error: 'Document not found' },
+      ]);
+
+      const response = await request(app)
+        .post('/documents/_bulk')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('X-User-Id', 'alice')
+        .send([{ action: 'delete', id: 'a' }]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.items[0]).toMatchObject({ status: 404 });
+      expect(quotaService.executeBulk).toHaveBeenCalledWith('tenant-1', [{ action: 'delete', id: 'a' }], {
+        userId: 'alice',
+        groups: [],
+        departments: [],
+      });
+    });
+
+    it('should accept NDJSON bodies', async () => {
+      (opensearchService.bulk as jest.Mock).mockResolvedValue([
+        { position: 0, action: 'delete', id: 'a', status: 200, result: 'deleted' },
+        { position: 1, action: 'delete', id: 'b', status: 404, error: 'not_found' },
+      ]);
+
+      const response = await request(app)
+        .post('/documents/_bulk')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('Content-Type', 'application/x-ndjson')
+        .send('{"action":"delete","id":"a"}\n{"action":"delete","id":"b"}\n');
+
+      expect(response.status).toBe(200);
+      expect(response.body.errors).toBe(true);
+      expect(opensearchService.bulk).toHaveBeenCalledWith(
+        'tenant-1',
+        [
+          { action: 'delete', id: 'a' },
+          { action: 'delete', id: 'b' },
+        ],
+        undefined
+      );
+    });
+
+    it('should report invalid entries without sending them to OpenSearch', async () => {
+      (opensearchService.bulk as jest.Mock).mockResolvedValue([
+        { position: 0, action: 'delete', id: 'b', status: 200, result: 'deleted' },
+      ]);
+
+      const response = await request(app)
+        .post('/documents/_bulk')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('Content-Type', 'application/x-ndjson')
+        .send('{"action":"create","document":{"title":"No content"}}\n{"action":"delete","id":"b"}\nnot json\n');
+
+      expect(response.status).toBe(200);
+      expect(response.body.errors).toBe(true);
+      expect(response.body.items[0]).toMatchObject({ position: 0, action: 'create', status: 400 });
+      expect(response.body.items[1]).toMatchObject({ position: 1, action: 'delete', id: 'b', status: 200 });
+      expect(response.body.items[2]).toMatchObject({ position: 2, status: 400 });
+      expect(opensearchService.bulk).toHaveBeenCalledWith('tenant-1', [{ action: 'delete', id: 'b' }], undefined);
+    });
+
+    it('should reject an empty batch', async () => {
+      const response = await request(app)
+        .post('/documents/_bulk')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send([]);
+
+      expect(response.status).toBe(400);
+      expect(opensearchService.bulk).not.toHaveBeenCalled();
+    });
+
+    it('should reject a non-array body', async () => {
+      const response = await request(app)
+        .post('/documents/_bulk')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({ action: 'delete', id: 'a' });
+
+      expect(response.status).toBe(400);
     });
   });
 
@@ -215,10 +450,86 @@ describe('Documents Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body).toEqual(document);
-      expect(opensearchService.getDocument).toHaveBeenCalledWith(tenantId, docId);
+      expect(opensearchService.getDocument).toHaveBeenCalledWith(tenantId, docId, undefined);
       expect(cacheService.setDocument).toHaveBeenCalledWith(tenantId, docId, document);
     });
 
+    it('should return ETag derived from document version', async () => {
+      const document = {
+        id: 'doc-123',
+        tenantId: 'tenant-1',
+        title: 'Test Document',
+        content: 'Test content',
+        version: '4-1',
+      };
+
+      (cacheService.getDocument as jest.Mock).mockResolvedValue(null);
+      (opensearchService.getDocument as jest.Mock).mockResolvedValue(document);
+
+      const response = await request(app)
+        .get('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.etag).toBe('"4-1"');
+    });
+
+    it('should return 304 when If-None-Match matches current version', async () => {
+      (cacheService.getDocument as jest.Mock).mockResolvedValue({
+        id: 'doc-123',
+        tenantId: 'tenant-1',
+        title: 'Test Document',
+        content: 'Test content',
+        version: '4-1',
+      });
+
+      const response = await request(app)
+        .get('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('If-None-Match', '"4-1"');
+
+      expect(response.status).toBe(304);
+    });
+
+    it('should not serve cached documents the caller is not granted', async () => {
+      (cacheService.getDocument as jest.Mock).mockResolvedValue({
+        id: 'doc-123',
+        tenantId: 'tenant-1',
+        title: 'Restricted',
+        content: 'Restricted content',
+        acl: { users: ['alice'] },
+      });
+
+      const denied = await request(app)
+        .get('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('X-User-Id', 'bob');
+      const allowed = await request(app)
+        .get('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('X-User-Id', 'alice');
+
+      expect(denied.status).toBe(404);
+      expect(allowed.status).toBe(200);
+      expect(opensearchService.getDocument).not.toHaveBeenCalled();
+    });
+
+    it('should pass the caller principal to OpenSearch', async () => {
+      (cacheService.getDocument as jest.Mock).mockResolvedValue(null);
+      (opensearchService.getDocument as jest.Mock).mockResolvedValue(null);
+
+      await request(app)
+        .get('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('X-User-Id', 'alice');
+
+      expect(opensearchService.getDocument).toHaveBeenCalledWith('tenant-1', 'doc-123', {
+        userId: 'alice',
+        groups: [],
+        departments: [],
+      });
+    });
+
     it('should return 404 when document not found', async () => {
       const tenantId = 'tenant-1';
       const docId = 'non-existent';
@@ -252,11 +563,236 @@ describe('Documents Routes', () => {
     });
   });
 
+  describe('PUT /documents/:id', () => {
+    it('should replace document successfully', async () => {
+      const tenantId = 'tenant-1';
+      const docId = 'doc-123';
+      const updated = {
+        id: docId,
+        tenantId,
+        title: 'Replaced',
+        content: 'Replaced content',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-02-01T00:00:00Z',
+      };
+
+      (opensearchService.updateDocument as jest.Mock).mockResolvedValue(updated);
+
+      const response = await request(app)
+        .put(`/documents/${docId}`)
+        .set('X-Tenant-Id', tenantId)
+        .send({ title: 'Replaced', content: 'Replaced content' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(updated);
+      expect(opensearchService.updateDocument).toHaveBeenCalledWith(
+        tenantId,
+        docId,
+        { title: 'Replaced', content: 'Replaced content' },
+        'replace',
+        {},
+        undefined
+      );
+      expect(cacheService.invalidateDocument).toHaveBeenCalledWith(tenantId, docId);
+      expect(cacheService.invalidateTenantSearches).toHaveBeenCalledWith(tenantId);
+    });
+
+    it('should pass If-Match precondition and return new ETag', async () => {
+      (opensearchService.updateDocument as jest.Mock).mockResolvedValue({
+        id: 'doc-123',
+        tenantId: 'tenant-1',
+        title: 'Replaced',
+        content: 'Replaced content',
+        version: '5-1',
+      });
+
+      const response = await request(app)
+        .put('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('If-Match', '"4-1"')
+        .send({ title: 'Replaced', content: 'Replaced content' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.etag).toBe('"5-1"');
+      expect(opensearchService.updateDocument).toHaveBeenCalledWith(
+        'tenant-1',
+        'doc-123',
+        expect.any(Object),
+        'replace',
+        { ifMatch: ['4-1'] },
+        undefined
+      );
+    });
+
+    it('should return 412 when precondition fails', async () => {
+      (opensearchService.updateDocument as jest.Mock).mockRejectedValue(
+        new AppError(412, 'Precondition failed: If-Match does not match current document version')
+      );
+
+      const response = await request(app)
+        .put('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('If-Match', '"3-1"')
+        .send({ title: 'Replaced', content: 'Replaced content' });
+
+      expect(response.status).toBe(412);
+      expect(cacheService.invalidateDocument).not.toHaveBeenCalled();
+    });
+
+    it('should reject content larger than the document size limit', async () => {
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue({
+        id: 'tenant-1',
+        quotas: { maxDocumentBytes: 10 },
+      });
+
+      const response = await request(app)
+        .put('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({ title: 'Replaced', content: 'Replaced content' });
+
+      expect(response.status).toBe(413);
+      expect(opensearchService.updateDocument).not.toHaveBeenCalled();
+    });
+
+    it('should charge the growth of the content against the storage quota', async () => {
+      (opensearchService.getContentSizes as jest.Mock).mockResolvedValue(new Map([['doc-123', 6]]));
+      (opensearchService.updateDocument as jest.Mock).mockResolvedValue({ id: 'doc-123', tenantId: 'tenant-1' });
+
+      const response = await request(app)
+        .put('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({ title: 'Replaced', content: 'Replaced content' });
+
+      expect(response.status).toBe(200);
+      expect(opensearchService.getContentSizes).toHaveBeenCalledWith('tenant-1', ['doc-123']);
+      expect(redis.store['quota:tenant-1:bytes']).toBe(5010);
+      expect(redis.store['quota:tenant-1:documents']).toBe(41);
+    });
+
+    it('should reject growth beyond the storage quota', async () => {
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue({
+        id: 'tenant-1',
+        quotas: { maxContentBytes: 5005 },
+      });
+      (opensearchService.getContentSizes as jest.Mock).mockResolvedValue(new Map([['doc-123', 6]]));
+
+      const response = await request(app)
+        .put('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({ title: 'Replaced', content: 'Replaced content' });
+
+      expect(response.status).toBe(429);
+      expect(opensearchService.updateDocument).not.toHaveBeenCalled();
+      expect(redis.store['quota:tenant-1:bytes']).toBe(5000);
+    });
+
+    it('should reject replacement with missing content', async () => {
+      const response = await request(app)
+        .put('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({ title: 'Only title' });
+
+      expect(response.status).toBe(400);
+      expect(opensearchService.updateDocument).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when document not found', async () => {
+      (opensearchService.updateDocument as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .put('/documents/non-existent')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({ title: 'Title', content: 'Content' });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('error', 'Document not found');
+      expect(cacheService.invalidateTenantSearches).not.toHaveBeenCalled();
+      expect(redis.store['quota:tenant-1:bytes']).toBe(5000);
+    });
+  });
+
+  describe('PATCH /documents/:id', () => {
+    it('should merge partial update successfully', async () => {
+      const tenantId = 'tenant-1';
+      const docId = 'doc-123';
+      const updated = {
+        id: docId,
+        tenantId,
+        title: 'Fixed typo',
+        content: 'Original content',
+      };
+
+      (opensearchService.updateDocument as jest.Mock).mockResolvedValue(updated);
+
+      const response = await request(app)
+        .patch(`/documents/${docId}`)
+        .set('X-Tenant-Id', tenantId)
+        .send({ title: 'Fixed typo' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(updated);
+      expect(opensearchService.updateDocument).toHaveBeenCalledWith(
+        tenantId,
+        docId,
+        { title: 'Fixed typo' },
+        'merge',
+        {},
+        undefined
+      );
+      expect(cacheService.invalidateDocument).toHaveBeenCalledWith(tenantId, docId);
+      expect(cacheService.invalidateTenantSearches).toHaveBeenCalledWith(tenantId);
+    });
+
+    it('should refund the shrinkage of the content', async () => {
+      (opensearchService.getContentSizes as jest.Mock).mockResolvedValue(new Map([['doc-123', 100]]));
+      (opensearchService.updateDocument as jest.Mock).mockResolvedValue({ id: 'doc-123', tenantId: 'tenant-1' });
+
+      const response = await request(app)
+        .patch('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({ content: 'short' });
+
+      expect(response.status).toBe(200);
+      expect(redis.store['quota:tenant-1:bytes']).toBe(4905);
+    });
+
+    it('should not touch the storage counter when the content is unchanged', async () => {
+      (opensearchService.updateDocument as jest.Mock).mockResolvedValue({ id: 'doc-123', tenantId: 'tenant-1' });
+
+      await request(app).patch('/documents/doc-123').set('X-Tenant-Id', 'tenant-1').send({ title: 'Fixed typo' });
+
+      expect(opensearchService.getContentSizes).not.toHaveBeenCalled();
+      expect(redis.store['quota:tenant-1:bytes']).toBe(5000);
+    });
+
+    it('should reject empty patch', async () => {
+      const response = await request(app)
+        .patch('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(opensearchService.updateDocument).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when document not found', async () => {
+      (opensearchService.updateDocument as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .patch('/documents/non-existent')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send({ title: 'Title' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe('DELETE /documents/:id', () => {
     it('should delete document successfully', async () => {
       const tenantId = 'tenant-1';
       const docId = 'doc-123';
 
+      (opensearchService.getContentSizes as jest.Mock).mockResolvedValue(new Map([[docId, 30]]));
       (opensearchService.deleteDocument as jest.Mock).mockResolvedValue(true);
       (cacheService.invalidateDocument as jest.Mock).mockResolvedValue(undefined);
       (cacheService.invalidateTenantSearches as jest.Mock).mockResolvedValue(undefined);
@@ -269,11 +805,25 @@ describe('Documents Routes', () => {
       expect(response.body).toHaveProperty('id', docId);
       expect(response.body).toHaveProperty('tenantId', tenantId);
       expect(response.body).toHaveProperty('status', 'deleted');
-      expect(opensearchService.deleteDocument).toHaveBeenCalledWith(tenantId, docId);
+      expect(opensearchService.deleteDocument).toHaveBeenCalledWith(tenantId, docId, {}, undefined);
+      expect(redis.store['quota:tenant-1:documents']).toBe(40);
+      expect(redis.store['quota:tenant-1:bytes']).toBe(4970);
       expect(cacheService.invalidateDocument).toHaveBeenCalledWith(tenantId, docId);
       expect(cacheService.invalidateTenantSearches).toHaveBeenCalledWith(tenantId);
     });
 
+    it('should pass If-Match precondition to delete', async () => {
+      (opensearchService.deleteDocument as jest.Mock).mockResolvedValue(true);
+
+      const response = await request(app)
+        .delete('/documents/doc-123')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('If-Match', '"4-1"');
+
+      expect(response.status).toBe(200);
+      expect(opensearchService.deleteDocument).toHaveBeenCalledWith('tenant-1', 'doc-123', { ifMatch: ['4-1'] }, undefined);
+    });
+
     it('should handle document not found', async () => {
       const tenantId = 'tenant-1';
       const docId = 'non-existent';
@@ -288,6 +838,8 @@ describe('Documents Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('status', 'not_found_or_deleted');
+      expect(redis.store['quota:tenant-1:documents']).toBe(41);
+      expect(redis.store['quota:tenant-1:bytes']).toBe(5000);
     });
 
     it('should handle deletion errors', async () => {
@@ -13,6 +13,8 @@ app.use('/health', healthRoutes);
 describe('Health Routes', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (opensearchService.getCircuitState as jest.Mock).mockReturnValue('closed');
+    (redisService.getCircuitState as jest.Mock).mockReturnValue('closed');
   });
 
   describe('GET /health', () => {
@@ -29,6 +31,10 @@ describe('Health Routes', () => {
           elasticsearch: 'UP',
           redis: 'UP',
         },
+        circuitBreakers: {
+          elasticsearch: 'closed',
+          redis: 'closed',
+        },
       });
     });
 
@@ -45,6 +51,10 @@ describe('Health Routes', () => {
           elasticsearch: 'UP',
           redis: 'DOWN',
         },
+        circuitBreakers: {
+          elasticsearch: 'closed',
+          redis: 'closed',
+        },
       });
     });
 
@@ -61,6 +71,10 @@ describe('Health Routes', () => {
           elasticsearch: 'DOWN',
           redis: 'UP',
         },
+        circuitBreakers: {
+          elasticsearch: 'closed',
+          redis: 'closed',
+        },
       });
     });
 
@@ -77,6 +91,10 @@ describe('Health Routes', () => {
           elasticsearch: 'DOWN',
           redis: 'DOWN',
         },
+        circuitBreakers: {
+          elasticsearch: 'closed',
+          redis: 'closed',
+        },
       });
     });
 
@@ -102,6 +120,16 @@ describe('Health Routes', () => {
       expect(response.body.dependencies.redis).toBe('DOWN');
     });
 
+    it('should report the circuit breaker states', async () => {
+      (opensearchService.healthCheck as jest.Mock).mockResolvedValue(false);
+      (redisService.ping as jest.Mock).mockResolvedValue(true);
+      (opensearchService.getCircuitState as jest.Mock).mockReturnValue('open');
+
+      const response = await request(app).get('/health');
+
+      expect(response.body.circuitBreakers).toEqual({ elasticsearch: 'open', redis: 'closed' });
+    });
+
     it('should check both services in parallel', async () => {
       (opensearchService.healthCheck as jest.Mock).mockResolvedValue(true);
       (redisService.ping as jest.Mock).mockResolvedValue(true);
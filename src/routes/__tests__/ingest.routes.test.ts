@@ -0,0 +1,141 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import ingestRoutes from '../ingest.routes';
+import { ingestService } from '../../services/ingest.service';
+import { errorHandler } from '../../middleware/errorHandler';
+
+jest.mock('../../services/ingest.service');
+jest.mock('../../services/opensearch.service');
+jest.mock('../../services/redis.service');
+jest.mock('../../services/cache.service');
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+// Mock middleware to set tenant context
+const mockTenantMiddleware = (req: Request, _res: Response, next: NextFunction) => {
+  const tenantId = req.headers['x-tenant-id'] as string;
+  if (tenantId) {
+    req.context = { tenantId, userId: req.headers['x-user-id'] as string | undefined };
+  }
+  next();
+};
+
+const app = express();
+app.use(express.json());
+app.use('/ingest', mockTenantMiddleware, ingestRoutes);
+app.use(errorHandler);
+
+describe('Ingest Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /ingest/jobs', () => {
+    it('should queue a job and return 202 with job id', async () => {
+      const job = { id: 'job-1', tenantId: 'tenant-1', status: 'queued', total: 2 };
+      (ingestService.createJob as jest.Mock).mockResolvedValue(job);
+
+      const response = await request(app)
+        .post('/ingest/jobs')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send([
+          { action: 'create', document: { title: 'A', content: 'a' } },
+          { action: 'delete', id: 'b' },
+        ]);
+
+      expect(response.status).toBe(202);
+      expect(response.body).toEqual(job);
+      expect(response.headers.location).toBe('/ingest/jobs/job-1');
+      expect(ingestService.createJob).toHaveBeenCalledWith(
+        'tenant-1',
+        expect.objectContaining({
+          total: 2,
+          operations: [
+            { action: 'create', document: { title: 'A', content: 'a', tenantId: 'tenant-1' } },
+            { action: 'delete', id: 'b' },
+          ],
+          invalid: [],
+        }),
+        undefined
+      );
+    });
+
+    it('should queue the caller principal with the job', async () => {
+      (ingestService.createJob as jest.Mock).mockResolvedValue({ id: 'job-3' });
+
+      const response = await request(app)
+        .post('/ingest/jobs')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('X-User-Id', 'alice')
+        .send([{ action: 'delete', id: 'b' }]);
+
+      expect(response.status).toBe(202);
+      expect(ingestService.createJob).toHaveBeenCalledWith('tenant-1', expect.any(Object), {
+        userId: 'alice',
+        groups: [],
+        departments: [],
+      });
+    });
+
+    it('should accept NDJSON bodies', async () => {
+      (ingestService.createJob as jest.Mock).mockResolvedValue({ id: 'job-2' });
+
+      const response = await request(app)
+        .post('/ingest/jobs')
+        .set('X-Tenant-Id', 'tenant-1')
+        .set('Content-Type', 'application/x-ndjson')
+        .send('{"action":"delete","id":"a"}\n{"action":"bogus"}\n');
+
+      expect(response.status).toBe(202);
+      expect(ingestService.createJob).toHaveBeenCalledWith(
+        'tenant-1',
+        expect.objectContaining({
+          total: 2,
+          operations: [{ action: 'delete', id: 'a' }],
+          invalid: [expect.objectContaining({ position: 1, status: 400 })],
+        }),
+        undefined
+      );
+    });
+
+    it('should reject an empty batch', async () => {
+      const response = await request(app)
+        .post('/ingest/jobs')
+        .set('X-Tenant-Id', 'tenant-1')
+        .send([]);
+
+      expect(response.status).toBe(400);
+      expect(ingestService.createJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /ingest/jobs/:id', () => {
+    it('should return job status for the tenant', async () => {
+      const job = { id: 'job-1', tenantId: 'tenant-1', status: 'processing', processed: 10, total: 20 };
+      (ingestService.getJob as jest.Mock).mockResolvedValue(job);
+
+      const response = await request(app)
+        .get('/ingest/jobs/job-1')
+        .set('X-Tenant-Id', 'tenant-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(job);
+      expect(ingestService.getJob).toHaveBeenCalledWith('tenant-1', 'job-1');
+    });
+
+    it('should return 404 for unknown or foreign jobs', async () => {
+      (ingestService.getJob as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/ingest/jobs/job-9')
+        .set('X-Tenant-Id', 'tenant-2');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('error', 'Ingestion job not found');
+    });
+  });
+});
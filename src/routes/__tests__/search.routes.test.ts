@@ -104,8 +104,9 @@ describe('Search Routes', () => {
         tenantId,
         expect.objectContaining({
           q: 'test',
-          tag: 'important',
-        })
+          tag: ['important'],
+        }),
+        undefined
       );
     });
 
@@ -126,8 +127,9 @@ describe('Search Routes', () => {
         tenantId,
         expect.objectContaining({
           q: 'test',
-          author: 'john',
-        })
+          author: ['john'],
+        }),
+        undefined
       );
     });
 
@@ -150,7 +152,8 @@ describe('Search Routes', () => {
           q: 'test',
           from: '2024-01-01',
           to: '2024-12-31',
-        })
+        }),
+        undefined
       );
     });
 
@@ -173,7 +176,8 @@ describe('Search Routes', () => {
           q: 'test',
           offset: 10,
           limit: 20,
-        })
+        }),
+        undefined
       );
     });
 
@@ -194,7 +198,8 @@ describe('Search Routes', () => {
         tenantId,
         expect.objectContaining({
           limit: 50,
-        })
+        }),
+        undefined
       );
     });
 
@@ -216,7 +221,8 @@ describe('Search Routes', () => {
         expect.objectContaining({
           offset: 0,
           limit: 10,
-        })
+        }),
+        undefined
       );
     });
 
@@ -257,6 +263,305 @@ describe('Search Routes', () => {
       expect(response.status).toBe(400);
     });
 
+    it.each([
+      ['updatedFrom', 'yesterday'],
+      ['updatedTo', '2024-13-01'],
+      ['from', '2024-06-01 12:00'],
+    ])('should reject a %s that is not an ISO date', async (param, value) => {
+      const response = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'test', [param]: value });
+
+      expect(response.status).toBe(400);
+      expect(opensearchService.search).not.toHaveBeenCalled();
+    });
+
+    it('should parse repeated, negated and range filters into the query and cache key', async () => {
+      (cacheService.getSearchResult as jest.Mock).mockResolvedValue(null);
+      (opensearchService.search as jest.Mock).mockResolvedValue({ results: [], total: 0 });
+      (cacheService.setSearchResult as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .get('/search?q=test&tag=b&tag=a&tagMode=all&-tag=draft&type=policy&department=legal&updatedFrom=2024-06-01')
+        .set('X-Tenant-Id', 'tenant-1');
+
+      expect(response.status).toBe(200);
+      const expected = {
+        tag: ['a', 'b'],
+        tagMode: 'all',
+        type: ['policy'],
+        department: ['legal'],
+        exclude: { tag: ['draft'] },
+        updatedFrom: '2024-06-01',
+      };
+      expect(opensearchService.search).toHaveBeenCalledWith(
+        'tenant-1',
+        expect.objectContaining(expected),
+        undefined
+      );
+      expect(cacheService.getSearchResult).toHaveBeenCalledWith(
+        'tenant-1',
+        'test',
+        expect.objectContaining(expected),
+        0,
+        10,
+        undefined
+      );
+    });
+
+    it('should pass advanced syntax to the search and cache key', async () => {
+      (cacheService.getSearchResult as jest.Mock).mockResolvedValue(null);
+      (opensearchService.search as jest.Mock).mockResolvedValue({ results: [], total: 0 });
+      (cacheService.setSearchResult as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'tags:errors NOT author:bob', syntax: 'advanced' });
+
+      expect(response.status).toBe(200);
+      expect(opensearchService.search).toHaveBeenCalledWith(
+        'tenant-1',
+        expect.objectContaining({ q: 'tags:errors NOT author:bob', syntax: 'advanced' }),
+        undefined
+      );
+      expect(cacheService.getSearchResult).toHaveBeenCalledWith(
+        'tenant-1',
+        'tags:errors NOT author:bob',
+        expect.objectContaining({ syntax: 'advanced' }),
+        0,
+        10,
+        undefined
+      );
+    });
+
+    it('should paginate with signed cursors over a point-in-time', async () => {
+      (opensearchService.search as jest.Mock)
+        .mockResolvedValueOnce({
+          results: [{ id: 'doc-1', title: 'A', snippet: 'A', score: 1, tags: [] }],
+          total: 2,
+          page: { pitId: 'pit-1', searchAfter: [1, 'doc-1'] },
+        })
+        .mockResolvedValueOnce({
+          results: [{ id: 'doc-2', title: 'B', snippet: 'B', score: 0.5, tags: [] }],
+          total: 2,
+          page: { pitId: 'pit-1', searchAfter: [0.5, 'doc-2'] },
+        });
+
+      const first = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'test', tag: 'a', limit: '1', paginate: 'cursor' });
+
+      expect(first.status).toBe(200);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+      expect(opensearchService.search).toHaveBeenLastCalledWith(
+        'tenant-1',
+        expect.objectContaining({ q: 'test', tag: ['a'], limit: 1 }),
+        undefined,
+        {}
+      );
+
+      const second = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ cursor: first.body.nextCursor });
+
+      expect(second.status).toBe(200);
+      expect(second.body.offset).toBe(1);
+      expect(second.body.nextCursor).toBeUndefined();
+      expect(opensearchService.search).toHaveBeenLastCalledWith(
+        'tenant-1',
+        expect.objectContaining({ q: 'test', tag: ['a'], limit: 1 }),
+        undefined,
+        { pitId: 'pit-1', searchAfter: [1, 'doc-1'] }
+      );
+      expect(opensearchService.closePointInTime).toHaveBeenCalledWith('tenant-1', 'pit-1');
+      expect(cacheService.getSearchResult).not.toHaveBeenCalled();
+      expect(cacheService.setSearchResult).not.toHaveBeenCalled();
+    });
+
+    it('should reject a cursor issued to another tenant', async () => {
+      (opensearchService.search as jest.Mock).mockResolvedValueOnce({
+        results: [{ id: 'doc-1', title: 'A', snippet: 'A', score: 1, tags: [] }],
+        total: 2,
+        page: { pitId: 'pit-1', searchAfter: [1, 'doc-1'] },
+      });
+
+      const first = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'test', limit: '1', paginate: 'cursor' });
+
+      const replay = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-2')
+        .query({ cursor: first.body.nextCursor });
+
+      expect(replay.status).toBe(400);
+      expect(opensearchService.search).toHaveBeenCalledTimes(1);
+    });
+
+    it('should parse sort keys into the query and cache key', async () => {
+      (cacheService.getSearchResult as jest.Mock).mockResolvedValue(null);
+      (opensearchService.search as jest.Mock).mockResolvedValue({ results: [], total: 0 });
+      (cacheService.setSearchResult as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .get('/search?q=test&sort=created_at:desc,title.keyword&sort=_score')
+        .set('X-Tenant-Id', 'tenant-1');
+
+      expect(response.status).toBe(200);
+      const sort = [
+        { field: 'created_at', order: 'desc' },
+        { field: 'title.keyword', order: 'asc' },
+        { field: '_score', order: 'desc' },
+      ];
+      expect(opensearchService.search).toHaveBeenCalledWith(
+        'tenant-1',
+        expect.objectContaining({ sort }),
+        undefined
+      );
+      expect(cacheService.getSearchResult).toHaveBeenCalledWith(
+        'tenant-1',
+        'test',
+        expect.objectContaining({ sort }),
+        0,
+        10,
+        undefined
+      );
+    });
+
+    it.each(['content:asc', 'created_at:up', 'created_at:desc:x'])('should reject sort %s', async (sort) => {
+      const response = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'test', sort });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return spelling suggestions and the autocorrected query', async () => {
+      (cacheService.getSearchResult as jest.Mock).mockResolvedValue(null);
+      (opensearchService.search as jest.Mock).mockResolvedValue({
+        results: [],
+        total: 1,
+        suggestions: ['payment timeout'],
+        correctedQuery: 'payment timeout',
+      });
+      (cacheService.setSearchResult as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'pyament timout', autocorrect: 'true' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.query).toBe('pyament timout');
+      expect(response.body.suggestions).toEqual(['payment timeout']);
+      expect(response.body.correctedQuery).toBe('payment timeout');
+      expect(opensearchService.search).toHaveBeenCalledWith(
+        'tenant-1',
+        expect.objectContaining({ autocorrect: true }),
+        undefined
+      );
+      expect(cacheService.getSearchResult).toHaveBeenCalledWith(
+        'tenant-1',
+        'pyament timout',
+        expect.objectContaining({ autocorrect: true }),
+        0,
+        10,
+        undefined
+      );
+    });
+
+    it('should pass the query language and reject unsupported ones', async () => {
+      (cacheService.getSearchResult as jest.Mock).mockResolvedValue(null);
+      (opensearchService.search as jest.Mock).mockResolvedValue({ results: [], total: 0 });
+      (cacheService.setSearchResult as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'fehler', lang: 'de' });
+      const unsupported = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'fehler', lang: 'xx' });
+
+      expect(response.status).toBe(200);
+      expect(opensearchService.search).toHaveBeenCalledWith(
+        'tenant-1',
+        expect.objectContaining({ language: 'de' }),
+        undefined
+      );
+      expect(cacheService.getSearchResult).toHaveBeenCalledWith(
+        'tenant-1',
+        'fehler',
+        expect.objectContaining({ language: 'de' }),
+        0,
+        10,
+        undefined
+      );
+      expect(unsupported.status).toBe(400);
+    });
+
+    it('should reject an unknown tag mode', async () => {
+      const response = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'test', tag: 'a', tagMode: 'some' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should request facets and return their counts', async () => {
+      const facets = {
+        tags: [{ value: 'payments', count: 3 }],
+        created_at: [{ value: '2024-01-01T00:00:00.000Z', count: 3 }],
+      };
+
+      (cacheService.getSearchResult as jest.Mock).mockResolvedValue(null);
+      (opensearchService.search as jest.Mock).mockResolvedValue({ results: [], total: 3, facets });
+      (cacheService.setSearchResult as jest.Mock).mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'test', facets: 'tags, created_at,tags', interval: 'week' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.facets).toEqual(facets);
+      expect(opensearchService.search).toHaveBeenCalledWith(
+        'tenant-1',
+        expect.objectContaining({ facets: ['tags', 'created_at'], interval: 'week' }),
+        undefined
+      );
+      expect(cacheService.getSearchResult).toHaveBeenCalledWith(
+        'tenant-1',
+        'test',
+        expect.objectContaining({ facets: ['tags', 'created_at'], interval: 'week' }),
+        0,
+        10,
+        undefined
+      );
+    });
+
+    it('should reject unknown facet fields and intervals', async () => {
+      const badFacet = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'test', facets: 'tags,content' });
+      const badInterval = await request(app)
+        .get('/search')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ q: 'test', facets: 'created_at', interval: 'decade' });
+
+      expect(badFacet.status).toBe(400);
+      expect(badInterval.status).toBe(400);
+    });
+
     it('should handle search errors', async () => {
       const tenantId = 'tenant-1';
 
@@ -273,5 +578,45 @@ describe('Search Routes', () => {
       expect(response.status).toBe(500);
     });
   });
-});
 
+  describe('GET /search/suggest', () => {
+    it('should return cached suggestions', async () => {
+      const cached = { tenantId: 'tenant-1', prefix: 'pay', titles: [], tags: [] };
+      (cacheService.getSuggestions as jest.Mock).mockResolvedValue(cached);
+
+      const response = await request(app)
+        .get('/search/suggest')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ prefix: 'pay' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(cached);
+      expect(opensearchService.suggest).not.toHaveBeenCalled();
+    });
+
+    it('should query and cache suggestions on a miss', async () => {
+      const suggestions = {
+        titles: [{ id: 'doc-1', title: 'Payment Gateway' }],
+        tags: [{ value: 'payments', count: 2 }],
+      };
+      (cacheService.getSuggestions as jest.Mock).mockResolvedValue(null);
+      (opensearchService.suggest as jest.Mock).mockResolvedValue(suggestions);
+
+      const response = await request(app)
+        .get('/search/suggest')
+        .set('X-Tenant-Id', 'tenant-1')
+        .query({ prefix: ' pay ', limit: '3' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tenantId: 'tenant-1', prefix: 'pay', ...suggestions });
+      expect(opensearchService.suggest).toHaveBeenCalledWith('tenant-1', 'pay', 3, undefined);
+      expect(cacheService.setSuggestions).toHaveBeenCalledWith('tenant-1', 'pay', 3, response.body, undefined);
+    });
+
+    it.each([{}, { prefix: ' ' }, { prefix: 'pay', limit: '50' }])('should reject %p', async (query) => {
+      const response = await request(app).get('/search/suggest').set('X-Tenant-Id', 'tenant-1').query(query);
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
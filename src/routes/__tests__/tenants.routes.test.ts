@@ -0,0 +1,283 @@
+import request from 'supertest';
+import express from 'express';
+import tenantsRoutes from '../tenants.routes';
+import { apiKeyService } from '../../services/apiKey.service';
+import { tenantSettingsService } from '../../services/tenantSettings.service';
+import { cacheService } from '../../services/cache.service';
+import { tenantRegistryService } from '../../services/tenantRegistry.service';
+import { quotaService } from '../../services/quota.service';
+import { errorHandler } from '../../middleware/errorHandler';
+
+jest.mock('../../services/apiKey.service');
+jest.mock('../../services/tenantSettings.service');
+jest.mock('../../services/cache.service');
+jest.mock('../../services/tenantRegistry.service');
+jest.mock('../../services/quota.service', () => ({
+  quotaService: {
+    getUsage: jest.fn(),
+  },
+}));
+jest.mock('../../services/redis.service');
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+jest.mock('../../config', () => ({
+  config: {
+    auth: {
+      required: false,
+      adminToken: 'admin-token',
+    },
+    tenants: {
+      registryRequired: true,
+    },
+    redis: {
+      host: 'localhost',
+      port: 6379,
+      password: undefined,
+      clusterMode: false,
+      enableTLS: false,
+    },
+    logging: {
+      level: 'info',
+    },
+  },
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/tenants', tenantsRoutes);
+app.use(errorHandler);
+
+const keyInfo = {
+  id: 'key-1',
+  tenantId: 'tenant-1',
+  name: 'ci',
+  scopes: ['read'],
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+describe('Tenants Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (tenantRegistryService.getTenant as jest.Mock).mockImplementation(async (id: string) => ({ id, status: 'active' }));
+  });
+
+  it('should not manage an unknown tenant', async () => {
+    (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue(null);
+
+    const response = await request(app).get('/tenants/tenant-typo/api-keys').set('Authorization', 'Bearer admin-token');
+
+    expect(response.status).toBe(404);
+    expect(apiKeyService.listKeys).not.toHaveBeenCalled();
+  });
+
+  describe('API keys', () => {
+    it('should create a key and return the plaintext once', async () => {
+      (apiKeyService.createKey as jest.Mock).mockResolvedValue({ apiKey: keyInfo, key: 'fdk_secret' });
+
+      const response = await request(app)
+        .post('/tenants/tenant-1/api-keys')
+        .set('Authorization', 'Bearer admin-token')
+        .send({ name: 'ci', scopes: ['read', 'read'] });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({ ...keyInfo, key: 'fdk_secret' });
+      expect(apiKeyService.createKey).toHaveBeenCalledWith('tenant-1', ['read'], 'ci');
+    });
+
+    it('should reject unknown scopes', async () => {
+      const response = await request(app)
+        .post('/tenants/tenant-1/api-keys')
+        .set('Authorization', 'Bearer admin-token')
+        .send({ scopes: ['superuser'] });
+
+      expect(response.status).toBe(400);
+      expect(apiKeyService.createKey).not.toHaveBeenCalled();
+    });
+
+    it('should require admin credentials', async () => {
+      const response = await request(app)
+        .get('/tenants/tenant-1/api-keys');
+
+      expect(response.status).toBe(401);
+      expect(apiKeyService.listKeys).not.toHaveBeenCalled();
+    });
+
+    it('should list keys of the tenant', async () => {
+      (apiKeyService.listKeys as jest.Mock).mockResolvedValue([keyInfo]);
+
+      const response = await request(app)
+        .get('/tenants/tenant-1/api-keys')
+        .set('Authorization', 'Bearer admin-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tenantId: 'tenant-1', keys: [keyInfo] });
+    });
+
+    it('should rotate a key', async () => {
+      (apiKeyService.rotateKey as jest.Mock).mockResolvedValue({ apiKey: keyInfo, key: 'fdk_new' });
+
+      const response = await request(app)
+        .post('/tenants/tenant-1/api-keys/key-1/rotate')
+        .set('Authorization', 'Bearer admin-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.key).toBe('fdk_new');
+      expect(apiKeyService.rotateKey).toHaveBeenCalledWith('tenant-1', 'key-1');
+    });
+
+    it('should return 404 when rotating an unknown key', async () => {
+      (apiKeyService.rotateKey as jest.Mock).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/tenants/tenant-1/api-keys/missing/rotate')
+        .set('Authorization', 'Bearer admin-token');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should revoke a key', async () => {
+      (apiKeyService.revokeKey as jest.Mock).mockResolvedValue(true);
+
+      const response = await request(app)
+        .delete('/tenants/tenant-1/api-keys/key-1')
+        .set('Authorization', 'Bearer admin-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ id: 'key-1', tenantId: 'tenant-1', status: 'revoked' });
+    });
+  });
+
+  it('should report usage against the quotas', async () => {
+    const usage = {
+      tenantId: 'tenant-1',
+      documents: 10,
+      contentBytes: 2048,
+      limits: { maxDocuments: 1000, maxContentBytes: 0, maxDocumentBytes: 0 },
+      reconciledAt: '2024-01-01T00:00:00Z',
+    };
+    (quotaService.getUsage as jest.Mock).mockResolvedValue(usage);
+
+    const response = await request(app).get('/tenants/tenant-1/usage').set('Authorization', 'Bearer admin-token');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(usage);
+    expect(quotaService.getUsage).toHaveBeenCalledWith('tenant-1');
+  });
+
+  describe('settings', () => {
+    it('should return the stored settings', async () => {
+      (tenantSettingsService.getSettings as jest.Mock).mockResolvedValue({ defaultLanguage: 'de' });
+
+      const response = await request(app)
+        .get('/tenants/tenant-1/settings')
+        .set('Authorization', 'Bearer admin-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tenantId: 'tenant-1', defaultLanguage: 'de' });
+    });
+
+    it('should update the default language and invalidate cached searches', async () => {
+      (tenantSettingsService.updateSettings as jest.Mock).mockResolvedValue({
+        defaultLanguage: 'fr',
+        updatedAt: '2024-01-01T00:00:00Z',
+      });
+
+      const response = await request(app)
+        .put('/tenants/tenant-1/settings')
+        .set('Authorization', 'Bearer admin-token')
+        .send({ defaultLanguage: 'fr' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.defaultLanguage).toBe('fr');
+      expect(tenantSettingsService.updateSettings).toHaveBeenCalledWith('tenant-1', { defaultLanguage: 'fr' });
+      expect(cacheService.invalidateTenantSearches).toHaveBeenCalledWith('tenant-1');
+    });
+
+    it('should accept null to reset the default language', async () => {
+      (tenantSettingsService.updateSettings as jest.Mock).mockResolvedValue({});
+
+      const response = await request(app)
+        .put('/tenants/tenant-1/settings')
+        .set('Authorization', 'Bearer admin-token')
+        .send({ defaultLanguage: null });
+
+      expect(response.status).toBe(200);
+      expect(tenantSettingsService.updateSettings).toHaveBeenCalledWith('tenant-1', { defaultLanguage: null });
+    });
+
+    it('should reject unsupported languages and unknown settings', async () => {
+      const unsupported = await request(app)
+        .put('/tenants/tenant-1/settings')
+        .set('Authorization', 'Bearer admin-token')
+        .send({ defaultLanguage: 'klingon' });
+      const unknown = await request(app)
+        .put('/tenants/tenant-1/settings')
+        .set('Authorization', 'Bearer admin-token')
+        .send({ theme: 'dark' });
+
+      expect(unsupported.status).toBe(400);
+      expect(unknown.status).toBe(400);
+      expect(tenantSettingsService.updateSettings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('synonyms', () => {
+    it('should return the synonym dictionary', async () => {
+      (tenantSettingsService.getSynonyms as jest.Mock).mockResolvedValue({ synonyms: [['outage', 'incident']] });
+
+      const response = await request(app)
+        .get('/tenants/tenant-1/synonyms')
+        .set('Authorization', 'Bearer admin-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ tenantId: 'tenant-1', synonyms: [['outage', 'incident']] });
+    });
+
+    it('should replace the dictionary and invalidate cached searches', async () => {
+      (tenantSettingsService.setSynonyms as jest.Mock).mockResolvedValue({
+        synonyms: [['outage', 'incident']],
+        updatedAt: '2024-01-01T00:00:00Z',
+      });
+
+      const response = await request(app)
+        .put('/tenants/tenant-1/synonyms')
+        .set('Authorization', 'Bearer admin-token')
+        .send({ synonyms: [['Outage', 'incident']] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.synonyms).toEqual([['outage', 'incident']]);
+      expect(tenantSettingsService.setSynonyms).toHaveBeenCalledWith('tenant-1', [['Outage', 'incident']]);
+      expect(cacheService.invalidateTenantSearches).toHaveBeenCalledWith('tenant-1');
+    });
+
+    it('should reject sets with a single term', async () => {
+      const response = await request(app)
+        .put('/tenants/tenant-1/synonyms')
+        .set('Authorization', 'Bearer admin-token')
+        .send({ synonyms: [['outage']] });
+
+      expect(response.status).toBe(400);
+      expect(tenantSettingsService.setSynonyms).not.toHaveBeenCalled();
+      expect(cacheService.invalidateTenantSearches).not.toHaveBeenCalled();
+    });
+
+    it('should reject dictionaries over the size limits', async () => {
+      const tooManyTerms = [Array.from({ length: 21 }, (_, i) => `term${i}`)];
+      const tooManySets = Array.from({ length: 501 }, (_, i) => [`a${i}`, `b${i}`]);
+
+      for (const synonyms of [tooManyTerms, tooManySets]) {
+        const response = await request(app)
+          .put('/tenants/tenant-1/synonyms')
+          .set('Authorization', 'Bearer admin-token')
+          .send({ synonyms });
+
+        expect(response.status).toBe(400);
+      }
+      expect(tenantSettingsService.setSynonyms).not.toHaveBeenCalled();
+    });
+  });
+});
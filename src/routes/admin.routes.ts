@@ -0,0 +1,224 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { indexMigrationService } from '../services/indexMigration.service';
+import { tenantRegistryService } from '../services/tenantRegistry.service';
+import { tenantDeletionService } from '../services/tenantDeletion.service';
+import { quotaService } from '../services/quota.service';
+import { AppError } from '../middleware/errorHandler';
+import { TenantIdSchema } from '../middleware/tenant';
+import logger from '../utils/logger';
+import { isRateLimitTier } from '../utils/rateLimit';
+
+const router = Router();
+
+const MigrateSchema = z.object({
+  deleteOld: z.boolean().optional(),
+});
+
+const CreateTenantSchema = z.object({
+  id: TenantIdSchema,
+  name: z.string().trim().min(1).max(200).optional(),
+});
+
+const PlacementSchema = z.object({
+  placement: z.enum(['shared', 'dedicated']),
+});
+
+// null removes the tenant's override, so the service-wide default applies again
+const QuotaLimitSchema = z.number().int().min(0).nullable().optional();
+const QuotasSchema = z
+  .object({
+    maxDocuments: QuotaLimitSchema,
+    maxContentBytes: QuotaLimitSchema,
+    maxDocumentBytes: QuotaLimitSchema,
+  })
+  .strict();
+
+// null resets the tier to the default or removes an override
+const RateLimitSchema = z.number().int().min(0).nullable().optional();
+const RateLimitsSchema = z
+  .object({
+    tier: z.string().min(1).max(50).nullable().optional(),
+    limits: z
+      .object({
+        search: RateLimitSchema,
+        write: RateLimitSchema,
+        read: RateLimitSchema,
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+router.get('/index', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = await indexMigrationService.getStatus();
+    res.json(status);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/index/migrate', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validationResult = MigrateSchema.safeParse(req.body || {});
+    if (!validationResult.success) {
+      throw new AppError(400, `Validation error: ${validationResult.error.message}`);
+    }
+
+    const migrations = await indexMigrationService.startMigration(validationResult.data);
+
+    logger.info('Index migration requested', { targets: migrations.map((migration) => migration.target) });
+
+    // Runs in the background; progress is reported by GET /admin/index
+    res.setHeader('Location', `${req.baseUrl}/index`);
+    res.status(202).json({ migrations });
+  } catch (error) {
+    next(error);
+  }
+});
+
+function parseTenantId(req: Request): string {
+  const tenantResult = TenantIdSchema.safeParse(req.params.tenantId);
+  if (!tenantResult.success) {
+    throw new AppError(400, 'Invalid tenant ID format. Must be alphanumeric with hyphens/underscores.');
+  }
+  return tenantResult.data;
+}
+
+router.post('/tenants', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validationResult = CreateTenantSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new AppError(400, `Validation error: ${validationResult.error.message}`);
+    }
+
+    const { id, name } = validationResult.data;
+    const tenant = await tenantRegistryService.createTenant(id, { name });
+
+    res.setHeader('Location', `${req.baseUrl}/tenants/${tenant.id}`);
+    res.status(201).json(tenant);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/tenants', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenants = await tenantRegistryService.listTenants();
+    res.json({ tenants });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/tenants/:tenantId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenant = await tenantRegistryService.getTenant(parseTenantId(req));
+    if (!tenant) {
+      throw new AppError(404, 'Tenant not found');
+    }
+    res.json(tenant);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/tenants/:tenantId/suspend', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenant = await tenantRegistryService.setStatus(parseTenantId(req), 'suspended');
+    res.json(tenant);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/tenants/:tenantId/resume', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = parseTenantId(req);
+    const existing = await tenantRegistryService.getTenant(tenantId);
+    if (existing?.status === 'deleting') {
+      throw new AppError(409, 'Tenant is being deleted');
+    }
+
+    const tenant = await tenantRegistryService.setStatus(tenantId, 'active');
+    res.json(tenant);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Delete a tenant with all of its documents, cache entries, API keys and settings. A
+ * failed purge can be retried with the same request.
+ */
+router.delete('/tenants/:tenantId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = parseTenantId(req);
+    const tenant = await tenantDeletionService.startDeletion(tenantId);
+
+    logger.info('Tenant deletion requested', { tenantId });
+
+    // Runs in the background; the tenant reads as `deleting` until it is gone (404)
+    res.setHeader('Location', `${req.baseUrl}/tenants/${tenantId}`);
+    res.status(202).json(tenant);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/tenants/:tenantId/quotas', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = parseTenantId(req);
+    const validationResult = QuotasSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new AppError(400, `Validation error: ${validationResult.error.message}`);
+    }
+
+    await tenantRegistryService.setQuotas(tenantId, validationResult.data);
+    res.json(await quotaService.getUsage(tenantId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/tenants/:tenantId/rate-limits', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = parseTenantId(req);
+    const validationResult = RateLimitsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new AppError(400, `Validation error: ${validationResult.error.message}`);
+    }
+    const { tier } = validationResult.data;
+    if (tier && !isRateLimitTier(tier)) {
+      throw new AppError(400, `Unknown rate limit tier '${tier}'`);
+    }
+
+    const tenant = await tenantRegistryService.setRateLimits(tenantId, validationResult.data);
+    res.json(tenant);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/tenants/:tenantId/placement', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = parseTenantId(req);
+    const validationResult = PlacementSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new AppError(400, `Validation error: ${validationResult.error.message}`);
+    }
+
+    const migration = await indexMigrationService.startTenantMove(tenantId, validationResult.data.placement);
+
+    logger.info('Tenant move requested', { tenantId, placement: migration.placement });
+
+    // Runs in the background; progress is reported by GET /admin/index
+    res.setHeader('Location', `${req.baseUrl}/index`);
+    res.status(202).json(migration);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,24 +1,35 @@
-import { Router, Request, Response, NextFunction } from 'express';
-import { z } from 'zod';
+import express, { Router, Request, Response, NextFunction } from 'express';
 import { opensearchService } from '../services/opensearch.service';
 import { cacheService } from '../services/cache.service';
+import { quotaService } from '../services/quota.service';
 import { AppError } from '../middleware/errorHandler';
 import logger from '../utils/logger';
-import { Document } from '../types';
+import { parsePreconditions, parseETagList, matchesVersion, toETag } from '../utils/etag';
+import { config } from '../config';
+import { parseBulkRequest } from '../utils/bulk';
+import { canAccess, getAccessPrincipal } from '../utils/acl';
+import { setQuotaHeaders } from '../utils/quota';
+import { DocumentSchema, DocumentReplaceSchema, DocumentPatchSchema } from '../schemas/document.schema';
+import { BulkItemResult, BulkResponse, Document } from '../types';
 
 const router = Router();
 
-const DocumentSchema = z.object({
-  id: z.string().optional(),
-  title: z.string().min(1).max(500),
-  content: z.string().min(1).max(100000),
-  tags: z.array(z.string()).optional(),
-  metadata: z.object({
-    author: z.string().optional(),
-    type: z.string().optional(),
-    department: z.string().optional(),
-  }).optional(),
-});
+/**
+ * Send a document with its ETag, answering 304 when the client's copy is current
+ */
+function sendDocument(req: Request, res: Response, document: Document): void {
+  if (document.version) {
+    res.setHeader('ETag', toETag(document.version));
+
+    const ifNoneMatch = parseETagList(req.headers['if-none-match']);
+    if (ifNoneMatch && matchesVersion(ifNoneMatch, document.version, true)) {
+      res.status(304).end();
+      return;
+    }
+  }
+
+  res.json(document);
+}
 
 router.post('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -39,25 +50,101 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
       updatedAt: new Date().toISOString(),
     };
 
-    await opensearchService.indexDocument(tenantId, document);
-    
-    const docId = document.id || 'generated';
+    const admission = await quotaService.admitDocument(tenantId, document.content, true);
+
+    // POST only ever creates: an existing id is rejected with 409 instead of overwritten
+    let created: Document;
+    try {
+      created = await opensearchService.indexDocument(tenantId, document, { createOnly: true });
+    } catch (error) {
+      await quotaService.release(tenantId, admission.reserved);
+      throw error;
+    }
+    const docId = created.id as string;
     
     // Invalidate search cache for this tenant
     await cacheService.invalidateTenantSearches(tenantId);
 
     logger.info('Document created', { tenantId, docId });
 
+    setQuotaHeaders(res, admission.usage);
+    res.setHeader('Location', `${req.baseUrl}/${encodeURIComponent(docId)}`);
+    if (created.version) {
+      res.setHeader('ETag', toETag(created.version));
+    }
     res.status(201).json({
       id: docId,
       tenantId,
       status: 'indexed',
+      createdAt: created.createdAt,
+      updatedAt: created.updatedAt,
+      version: created.version,
     });
   } catch (error) {
     next(error);
   }
 });
 
+router.post(
+  '/_bulk',
+  express.text({ type: ['application/x-ndjson', 'application/ndjson'], limit: config.server.bodyLimit }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tenantId = req.context?.tenantId;
+      if (!tenantId) {
+        throw new AppError(400, 'Tenant ID is required');
+      }
+
+      const { total, operations, positions, invalid } = parseBulkRequest(
+        req.body,
+        tenantId,
+        config.bulk.maxOperations
+      );
+
+      const items: BulkItemResult[] = new Array(total);
+      invalid.forEach((item) => {
+        items[item.position] = item;
+      });
+
+      if (operations.length > 0) {
+        const { results, usage } = await quotaService.executeBulk(
+          tenantId,
+          operations,
+          getAccessPrincipal(req.context)
+        );
+        setQuotaHeaders(res, usage);
+        results.forEach((result, i) => {
+          items[positions[i]] = { ...result, position: positions[i] };
+        });
+
+        const touchedIds = results
+          .filter((r) => r.action !== 'create' && r.status < 300 && r.id)
+          .map((r) => r.id as string);
+        await cacheService.invalidateDocuments(tenantId, touchedIds);
+
+        // Invalidate search cache once for the whole batch
+        await cacheService.invalidateTenantSearches(tenantId);
+      }
+
+      const response: BulkResponse = {
+        tenantId,
+        errors: items.some((item) => item.status >= 300),
+        items,
+      };
+
+      logger.info('Bulk request processed', {
+        tenantId,
+        total: items.length,
+        failed: items.filter((item) => item.status >= 300).length,
+      });
+
+      res.json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 router.get('/:id', async (req: Request, res: Response, next) => {
   try {
     const tenantId = req.context?.tenantId;
@@ -66,16 +153,20 @@ router.get('/:id', async (req: Request, res: Response, next) => {
     }
 
     const docId = req.params.id;
+    const principal = getAccessPrincipal(req.context);
 
-    // Check cache first
+    // Check cache first; cached documents carry their ACL and are checked per caller
     const cached = await cacheService.getDocument(tenantId, docId);
     if (cached) {
-      res.json(cached);
+      if (!canAccess(cached.acl, principal)) {
+        throw new AppError(404, 'Document not found');
+      }
+      sendDocument(req, res, cached);
       return;
     }
 
     // Query OpenSearch
-    const document = await opensearchService.getDocument(tenantId, docId);
+    const document = await opensearchService.getDocument(tenantId, docId, principal);
     
     if (!document) {
       throw new AppError(404, 'Document not found');
@@ -84,6 +175,86 @@ router.get('/:id', async (req: Request, res: Response, next) => {
     // Cache the result
     await cacheService.setDocument(tenantId, docId, document);
 
+    sendDocument(req, res, document);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.context?.tenantId;
+    if (!tenantId) {
+      throw new AppError(400, 'Tenant ID is required');
+    }
+
+    const validationResult = DocumentReplaceSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new AppError(400, `Validation error: ${validationResult.error.message}`);
+    }
+
+    const docId = req.params.id;
+    const document = await quotaService.executeUpdate(
+      tenantId,
+      docId,
+      validationResult.data,
+      'replace',
+      parsePreconditions(req.headers),
+      getAccessPrincipal(req.context)
+    );
+
+    if (!document) {
+      throw new AppError(404, 'Document not found');
+    }
+
+    await cacheService.invalidateDocument(tenantId, docId);
+    await cacheService.invalidateTenantSearches(tenantId);
+
+    logger.info('Document replaced', { tenantId, docId });
+
+    if (document.version) {
+      res.setHeader('ETag', toETag(document.version));
+    }
+    res.json(document);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.context?.tenantId;
+    if (!tenantId) {
+      throw new AppError(400, 'Tenant ID is required');
+    }
+
+    const validationResult = DocumentPatchSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new AppError(400, `Validation error: ${validationResult.error.message}`);
+    }
+
+    const docId = req.params.id;
+    const document = await quotaService.executeUpdate(
+      tenantId,
+      docId,
+      validationResult.data,
+      'merge',
+      parsePreconditions(req.headers),
+      getAccessPrincipal(req.context)
+    );
+
+    if (!document) {
+      throw new AppError(404, 'Document not found');
+    }
+
+    await cacheService.invalidateDocument(tenantId, docId);
+    await cacheService.invalidateTenantSearches(tenantId);
+
+    logger.info('Document updated', { tenantId, docId });
+
+    if (document.version) {
+      res.setHeader('ETag', toETag(document.version));
+    }
     res.json(document);
   } catch (error) {
     next(error);
@@ -99,8 +270,13 @@ router.delete('/:id', async (req: Request, res: Response, next) => {
 
     const docId = req.params.id;
 
-    const deleted = await opensearchService.deleteDocument(tenantId, docId);
-    
+    const deleted = await quotaService.executeDelete(
+      tenantId,
+      docId,
+      parsePreconditions(req.headers),
+      getAccessPrincipal(req.context)
+    );
+
     // Invalidate cache
     await cacheService.invalidateDocument(tenantId, docId);
     await cacheService.invalidateTenantSearches(tenantId);
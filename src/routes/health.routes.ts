@@ -17,6 +17,10 @@ router.get('/', async (_req: Request, res: Response) => {
       elasticsearch: opensearchHealthy ? 'UP' : 'DOWN',
       redis: redisHealthy ? 'UP' : 'DOWN',
     },
+    circuitBreakers: {
+      elasticsearch: opensearchService.getCircuitState(),
+      redis: redisService.getCircuitState(),
+    },
   };
 
   const httpStatus = status.status === 'UP' ? 200 : status.status === 'DEGRADED' ? 200 : 503;
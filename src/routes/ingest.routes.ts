@@ -0,0 +1,52 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { ingestService } from '../services/ingest.service';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { parseBulkRequest } from '../utils/bulk';
+import { getAccessPrincipal } from '../utils/acl';
+import { config } from '../config';
+
+const router = Router();
+
+router.post(
+  '/jobs',
+  express.text({ type: ['application/x-ndjson', 'application/ndjson'], limit: config.server.bodyLimit }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tenantId = req.context?.tenantId;
+      if (!tenantId) {
+        throw new AppError(400, 'Tenant ID is required');
+      }
+
+      const parsed = parseBulkRequest(req.body, tenantId, config.ingest.maxOperations);
+      const job = await ingestService.createJob(tenantId, parsed, getAccessPrincipal(req.context));
+
+      logger.info('Ingestion job submitted', { tenantId, jobId: job.id, total: job.total });
+
+      res.setHeader('Location', `${req.baseUrl}/jobs/${job.id}`);
+      res.status(202).json(job);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get('/jobs/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.context?.tenantId;
+    if (!tenantId) {
+      throw new AppError(400, 'Tenant ID is required');
+    }
+
+    const job = await ingestService.getJob(tenantId, req.params.id);
+    if (!job) {
+      throw new AppError(404, 'Ingestion job not found');
+    }
+
+    res.json(job);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -4,20 +4,175 @@ import { opensearchService } from '../services/opensearch.service';
 import { cacheService } from '../services/cache.service';
 import { AppError } from '../middleware/errorHandler';
 import logger from '../utils/logger';
-import { SearchQuery, SearchResponse } from '../types';
+import { getAccessPrincipal, getPrincipalCacheKey } from '../utils/acl';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { LanguageSchema } from '../schemas/document.schema';
+import {
+  AccessPrincipal,
+  FacetField,
+  SearchFilterField,
+  SearchPage,
+  SearchQuery,
+  SearchResponse,
+  SearchSort,
+  SearchSortField,
+  SuggestResponse,
+} from '../types';
 
 const router = Router();
 
+const FACET_FIELDS: [FacetField, ...FacetField[]] = [
+  'tags',
+  'metadata.author',
+  'metadata.type',
+  'metadata.department',
+  'created_at',
+];
+
+const FILTER_FIELDS: SearchFilterField[] = ['tag', 'author', 'type', 'department'];
+
+const SORT_FIELDS: SearchSortField[] = ['_score', 'created_at', 'updated_at', 'title.keyword'];
+
+/**
+ * `sort=created_at:desc,title.keyword` (or repeated `sort` params); the order defaults to
+ * descending for `_score` and ascending for everything else
+ */
+const SortSchema = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value, ctx) => {
+    const keys = (Array.isArray(value) ? value : [value])
+      .flatMap((entry) => entry.split(','))
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+    const sort: SearchSort[] = [];
+    for (const key of keys) {
+      const [field, order, ...rest] = key.split(':');
+      if (!SORT_FIELDS.includes(field as SearchSortField) || rest.length > 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unsupported sort: ${key}` });
+        return z.NEVER;
+      }
+      if (order !== undefined && order !== 'asc' && order !== 'desc') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unsupported sort order: ${key}` });
+        return z.NEVER;
+      }
+      if (sort.some((existing) => existing.field === field)) {
+        continue;
+      }
+      sort.push({
+        field: field as SearchSortField,
+        order: (order as SearchSort['order']) || (field === '_score' ? 'desc' : 'asc'),
+      });
+    }
+    return sort;
+  })
+  .optional();
+
+// A parameter that may be repeated (`tag=a&tag=b`); normalized to a sorted, de-duplicated list
+const MultiValueSchema = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => Array.from(new Set((Array.isArray(value) ? value : [value]).filter(Boolean))).sort())
+  .optional();
+
+// An ISO 8601 date or date-time (`2024-06-01`, `2024-06-01T12:00:00Z`)
+const DateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d{1,9})?)?(Z|[+-]\d{2}:?\d{2})?)?$/, 'Expected an ISO 8601 date')
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
 const SearchQuerySchema = z.object({
   q: z.string().min(1).optional(),
+  syntax: z.enum(['simple', 'advanced']).optional(),
+  autocorrect: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  lang: LanguageSchema.optional(),
   offset: z.string().regex(/^\d+$/).transform(Number).optional(),
   limit: z.string().regex(/^\d+$/).transform(Number).optional(),
-  tag: z.string().optional(),
-  author: z.string().optional(),
-  from: z.string().optional(),
-  to: z.string().optional(),
+  tag: MultiValueSchema,
+  tagMode: z.enum(['any', 'all']).optional(),
+  author: MultiValueSchema,
+  type: MultiValueSchema,
+  department: MultiValueSchema,
+  '-tag': MultiValueSchema,
+  '-author': MultiValueSchema,
+  '-type': MultiValueSchema,
+  '-department': MultiValueSchema,
+  from: DateSchema.optional(),
+  to: DateSchema.optional(),
+  updatedFrom: DateSchema.optional(),
+  updatedTo: DateSchema.optional(),
+  sort: SortSchema,
+  facets: z
+    .string()
+    .transform((value) => value.split(',').map((field) => field.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(FACET_FIELDS)))
+    .optional(),
+  interval: z.enum(['hour', 'day', 'week', 'month', 'quarter', 'year']).optional(),
+  paginate: z.enum(['offset', 'cursor']).optional(),
+  cursor: z.string().min(1).optional(),
+});
+
+const SuggestQuerySchema = z.object({
+  prefix: z.string().trim().min(1).max(100),
+  limit: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().min(1).max(10)).optional(),
 });
 
+/**
+ * Run one page of a cursor-paginated search.
+ * Continuation cursors carry the original query, so only `limit` can change between pages.
+ */
+async function searchWithCursor(
+  tenantId: string,
+  query: SearchQuery,
+  principal: AccessPrincipal | undefined,
+  token?: string,
+  limit?: number
+): Promise<SearchResponse> {
+  const principalKey = getPrincipalCacheKey(principal);
+  let page: SearchPage = {};
+  let seen = 0;
+
+  if (token) {
+    const cursor = decodeCursor(token, tenantId, principalKey);
+    query = { ...cursor.query, limit: limit !== undefined ? Math.min(limit, 50) : cursor.query.limit };
+    page = { pitId: cursor.pitId, searchAfter: cursor.searchAfter };
+    seen = cursor.seen;
+  }
+
+  const { results, total, facets, page: nextPage } = await opensearchService.search(
+    tenantId,
+    { ...query, offset: 0 },
+    principal,
+    page
+  );
+
+  let nextCursor: string | undefined;
+  if (nextPage?.pitId) {
+    if (nextPage.searchAfter && seen + results.length < total) {
+      nextCursor = encodeCursor({
+        tenantId,
+        principal: principalKey,
+        query,
+        pitId: nextPage.pitId,
+        searchAfter: nextPage.searchAfter,
+        seen: seen + results.length,
+      });
+    } else {
+      await opensearchService.closePointInTime(tenantId, nextPage.pitId);
+    }
+  }
+
+  return {
+    tenantId,
+    query: query.q || '',
+    offset: seen,
+    limit: query.limit || 10,
+    total,
+    results,
+    ...(facets && { facets }),
+    ...(nextCursor && { nextCursor }),
+  };
+}
+
 router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const tenantId = req.context?.tenantId;
@@ -30,14 +185,39 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
       throw new AppError(400, `Invalid query parameters: ${validationResult.error.message}`);
     }
 
+    const params = validationResult.data;
+    const nonEmpty = (values?: string[]) => (values && values.length > 0 ? values : undefined);
+
+    const exclude: SearchQuery['exclude'] = {};
+    for (const field of FILTER_FIELDS) {
+      const values = nonEmpty(params[`-${field}`]);
+      if (values) {
+        exclude[field] = values;
+      }
+    }
+
     const query: SearchQuery = {
       q: validationResult.data.q || '',
+      syntax: params.syntax,
+      autocorrect: params.autocorrect,
+      language: params.lang,
       offset: validationResult.data.offset || 0,
       limit: validationResult.data.limit || 10,
-      tag: validationResult.data.tag,
-      author: validationResult.data.author,
+      tag: nonEmpty(params.tag),
+      tagMode: params.tagMode,
+      author: nonEmpty(params.author),
+      type: nonEmpty(params.type),
+      department: nonEmpty(params.department),
+      exclude: Object.keys(exclude).length > 0 ? exclude : undefined,
       from: validationResult.data.from,
       to: validationResult.data.to,
+      updatedFrom: params.updatedFrom,
+      updatedTo: params.updatedTo,
+      sort: params.sort?.length ? params.sort : undefined,
+      facets: validationResult.data.facets?.length
+        ? Array.from(new Set(validationResult.data.facets))
+        : undefined,
+      interval: validationResult.data.interval,
     };
 
     // Validate limit
@@ -45,18 +225,44 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
       query.limit = 50;
     }
 
+    const principal = getAccessPrincipal(req.context);
+
+    // Cursor pages come from a point-in-time snapshot and are not cached
+    if (params.cursor || params.paginate === 'cursor') {
+      const response = await searchWithCursor(tenantId, query, principal, params.cursor, params.limit);
+      logger.info('Search performed', { tenantId, query: response.query, total: response.total, cursor: true });
+      res.json(response);
+      return;
+    }
+
+    // Every parameter that changes the result is part of the cache key
+    const filters = {
+      syntax: query.syntax === 'advanced' ? query.syntax : undefined,
+      autocorrect: query.autocorrect || undefined,
+      language: query.language,
+      tag: query.tag,
+      tagMode: query.tag ? query.tagMode || 'any' : undefined,
+      author: query.author,
+      type: query.type,
+      department: query.department,
+      exclude: query.exclude,
+      from: query.from,
+      to: query.to,
+      updatedFrom: query.updatedFrom,
+      updatedTo: query.updatedTo,
+      sort: query.sort,
+      facets: query.facets,
+      interval: query.interval,
+    };
+
     // Check cache
     const cached = await cacheService.getSearchResult(
       tenantId,
       query.q || '',
-      {
-        tag: query.tag,
-        author: query.author,
-        from: query.from,
-        to: query.to,
-      },
+      filters,
       query.offset || 0,
-      query.limit || 10
+      query.limit || 10,
+      principal
     );
 
     if (cached) {
@@ -65,7 +271,11 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
     }
 
     // Perform search
-    const { results, total } = await opensearchService.search(tenantId, query);
+    const { results, total, facets, suggestions, correctedQuery } = await opensearchService.search(
+      tenantId,
+      query,
+      principal
+    );
 
     const response: SearchResponse = {
       tenantId,
@@ -74,21 +284,20 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
       limit: query.limit || 10,
       total,
       results,
+      ...(facets && { facets }),
+      ...(suggestions && { suggestions }),
+      ...(correctedQuery && { correctedQuery }),
     };
 
     // Cache the result
     await cacheService.setSearchResult(
       tenantId,
       query.q || '',
-      {
-        tag: query.tag,
-        author: query.author,
-        from: query.from,
-        to: query.to,
-      },
+      filters,
       query.offset || 0,
       query.limit || 10,
-      response
+      response,
+      principal
     );
 
     logger.info('Search performed', { tenantId, query: query.q, total });
@@ -101,5 +310,38 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
+router.get('/suggest', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.context?.tenantId;
+    if (!tenantId) {
+      throw new AppError(400, 'Tenant ID is required');
+    }
+
+    const validationResult = SuggestQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      throw new AppError(400, `Invalid query parameters: ${validationResult.error.message}`);
+    }
+
+    const { prefix } = validationResult.data;
+    const limit = validationResult.data.limit || 5;
+    const principal = getAccessPrincipal(req.context);
+
+    const cached = await cacheService.getSuggestions(tenantId, prefix, limit, principal);
+    if (cached) {
+      res.json(cached);
+      return;
+    }
+
+    const { titles, tags } = await opensearchService.suggest(tenantId, prefix, limit, principal);
+    const response: SuggestResponse = { tenantId, prefix, titles, tags };
+
+    await cacheService.setSuggestions(tenantId, prefix, limit, response, principal);
+
+    res.json(response);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
 
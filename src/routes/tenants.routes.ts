@@ -0,0 +1,168 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { apiKeyService } from '../services/apiKey.service';
+import { tenantSettingsService } from '../services/tenantSettings.service';
+import { cacheService } from '../services/cache.service';
+import { quotaService } from '../services/quota.service';
+import { LanguageSchema } from '../schemas/document.schema';
+import { requireTenantAdmin } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { MAX_SYNONYM_SETS, MAX_SYNONYM_SET_SIZE, MAX_SYNONYM_TERM_LENGTH } from '../utils/synonyms';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  scopes: z.array(z.enum(['read', 'write', 'admin'])).min(1),
+});
+
+const TenantSettingsSchema = z
+  .object({
+    defaultLanguage: LanguageSchema.nullable().optional(),
+  })
+  .strict();
+
+const SynonymsSchema = z.object({
+  synonyms: z
+    .array(z.array(z.string().trim().min(1).max(MAX_SYNONYM_TERM_LENGTH)).min(2).max(MAX_SYNONYM_SET_SIZE))
+    .max(MAX_SYNONYM_SETS),
+});
+
+router.post('/:tenantId/api-keys', requireTenantAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.context!.tenantId;
+
+    const validationResult = CreateApiKeySchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new AppError(400, `Validation error: ${validationResult.error.message}`);
+    }
+
+    const { name, scopes } = validationResult.data;
+    const { apiKey, key } = await apiKeyService.createKey(tenantId, Array.from(new Set(scopes)), name);
+
+    logger.info('API key issued', { tenantId, keyId: apiKey.id });
+
+    // The plaintext key is only ever returned here and on rotation
+    res.status(201).json({ ...apiKey, key });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:tenantId/api-keys', requireTenantAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.context!.tenantId;
+    const keys = await apiKeyService.listKeys(tenantId);
+    res.json({ tenantId, keys });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post(
+  '/:tenantId/api-keys/:keyId/rotate',
+  requireTenantAdmin,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tenantId = req.context!.tenantId;
+      const rotated = await apiKeyService.rotateKey(tenantId, req.params.keyId);
+      if (!rotated) {
+        throw new AppError(404, 'API key not found');
+      }
+
+      res.json({ ...rotated.apiKey, key: rotated.key });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.delete(
+  '/:tenantId/api-keys/:keyId',
+  requireTenantAdmin,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const tenantId = req.context!.tenantId;
+      const revoked = await apiKeyService.revokeKey(tenantId, req.params.keyId);
+      if (!revoked) {
+        throw new AppError(404, 'API key not found');
+      }
+
+      res.json({ id: req.params.keyId, tenantId, status: 'revoked' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get('/:tenantId/usage', requireTenantAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const usage = await quotaService.getUsage(req.context!.tenantId);
+    res.json(usage);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:tenantId/settings', requireTenantAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.context!.tenantId;
+    const settings = await tenantSettingsService.getSettings(tenantId);
+    res.json({ tenantId, ...settings });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/:tenantId/settings', requireTenantAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.context!.tenantId;
+
+    const validationResult = TenantSettingsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new AppError(400, `Validation error: ${validationResult.error.message}`);
+    }
+
+    const settings = await tenantSettingsService.updateSettings(tenantId, validationResult.data);
+
+    // The default language shapes every query that does not name one
+    await cacheService.invalidateTenantSearches(tenantId);
+
+    res.json({ tenantId, ...settings });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:tenantId/synonyms', requireTenantAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.context!.tenantId;
+    const synonyms = await tenantSettingsService.getSynonyms(tenantId);
+    res.json({ tenantId, ...synonyms });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put('/:tenantId/synonyms', requireTenantAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenantId = req.context!.tenantId;
+
+    const validationResult = SynonymsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      throw new AppError(400, `Validation error: ${validationResult.error.message}`);
+    }
+
+    const synonyms = await tenantSettingsService.setSynonyms(tenantId, validationResult.data.synonyms);
+
+    // Cached results were computed with the previous dictionary
+    await cacheService.invalidateTenantSearches(tenantId);
+
+    res.json({ tenantId, ...synonyms });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
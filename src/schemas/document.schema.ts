@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { SUPPORTED_LANGUAGES } from '../utils/language';
+import { LanguageCode } from '../types';
+
+export const LanguageSchema = z.enum(SUPPORTED_LANGUAGES as [LanguageCode, ...LanguageCode[]]);
+
+export const DocumentSchema = z.object({
+  id: z.string().optional(),
+  title: z.string().min(1).max(500),
+  content: z.string().min(1).max(100000),
+  tags: z.array(z.string()).optional(),
+  metadata: z.object({
+    author: z.string().optional(),
+    type: z.string().optional(),
+    department: z.string().optional(),
+  }).optional(),
+  acl: z.object({
+    users: z.array(z.string().min(1)).optional(),
+    groups: z.array(z.string().min(1)).optional(),
+    departments: z.array(z.string().min(1)).optional(),
+  }).optional(),
+  language: LanguageSchema.optional(),
+});
+
+export const DocumentReplaceSchema = DocumentSchema.omit({ id: true });
+
+export const DocumentPatchSchema = DocumentReplaceSchema.partial().refine(
+  (patch) => Object.keys(patch).length > 0,
+  { message: 'At least one field must be provided' }
+);
+
+export const BulkOperationSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('create'), document: DocumentSchema }),
+  z.object({ action: z.literal('update'), id: z.string().min(1), document: DocumentPatchSchema }),
+  z.object({ action: z.literal('delete'), id: z.string().min(1) }),
+]);
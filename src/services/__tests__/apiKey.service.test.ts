@@ -0,0 +1,141 @@
+import { apiKeyService } from '../apiKey.service';
+import { redisService } from '../redis.service';
+import { hashString } from '../../utils/hash';
+import { CircuitOpenError } from '../../utils/resilience';
+import { ApiKey } from '../../types';
+import { installRedisFake } from '../../__tests__/helpers';
+
+jest.mock('../redis.service');
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+describe('ApiKeyService', () => {
+  // In-memory stand-in for the Redis keys and sets the service uses
+  let store: Record<string, any>;
+  let sets: Record<string, Set<string>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ({ store, sets } = installRedisFake(redisService));
+  });
+
+  describe('createKey', () => {
+    it('should store only the hash of the generated key', async () => {
+      const { apiKey, key } = await apiKeyService.createKey('tenant-1', ['read'], 'ci');
+
+      expect(key).toMatch(/^fdk_[0-9a-f-]{36}_/);
+      expect(apiKey).not.toHaveProperty('keyHash');
+      expect(apiKey).toMatchObject({ tenantId: 'tenant-1', scopes: ['read'], name: 'ci' });
+
+      const stored: ApiKey = store[`apikey:${apiKey.id}`];
+      expect(stored.keyHash).toBe(hashString(key));
+      expect(JSON.stringify(stored)).not.toContain(key);
+      expect(sets['apikeys:tenant:tenant-1'].has(apiKey.id)).toBe(true);
+    });
+
+    it('should throw 503 when the key cannot be stored', async () => {
+      (redisService.set as jest.Mock).mockResolvedValue(false);
+
+      await expect(apiKeyService.createKey('tenant-1', ['read'])).rejects.toMatchObject({ statusCode: 503 });
+    });
+  });
+
+  describe('verifyKey', () => {
+    it('should resolve a valid key to its record', async () => {
+      const { apiKey, key } = await apiKeyService.createKey('tenant-1', ['read', 'write']);
+
+      const record = await apiKeyService.verifyKey(key);
+
+      expect(record).toMatchObject({ id: apiKey.id, tenantId: 'tenant-1', scopes: ['read', 'write'] });
+    });
+
+    it('should reject a key with the wrong secret', async () => {
+      const { key } = await apiKeyService.createKey('tenant-1', ['read']);
+      const tampered = key.slice(0, -2) + (key.endsWith('AA') ? 'BB' : 'AA');
+
+      expect(await apiKeyService.verifyKey(tampered)).toBeNull();
+    });
+
+    it('should reject malformed keys without hitting Redis', async () => {
+      expect(await apiKeyService.verifyKey('not-a-key')).toBeNull();
+      expect(redisService.read).not.toHaveBeenCalled();
+    });
+
+    it('should answer 503 with a retry delay when the key cannot be read', async () => {
+      const { key } = await apiKeyService.createKey('tenant-1', ['read']);
+      (redisService.read as jest.Mock).mockRejectedValueOnce(new Error('Connection refused'));
+
+      await expect(apiKeyService.verifyKey(key)).rejects.toMatchObject({ statusCode: 503, retryAfterSeconds: 5 });
+
+      (redisService.read as jest.Mock).mockRejectedValueOnce(new CircuitOpenError('redis', 12));
+
+      await expect(apiKeyService.verifyKey(key)).rejects.toMatchObject({ statusCode: 503, retryAfterSeconds: 12 });
+    });
+  });
+
+  describe('listKeys', () => {
+    it('should list keys of the tenant without hashes', async () => {
+      await apiKeyService.createKey('tenant-1', ['read']);
+      await apiKeyService.createKey('tenant-1', ['admin']);
+      await apiKeyService.createKey('tenant-2', ['read']);
+
+      const keys = await apiKeyService.listKeys('tenant-1');
+
+      expect(keys).toHaveLength(2);
+      keys.forEach((k) => {
+        expect(k.tenantId).toBe('tenant-1');
+        expect(k).not.toHaveProperty('keyHash');
+      });
+    });
+  });
+
+  describe('rotateKey', () => {
+    it('should invalidate the old key and issue a new one', async () => {
+      const { apiKey, key: oldKey } = await apiKeyService.createKey('tenant-1', ['read']);
+
+      const rotated = await apiKeyService.rotateKey('tenant-1', apiKey.id);
+
+      expect(rotated?.key).not.toBe(oldKey);
+      expect(rotated?.apiKey.rotatedAt).toBeDefined();
+      expect(await apiKeyService.verifyKey(oldKey)).toBeNull();
+      expect(await apiKeyService.verifyKey(rotated!.key)).not.toBeNull();
+    });
+
+    it('should not rotate keys of another tenant', async () => {
+      const { apiKey } = await apiKeyService.createKey('tenant-1', ['read']);
+
+      expect(await apiKeyService.rotateKey('tenant-2', apiKey.id)).toBeNull();
+    });
+  });
+
+  describe('revokeKey', () => {
+    it('should delete the key and remove it from the tenant index', async () => {
+      const { apiKey, key } = await apiKeyService.createKey('tenant-1', ['read']);
+
+      expect(await apiKeyService.revokeKey('tenant-1', apiKey.id)).toBe(true);
+      expect(await apiKeyService.verifyKey(key)).toBeNull();
+      expect(await apiKeyService.listKeys('tenant-1')).toEqual([]);
+    });
+
+    it('should return false for unknown keys', async () => {
+      expect(await apiKeyService.revokeKey('tenant-1', 'missing')).toBe(false);
+    });
+  });
+
+  describe('revokeTenantKeys', () => {
+    it('should revoke every key of the tenant only', async () => {
+      const first = await apiKeyService.createKey('tenant-1', ['read']);
+      const second = await apiKeyService.createKey('tenant-1', ['admin']);
+      const other = await apiKeyService.createKey('tenant-2', ['read']);
+
+      expect(await apiKeyService.revokeTenantKeys('tenant-1')).toBe(2);
+      expect(await apiKeyService.verifyKey(first.key)).toBeNull();
+      expect(await apiKeyService.verifyKey(second.key)).toBeNull();
+      expect(await apiKeyService.verifyKey(other.key)).not.toBeNull();
+    });
+  });
+});
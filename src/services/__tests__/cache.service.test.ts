@@ -15,6 +15,7 @@ jest.mock('../../config', () => ({
     cache: {
       ttlSeconds: 60,
       searchTtlSeconds: 120,
+      suggestTtlSeconds: 10,
     },
     redis: {
       host: 'localhost',
@@ -89,6 +90,18 @@ describe('CacheService', () => {
       const callArgs = (redisService.get as jest.Mock).mock.calls[0];
       expect(callArgs[0]).toContain('search:tenant-1:');
     });
+
+    it('should partition cache keys by principal', async () => {
+      (redisService.get as jest.Mock).mockResolvedValue(null);
+
+      await cacheService.getSearchResult('tenant-1', 'test', {}, 0, 10);
+      await cacheService.getSearchResult('tenant-1', 'test', {}, 0, 10, { userId: 'alice', groups: [], departments: [] });
+      await cacheService.getSearchResult('tenant-1', 'test', {}, 0, 10, { userId: 'bob', groups: [], departments: [] });
+
+      const keys = (redisService.get as jest.Mock).mock.calls.map((call) => call[0]);
+      expect(keys[0]).toMatch(/^search:tenant-1:all:/);
+      expect(new Set(keys).size).toBe(3);
+    });
   });
 
   describe('setSearchResult', () => {
@@ -126,6 +139,30 @@ describe('CacheService', () => {
     });
   });
 
+  describe('suggestions', () => {
+    it('should cache suggestions briefly under the tenant search prefix', async () => {
+      const suggestions = { tenantId: 'tenant-1', prefix: 'pay', titles: [], tags: [] };
+
+      await cacheService.setSuggestions('tenant-1', 'pay', 5, suggestions);
+
+      expect(redisService.set).toHaveBeenCalledWith(
+        expect.stringMatching(/^search:tenant-1:suggest:all:/),
+        suggestions,
+        config.cache.suggestTtlSeconds
+      );
+    });
+
+    it('should share entries across prefix letter case', async () => {
+      (redisService.get as jest.Mock).mockResolvedValue(null);
+
+      await cacheService.getSuggestions('tenant-1', 'Pay', 5);
+      await cacheService.getSuggestions('tenant-1', 'pay', 5);
+
+      const keys = (redisService.get as jest.Mock).mock.calls.map((call) => call[0]);
+      expect(keys[0]).toBe(keys[1]);
+    });
+  });
+
   describe('getDocument', () => {
     it('should retrieve cached document', async () => {
       const tenantId = 'tenant-1';
@@ -190,6 +227,19 @@ describe('CacheService', () => {
     });
   });
 
+  describe('invalidateDocuments', () => {
+    it('should delete cache keys for each document', async () => {
+      const tenantId = 'tenant-1';
+
+      (redisService.del as jest.Mock).mockResolvedValue(true);
+
+      await cacheService.invalidateDocuments(tenantId, ['doc-1', 'doc-2']);
+
+      expect(redisService.del).toHaveBeenCalledWith(`doc:${tenantId}:doc-1`);
+      expect(redisService.del).toHaveBeenCalledWith(`doc:${tenantId}:doc-2`);
+    });
+  });
+
   describe('invalidateTenantSearches', () => {
     it('should delete all search cache keys for tenant', async () => {
       const tenantId = 'tenant-1';
@@ -211,5 +261,15 @@ describe('CacheService', () => {
       expect(redisService.delPattern).toHaveBeenCalledWith(`search:${tenantId}:*`);
     });
   });
-});
 
+  describe('invalidateTenant', () => {
+    it('should delete all search and document cache keys for tenant', async () => {
+      (redisService.delPattern as jest.Mock).mockResolvedValue(2);
+
+      await cacheService.invalidateTenant('tenant-1');
+
+      expect(redisService.delPattern).toHaveBeenCalledWith('search:tenant-1:*');
+      expect(redisService.delPattern).toHaveBeenCalledWith('doc:tenant-1:*');
+    });
+  });
+});
@@ -0,0 +1,537 @@
+import { indexMigrationService } from '../indexMigration.service';
+import { opensearchService } from '../opensearch.service';
+import { tenantRegistryService } from '../tenantRegistry.service';
+import { redisService } from '../redis.service';
+import { AppError } from '../../middleware/errorHandler';
+
+jest.mock('../opensearch.service', () => ({
+  opensearchService: {
+    getClient: jest.fn(),
+    call: jest.fn((_operation: string, request: () => Promise<unknown>) => request()),
+    waitForTask: jest.fn(),
+  },
+}));
+jest.mock('../redis.service', () => ({
+  redisService: {
+    acquireLock: jest.fn(),
+    renewLock: jest.fn(),
+    releaseLock: jest.fn(),
+  },
+}));
+jest.mock('../tenantRegistry.service', () => ({
+  tenantRegistryService: {
+    getTenant: jest.fn(),
+    setPlacement: jest.fn(),
+    setWritesBlocked: jest.fn(),
+    listDedicatedTenants: jest.fn(),
+    listTenants: jest.fn(),
+  },
+}));
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+jest.mock('../../config', () => ({
+  config: {
+    opensearch: {
+      index: 'documents',
+    },
+    search: {
+      synonyms: [],
+    },
+    logging: {
+      level: 'info',
+    },
+  },
+}));
+
+function tenantCounts(counts: Record<string, number>) {
+  return {
+    body: {
+      aggregations: {
+        tenants: {
+          buckets: Object.entries(counts).map(([tenant, doc_count]) => ({ key: { tenant }, doc_count })),
+          after_key: { tenant: 'last' },
+        },
+      },
+    },
+  };
+}
+
+const emptyCounts = { body: { aggregations: { tenants: { buckets: [] } } } };
+
+describe('IndexMigrationService', () => {
+  let client: any;
+  // Token of the migration lock in Redis, shared by every instance
+  let lockHolder: string | undefined;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    lockHolder = undefined;
+    (redisService.acquireLock as jest.Mock).mockImplementation(async (_key: string, token: string) => {
+      if (lockHolder) return false;
+      lockHolder = token;
+      return true;
+    });
+    (redisService.releaseLock as jest.Mock).mockImplementation(async (_key: string, token: string) => {
+      if (lockHolder !== token) return false;
+      lockHolder = undefined;
+      return true;
+    });
+    client = {
+      indices: {
+        getAlias: jest.fn().mockRejectedValue({ statusCode: 404 }),
+        exists: jest.fn().mockResolvedValue({ body: false }),
+        create: jest.fn().mockResolvedValue({}),
+        delete: jest.fn().mockResolvedValue({}),
+        updateAliases: jest.fn().mockResolvedValue({}),
+        putSettings: jest.fn().mockResolvedValue({}),
+        getSettings: jest.fn().mockResolvedValue({ body: {} }),
+      },
+      reindex: jest.fn().mockResolvedValue({ body: { task: 'node:1' } }),
+      deleteByQuery: jest.fn().mockResolvedValue({ body: { task: 'node:2' } }),
+      search: jest.fn(),
+    };
+    (opensearchService.getClient as jest.Mock).mockReturnValue(client);
+    (opensearchService.waitForTask as jest.Mock).mockResolvedValue({ created: 3, failures: [] });
+    (tenantRegistryService.listDedicatedTenants as jest.Mock).mockResolvedValue([]);
+    (tenantRegistryService.listTenants as jest.Mock).mockResolvedValue([]);
+    (tenantRegistryService.getTenant as jest.Mock).mockImplementation(async (id: string) => ({
+      id,
+      status: 'active',
+      placement: 'shared',
+    }));
+  });
+
+  function mockCounts(source: Record<string, number>, target: Record<string, number>) {
+    client.search.mockImplementation(async ({ index, body }: any) => {
+      if (body.aggs.tenants.composite.after) {
+        return emptyCounts;
+      }
+      return tenantCounts(index === 'documents_v3' ? target : source);
+    });
+  }
+
+  describe('getStatus', () => {
+    it('should report the indices behind the alias and their version', async () => {
+      client.indices.getAlias.mockResolvedValue({ body: { documents_v3: { aliases: { documents: {} } } } });
+
+      await expect(indexMigrationService.getStatus()).resolves.toEqual({
+        alias: 'documents',
+        indices: ['documents_v3'],
+        currentVersion: 3,
+        targetVersion: 3,
+        upToDate: true,
+        dedicated: [],
+      });
+    });
+
+    it('should include dedicated tenant indices', async () => {
+      (tenantRegistryService.listDedicatedTenants as jest.Mock).mockResolvedValue(['big']);
+      client.indices.getAlias.mockImplementation(async ({ name }: any) => ({
+        body: name === 'documents' ? { documents_v3: {} } : { 'documents-tenant-big_v2': {} },
+      }));
+
+      const status = await indexMigrationService.getStatus();
+
+      expect(status.upToDate).toBe(false);
+      expect(status.dedicated).toEqual([
+        {
+          tenantId: 'big',
+          alias: 'documents-tenant-big',
+          indices: ['documents-tenant-big_v2'],
+          currentVersion: 2,
+          upToDate: false,
+        },
+      ]);
+    });
+
+    it('should report a legacy unversioned index as version 0', async () => {
+      client.indices.getAlias.mockRejectedValue({ statusCode: 404 });
+      client.indices.exists.mockResolvedValue({ body: true });
+
+      const status = await indexMigrationService.getStatus();
+
+      expect(status).toMatchObject({ indices: ['documents'], currentVersion: 0, upToDate: false });
+    });
+  });
+
+  describe('migrate', () => {
+    it('should reindex a legacy index, verify tenant counts and swap atomically', async () => {
+      client.indices.getAlias.mockRejectedValue({ statusCode: 404 });
+      client.indices.exists.mockImplementation(async ({ index }: any) => ({ body: index === 'documents' }));
+      mockCounts({ 'tenant-1': 2, 'tenant-2': 1 }, { 'tenant-1': 2, 'tenant-2': 1 });
+
+      const [migration] = await indexMigrationService.migrate();
+
+      expect(client.indices.create).toHaveBeenCalledWith({
+        index: 'documents_v3',
+        body: expect.objectContaining({ settings: expect.any(Object), mappings: expect.any(Object) }),
+      });
+      expect(client.reindex).toHaveBeenCalledTimes(3);
+      expect(client.reindex.mock.calls[0][0].body.source).toEqual({ index: 'documents' });
+      expect(client.reindex.mock.calls[0][0].body.script.params).toEqual({ routeByTenant: true });
+      expect(client.reindex.mock.calls[1][0].body.source.query).toEqual({
+        bool: { filter: [{ range: { updated_at: { gte: migration.startedAt } } }] },
+      });
+      // The last catch-up runs with the source write-blocked, right before the swap
+      expect(client.indices.putSettings).toHaveBeenCalledTimes(1);
+      expect(client.indices.putSettings).toHaveBeenCalledWith({
+        index: 'documents',
+        body: { 'index.blocks.write': true },
+      });
+      expect(client.indices.putSettings.mock.invocationCallOrder[0]).toBeLessThan(
+        client.reindex.mock.invocationCallOrder[2]
+      );
+      expect(client.reindex.mock.invocationCallOrder[2]).toBeLessThan(
+        client.indices.updateAliases.mock.invocationCallOrder[0]
+      );
+      expect(client.indices.updateAliases).toHaveBeenCalledWith({
+        body: {
+          actions: [
+            { add: { index: 'documents_v3', alias: 'documents', is_write_index: true } },
+            { remove_index: { index: 'documents' } },
+          ],
+        },
+      });
+      expect(migration).toMatchObject({
+        status: 'completed',
+        source: 'documents',
+        target: 'documents_v3',
+        tenants: { 'tenant-1': { source: 2, target: 2 }, 'tenant-2': { source: 1, target: 1 } },
+      });
+    });
+
+    it('should move the alias off the previous version and optionally delete it', async () => {
+      client.indices.getAlias.mockResolvedValue({ body: { documents_v0: {} } });
+      mockCounts({ 'tenant-1': 1 }, { 'tenant-1': 1 });
+
+      await indexMigrationService.migrate({ deleteOld: true });
+
+      expect(client.indices.updateAliases.mock.calls[0][0].body.actions).toEqual([
+        { remove: { index: 'documents_v0', alias: 'documents' } },
+        { add: { index: 'documents_v3', alias: 'documents', is_write_index: true } },
+      ]);
+      expect(client.indices.delete).toHaveBeenCalledWith({ index: 'documents_v0' });
+      expect(client.indices.putSettings).toHaveBeenCalledTimes(1);
+    });
+
+    it('should lift the write block from a previous version that is kept', async () => {
+      client.indices.getAlias.mockResolvedValue({ body: { documents_v0: {} } });
+      mockCounts({ 'tenant-1': 1 }, { 'tenant-1': 1 });
+
+      await indexMigrationService.migrate();
+
+      expect(client.indices.putSettings.mock.calls.map(([request]: any) => request)).toEqual([
+        { index: 'documents_v0', body: { 'index.blocks.write': true } },
+        { index: 'documents_v0', body: { 'index.blocks.write': false } },
+      ]);
+      expect(client.indices.delete).not.toHaveBeenCalledWith({ index: 'documents_v0' });
+    });
+
+    it('should upgrade outdated dedicated tenant indices without routing', async () => {
+      (tenantRegistryService.listDedicatedTenants as jest.Mock).mockResolvedValue(['big']);
+      client.indices.getAlias.mockImplementation(async ({ name }: any) => ({
+        body: name === 'documents' ? { documents_v3: {} } : { 'documents-tenant-big_v2': {} },
+      }));
+      mockCounts({ big: 5 }, { big: 5 });
+
+      const migrations = await indexMigrationService.migrate();
+
+      expect(migrations).toEqual([
+        expect.objectContaining({
+          status: 'completed',
+          alias: 'documents-tenant-big',
+          tenantId: 'big',
+          source: 'documents-tenant-big_v2',
+          target: 'documents-tenant-big_v3',
+        }),
+      ]);
+      expect(client.indices.create.mock.calls[0][0].body.mappings._routing).toBeUndefined();
+      expect(client.reindex.mock.calls[0][0].body.script.params).toEqual({ routeByTenant: false });
+    });
+
+    it('should not swap the alias when tenant counts differ', async () => {
+      client.indices.getAlias.mockResolvedValue({ body: { documents_v0: {} } });
+      mockCounts({ 'tenant-1': 2, 'tenant-2': 1 }, { 'tenant-1': 2 });
+
+      await expect(indexMigrationService.migrate()).rejects.toThrow('tenant-2');
+
+      expect(client.indices.updateAliases).not.toHaveBeenCalled();
+      // Writes go to the source again
+      expect(client.indices.putSettings).toHaveBeenLastCalledWith({
+        index: 'documents_v0',
+        body: { 'index.blocks.write': false },
+      });
+      const status = await indexMigrationService.getStatus();
+      expect(status.migrations?.[0]).toMatchObject({ status: 'failed', tenants: { 'tenant-2': { source: 1, target: 0 } } });
+    });
+
+    it('should fail when the reindex task reports failures', async () => {
+      client.indices.getAlias.mockResolvedValue({ body: { documents_v0: {} } });
+      (opensearchService.waitForTask as jest.Mock).mockRejectedValue(
+        new AppError(500, 'Reindex failed: mapper_parsing_exception')
+      );
+
+      await expect(indexMigrationService.migrate()).rejects.toThrow('Reindex failed: mapper_parsing_exception');
+      expect(opensearchService.waitForTask).toHaveBeenCalledWith('node:1', 'Reindex');
+      expect(client.indices.updateAliases).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to migrate an index that is up to date', async () => {
+      client.indices.getAlias.mockResolvedValue({ body: { documents_v3: {} } });
+
+      await expect(indexMigrationService.migrate()).rejects.toMatchObject({ statusCode: 409 });
+      expect(client.indices.create).not.toHaveBeenCalled();
+    });
+
+    it('should drop a target index left behind by a failed run', async () => {
+      client.indices.getAlias.mockResolvedValue({ body: { documents_v0: {} } });
+      client.indices.exists.mockResolvedValue({ body: true });
+      mockCounts({}, {});
+
+      await indexMigrationService.migrate();
+
+      expect(client.indices.delete).toHaveBeenCalledWith({ index: 'documents_v3' });
+      expect(client.indices.delete.mock.invocationCallOrder[0]).toBeLessThan(
+        client.indices.create.mock.invocationCallOrder[0]
+      );
+    });
+  });
+
+  describe('startMigration', () => {
+    it('should return the running migration and reject a second one', async () => {
+      client.indices.getAlias.mockResolvedValue({ body: { documents_v0: {} } });
+      mockCounts({}, {});
+      let finishTask: () => void = () => undefined;
+      (opensearchService.waitForTask as jest.Mock).mockReturnValue(
+        new Promise((resolve) => {
+          finishTask = () => resolve({ failures: [] });
+        })
+      );
+
+      const [migration] = await indexMigrationService.startMigration();
+
+      expect(migration).toMatchObject({ status: 'running', source: 'documents_v0', target: 'documents_v3' });
+      await expect(indexMigrationService.startMigration()).rejects.toMatchObject({ statusCode: 409 });
+
+      finishTask();
+      await new Promise((resolve) => setImmediate(resolve));
+      await new Promise((resolve) => setImmediate(resolve));
+    });
+  });
+
+  describe('migration lock', () => {
+    beforeEach(() => {
+      client.indices.getAlias.mockResolvedValue({ body: { documents_v0: {} } });
+      mockCounts({}, {});
+    });
+
+    it('should refuse to start while another instance holds the lock', async () => {
+      lockHolder = 'other-instance';
+      client.indices.exists.mockResolvedValue({ body: true });
+
+      await expect(indexMigrationService.migrate()).rejects.toMatchObject({ statusCode: 409 });
+      await expect(indexMigrationService.moveTenant('big', 'dedicated')).rejects.toMatchObject({ statusCode: 409 });
+      // The index the other run is filling is left alone
+      expect(client.indices.delete).not.toHaveBeenCalled();
+      expect(client.reindex).not.toHaveBeenCalled();
+    });
+
+    it('should release the lock when a run finishes or fails', async () => {
+      await indexMigrationService.migrate();
+      expect(lockHolder).toBeUndefined();
+
+      client.indices.getAlias.mockResolvedValue({ body: { documents_v3: {} } });
+      await expect(indexMigrationService.migrate()).rejects.toMatchObject({ statusCode: 409 });
+      expect(lockHolder).toBeUndefined();
+      expect(redisService.releaseLock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should lift a write block left behind by an interrupted run before starting', async () => {
+      client.indices.getSettings.mockResolvedValue({
+        body: { documents_v0: { settings: { 'index.blocks.write': 'true' } } },
+      });
+
+      await indexMigrationService.migrate();
+
+      expect(client.indices.getSettings).toHaveBeenCalledWith({
+        index: 'documents_v0',
+        name: 'index.blocks.write',
+        flat_settings: true,
+      });
+      expect(client.indices.putSettings.mock.calls[0][0]).toEqual({
+        index: 'documents_v0',
+        body: { 'index.blocks.write': false },
+      });
+    });
+    it('should stop before the switch when the lock was lost', async () => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      (redisService.renewLock as jest.Mock).mockResolvedValue(false);
+      let finishTask: () => void = () => undefined;
+      (opensearchService.waitForTask as jest.Mock).mockReturnValueOnce(
+        new Promise((resolve) => {
+          finishTask = () => resolve({ failures: [] });
+        })
+      );
+
+      try {
+        const [migration] = await indexMigrationService.startMigration();
+        await jest.advanceTimersByTimeAsync(20000);
+        finishTask();
+        for (let i = 0; i < 10; i++) {
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+
+        expect(migration).toMatchObject({ status: 'failed', error: expect.stringContaining('lock was lost') });
+        expect(client.indices.updateAliases).not.toHaveBeenCalled();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('recoverInterrupted', () => {
+    beforeEach(() => {
+      client.indices.getAlias.mockResolvedValue({ body: { documents_v3: {} } });
+      client.indices.getSettings.mockResolvedValue({
+        body: { documents_v3: { settings: { 'index.blocks.write': 'true' } } },
+      });
+    });
+
+    it('should lift stale write blocks and release the lock', async () => {
+      (tenantRegistryService.listTenants as jest.Mock).mockResolvedValue([
+        { id: 'big', status: 'active', placement: 'dedicated', writesBlocked: true },
+        { id: 'small', status: 'active', placement: 'shared' },
+      ]);
+
+      await indexMigrationService.recoverInterrupted();
+
+      expect(tenantRegistryService.setWritesBlocked).toHaveBeenCalledTimes(1);
+      expect(tenantRegistryService.setWritesBlocked).toHaveBeenCalledWith('big', false);
+      expect(client.indices.putSettings).toHaveBeenCalledWith({
+        index: 'documents_v3',
+        body: { 'index.blocks.write': false },
+      });
+      expect(lockHolder).toBeUndefined();
+    });
+
+    it('should leave the blocks of a running migration alone', async () => {
+      lockHolder = 'other-instance';
+
+      await indexMigrationService.recoverInterrupted();
+
+      expect(client.indices.getSettings).not.toHaveBeenCalled();
+      expect(client.indices.putSettings).not.toHaveBeenCalled();
+    });
+
+    it('should not fail when Redis is unavailable', async () => {
+      (redisService.acquireLock as jest.Mock).mockRejectedValue(new Error('Redis error'));
+
+      await expect(indexMigrationService.recoverInterrupted()).resolves.toBeUndefined();
+      expect(client.indices.putSettings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moveTenant', () => {
+    it('should copy a tenant into a dedicated index and remove it from the shared one', async () => {
+      client.indices.getAlias.mockRejectedValue({ statusCode: 404 });
+      client.search.mockImplementation(async ({ body }: any) =>
+        body.aggs.tenants.composite.after ? emptyCounts : tenantCounts({ big: 4 })
+      );
+
+      const migration = await indexMigrationService.moveTenant('big', 'dedicated');
+
+      expect(client.indices.create).toHaveBeenCalledWith({
+        index: 'documents-tenant-big_v3',
+        body: expect.objectContaining({ aliases: { 'documents-tenant-big': { is_write_index: true } } }),
+      });
+      expect(client.reindex.mock.calls[0][0].body).toMatchObject({
+        source: { index: 'documents', query: { bool: { filter: [{ term: { tenant_id: 'big' } }] } } },
+        dest: { index: 'documents-tenant-big_v3' },
+        script: { params: { routeByTenant: false } },
+      });
+      expect(tenantRegistryService.setPlacement).toHaveBeenCalledWith('big', 'dedicated');
+      expect(client.deleteByQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ index: 'documents', routing: 'big', body: { query: { term: { tenant_id: 'big' } } } })
+      );
+      expect((tenantRegistryService.setPlacement as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+        client.deleteByQuery.mock.invocationCallOrder[0]
+      );
+
+      // Full copy and catch-up, then with writes blocked a last pass before and after the switch
+      expect(client.reindex).toHaveBeenCalledTimes(4);
+      const setWritesBlocked = tenantRegistryService.setWritesBlocked as jest.Mock;
+      expect(setWritesBlocked.mock.calls).toEqual([
+        ['big', true],
+        ['big', false],
+      ]);
+      const order = (mock: jest.Mock, call = 0) => mock.mock.invocationCallOrder[call];
+      expect(order(setWritesBlocked)).toBeLessThan(order(client.reindex, 2));
+      expect(order(client.reindex, 2)).toBeLessThan(order(tenantRegistryService.setPlacement as jest.Mock));
+      expect(order(tenantRegistryService.setPlacement as jest.Mock)).toBeLessThan(order(client.reindex, 3));
+      expect(order(client.reindex, 3)).toBeLessThan(order(setWritesBlocked, 1));
+      expect(migration).toMatchObject({ status: 'completed', placement: 'dedicated', tenants: { big: { source: 4, target: 4 } } });
+    });
+
+    it('should copy a tenant back into the shared index and drop its dedicated index', async () => {
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue({ id: 'big', placement: 'dedicated' });
+      client.indices.getAlias.mockResolvedValue({ body: { 'documents-tenant-big_v3': {} } });
+      client.indices.exists.mockResolvedValue({ body: true });
+      client.search.mockImplementation(async ({ body }: any) =>
+        body.aggs.tenants.composite.after ? emptyCounts : tenantCounts({ big: 4 })
+      );
+
+      await indexMigrationService.moveTenant('big', 'shared');
+
+      expect(client.reindex.mock.calls[0][0].body).toMatchObject({
+        source: { index: 'documents-tenant-big' },
+        dest: { index: 'documents' },
+        script: { params: { routeByTenant: true } },
+      });
+      expect(tenantRegistryService.setPlacement).toHaveBeenCalledWith('big', 'shared');
+      expect(client.indices.delete).toHaveBeenCalledWith({ index: 'documents-tenant-big_v3' });
+    });
+
+    it('should keep the tenant in place when counts differ', async () => {
+      client.indices.getAlias.mockRejectedValue({ statusCode: 404 });
+      client.search.mockImplementation(async ({ index, body }: any) => {
+        if (body.aggs.tenants.composite.after) {
+          return emptyCounts;
+        }
+        return tenantCounts({ big: index === 'documents' ? 4 : 3 });
+      });
+
+      await expect(indexMigrationService.moveTenant('big', 'dedicated')).rejects.toThrow('big');
+
+      expect(tenantRegistryService.setPlacement).not.toHaveBeenCalled();
+      expect(client.deleteByQuery).not.toHaveBeenCalled();
+      expect(tenantRegistryService.setWritesBlocked).toHaveBeenLastCalledWith('big', false);
+    });
+
+    it('should refuse to move an unknown tenant', async () => {
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue(null);
+
+      await expect(indexMigrationService.moveTenant('big', 'dedicated')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should lift a write block left by an interrupted move of a tenant already in place', async () => {
+      // The move crashed after the switch, before the block was lifted
+      const tenant = { id: 'big', status: 'active', placement: 'dedicated', writesBlocked: true };
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue(tenant);
+      (tenantRegistryService.listTenants as jest.Mock).mockResolvedValue([tenant]);
+
+      await expect(indexMigrationService.moveTenant('big', 'dedicated')).rejects.toMatchObject({ statusCode: 409 });
+
+      expect(tenantRegistryService.setWritesBlocked).toHaveBeenCalledWith('big', false);
+      expect(client.reindex).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to move a tenant to its current placement', async () => {
+      await expect(indexMigrationService.moveTenant('big', 'shared')).rejects.toMatchObject({ statusCode: 409 });
+      expect(client.reindex).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,312 @@
+import { ingestService } from '../ingest.service';
+import { redisService } from '../redis.service';
+import { opensearchService } from '../opensearch.service';
+import { cacheService } from '../cache.service';
+import { tenantRegistryService } from '../tenantRegistry.service';
+import { quotaService } from '../quota.service';
+import { AppError } from '../../middleware/errorHandler';
+import { IngestJob } from '../../types';
+import { RedisFake, installRedisFake } from '../../__tests__/helpers';
+
+jest.mock('../redis.service');
+jest.mock('../opensearch.service');
+jest.mock('../cache.service');
+jest.mock('../tenantRegistry.service');
+jest.mock('../quota.service');
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+jest.mock('../../config', () => ({
+  config: {
+    opensearch: {
+      node: 'http://localhost:9200',
+      index: 'test-documents',
+    },
+    cache: {
+      ttlSeconds: 60,
+      searchTtlSeconds: 120,
+    },
+    bulk: {
+      maxOperations: 100,
+      chunkSize: 2,
+    },
+    ingest: {
+      maxOperations: 1000,
+      pollIntervalMs: 1000,
+      jobTtlSeconds: 3600,
+    },
+    redis: {
+      host: 'localhost',
+      port: 6379,
+      password: undefined,
+      clusterMode: false,
+      enableTLS: false,
+    },
+    resilience: {
+      opensearch: { timeoutMs: 1000, retries: 0, bulkTimeoutMs: 5000, adminTimeoutMs: 5000 },
+      retryBaseDelayMs: 0,
+      retryMaxDelayMs: 0,
+      failureThreshold: 100,
+      resetTimeoutMs: 1000,
+    },
+    logging: {
+      level: 'info',
+    },
+  },
+}));
+
+describe('IngestService', () => {
+  const QUEUE_KEY = '{ingest}:queue';
+  const PROCESSING_KEY = '{ingest}:processing';
+  // In-memory stand-in for the Redis keys the service reads and writes
+  let redis: RedisFake;
+  let store: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    redis = installRedisFake(redisService);
+    store = redis.store;
+
+    // Quota checks pass everything through to OpenSearch
+    (quotaService.executeBulk as jest.Mock).mockImplementation(async (tenantId, operations, principal) => ({
+      results: await opensearchService.bulk(tenantId, operations, principal),
+      usage: {},
+    }));
+  });
+
+  describe('createJob', () => {
+    it('should store job, payload and enqueue job id', async () => {
+      const job = await ingestService.createJob('tenant-1', {
+        total: 2,
+        operations: [{ action: 'delete', id: 'a' }],
+        positions: [1],
+        invalid: [{ position: 0, action: 'create', status: 400, error: 'Validation error' }],
+      });
+
+      expect(job.status).toBe('queued');
+      expect(job.total).toBe(2);
+      expect(job.processed).toBe(1);
+      expect(job.failed).toBe(1);
+      expect(store[`ingest:job:${job.id}`]).toBeDefined();
+      expect(store[`ingest:payload:${job.id}`]).toEqual({ operations: [{ action: 'delete', id: 'a' }], positions: [1] });
+      expect(redis.lists[QUEUE_KEY]).toEqual([job.id]);
+      expect(redisService.set).toHaveBeenCalledWith(`ingest:job:${job.id}`, expect.any(Object), 3600);
+    });
+
+    it('should throw 503 when the job cannot be queued', async () => {
+      (redisService.lpush as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        ingestService.createJob('tenant-1', { total: 1, operations: [], positions: [], invalid: [] })
+      ).rejects.toMatchObject({ statusCode: 503 });
+    });
+  });
+
+  describe('getJob', () => {
+    it('should return job for owning tenant only', async () => {
+      const job = await ingestService.createJob('tenant-1', {
+        total: 1,
+        operations: [{ action: 'delete', id: 'a' }],
+        positions: [0],
+        invalid: [],
+      });
+
+      expect(await ingestService.getJob('tenant-1', job.id)).toMatchObject({ id: job.id });
+      expect(await ingestService.getJob('tenant-2', job.id)).toBeNull();
+    });
+  });
+
+  describe('processNext', () => {
+    it('should return false when the queue is empty', async () => {
+      expect(await ingestService.processNext()).toBe(false);
+    });
+
+    it('should process operations in chunks and record progress and errors', async () => {
+      const job = await ingestService.createJob('tenant-1', {
+        total: 3,
+        operations: [
+          { action: 'create', document: { id: 'a', tenantId: 'tenant-1', title: 'A', content: 'a' } },
+          { action: 'update', id: 'b', changes: { title: 'B' } },
+          { action: 'delete', id: 'c' },
+        ],
+        positions: [0, 1, 2],
+        invalid: [],
+      });
+
+      (opensearchService.bulk as jest.Mock)
+        .mockResolvedValueOnce([
+          { position: 0, action: 'create', id: 'a', status: 201, result: 'created' },
+          { position: 1, action: 'update', id: 'b', status: 200, result: 'updated' },
+        ])
+        .mockResolvedValueOnce([
+          { position: 0, action: 'delete', id: 'c', status: 404, error: 'not_found' },
+        ]);
+
+      expect(await ingestService.processNext()).toBe(true);
+
+      const stored: IngestJob = store[`ingest:job:${job.id}`];
+      expect(opensearchService.bulk).toHaveBeenCalledTimes(2);
+      expect(stored.status).toBe('completed');
+      expect(stored.processed).toBe(3);
+      expect(stored.succeeded).toBe(2);
+      expect(stored.failed).toBe(1);
+      expect(stored.errors).toEqual([{ position: 2, action: 'delete', id: 'c', status: 404, error: 'not_found' }]);
+      expect(store[`ingest:payload:${job.id}`]).toBeUndefined();
+      expect(cacheService.invalidateDocuments).toHaveBeenCalledWith('tenant-1', ['b']);
+      expect(cacheService.invalidateTenantSearches).toHaveBeenCalledTimes(1);
+      expect(redis.lists[PROCESSING_KEY]).toEqual([]);
+      expect(store[`ingest:lease:${job.id}`]).toBeUndefined();
+    });
+
+    it('should hold a lease on the job while it runs', async () => {
+      const job = await ingestService.createJob('tenant-1', {
+        total: 1,
+        operations: [{ action: 'delete', id: 'a' }],
+        positions: [0],
+        invalid: [],
+      });
+      (opensearchService.bulk as jest.Mock).mockImplementation(async () => {
+        expect(redis.lists[PROCESSING_KEY]).toEqual([job.id]);
+        expect(store[`ingest:lease:${job.id}`]).toBe(true);
+        return [{ position: 0, action: 'delete', id: 'a', status: 200, result: 'deleted' }];
+      });
+
+      await ingestService.processNext();
+
+      expect(redisService.set).toHaveBeenCalledWith(`ingest:lease:${job.id}`, true, 300);
+      expect(redis.lists[PROCESSING_KEY]).toEqual([]);
+    });
+
+    it('should resume a requeued job after the chunks already recorded', async () => {
+      const job = await ingestService.createJob('tenant-1', {
+        total: 3,
+        operations: [
+          { action: 'update', id: 'a', changes: { title: 'A' } },
+          { action: 'delete', id: 'b' },
+          { action: 'delete', id: 'c' },
+        ],
+        positions: [0, 1, 2],
+        invalid: [],
+      });
+      // A previous worker finished the first chunk before it stopped
+      Object.assign(store[`ingest:job:${job.id}`], { status: 'processing', processed: 2, succeeded: 2 });
+      (opensearchService.bulk as jest.Mock).mockResolvedValue([
+        { position: 0, action: 'delete', id: 'c', status: 200, result: 'deleted' },
+      ]);
+
+      await ingestService.processNext();
+
+      expect(opensearchService.bulk).toHaveBeenCalledTimes(1);
+      expect(opensearchService.bulk).toHaveBeenCalledWith('tenant-1', [{ action: 'delete', id: 'c' }], undefined);
+      expect(store[`ingest:job:${job.id}`]).toMatchObject({ status: 'completed', processed: 3, succeeded: 3 });
+      expect(cacheService.invalidateDocuments).toHaveBeenCalledWith('tenant-1', ['a', 'b', 'c']);
+    });
+
+    it('should skip jobs that already finished', async () => {
+      const job = await ingestService.createJob('tenant-1', {
+        total: 1,
+        operations: [{ action: 'delete', id: 'a' }],
+        positions: [0],
+        invalid: [],
+      });
+      store[`ingest:job:${job.id}`].status = 'completed';
+
+      expect(await ingestService.processNext()).toBe(true);
+
+      expect(opensearchService.bulk).not.toHaveBeenCalled();
+      expect(redis.lists[PROCESSING_KEY]).toEqual([]);
+    });
+
+    it('should apply the submitter principal to the queued operations', async () => {
+      const principal = { userId: 'alice', groups: ['editors'], departments: [] };
+      const job = await ingestService.createJob(
+        'tenant-1',
+        { total: 1, operations: [{ action: 'delete', id: 'a' }], positions: [0], invalid: [] },
+        principal
+      );
+      (opensearchService.bulk as jest.Mock).mockResolvedValue([
+        { position: 0, action: 'delete', id: 'a', status: 404, error: 'Document not found' },
+      ]);
+
+      await ingestService.processNext();
+
+      expect(quotaService.executeBulk).toHaveBeenCalledWith('tenant-1', [{ action: 'delete', id: 'a' }], principal);
+      expect(store[`ingest:job:${job.id}`]).toMatchObject({ status: 'completed', failed: 1 });
+    });
+
+    it('should mark job as failed when processing throws', async () => {
+      const job = await ingestService.createJob('tenant-1', {
+        total: 1,
+        operations: [{ action: 'delete', id: 'a' }],
+        positions: [0],
+        invalid: [],
+      });
+
+      (opensearchService.bulk as jest.Mock).mockRejectedValue(new Error('Cluster unavailable'));
+
+      await ingestService.processNext();
+
+      const stored: IngestJob = store[`ingest:job:${job.id}`];
+      expect(stored.status).toBe('failed');
+      expect(stored.error).toBe('Cluster unavailable');
+    });
+
+    it('should mark job as failed when payload has expired', async () => {
+      const job = await ingestService.createJob('tenant-1', {
+        total: 1,
+        operations: [{ action: 'delete', id: 'a' }],
+        positions: [0],
+        invalid: [],
+      });
+      delete store[`ingest:payload:${job.id}`];
+
+      await ingestService.processNext();
+
+      expect(store[`ingest:job:${job.id}`].status).toBe('failed');
+      expect(opensearchService.bulk).not.toHaveBeenCalled();
+    });
+
+    it('should not process jobs of a tenant suspended while they were queued', async () => {
+      const job = await ingestService.createJob('tenant-1', {
+        total: 1,
+        operations: [{ action: 'delete', id: 'a' }],
+        positions: [0],
+        invalid: [],
+      });
+      (tenantRegistryService.assertActive as jest.Mock).mockRejectedValueOnce(
+        new AppError(403, 'Tenant is suspended')
+      );
+
+      await ingestService.processNext();
+
+      expect(store[`ingest:job:${job.id}`]).toMatchObject({ status: 'failed', error: 'Tenant is suspended' });
+      expect(opensearchService.bulk).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requeueStaleJobs', () => {
+    it('should requeue processing jobs that stay without a lease', async () => {
+      redis.lists[PROCESSING_KEY] = ['abandoned', 'running'];
+      store['ingest:lease:running'] = true;
+
+      expect(await ingestService.requeueStaleJobs()).toBe(0);
+      expect(await ingestService.requeueStaleJobs()).toBe(1);
+
+      expect(redis.lists[QUEUE_KEY]).toEqual(['abandoned']);
+      expect(redis.lists[PROCESSING_KEY]).toEqual(['running']);
+    });
+
+    it('should not requeue a job whose lease appeared since the last check', async () => {
+      redis.lists[PROCESSING_KEY] = ['starting'];
+
+      await ingestService.requeueStaleJobs();
+      store['ingest:lease:starting'] = true;
+
+      expect(await ingestService.requeueStaleJobs()).toBe(0);
+      expect(redis.lists[PROCESSING_KEY]).toEqual(['starting']);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { jwtService } from '../jwt.service';
+import { config } from '../../config';
+
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+jest.mock('../../config', () => ({
+  config: {
+    auth: {
+      jwt: {
+        hs256Secret: undefined,
+        jwksPath: undefined,
+        issuer: undefined,
+        audience: undefined,
+        tenantClaim: 'tenant_id',
+        rolesClaim: 'roles',
+        groupsClaim: 'groups',
+        departmentClaim: 'department',
+        scopeClaim: 'scope',
+        scopePrefix: '',
+        clockToleranceSeconds: 30,
+      },
+    },
+    logging: {
+      level: 'info',
+    },
+  },
+}));
+
+const HS_SECRET = 'test-shared-secret';
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwksPath = path.join(os.tmpdir(), `jwks-${process.pid}-${Date.now()}.json`);
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signHs256(payload: object, secret = HS_SECRET): string {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${crypto.createHmac('sha256', secret).update(input).digest('base64url')}`;
+}
+
+function signRs256(payload: object, kid = 'key-1', key = privateKey): string {
+  const input = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(payload)}`;
+  return `${input}.${crypto.sign('RSA-SHA256', Buffer.from(input), key).toString('base64url')}`;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('JwtService', () => {
+  beforeAll(() => {
+    const jwk = publicKey.export({ format: 'jwk' });
+    fs.writeFileSync(jwksPath, JSON.stringify({ keys: [{ ...jwk, kid: 'key-1', use: 'sig', alg: 'RS256' }] }));
+  });
+
+  afterAll(() => {
+    fs.unlinkSync(jwksPath);
+  });
+
+  beforeEach(() => {
+    Object.assign(config.auth.jwt, {
+      hs256Secret: HS_SECRET,
+      jwksPath,
+      issuer: 'https://sso.example.com',
+      audience: 'fetch-doccy',
+      tenantClaim: 'tenant_id',
+      rolesClaim: 'roles',
+      groupsClaim: 'groups',
+      departmentClaim: 'department',
+    });
+  });
+
+  const validClaims = () => ({
+    sub: 'user-42',
+    tenant_id: 'tenant-1',
+    roles: ['editor'],
+    iss: 'https://sso.example.com',
+    aud: 'fetch-doccy',
+    exp: now() + 300,
+  });
+
+  it('should verify HS256 tokens and map claims', () => {
+    const principal = jwtService.verify(signHs256(validClaims()));
+
+    expect(principal).toMatchObject({ tenantId: 'tenant-1', userId: 'user-42', roles: ['editor'] });
+    expect(principal.scopes).toBeUndefined();
+  });
+
+  it('should map group and department claims for document ACLs', () => {
+    const principal = jwtService.verify(
+      signHs256({ ...validClaims(), groups: 'legal finance', department: 'emea' })
+    );
+
+    expect(principal.groups).toEqual(['legal', 'finance']);
+    expect(principal.department).toBe('emea');
+  });
+
+  it('should verify RS256 tokens against the JWKS file', () => {
+    const principal = jwtService.verify(signRs256(validClaims()));
+
+    expect(principal.tenantId).toBe('tenant-1');
+  });
+
+  it('should reject RS256 tokens signed by an unknown key', () => {
+    const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+
+    expect(() => jwtService.verify(signRs256(validClaims(), 'key-1', other))).toThrow('Invalid token signature');
+    expect(() => jwtService.verify(signRs256(validClaims(), 'key-2'))).toThrow('No matching signing key');
+  });
+
+  it('should reject tampered HS256 tokens', () => {
+    expect(() => jwtService.verify(signHs256(validClaims(), 'wrong-secret'))).toThrow('Invalid token signature');
+  });
+
+  it('should reject unsigned tokens', () => {
+    const token = `${encode({ alg: 'none' })}.${encode(validClaims())}.`;
+
+    expect(() => jwtService.verify(token)).toThrow('Unsupported token algorithm');
+  });
+
+  it('should reject expired tokens and tokens without expiry', () => {
+    expect(() => jwtService.verify(signHs256({ ...validClaims(), exp: now() - 120 }))).toThrow('Token has expired');
+
+    const { exp: _exp, ...noExpiry } = validClaims();
+    expect(() => jwtService.verify(signHs256(noExpiry))).toThrow('Token has no expiry');
+  });
+
+  it('should reject tokens without a subject', () => {
+    const { sub: _sub, ...claims } = validClaims();
+
+    expect(() => jwtService.verify(signHs256(claims))).toThrow('Token has no subject');
+    expect(() => jwtService.verify(signHs256({ ...claims, sub: 42 }))).toThrow(
+      expect.objectContaining({ statusCode: 401 })
+    );
+  });
+
+  it('should validate issuer and audience', () => {
+    expect(() => jwtService.verify(signHs256({ ...validClaims(), iss: 'https://evil.example.com' }))).toThrow(
+      'issuer'
+    );
+    expect(() => jwtService.verify(signHs256({ ...validClaims(), aud: ['other-app'] }))).toThrow('audience');
+    expect(jwtService.verify(signHs256({ ...validClaims(), aud: ['other-app', 'fetch-doccy'] })).tenantId).toBe(
+      'tenant-1'
+    );
+  });
+
+  it('should read a configurable, nested tenant claim', () => {
+    config.auth.jwt.tenantClaim = 'org.tenant';
+    const { tenant_id: _tenant, ...claims } = validClaims();
+
+    const principal = jwtService.verify(signHs256({ ...claims, org: { tenant: 'tenant-7' } }));
+
+    expect(principal.tenantId).toBe('tenant-7');
+  });
+
+  it('should reject tokens without a tenant claim with 403', () => {
+    const { tenant_id: _tenant, ...claims } = validClaims();
+
+    expect(() => jwtService.verify(signHs256(claims))).toThrow(expect.objectContaining({ statusCode: 403 }));
+  });
+
+  it('should map the OAuth scope claim to known scopes', () => {
+    const principal = jwtService.verify(signHs256({ ...validClaims(), scope: 'read openid write' }));
+
+    expect(principal.scopes).toEqual(['read', 'write']);
+  });
+
+  it('should not restrict tokens whose scopes are all meant for other services', () => {
+    const principal = jwtService.verify(signHs256({ ...validClaims(), scope: 'openid profile email' }));
+
+    expect(principal.scopes).toBeUndefined();
+  });
+
+  describe('with a configured scope claim and prefix', () => {
+    beforeEach(() => {
+      config.auth.jwt.scopeClaim = 'permissions';
+      config.auth.jwt.scopePrefix = 'docs:';
+    });
+
+    afterEach(() => {
+      config.auth.jwt.scopeClaim = 'scope';
+      config.auth.jwt.scopePrefix = '';
+    });
+
+    it('should only take the prefixed scopes from that claim', () => {
+      const principal = jwtService.verify(
+        signHs256({ ...validClaims(), scope: 'openid admin', permissions: ['docs:read', 'billing:write', 'write'] })
+      );
+
+      expect(principal.scopes).toEqual(['read']);
+    });
+  });
+});
@@ -1,4 +1,9 @@
 import { opensearchService } from '../opensearch.service';
+import { tenantSettingsService } from '../tenantSettings.service';
+import { tenantRegistryService } from '../tenantRegistry.service';
+import { searchLimiterService } from '../searchLimiter.service';
+import { redisService } from '../redis.service';
+import { buildSynonymIndex } from '../../utils/synonyms';
 import { Document, SearchQuery } from '../../types';
 
 // Mock config before importing the service
@@ -9,6 +14,26 @@ jest.mock('../../config', () => ({
       index: 'test-documents',
       username: 'admin',
       password: 'admin',
+      shards: 3,
+    },
+    bulk: {
+      maxOperations: 100,
+      chunkSize: 2,
+    },
+    search: {
+      facetSize: 5,
+      defaultFacetInterval: 'month',
+      cursorKeepAliveSeconds: 300,
+      maxOpenCursors: 2,
+      suggestMaxHits: 1,
+      synonyms: ['timeout, time out'],
+    },
+    resilience: {
+      opensearch: { timeoutMs: 1000, retries: 0, bulkTimeoutMs: 5000, adminTimeoutMs: 5000, taskTimeoutMs: 5000 },
+      retryBaseDelayMs: 0,
+      retryMaxDelayMs: 0,
+      failureThreshold: 100,
+      resetTimeoutMs: 1000,
     },
     logging: {
       level: 'info',
@@ -16,6 +41,33 @@ jest.mock('../../config', () => ({
   },
 }));
 
+jest.mock('../tenantSettings.service', () => ({
+  tenantSettingsService: {
+    getDefaultLanguage: jest.fn(),
+    getSynonymIndex: jest.fn(async () => jest.requireActual('../../utils/synonyms').buildSynonymIndex([])),
+  },
+}));
+
+jest.mock('../tenantRegistry.service', () => ({
+  tenantRegistryService: {
+    getPlacement: jest.fn(async () => 'shared'),
+    getTenant: jest.fn(async () => null),
+  },
+}));
+
+jest.mock('../redis.service', () => ({
+  redisService: {
+    takeSlot: jest.fn(async () => true),
+    releaseSlot: jest.fn(async () => true),
+  },
+}));
+
+jest.mock('../searchLimiter.service', () => ({
+  searchLimiterService: {
+    run: jest.fn((_tenantId: string, search: () => Promise<unknown>) => search()),
+  },
+}));
+
 // Mock logger
 jest.mock('../../utils/logger', () => ({
   info: jest.fn(),
@@ -32,20 +84,42 @@ jest.mock('@opensearch-project/opensearch', () => {
   const mockGet = jest.fn();
   const mockDelete = jest.fn();
   const mockSearch = jest.fn();
+  const mockBulk = jest.fn();
+  const mockCreatePit = jest.fn();
+  const mockDeletePit = jest.fn();
   const mockClusterHealth = jest.fn();
+  const mockIndicesGetAlias = jest.fn();
+  const mockIndicesDelete = jest.fn();
+  const mockDeleteByQuery = jest.fn();
+  const mockMget = jest.fn();
+  const mockIndicesRefresh = jest.fn();
+  const mockTasksGet = jest.fn();
+  const mockTasksCancel = jest.fn();
 
   const mockClient = {
     indices: {
       exists: mockIndicesExists,
       create: mockIndicesCreate,
+      getAlias: mockIndicesGetAlias,
+      delete: mockIndicesDelete,
+      refresh: mockIndicesRefresh,
     },
+    deleteByQuery: mockDeleteByQuery,
+    mget: mockMget,
     index: mockIndex,
     get: mockGet,
     delete: mockDelete,
     search: mockSearch,
+    bulk: mockBulk,
+    createPit: mockCreatePit,
+    deletePit: mockDeletePit,
     cluster: {
       health: mockClusterHealth,
     },
+    tasks: {
+      get: mockTasksGet,
+      cancel: mockTasksCancel,
+    },
   };
 
   const ClientConstructor = jest.fn(() => mockClient);
@@ -58,7 +132,17 @@ jest.mock('@opensearch-project/opensearch', () => {
     get: mockGet,
     delete: mockDelete,
     search: mockSearch,
+    bulk: mockBulk,
+    createPit: mockCreatePit,
+    deletePit: mockDeletePit,
     clusterHealth: mockClusterHealth,
+    indicesGetAlias: mockIndicesGetAlias,
+    indicesDelete: mockIndicesDelete,
+    deleteByQuery: mockDeleteByQuery,
+    mget: mockMget,
+    indicesRefresh: mockIndicesRefresh,
+    tasksGet: mockTasksGet,
+    tasksCancel: mockTasksCancel,
   };
 
   return {
@@ -78,6 +162,9 @@ describe('OpenSearchService', () => {
   let mockGet: jest.Mock;
   let mockDelete: jest.Mock;
   let mockSearch: jest.Mock;
+  let mockBulk: jest.Mock;
+  let mockCreatePit: jest.Mock;
+  let mockDeletePit: jest.Mock;
   let mockClusterHealth: jest.Mock;
 
   beforeEach(() => {
@@ -90,6 +177,9 @@ describe('OpenSearchService', () => {
     mockGet = mocks.get;
     mockDelete = mocks.delete;
     mockSearch = mocks.search;
+    mockBulk = mocks.bulk;
+    mockCreatePit = mocks.createPit;
+    mockDeletePit = mocks.deletePit;
     mockClusterHealth = mocks.clusterHealth;
   });
 
@@ -102,6 +192,85 @@ describe('OpenSearchService', () => {
       expect(mockIndicesCreate).toHaveBeenCalled();
     });
 
+    it('should create the versioned index behind the configured alias', async () => {
+      mockIndicesExists.mockResolvedValue({ body: false });
+
+      await opensearchService.initializeIndex();
+
+      const { index, body } = mockIndicesCreate.mock.calls[0][0] as any;
+      expect(index).toBe('test-documents_v3');
+      expect(body.aliases).toEqual({ 'test-documents': { is_write_index: true } });
+    });
+
+    it('should require routing and use the configured shard count', async () => {
+      mockIndicesExists.mockResolvedValue({ body: false });
+
+      await opensearchService.initializeIndex();
+
+      const { settings, mappings } = (mockIndicesCreate.mock.calls[0][0] as any).body;
+      expect(settings.number_of_shards).toBe(3);
+      expect(mappings._routing).toEqual({ required: true });
+    });
+
+    it('should map the content size for quota accounting', async () => {
+      mockIndicesExists.mockResolvedValue({ body: false });
+
+      await opensearchService.initializeIndex();
+
+      const mappings = (mockIndicesCreate.mock.calls[0][0] as any).body.mappings;
+      expect(mappings.properties.size_bytes).toEqual({ type: 'long' });
+    });
+
+    it('should map a title.keyword sub-field for sorting', async () => {
+      mockIndicesExists.mockResolvedValue({ body: false });
+
+      await opensearchService.initializeIndex();
+
+      const mappings = (mockIndicesCreate.mock.calls[0][0] as any).body.mappings;
+      expect(mappings.properties.title.fields.keyword.type).toBe('keyword');
+    });
+
+    it('should map an edge-ngram title sub-field for suggestions', async () => {
+      mockIndicesExists.mockResolvedValue({ body: false });
+
+      await opensearchService.initializeIndex();
+
+      const body = mockIndicesCreate.mock.calls[0][0] as any;
+      expect(body.body.mappings.properties.title.fields.autocomplete).toEqual({
+        type: 'text',
+        analyzer: 'autocomplete',
+        search_analyzer: 'standard',
+      });
+      expect(body.body.settings.analysis.analyzer.autocomplete.filter).toContain('autocomplete_edge_ngram');
+    });
+
+    it('should map stemmed title/content fields per language with search-time synonyms', async () => {
+      mockIndicesExists.mockResolvedValue({ body: false });
+
+      await opensearchService.initializeIndex();
+
+      const { settings, mappings } = (mockIndicesCreate.mock.calls[0][0] as any).body;
+      expect(mappings.properties.language).toEqual({ type: 'keyword' });
+      expect(mappings.properties.content_en).toEqual({
+        type: 'text',
+        analyzer: 'english_text',
+        search_analyzer: 'english_search',
+      });
+      expect(mappings.properties.title_de.analyzer).toBe('german_text');
+      expect(settings.analysis.filter.search_synonyms).toEqual({
+        type: 'synonym_graph',
+        synonyms: ['timeout, time out'],
+        lenient: true,
+      });
+      expect(settings.analysis.analyzer.english_text.filter).toEqual(['lowercase', 'english_stop', 'english_stemmer']);
+      expect(settings.analysis.analyzer.english_search.filter).toEqual([
+        'lowercase',
+        'search_synonyms',
+        'english_stop',
+        'english_stemmer',
+      ]);
+    });
+
     it('should not create index if it already exists', async () => {
       mockIndicesExists.mockResolvedValue({ body: true });
 
@@ -145,6 +314,55 @@ describe('OpenSearchService', () => {
       );
     });
 
+    it('should store the UTF-8 size of the content', async () => {
+      mockIndex.mockResolvedValue({});
+
+      await opensearchService.indexDocument('tenant-1', { id: 'doc-1', tenantId: 'tenant-1', title: 'T', content: 'Grüße' });
+
+      expect(mockIndex.mock.calls[0][0].body.size_bytes).toBe(7);
+    });
+
+    it('should route the document to its tenant in the shared index', async () => {
+      mockIndex.mockResolvedValue({});
+
+      await opensearchService.indexDocument('tenant-1', { id: 'doc-1', tenantId: 'tenant-1', title: 'T', content: 'C' });
+
+      expect(mockIndex).toHaveBeenCalledWith(expect.objectContaining({ index: 'test-documents', routing: 'tenant-1' }));
+    });
+
+    it('should write to the dedicated index of a tenant placed there', async () => {
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValueOnce({ id: 'Big', placement: 'dedicated' });
+      mockIndex.mockResolvedValue({});
+
+      await opensearchService.indexDocument('Big', { id: 'doc-1', tenantId: 'Big', title: 'T', content: 'C' });
+
+      const params = mockIndex.mock.calls[0][0];
+      expect(params.index).toMatch(/^test-documents-tenant-big-[0-9a-f]{8}$/);
+      expect(params.routing).toBeUndefined();
+    });
+
+    it('should answer 503 while the index is write-blocked by a migration', async () => {
+      mockIndex.mockRejectedValue(
+        Object.assign(new Error('cluster_block_exception'), {
+          statusCode: 403,
+          body: { error: { type: 'cluster_block_exception' } },
+        })
+      );
+
+      await expect(
+        opensearchService.indexDocument('tenant-1', { id: 'doc-1', tenantId: 'tenant-1', title: 'T', content: 'C' })
+      ).rejects.toMatchObject({ statusCode: 503, retryAfterSeconds: 5 });
+    });
+
+    it('should answer 503 while the tenant is being moved', async () => {
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValueOnce({ id: 'tenant-1', writesBlocked: true });
+
+      await expect(
+        opensearchService.indexDocument('tenant-1', { id: 'doc-1', tenantId: 'tenant-1', title: 'T', content: 'C' })
+      ).rejects.toMatchObject({ statusCode: 503, retryAfterSeconds: 5 });
+      expect(mockIndex).not.toHaveBeenCalled();
+    });
+
     it('should generate doc ID if not provided', async () => {
       const tenantId = 'tenant-1';
       const document: Document = {
@@ -160,7 +378,50 @@ describe('OpenSearchService', () => {
       expect(mockIndex).toHaveBeenCalled();
       const callArgs = mockIndex.mock.calls[0][0] as any;
       expect(callArgs.id).toContain(tenantId);
-      expect(callArgs.body.doc_id).toBeDefined();
+      expect(callArgs.body.doc_id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    });
+
+    it('should return the stored document with generated id and version', async () => {
+      const tenantId = 'tenant-1';
+      mockIndex.mockResolvedValue({ body: { _seq_no: 0, _primary_term: 1 } });
+
+      const result = await opensearchService.indexDocument(tenantId, {
+        tenantId,
+        title: 'Test Document',
+        content: 'Test content',
+      });
+
+      const callArgs = mockIndex.mock.calls[0][0] as any;
+      expect(result.id).toBe(callArgs.body.doc_id);
+      expect(result.tenantId).toBe(tenantId);
+      expect(result.createdAt).toBe(callArgs.body.created_at);
+      expect(result.version).toBe('0-1');
+    });
+
+    it('should use op_type create in create-only mode', async () => {
+      mockIndex.mockResolvedValue({});
+
+      await opensearchService.indexDocument(
+        'tenant-1',
+        { id: 'doc-1', tenantId: 'tenant-1', title: 'T', content: 'C' },
+        { createOnly: true }
+      );
+
+      expect(mockIndex).toHaveBeenCalledWith(expect.objectContaining({ op_type: 'create' }));
+    });
+
+    it('should reject duplicate ids with 409 in create-only mode', async () => {
+      const conflict: any = new Error('version_conflict_engine_exception');
+      conflict.statusCode = 409;
+      mockIndex.mockRejectedValue(conflict);
+
+      await expect(
+        opensearchService.indexDocument(
+          'tenant-1',
+          { id: 'doc-1', tenantId: 'tenant-1', title: 'T', content: 'C' },
+          { createOnly: true }
+        )
+      ).rejects.toMatchObject({ statusCode: 409 });
     });
 
     it('should include tags and metadata', async () => {
@@ -182,6 +443,43 @@ describe('OpenSearchService', () => {
       expect(callArgs.body.metadata).toEqual({ author: 'John', type: 'article' });
     });
 
+    it('should copy title and content into the fields of the document language', async () => {
+      mockIndex.mockResolvedValue({});
+
+      const stored = await opensearchService.indexDocument('tenant-1', {
+        id: 'doc-1',
+        tenantId: 'tenant-1',
+        title: 'Fehler',
+        content: 'Zeitüberschreitungen',
+        language: 'de',
+      });
+
+      const body = mockIndex.mock.calls[0][0].body;
+      expect(body).toEqual(
+        expect.objectContaining({ language: 'de', title_de: 'Fehler', content_de: 'Zeitüberschreitungen' })
+      );
+      expect(body.title_en).toBeUndefined();
+      expect(stored.language).toBe('de');
+      expect(tenantSettingsService.getDefaultLanguage).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the tenant default language', async () => {
+      mockIndex.mockResolvedValue({});
+      (tenantSettingsService.getDefaultLanguage as jest.Mock).mockResolvedValueOnce('en');
+
+      await opensearchService.indexDocument('tenant-1', {
+        id: 'doc-1',
+        tenantId: 'tenant-1',
+        title: 'Timeouts',
+        content: 'Requests timing out',
+      });
+
+      expect(tenantSettingsService.getDefaultLanguage).toHaveBeenCalledWith('tenant-1');
+      expect(mockIndex.mock.calls[0][0].body).toEqual(
+        expect.objectContaining({ language: 'en', title_en: 'Timeouts', content_en: 'Requests timing out' })
+      );
+    });
+
     it('should throw error on indexing failure', async () => {
       const tenantId = 'tenant-1';
       const document: Document = {
@@ -223,7 +521,8 @@ describe('OpenSearchService', () => {
       expect(result?.id).toBe(docId);
       expect(result?.tenantId).toBe(tenantId);
       expect(mockGet).toHaveBeenCalledWith({
-        index: expect.any(String),
+        index: 'test-documents',
+        routing: tenantId,
         id: `${tenantId}_${docId}`,
       });
     });
@@ -276,6 +575,158 @@ describe('OpenSearchService', () => {
         opensearchService.getDocument(tenantId, docId)
       ).rejects.toThrow();
     });
+
+    it('should hide documents whose ACL does not grant the principal', async () => {
+      const documentIndex = {
+        tenant_id: 'tenant-1',
+        doc_id: 'doc-123',
+        title: 'Restricted',
+        content: 'Content',
+        tags: [],
+        metadata: {},
+        acl: { groups: ['legal'] },
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+      };
+      mockGet.mockResolvedValue({ body: { _source: documentIndex } });
+
+      const hidden = await opensearchService.getDocument('tenant-1', 'doc-123', {
+        userId: 'bob',
+        groups: ['sales'],
+        departments: [],
+      });
+      const visible = await opensearchService.getDocument('tenant-1', 'doc-123', {
+        userId: 'alice',
+        groups: ['legal'],
+        departments: [],
+      });
+
+      expect(hidden).toBeNull();
+      expect(visible?.acl).toEqual({ groups: ['legal'] });
+    });
+  });
+
+  describe('updateDocument', () => {
+    const tenantId = 'tenant-1';
+    const docId = 'doc-123';
+    const documentIndex = {
+      tenant_id: tenantId,
+      doc_id: docId,
+      title: 'Original Title',
+      content: 'Original content',
+      tags: ['a'],
+      metadata: { author: 'alice', type: 'note' },
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+    };
+
+    it('should replace document and preserve created_at', async () => {
+      mockGet.mockResolvedValue({ body: { _source: documentIndex } });
+      mockIndex.mockResolvedValue({});
+
+      const result = await opensearchService.updateDocument(
+        tenantId,
+        docId,
+        { title: 'New Title', content: 'New content' },
+        'replace'
+      );
+
+      expect(result?.title).toBe('New Title');
+      expect(result?.tags).toEqual([]);
+      expect(result?.createdAt).toBe('2024-01-01T00:00:00Z');
+      expect(result?.updatedAt).not.toBe('2024-01-01T00:00:00Z');
+      expect(mockIndex).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: `${tenantId}_${docId}`,
+          body: expect.objectContaining({
+            title: 'New Title',
+            tags: [],
+            metadata: {},
+            created_at: '2024-01-01T00:00:00Z',
+          }),
+        })
+      );
+    });
+
+    it('should merge partial changes into existing document', async () => {
+      mockGet.mockResolvedValue({ body: { _source: documentIndex } });
+      mockIndex.mockResolvedValue({});
+
+      const result = await opensearchService.updateDocument(
+        tenantId,
+        docId,
+        { title: 'Fixed Title', metadata: { department: 'eng' } },
+        'merge'
+      );
+
+      expect(result?.title).toBe('Fixed Title');
+      expect(result?.content).toBe('Original content');
+      expect(result?.tags).toEqual(['a']);
+      expect(result?.metadata).toEqual({ author: 'alice', type: 'note', department: 'eng' });
+      expect(result?.createdAt).toBe('2024-01-01T00:00:00Z');
+    });
+
+    it('should return null when document does not exist', async () => {
+      const error: any = new Error('Not found');
+      error.statusCode = 404;
+      mockGet.mockRejectedValue(error);
+
+      const result = await opensearchService.updateDocument(tenantId, docId, { title: 'x' }, 'merge');
+
+      expect(result).toBeNull();
+      expect(mockIndex).not.toHaveBeenCalled();
+    });
+
+    it('should write against the version that was read', async () => {
+      mockGet.mockResolvedValue({ body: { _source: documentIndex, _seq_no: 4, _primary_term: 1 } });
+      mockIndex.mockResolvedValue({ body: { _seq_no: 5, _primary_term: 1 } });
+
+      const result = await opensearchService.updateDocument(tenantId, docId, { title: 'x' }, 'merge');
+
+      expect(result?.version).toBe('5-1');
+      expect(mockIndex).toHaveBeenCalledWith(
+        expect.objectContaining({ if_seq_no: 4, if_primary_term: 1 })
+      );
+    });
+
+    it('should reject with 412 when If-Match does not match', async () => {
+      mockGet.mockResolvedValue({ body: { _source: documentIndex, _seq_no: 4, _primary_term: 1 } });
+
+      await expect(
+        opensearchService.updateDocument(tenantId, docId, { title: 'x' }, 'merge', { ifMatch: ['3-1'] })
+      ).rejects.toMatchObject({ statusCode: 412 });
+      expect(mockIndex).not.toHaveBeenCalled();
+    });
+
+    it('should reject with 412 when If-Match is given for a missing document', async () => {
+      const error: any = new Error('Not found');
+      error.statusCode = 404;
+      mockGet.mockRejectedValue(error);
+
+      await expect(
+        opensearchService.updateDocument(tenantId, docId, { title: 'x' }, 'merge', { ifMatch: ['*'] })
+      ).rejects.toMatchObject({ statusCode: 412 });
+    });
+
+    it('should translate concurrent version conflicts into 412', async () => {
+      mockGet.mockResolvedValue({ body: { _source: documentIndex, _seq_no: 4, _primary_term: 1 } });
+      const conflict: any = new Error('version_conflict_engine_exception');
+      conflict.statusCode = 409;
+      mockIndex.mockRejectedValue(conflict);
+
+      await expect(
+        opensearchService.updateDocument(tenantId, docId, { title: 'x' }, 'merge')
+      ).rejects.toMatchObject({ statusCode: 412 });
+    });
+
+    it('should throw error on indexing failure', async () => {
+      mockGet.mockResolvedValue({ body: { _source: documentIndex } });
+      mockIndex.mockRejectedValue(new Error('Indexing failed'));
+
+      await expect(
+        opensearchService.updateDocument(tenantId, docId, { title: 'x' }, 'merge')
+      ).rejects.toThrow('Indexing failed');
+    });
   });
 
   describe('deleteDocument', () => {
@@ -289,12 +740,46 @@ describe('OpenSearchService', () => {
 
       expect(result).toBe(true);
       expect(mockDelete).toHaveBeenCalledWith({
-        index: expect.any(String),
+        index: 'test-documents',
+        routing: tenantId,
         id: `${tenantId}_${docId}`,
         refresh: true,
       });
     });
 
+    it('should delete conditionally when If-Match matches', async () => {
+      mockGet.mockResolvedValue({
+        body: {
+          _source: { tenant_id: 'tenant-1', doc_id: 'doc-123', title: 't', content: 'c' },
+          _seq_no: 7,
+          _primary_term: 2,
+        },
+      });
+      mockDelete.mockResolvedValue({});
+
+      const result = await opensearchService.deleteDocument('tenant-1', 'doc-123', { ifMatch: ['7-2'] });
+
+      expect(result).toBe(true);
+      expect(mockDelete).toHaveBeenCalledWith(
+        expect.objectContaining({ if_seq_no: 7, if_primary_term: 2 })
+      );
+    });
+
+    it('should reject delete with 412 when If-Match does not match', async () => {
+      mockGet.mockResolvedValue({
+        body: {
+          _source: { tenant_id: 'tenant-1', doc_id: 'doc-123', title: 't', content: 'c' },
+          _seq_no: 7,
+          _primary_term: 2,
+        },
+      });
+
+      await expect(
+        opensearchService.deleteDocument('tenant-1', 'doc-123', { ifMatch: ['6-2'] })
+      ).rejects.toMatchObject({ statusCode: 412 });
+      expect(mockDelete).not.toHaveBeenCalled();
+    });
+
     it('should return false when document not found', async () => {
       const tenantId = 'tenant-1';
       const docId = 'non-existent';
@@ -322,6 +807,219 @@ describe('OpenSearchService', () => {
     });
   });
 
+  describe('bulk', () => {
+    const tenantId = 'tenant-1';
+
+    it('should execute operations in chunks and refresh only on the last chunk', async () => {
+      mockBulk
+        .mockResolvedValueOnce({
+          body: {
+            items: [
+              { create: { _id: `${tenantId}_a`, status: 201, result: 'created' } },
+              { update: { _id: `${tenantId}_b`, status: 200, result: 'updated' } },
+            ],
+          },
+        })
+        .mockResolvedValueOnce({
+          body: {
+            items: [{ delete: { _id: `${tenantId}_c`, status: 200, result: 'deleted' } }],
+          },
+        });
+
+      const results = await opensearchService.bulk(tenantId, [
+        { action: 'create', document: { id: 'a', tenantId, title: 'A', content: 'a' } },
+        { action: 'update', id: 'b', changes: { title: 'B' } },
+        { action: 'delete', id: 'c' },
+      ]);
+
+      expect(mockBulk).toHaveBeenCalledTimes(2);
+      expect(mockBulk.mock.calls[0][0].refresh).toBe(false);
+      expect(mockBulk.mock.calls[1][0].refresh).toBe(true);
+
+      const firstBody = mockBulk.mock.calls[0][0].body;
+      expect(firstBody[0]).toEqual({ create: { _index: 'test-documents', _id: `${tenantId}_a`, routing: tenantId } });
+      expect(firstBody[1]).toEqual(expect.objectContaining({ tenant_id: tenantId, doc_id: 'a', title: 'A', size_bytes: 1 }));
+      expect(firstBody[2]).toEqual({ update: { _index: 'test-documents', _id: `${tenantId}_b`, routing: tenantId } });
+      expect(firstBody[3].script.params.doc).toEqual(
+        expect.objectContaining({ title: 'B', updated_at: expect.any(String) })
+      );
+
+      expect(results).toEqual([
+        { position: 0, action: 'create', id: 'a', status: 201, result: 'created' },
+        { position: 1, action: 'update', id: 'b', status: 200, result: 'updated' },
+        { position: 2, action: 'delete', id: 'c', status: 200, result: 'deleted' },
+      ]);
+    });
+
+    it('should re-derive language fields when an update touches text or language', async () => {
+      (tenantSettingsService.getDefaultLanguage as jest.Mock).mockResolvedValueOnce('en');
+      mockBulk.mockResolvedValue({
+        body: {
+          items: [
+            { create: { status: 201, result: 'created' } },
+            { update: { status: 200, result: 'updated' } },
+          ],
+        },
+      });
+
+      await opensearchService.bulk(tenantId, [
+        { action: 'create', document: { id: 'a', tenantId, title: 'A', content: 'a' } },
+        { action: 'update', id: 'b', changes: { tags: ['x'] } },
+      ]);
+
+      const body = mockBulk.mock.calls[0][0].body;
+      expect(body[1]).toEqual(expect.objectContaining({ language: 'en', title_en: 'A', content_en: 'a' }));
+      expect(body[3]).toEqual({ doc: { tags: ['x'], updated_at: expect.any(String) } });
+
+      mockBulk.mockClear();
+      await opensearchService.bulk(tenantId, [{ action: 'update', id: 'b', changes: { language: 'fr' } }]);
+
+      const script = mockBulk.mock.calls[0][0].body[1].script;
+      expect(script.lang).toBe('painless');
+      expect(script.params).toEqual({
+        doc: { language: 'fr', updated_at: expect.any(String) },
+        languages: expect.arrayContaining(['en', 'fr', 'de']),
+        defaultLanguage: null,
+      });
+    });
+
+    it('should replace the ACL of updated documents rather than merge it', async () => {
+      mockBulk.mockResolvedValue({ body: { errors: false, items: [{ update: { status: 200, result: 'updated' } }] } });
+
+      await opensearchService.bulk(tenantId, [{ action: 'update', id: 'b', changes: { acl: { users: ['user-2'] } } }]);
+
+      const update = mockBulk.mock.calls[0][0].body[1];
+      expect(update.doc).toBeUndefined();
+      expect(update.script.params.doc).toEqual({ acl: { users: ['user-2'] }, updated_at: expect.any(String) });
+    });
+
+    it('should report per-item failures', async () => {
+      mockBulk.mockResolvedValue({
+        body: {
+          errors: true,
+          items: [
+            {
+              create: {
+                status: 409,
+                error: { type: 'version_conflict_engine_exception', reason: 'document already exists' },
+              },
+            },
+          ],
+        },
+      });
+
+      const results = await opensearchService.bulk(tenantId, [
+        { action: 'create', document: { id: 'a', tenantId, title: 'A', content: 'a' } },
+      ]);
+
+      expect(results[0]).toEqual({
+        position: 0,
+        action: 'create',
+        id: 'a',
+        status: 409,
+        error: 'document already exists',
+      });
+    });
+
+    it('should fail only the operations of a chunk that errors', async () => {
+      mockBulk
+        .mockRejectedValueOnce(new Error('Connection reset'))
+        .mockResolvedValueOnce({
+          body: { items: [{ delete: { status: 200, result: 'deleted' } }] },
+        });
+
+      const results = await opensearchService.bulk(tenantId, [
+        { action: 'delete', id: 'a' },
+        { action: 'delete', id: 'b' },
+        { action: 'delete', id: 'c' },
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual([500, 500, 200]);
+      expect(results[0].error).toBe('Connection reset');
+    });
+
+    describe('with a principal', () => {
+      const principal = { userId: 'user-1', groups: [], departments: [] };
+      const stored = (docId: string, acl?: Record<string, string[]>) => ({
+        _id: `${tenantId}_${docId}`,
+        found: true,
+        _seq_no: 7,
+        _primary_term: 1,
+        _source: { tenant_id: tenantId, doc_id: docId, ...(acl && { acl }) },
+      });
+
+      it('should not update or delete documents the principal cannot access', async () => {
+        mocks.mget
+          .mockResolvedValueOnce({
+            body: { docs: [stored('visible', { users: ['user-1'] }), stored('hidden', { users: ['user-2'] })] },
+          })
+          .mockResolvedValueOnce({ body: { docs: [stored('other', { groups: ['admins'] })] } });
+        mockBulk.mockResolvedValue({
+          body: { items: [{ update: { status: 200, result: 'updated' } }] },
+        });
+
+        const results = await opensearchService.bulk(
+          tenantId,
+          [
+            { action: 'update', id: 'visible', changes: { tags: ['x'] } },
+            { action: 'delete', id: 'hidden' },
+            { action: 'update', id: 'other', changes: { title: 'Mine now', acl: { users: ['user-1'] } } },
+          ],
+          principal
+        );
+
+        expect(mocks.mget.mock.calls[0][0]).toEqual(
+          expect.objectContaining({
+            index: 'test-documents',
+            routing: tenantId,
+            body: { ids: [`${tenantId}_visible`, `${tenantId}_hidden`] },
+          })
+        );
+        expect(mockBulk).toHaveBeenCalledTimes(1);
+        expect(mockBulk.mock.calls[0][0].body).toEqual([
+          {
+            update: {
+              _index: 'test-documents',
+              _id: `${tenantId}_visible`,
+              routing: tenantId,
+              if_seq_no: 7,
+              if_primary_term: 1,
+            },
+          },
+          { doc: { tags: ['x'], updated_at: expect.any(String) } },
+        ]);
+        // The last chunk sent nothing, so the earlier writes are refreshed separately
+        expect(mocks.indicesRefresh).toHaveBeenCalledWith({ index: 'test-documents' });
+
+        expect(results).toEqual([
+          { position: 0, action: 'update', id: 'visible', status: 200, result: 'updated' },
+          { position: 1, action: 'delete', id: 'hidden', status: 404, error: 'Document not found' },
+          { position: 2, action: 'update', id: 'other', status: 404, error: 'Document not found' },
+        ]);
+      });
+
+      it('should report missing documents and not check creates', async () => {
+        mocks.mget.mockResolvedValue({ body: { docs: [{ _id: `${tenantId}_gone`, found: false }] } });
+        mockBulk.mockResolvedValue({
+          body: { items: [{ create: { status: 201, result: 'created' } }] },
+        });
+
+        const results = await opensearchService.bulk(
+          tenantId,
+          [
+            { action: 'create', document: { id: 'new', tenantId, title: 'New', content: 'n' } },
+            { action: 'delete', id: 'gone' },
+          ],
+          principal
+        );
+
+        expect(mocks.mget.mock.calls[0][0].body).toEqual({ ids: [`${tenantId}_gone`] });
+        expect(mockBulk.mock.calls[0][0].body).toHaveLength(2);
+        expect(results.map((r) => r.status)).toEqual([201, 404]);
+      });
+    });
+  });
+
   describe('search', () => {
     it('should perform search with query', async () => {
       const tenantId = 'tenant-1';
@@ -346,6 +1044,7 @@ describe('OpenSearchService', () => {
       expect(result.results).toEqual([]);
       expect(result.total).toBe(0);
       expect(mockSearch).toHaveBeenCalled();
+      expect(searchLimiterService.run).toHaveBeenCalledWith(tenantId, expect.any(Function));
     });
 
     it('should include tenant filter in search', async () => {
@@ -374,7 +1073,7 @@ describe('OpenSearchService', () => {
       const tenantId = 'tenant-1';
       const query: SearchQuery = {
         q: 'test',
-        tag: 'important',
+        tag: ['important'],
       };
 
       mockSearch.mockResolvedValue({
@@ -399,7 +1098,7 @@ describe('OpenSearchService', () => {
       const tenantId = 'tenant-1';
       const query: SearchQuery = {
         q: 'test',
-        author: 'john',
+        author: ['john'],
       };
 
       mockSearch.mockResolvedValue({
@@ -447,6 +1146,109 @@ describe('OpenSearchService', () => {
       expect(rangeFilter.range.created_at.lte).toBe('2024-12-31');
     });
 
+    it('should combine multi-value, negated and updated_at filters', async () => {
+      mockSearch.mockResolvedValue({
+        body: { hits: { hits: [], total: { value: 5 } } },
+      });
+
+      await opensearchService.search('tenant-1', {
+        q: 'test',
+        tag: ['a', 'b'],
+        type: ['policy', 'guide'],
+        department: ['legal'],
+        exclude: { tag: ['draft'], author: ['bot', 'import'] },
+        updatedFrom: '2024-06-01',
+      });
+      await opensearchService.search('tenant-1', { q: 'test', tag: ['a', 'b'], tagMode: 'all' });
+
+      const anyQuery = (mockSearch.mock.calls[0][0] as any).body.query.bool;
+      expect(anyQuery.filter).toContainEqual({ terms: { tags: ['a', 'b'] } });
+      expect(anyQuery.filter).toContainEqual({ terms: { 'metadata.type': ['policy', 'guide'] } });
+      expect(anyQuery.filter).toContainEqual({ term: { 'metadata.department': 'legal' } });
+      expect(anyQuery.filter).toContainEqual({ range: { updated_at: { gte: '2024-06-01' } } });
+      expect(anyQuery.must_not).toEqual([
+        { term: { tags: 'draft' } },
+        { terms: { 'metadata.author': ['bot', 'import'] } },
+      ]);
+
+      const allQuery = (mockSearch.mock.calls[1][0] as any).body.query.bool;
+      expect(allQuery.filter).toContainEqual({ term: { tags: 'a' } });
+      expect(allQuery.filter).toContainEqual({ term: { tags: 'b' } });
+      expect(allQuery.must_not).toBeUndefined();
+    });
+
+    it('should also query the stemmed fields of the query language', async () => {
+      mockSearch.mockResolvedValue({
+        body: {
+          hits: {
+            hits: [
+              {
+                _source: { doc_id: 'doc-1', title: 'Timeouts', content: 'Requests timing out', tags: [] },
+                _score: 1,
+                highlight: { content_en: ['Requests <em>timing</em> out'] },
+              },
+            ],
+            total: { value: 5 },
+          },
+        },
+      });
+
+      const result = await opensearchService.search('tenant-1', { q: 'timeout', language: 'en' });
+
+      const body = mockSearch.mock.calls[0][0].body;
+      expect(body.query.bool.must[0].bool.should[0].multi_match.fields).toEqual([
+        'title^3',
+        'content',
+        'tags^2',
+        'title_en^3',
+        'content_en',
+      ]);
+      expect(Object.keys(body.highlight.fields)).toEqual(['title', 'content', 'title_en', 'content_en']);
+      expect(result.results[0].snippet).toBe('Requests <em>timing</em> out');
+      expect(tenantSettingsService.getDefaultLanguage).not.toHaveBeenCalled();
+    });
+
+    it('should use the tenant default language when the query names none', async () => {
+      (tenantSettingsService.getDefaultLanguage as jest.Mock).mockResolvedValueOnce('de');
+      mockSearch.mockResolvedValue({ body: { hits: { hits: [], total: { value: 5 } } } });
+
+      await opensearchService.search('tenant-1', { q: 'fehler', syntax: 'advanced' });
+
+      expect(tenantSettingsService.getDefaultLanguage).toHaveBeenCalledWith('tenant-1');
+      const must = mockSearch.mock.calls[0][0].body.query.bool.must[0];
+      expect(must.multi_match.fields).toEqual(['title^3', 'content', 'tags^2', 'title_de^3', 'content_de']);
+    });
+
+    it('should expand free-text queries with the tenant synonyms', async () => {
+      (tenantSettingsService.getSynonymIndex as jest.Mock).mockResolvedValueOnce(
+        buildSynonymIndex([
+          ['outage', 'incident', 'service disruption'],
+          ['k8s', 'kubernetes'],
+        ])
+      );
+      mockSearch.mockResolvedValue({ body: { hits: { hits: [], total: { value: 5 } } } });
+
+      await opensearchService.search('tenant-1', { q: 'Outage report' });
+
+      expect(tenantSettingsService.getSynonymIndex).toHaveBeenCalledWith('tenant-1');
+      const should = mockSearch.mock.calls[0][0].body.query.bool.must[0].bool.should;
+      expect(should).toHaveLength(3);
+      expect(should[0].multi_match.query).toBe('Outage report');
+      expect(should.slice(1).map((clause: any) => clause.multi_match)).toEqual([
+        { query: 'incident', fields: ['title^3', 'content', 'tags^2'], type: 'phrase', boost: 0.8 },
+        { query: 'service disruption', fields: ['title^3', 'content', 'tags^2'], type: 'phrase', boost: 0.8 },
+      ]);
+    });
+
+    it('should not load synonyms for advanced or empty queries', async () => {
+      mockSearch.mockResolvedValue({ body: { hits: { hits: [], total: { value: 5 } } } });
+
+      await opensearchService.search('tenant-1', { q: 'title:outage', syntax: 'advanced' });
+      await opensearchService.search('tenant-1', { q: '' });
+
+      expect(tenantSettingsService.getSynonymIndex).not.toHaveBeenCalled();
+    });
+
     it('should limit results to maximum 50', async () => {
       const tenantId = 'tenant-1';
       const query: SearchQuery = {
@@ -504,6 +1306,266 @@ describe('OpenSearchService', () => {
       expect(result.results[0].score).toBe(0.95);
     });
 
+    it('should apply ACL filter only for end-user principals', async () => {
+      mockSearch.mockResolvedValue({
+        body: {
+          hits: {
+            hits: [],
+            total: { value: 5 },
+          },
+        },
+      });
+
+      await opensearchService.search('tenant-1', { q: 'test' });
+      await opensearchService.search('tenant-1', { q: 'test' }, { userId: 'alice', groups: [], departments: [] });
+
+      const unrestricted = (mockSearch.mock.calls[0][0] as any).body.query.bool.filter;
+      const restricted = (mockSearch.mock.calls[1][0] as any).body.query.bool.filter;
+      expect(unrestricted).toHaveLength(1);
+      expect(restricted).toHaveLength(2);
+      expect(restricted[1].bool.should).toContainEqual({ term: { 'acl.users': 'alice' } });
+    });
+
+    it('should add facet aggregations and map their buckets', async () => {
+      mockSearch.mockResolvedValue({
+        body: {
+          hits: { hits: [], total: { value: 2 } },
+          aggregations: {
+            'metadata.author': { buckets: [{ key: 'alice', doc_count: 2 }] },
+            created_at: { buckets: [{ key: 1704067200000, key_as_string: '2024-01-01T00:00:00.000Z', doc_count: 2 }] },
+          },
+        },
+      });
+
+      const result = await opensearchService.search('tenant-1', {
+        q: 'test',
+        facets: ['metadata.author', 'created_at'],
+        interval: 'day',
+      });
+
+      const aggs = (mockSearch.mock.calls[0][0] as any).body.aggs;
+      expect(aggs['metadata.author']).toEqual({ terms: { field: 'metadata.author', size: 5 } });
+      expect(aggs.created_at.date_histogram).toMatchObject({ field: 'created_at', calendar_interval: 'day' });
+      expect(result.facets).toEqual({
+        'metadata.author': [{ value: 'alice', count: 2 }],
+        created_at: [{ value: '2024-01-01T00:00:00.000Z', count: 2 }],
+      });
+    });
+
+    it('should not request aggregations without facets', async () => {
+      mockSearch.mockResolvedValue({
+        body: { hits: { hits: [], total: { value: 0 } } },
+      });
+
+      const result = await opensearchService.search('tenant-1', { q: 'test' });
+
+      expect((mockSearch.mock.calls[0][0] as any).body.aggs).toBeUndefined();
+      expect(result.facets).toBeUndefined();
+    });
+
+    it('should parse advanced queries inside the tenant-filtered query', async () => {
+      mockSearch.mockResolvedValue({
+        body: { hits: { hits: [], total: { value: 0 } } },
+      });
+
+      await opensearchService.search('tenant-1', { q: 'tags:errors OR tags:warnings', syntax: 'advanced' });
+
+      const boolQuery = (mockSearch.mock.calls[0][0] as any).body.query.bool;
+      expect(boolQuery.filter).toContainEqual({ term: { tenant_id: 'tenant-1' } });
+      expect(boolQuery.must).toEqual([
+        {
+          bool: {
+            should: [{ term: { tags: 'errors' } }, { term: { tags: 'warnings' } }],
+            minimum_should_match: 1,
+          },
+        },
+      ]);
+    });
+
+    it('should reject invalid advanced queries without calling OpenSearch', async () => {
+      await expect(
+        opensearchService.search('tenant-1', { q: 'tenant_id:other', syntax: 'advanced' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockSearch).not.toHaveBeenCalled();
+    });
+
+    it('should open a point-in-time and sort deterministically for cursor pages', async () => {
+      mockCreatePit.mockResolvedValue({ body: { pit_id: 'pit-1' } });
+      mockSearch.mockResolvedValue({
+        body: {
+          pit_id: 'pit-2',
+          hits: {
+            hits: [
+              { _score: 2, _source: { doc_id: 'a', title: 'A', content: 'A', tags: [] }, sort: [2, 'a'] },
+              { _score: 1, _source: { doc_id: 'b', title: 'B', content: 'B', tags: [] }, sort: [1, 'b'] },
+            ],
+            total: { value: 5 },
+          },
+        },
+      });
+
+      const result = await opensearchService.search('tenant-1', { q: 'test', limit: 2 }, undefined, {});
+
+      expect(mockCreatePit).toHaveBeenCalledWith({ index: 'test-documents', routing: 'tenant-1', keep_alive: '300s' });
+      const params = mockSearch.mock.calls[0][0] as any;
+      expect(params.index).toBeUndefined();
+      expect(params.body.pit).toEqual({ id: 'pit-1', keep_alive: '300s' });
+      expect(params.body.sort).toEqual([{ _score: { order: 'desc' } }, { doc_id: { order: 'asc' } }]);
+      expect(params.body.from).toBeUndefined();
+      expect(params.body.search_after).toBeUndefined();
+      expect(result.page).toEqual({ pitId: 'pit-2', searchAfter: [1, 'b'] });
+    });
+
+    it('should continue an existing point-in-time with search_after', async () => {
+      mockSearch.mockResolvedValue({
+        body: { hits: { hits: [], total: { value: 2 } } },
+      });
+
+      await opensearchService.search('tenant-1', { q: 'test' }, undefined, {
+        pitId: 'pit-1',
+        searchAfter: [1, 'b'],
+      });
+
+      expect(mockCreatePit).not.toHaveBeenCalled();
+      // The page extends the point-in-time's slot
+      expect(redisService.takeSlot).toHaveBeenCalledWith('search:cursors:tenant-1', 'pit-1', {
+        capacity: 2,
+        ttlMs: 300000,
+      });
+      const params = mockSearch.mock.calls[0][0] as any;
+      expect(params.body.search_after).toEqual([1, 'b']);
+      expect(params.body.query.bool.filter).toContainEqual({ term: { tenant_id: 'tenant-1' } });
+    });
+
+    it('should apply requested sort keys', async () => {
+      mockSearch.mockResolvedValue({
+        body: { hits: { hits: [], total: { value: 5 } } },
+      });
+      const sort = [
+        { field: 'created_at' as const, order: 'desc' as const },
+        { field: 'title.keyword' as const, order: 'asc' as const },
+      ];
+
+      await opensearchService.search('tenant-1', { q: 'test', sort });
+      await opensearchService.search('tenant-1', { q: 'test', sort }, undefined, { pitId: 'pit-1' });
+
+      const offsetBody = (mockSearch.mock.calls[0][0] as any).body;
+      expect(offsetBody.sort).toEqual([{ created_at: { order: 'desc' } }, { 'title.keyword': { order: 'asc' } }]);
+      expect(offsetBody.track_scores).toBe(true);
+      expect((mockSearch.mock.calls[1][0] as any).body.sort).toEqual([
+        { created_at: { order: 'desc' } },
+        { 'title.keyword': { order: 'asc' } },
+        { doc_id: { order: 'asc' } },
+      ]);
+    });
+
+    it('should refuse to open more points-in-time than the tenant may hold', async () => {
+      mockCreatePit.mockResolvedValue({ body: { pit_id: 'pit-3' } });
+      (redisService.takeSlot as jest.Mock).mockResolvedValueOnce(false);
+
+      await expect(opensearchService.search('tenant-1', { q: 'test' }, undefined, {})).rejects.toMatchObject({
+        statusCode: 429,
+      });
+
+      expect(redisService.takeSlot).toHaveBeenCalledWith('search:cursors:tenant-1', 'pit-3', {
+        capacity: 2,
+        ttlMs: 300000,
+      });
+      expect(mockDeletePit).toHaveBeenCalledWith({ body: { pit_id: ['pit-3'] } });
+      expect(mockSearch).not.toHaveBeenCalled();
+    });
+
+    it('should open points-in-time when the slots cannot be checked', async () => {
+      mockCreatePit.mockResolvedValue({ body: { pit_id: 'pit-3' } });
+      (redisService.takeSlot as jest.Mock).mockResolvedValueOnce(null);
+      mockSearch.mockResolvedValue({ body: { hits: { hits: [], total: { value: 0 } } } });
+
+      await expect(opensearchService.search('tenant-1', { q: 'test' }, undefined, {})).resolves.toBeDefined();
+      expect(mockDeletePit).not.toHaveBeenCalled();
+    });
+
+    it('should report an expired point-in-time as 410', async () => {
+      const error: any = new Error('search_context_missing_exception');
+      error.statusCode = 404;
+      mockSearch.mockRejectedValue(error);
+
+      await expect(
+        opensearchService.search('tenant-1', { q: 'test' }, undefined, { pitId: 'pit-1', searchAfter: [1, 'b'] })
+      ).rejects.toMatchObject({ statusCode: 410 });
+    });
+
+    describe('spelling suggestions', () => {
+      const noHits = { body: { hits: { hits: [], total: { value: 0 } } } };
+      const suggestResponse = {
+        body: {
+          hits: { hits: [], total: { value: 0 } },
+          suggest: {
+            title: [{ options: [{ text: 'payment timeout', score: 0.4 }] }],
+            content: [{ options: [{ text: 'payment timeout', score: 0.3 }, { text: 'payment timing', score: 0.2 }] }],
+          },
+        },
+      };
+      const oneHit = {
+        body: {
+          hits: {
+            hits: [{ _score: 1, _source: { doc_id: 'doc-1', title: 'Payment timeout', content: 'x', tags: [] } }],
+            total: { value: 1 },
+          },
+        },
+      };
+
+      it('should suggest tenant-collated corrections for zero-hit queries', async () => {
+        mockSearch.mockResolvedValueOnce(noHits).mockResolvedValueOnce(suggestResponse);
+
+        const result = await opensearchService.search('tenant-1', { q: 'pyament timout' });
+
+        expect(result.suggestions).toEqual(['payment timeout', 'payment timing']);
+        expect(result.correctedQuery).toBeUndefined();
+        const suggestBody = (mockSearch.mock.calls[1][0] as any).body;
+        expect(suggestBody.suggest.text).toBe('pyament timout');
+        expect(suggestBody.suggest.title.phrase.collate.query.source.bool.filter).toEqual([
+          { term: { tenant_id: 'tenant-1' } },
+        ]);
+      });
+
+      it('should re-run the best correction with autocorrect', async () => {
+        mockSearch
+          .mockResolvedValueOnce(noHits)
+          .mockResolvedValueOnce(suggestResponse)
+          .mockResolvedValueOnce(oneHit);
+
+        const result = await opensearchService.search('tenant-1', { q: 'pyament timout', autocorrect: true });
+
+        expect(result.correctedQuery).toBe('payment timeout');
+        expect(result.total).toBe(1);
+        expect((mockSearch.mock.calls[2][0] as any).body.query.bool.must[0].bool.should[0].multi_match.query).toBe(
+          'payment timeout'
+        );
+      });
+
+      it('should not suggest when the query has enough hits or is not free text', async () => {
+        mockSearch.mockResolvedValue({
+          body: { hits: { hits: [], total: { value: 2 } } },
+        });
+        await opensearchService.search('tenant-1', { q: 'payment' });
+
+        mockSearch.mockResolvedValue(noHits);
+        await opensearchService.search('tenant-1', { q: 'tags:x', syntax: 'advanced' });
+        await opensearchService.search('tenant-1', { q: 'payment', offset: 10 });
+
+        expect(mockSearch).toHaveBeenCalledTimes(3);
+      });
+
+      it('should keep the results when suggestions fail', async () => {
+        mockSearch.mockResolvedValueOnce(noHits).mockRejectedValueOnce(new Error('suggest failed'));
+
+        const result = await opensearchService.search('tenant-1', { q: 'pyament' });
+
+        expect(result.total).toBe(0);
+        expect(result.suggestions).toBeUndefined();
+      });
+    });
+
     it('should throw error on search failure', async () => {
       const tenantId = 'tenant-1';
       const query: SearchQuery = { q: 'test' };
@@ -516,6 +1578,165 @@ describe('OpenSearchService', () => {
     });
   });
 
+  describe('suggest', () => {
+    it('should return title completions and matching tags for the tenant', async () => {
+      mockSearch.mockResolvedValue({
+        body: {
+          hits: { hits: [], total: { value: 3 } },
+          aggregations: {
+            titles: { top: { hits: { hits: [{ _source: { doc_id: 'doc-1', title: 'Payment Gateway' } }] } } },
+            tags: { values: { buckets: [{ key: 'payments', doc_count: 3 }] } },
+          },
+        },
+      });
+
+      const result = await opensearchService.suggest('tenant-1', 'Pay', 5, {
+        userId: 'alice',
+        groups: [],
+        departments: [],
+      });
+
+      const body = (mockSearch.mock.calls[0][0] as any).body;
+      expect(body.size).toBe(0);
+      expect(body.query.bool.filter[0]).toEqual({ term: { tenant_id: 'tenant-1' } });
+      expect(body.query.bool.filter).toHaveLength(2);
+      expect(body.aggs.tags.aggs.values.terms.include).toBe('[pP][aA][yY].*');
+      expect(result).toEqual({
+        titles: [{ id: 'doc-1', title: 'Payment Gateway' }],
+        tags: [{ value: 'payments', count: 3 }],
+      });
+    });
+
+    it('should escape regex characters in the tag pattern', async () => {
+      mockSearch.mockResolvedValue({ body: { hits: { hits: [], total: { value: 0 } } } });
+
+      const result = await opensearchService.suggest('tenant-1', 'c++', 5);
+
+      expect((mockSearch.mock.calls[0][0] as any).body.aggs.tags.aggs.values.terms.include).toBe('[cC]\\+\\+.*');
+      expect(result).toEqual({ titles: [], tags: [] });
+    });
+  });
+
+  describe('closePointInTime', () => {
+    it('should delete the point-in-time and ignore failures', async () => {
+      mockDeletePit.mockRejectedValueOnce(new Error('gone'));
+
+      await expect(opensearchService.closePointInTime('tenant-1', 'pit-1')).resolves.toBeUndefined();
+      expect(mockDeletePit).toHaveBeenCalledWith({ body: { pit_id: ['pit-1'] } });
+      expect(redisService.releaseSlot).toHaveBeenCalledWith('search:cursors:tenant-1', 'pit-1');
+    });
+  });
+
+  describe('deleteTenantDocuments', () => {
+    it('should delete the tenant documents from the shared index on its shard', async () => {
+      mocks.indicesGetAlias.mockRejectedValue({ statusCode: 404 });
+      mocks.deleteByQuery.mockResolvedValue({ body: { task: 'node:1' } });
+      mocks.tasksGet.mockResolvedValue({ body: { completed: true, response: { deleted: 7, failures: [] } } });
+
+      const deleted = await opensearchService.deleteTenantDocuments('tenant-1');
+
+      expect(deleted).toBe(7);
+      expect(mocks.indicesDelete).not.toHaveBeenCalled();
+      expect(mocks.deleteByQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          index: 'test-documents',
+          routing: 'tenant-1',
+          body: { query: { term: { tenant_id: 'tenant-1' } } },
+          wait_for_completion: false,
+        })
+      );
+      expect(mocks.tasksGet).toHaveBeenCalledWith({ task_id: 'node:1' });
+    });
+
+    it('should fail when the delete task reports failures', async () => {
+      mocks.indicesGetAlias.mockRejectedValue({ statusCode: 404 });
+      mocks.deleteByQuery.mockResolvedValue({ body: { task: 'node:1' } });
+      mocks.tasksGet.mockResolvedValue({
+        body: { completed: true, response: { failures: [{ cause: { reason: 'search_phase_execution_exception' } }] } },
+      });
+
+      await expect(opensearchService.deleteTenantDocuments('tenant-1')).rejects.toMatchObject({
+        statusCode: 500,
+        message: 'Delete failed: search_phase_execution_exception',
+      });
+    });
+
+    it('should cancel a delete task that does not finish in time', async () => {
+      jest.useFakeTimers();
+      mocks.indicesGetAlias.mockRejectedValue({ statusCode: 404 });
+      mocks.deleteByQuery.mockResolvedValue({ body: { task: 'node:1' } });
+      mocks.tasksGet.mockResolvedValue({ body: { completed: false } });
+      mocks.tasksCancel.mockResolvedValue({});
+
+      try {
+        const deletion = expect(opensearchService.deleteTenantDocuments('tenant-1')).rejects.toMatchObject({
+          statusCode: 504,
+          message: 'Delete did not finish within 5000ms',
+        });
+        await jest.advanceTimersByTimeAsync(6000);
+        await deletion;
+        expect(mocks.tasksCancel).toHaveBeenCalledWith({ task_id: 'node:1' });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should drop the indices of a dedicated tenant', async () => {
+      mocks.indicesGetAlias.mockResolvedValue({ body: { 'test-documents-tenant-big_v3': {} } });
+      mocks.deleteByQuery.mockResolvedValue({ body: { task: 'node:1' } });
+      mocks.tasksGet.mockResolvedValue({ body: { completed: true, response: { deleted: 0, failures: [] } } });
+
+      await opensearchService.deleteTenantDocuments('big');
+
+      expect(mocks.indicesGetAlias).toHaveBeenCalledWith({ name: 'test-documents-tenant-big' });
+      expect(mocks.indicesDelete).toHaveBeenCalledWith({ index: 'test-documents-tenant-big_v3' });
+    });
+  });
+
+  describe('getContentSizes', () => {
+    it('should return the stored sizes of the tenant documents that exist', async () => {
+      mocks.mget.mockResolvedValue({
+        body: {
+          docs: [
+            { found: true, _source: { tenant_id: 'tenant-1', doc_id: 'a', size_bytes: 12 } },
+            { found: true, _source: { tenant_id: 'tenant-1', doc_id: 'legacy' } },
+            { found: false },
+          ],
+        },
+      });
+
+      const sizes = await opensearchService.getContentSizes('tenant-1', ['a', 'legacy', 'missing']);
+
+      expect(sizes).toEqual(new Map([['a', 12], ['legacy', 0]]));
+      expect(mocks.mget).toHaveBeenCalledWith(
+        expect.objectContaining({
+          _source_includes: ['tenant_id', 'doc_id', 'size_bytes'],
+          body: { ids: ['tenant-1_a', 'tenant-1_legacy', 'tenant-1_missing'] },
+        })
+      );
+    });
+  });
+
+  describe('getTenantUsage', () => {
+    it('should count the tenant documents and sum their content sizes', async () => {
+      mockSearch.mockResolvedValue({
+        body: { hits: { hits: [], total: { value: 12 } }, aggregations: { size_bytes: { value: 4096 } } },
+      });
+
+      const usage = await opensearchService.getTenantUsage('tenant-1');
+
+      expect(usage).toEqual({ documents: 12, contentBytes: 4096 });
+      const params = mockSearch.mock.calls[0][0] as any;
+      expect(params).toMatchObject({ index: 'test-documents', routing: 'tenant-1' });
+      expect(params.body).toMatchObject({
+        size: 0,
+        track_total_hits: true,
+        query: { term: { tenant_id: 'tenant-1' } },
+        aggs: { size_bytes: { sum: { field: 'size_bytes' } } },
+      });
+    });
+  });
+
   describe('healthCheck', () => {
     it('should return true when cluster is healthy', async () => {
       mockClusterHealth.mockResolvedValue({
@@ -555,4 +1776,45 @@ describe('OpenSearchService', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('call', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should give long-running operations their longer timeout', async () => {
+      jest.useFakeTimers();
+      const slow = () => new Promise((resolve) => setTimeout(() => resolve('done'), 1500));
+
+      const bulk = opensearchService.call('bulk', slow);
+      const search = expect(opensearchService.call('search', slow)).rejects.toThrow('within 1000ms');
+      await jest.advanceTimersByTimeAsync(1500);
+
+      await expect(bulk).resolves.toBe('done');
+      await search;
+    });
+
+    it('should keep failures of long-running operations out of the search circuit', async () => {
+      jest.useFakeTimers();
+      const { config } = jest.requireMock('../../config');
+      config.resilience.failureThreshold = 1;
+      const failure = Object.assign(new Error('reindex failed'), { statusCode: 500 });
+
+      try {
+        await expect(opensearchService.call('reindex', () => Promise.reject(failure))).rejects.toThrow(
+          'reindex failed'
+        );
+        await expect(opensearchService.call('bulk', () => Promise.resolve('done'))).rejects.toMatchObject({
+          statusCode: 503,
+        });
+        expect(opensearchService.getCircuitState()).toBe('closed');
+        await expect(opensearchService.call('search', () => Promise.resolve('found'))).resolves.toBe('found');
+      } finally {
+        config.resilience.failureThreshold = 100;
+        // Let the probe close the long-running circuit again
+        jest.advanceTimersByTime(1000);
+        await opensearchService.call('bulk', () => Promise.resolve('done'));
+      }
+    });
+  });
 });
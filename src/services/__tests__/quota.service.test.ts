@@ -0,0 +1,293 @@
+import { quotaService } from '../quota.service';
+import { redisService } from '../redis.service';
+import { opensearchService } from '../opensearch.service';
+import { tenantRegistryService } from '../tenantRegistry.service';
+import { config } from '../../config';
+import { installRedisFake } from '../../__tests__/helpers';
+
+jest.mock('../redis.service');
+jest.mock('../opensearch.service', () => ({
+  opensearchService: {
+    bulk: jest.fn(),
+    updateDocument: jest.fn(),
+    getTenantUsage: jest.fn(),
+    getContentSizes: jest.fn(),
+  },
+}));
+jest.mock('../tenantRegistry.service', () => ({
+  tenantRegistryService: {
+    getTenant: jest.fn(),
+    listTenants: jest.fn(),
+  },
+}));
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+jest.mock('../../config', () => ({
+  config: {
+    redis: {
+      host: 'localhost',
+      port: 6379,
+      password: undefined,
+      clusterMode: false,
+      enableTLS: false,
+    },
+    quotas: {
+      maxDocuments: 10,
+      maxContentBytes: 100,
+      maxDocumentBytes: 40,
+      reconcileIntervalMs: 0,
+    },
+    logging: {
+      level: 'info',
+    },
+  },
+}));
+
+describe('QuotaService', () => {
+  let store: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ({ store } = installRedisFake(redisService));
+    store['quota:tenant-1:documents'] = 8;
+    store['quota:tenant-1:bytes'] = 50;
+
+    (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue({ id: 'tenant-1', status: 'active' });
+    (opensearchService.getContentSizes as jest.Mock).mockResolvedValue(new Map());
+  });
+
+  describe('getUsage', () => {
+    it('should report the counters against the configured limits', async () => {
+      const usage = await quotaService.getUsage('tenant-1');
+
+      expect(usage).toEqual({
+        tenantId: 'tenant-1',
+        documents: 8,
+        contentBytes: 50,
+        limits: { maxDocuments: 10, maxContentBytes: 100, maxDocumentBytes: 40 },
+      });
+    });
+
+    it('should apply the tenant overrides', async () => {
+      (tenantRegistryService.getTenant as jest.Mock).mockResolvedValue({
+        id: 'tenant-1',
+        quotas: { maxDocuments: 0, maxDocumentBytes: 1000 },
+      });
+
+      const { limits } = await quotaService.getUsage('tenant-1');
+
+      expect(limits).toEqual({ maxDocuments: 0, maxContentBytes: 100, maxDocumentBytes: 1000 });
+    });
+
+    it('should seed missing counters from OpenSearch', async () => {
+      (opensearchService.getTenantUsage as jest.Mock).mockResolvedValue({ documents: 3, contentBytes: 30 });
+
+      const usage = await quotaService.getUsage('tenant-2');
+
+      expect(usage).toMatchObject({ documents: 3, contentBytes: 30, reconciledAt: expect.any(String) });
+      expect(store['quota:tenant-2:documents']).toBe(3);
+      expect(store['quota:tenant-2:bytes']).toBe(30);
+    });
+  });
+
+  describe('admit', () => {
+    it('should reserve admitted creates', async () => {
+      const admission = await quotaService.admit('tenant-1', [{ contentBytes: 20, create: true }]);
+
+      expect(admission.rejections).toEqual([undefined]);
+      expect(admission.reserved).toEqual({ documents: 1, contentBytes: 20 });
+      expect(admission.usage).toMatchObject({ documents: 9, contentBytes: 70 });
+      expect(store['quota:tenant-1:documents']).toBe(9);
+    });
+
+    it('should reject oversized documents with 413, also on updates', async () => {
+      const admission = await quotaService.admit('tenant-1', [
+        { contentBytes: 41, create: true },
+        { contentBytes: 41, create: false },
+      ]);
+
+      expect(admission.rejections.map((rejection) => rejection?.status)).toEqual([413, 413]);
+      expect(redisService.incrby).not.toHaveBeenCalled();
+    });
+
+    it('should reject writes beyond the document and storage quotas with 429', async () => {
+      const admission = await quotaService.admit('tenant-1', [
+        { contentBytes: 30, create: true },
+        { contentBytes: 30, create: true },
+        { contentBytes: 10, create: true },
+        { contentBytes: 10, create: false, previousBytes: 10 },
+      ]);
+
+      expect(admission.rejections).toEqual([
+        undefined,
+        { status: 429, error: 'Storage quota of 100 bytes exceeded' },
+        undefined,
+        undefined,
+      ]);
+      expect(admission.reserved).toEqual({ documents: 2, contentBytes: 40 });
+
+      const next = await quotaService.admit('tenant-1', [{ contentBytes: 1, create: true }]);
+      expect(next.rejections).toEqual([{ status: 429, error: 'Document quota of 10 documents exceeded' }]);
+    });
+
+    it('should back out when concurrent writers reserved the remaining quota', async () => {
+      (redisService.incrby as jest.Mock).mockImplementationOnce(async (key: string, amount: number) => {
+        store[key] += amount + 2;
+        return store[key];
+      });
+
+      const admission = await quotaService.admit('tenant-1', [{ contentBytes: 10, create: true }]);
+
+      expect(admission.rejections[0]).toMatchObject({ status: 429 });
+      expect(admission.reserved).toEqual({ documents: 0, contentBytes: 0 });
+      expect(store['quota:tenant-1:documents']).toBe(10);
+      expect(store['quota:tenant-1:bytes']).toBe(50);
+    });
+
+    it('should admit writes when the counters are unavailable', async () => {
+      (redisService.incrby as jest.Mock).mockResolvedValue(null);
+
+      const admission = await quotaService.admit('tenant-1', [{ contentBytes: 10, create: true }]);
+
+      expect(admission.rejections).toEqual([undefined]);
+      expect(admission.reserved).toEqual({ documents: 0, contentBytes: 0 });
+    });
+  });
+
+  it('should throw the rejection of a single document', async () => {
+    await expect(quotaService.admitDocument('tenant-1', 'x'.repeat(41), true)).rejects.toMatchObject({
+      statusCode: 413,
+    });
+  });
+
+  describe('executeBulk', () => {
+    it('should only send admitted operations and keep results in input order', async () => {
+      (opensearchService.bulk as jest.Mock).mockResolvedValue([
+        { position: 0, action: 'create', id: 'a', status: 201, result: 'created' },
+        { position: 1, action: 'create', id: 'c', status: 409, error: 'exists' },
+        { position: 2, action: 'delete', id: 'd', status: 200, result: 'deleted' },
+      ]);
+
+      const { results, usage } = await quotaService.executeBulk('tenant-1', [
+        { action: 'create', document: { id: 'a', tenantId: 'tenant-1', title: 'A', content: 'a'.repeat(10) } },
+        { action: 'create', document: { id: 'b', tenantId: 'tenant-1', title: 'B', content: 'b'.repeat(50) } },
+        { action: 'create', document: { id: 'c', tenantId: 'tenant-1', title: 'C', content: 'c'.repeat(5) } },
+        { action: 'delete', id: 'd' },
+      ]);
+
+      expect(opensearchService.bulk).toHaveBeenCalledWith(
+        'tenant-1',
+        [
+          expect.objectContaining({ action: 'create', document: expect.objectContaining({ id: 'a' }) }),
+          expect.objectContaining({ action: 'create', document: expect.objectContaining({ id: 'c' }) }),
+          { action: 'delete', id: 'd' },
+        ],
+        undefined
+      );
+      expect(results.map((result) => [result.position, result.id, result.status])).toEqual([
+        [0, 'a', 201],
+        [1, 'b', 413],
+        [2, 'c', 409],
+        [3, 'd', 200],
+      ]);
+      // One created, one deleted; the failed create's reservation is released
+      expect(usage).toMatchObject({ documents: 8, contentBytes: 60 });
+    });
+
+    it('should charge content growth and give back shrinkage and deleted sizes', async () => {
+      (opensearchService.getContentSizes as jest.Mock).mockResolvedValue(
+        new Map([
+          ['grow', 5],
+          ['shrink', 30],
+          ['gone', 15],
+        ])
+      );
+      (opensearchService.bulk as jest.Mock).mockResolvedValue([
+        { position: 0, action: 'update', id: 'grow', status: 200, result: 'updated' },
+        { position: 1, action: 'update', id: 'shrink', status: 200, result: 'updated' },
+        { position: 2, action: 'update', id: 'tags', status: 200, result: 'updated' },
+        { position: 3, action: 'delete', id: 'gone', status: 200, result: 'deleted' },
+      ]);
+
+      const { usage } = await quotaService.executeBulk('tenant-1', [
+        { action: 'update', id: 'grow', changes: { content: 'g'.repeat(25) } },
+        { action: 'update', id: 'shrink', changes: { content: 's'.repeat(10) } },
+        { action: 'update', id: 'tags', changes: { tags: ['x'] } },
+        { action: 'delete', id: 'gone' },
+      ]);
+
+      expect(opensearchService.getContentSizes).toHaveBeenCalledWith('tenant-1', ['grow', 'shrink', 'gone']);
+      expect(usage).toMatchObject({ documents: 7, contentBytes: 35 });
+    });
+
+    it('should reject growth beyond the storage quota and release the growth of failed updates', async () => {
+      store['quota:tenant-1:bytes'] = 80;
+      (opensearchService.getContentSizes as jest.Mock).mockResolvedValue(new Map([['a', 5], ['b', 5]]));
+      (opensearchService.bulk as jest.Mock).mockResolvedValue([
+        { position: 0, action: 'update', id: 'b', status: 409, error: 'version_conflict' },
+      ]);
+
+      const { results, usage } = await quotaService.executeBulk('tenant-1', [
+        { action: 'update', id: 'a', changes: { content: 'a'.repeat(30) } },
+        { action: 'update', id: 'b', changes: { content: 'b'.repeat(15) } },
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([429, 409]);
+      expect(usage).toMatchObject({ contentBytes: 80 });
+    });
+  });
+
+  describe('executeUpdate', () => {
+    it('should release the charged growth when the update fails', async () => {
+      (opensearchService.getContentSizes as jest.Mock).mockResolvedValue(new Map([['a', 5]]));
+      (opensearchService.updateDocument as jest.Mock).mockRejectedValue(new Error('Version conflict'));
+
+      await expect(
+        quotaService.executeUpdate('tenant-1', 'a', { content: 'a'.repeat(20) }, 'merge')
+      ).rejects.toThrow('Version conflict');
+
+      expect(store['quota:tenant-1:bytes']).toBe(50);
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should overwrite the counters with the OpenSearch counts', async () => {
+      (opensearchService.getTenantUsage as jest.Mock).mockResolvedValue({ documents: 6, contentBytes: 44 });
+
+      const usage = await quotaService.reconcile('tenant-1');
+
+      expect(usage).toMatchObject({ documents: 6, contentBytes: 44, reconciledAt: expect.any(String) });
+      expect(store['quota:tenant-1:documents']).toBe(6);
+      expect(store['quota:tenant-1:bytes']).toBe(44);
+    });
+
+    it('should reconcile every tenant except those being deleted, despite failures', async () => {
+      (tenantRegistryService.listTenants as jest.Mock).mockResolvedValue([
+        { id: 'a', status: 'active' },
+        { id: 'b', status: 'suspended' },
+        { id: 'c', status: 'deleting' },
+      ]);
+      (opensearchService.getTenantUsage as jest.Mock)
+        .mockRejectedValueOnce(new Error('timeout'))
+        .mockResolvedValue({ documents: 1, contentBytes: 1 });
+
+      const reconciled = await quotaService.reconcileAll();
+
+      expect(reconciled).toBe(1);
+      expect(opensearchService.getTenantUsage).toHaveBeenCalledTimes(2);
+      expect(opensearchService.getTenantUsage).not.toHaveBeenCalledWith('c');
+    });
+  });
+
+  it('should not start the reconciler when it is disabled', () => {
+    config.quotas.reconcileIntervalMs = 0;
+
+    quotaService.startReconciler();
+
+    expect((quotaService as any).running).toBe(false);
+  });
+});
@@ -7,6 +7,18 @@ jest.mock('ioredis', () => {
     set: jest.fn(),
     setex: jest.fn(),
     del: jest.fn(),
+    lpush: jest.fn(),
+    rpop: jest.fn(),
+    rpush: jest.fn(),
+    lmove: jest.fn(),
+    lrange: jest.fn(),
+    lrem: jest.fn(),
+    incrby: jest.fn(),
+    eval: jest.fn(),
+    sadd: jest.fn(),
+    zrem: jest.fn(),
+    srem: jest.fn(),
+    smembers: jest.fn(),
     keys: jest.fn(),
     exists: jest.fn(),
     ping: jest.fn(),
@@ -34,6 +46,13 @@ jest.mock('../../config', () => ({
       clusterMode: false,
       enableTLS: false,
     },
+    resilience: {
+      redis: { timeoutMs: 1000, retries: 1 },
+      retryBaseDelayMs: 0,
+      retryMaxDelayMs: 0,
+      failureThreshold: 100,
+      resetTimeoutMs: 1000,
+    },
     logging: {
       level: 'info',
     },
@@ -79,6 +98,15 @@ describe('RedisService', () => {
       expect(result).toBeNull();
     });
 
+    it('should let a failed lookup throw when read strictly', async () => {
+      mockRedisClient.get.mockRejectedValue(new Error('Redis error'));
+
+      await expect(redisService.read('error-key')).rejects.toThrow('Redis error');
+
+      mockRedisClient.get.mockResolvedValue(null);
+      await expect(redisService.read('non-existent-key')).resolves.toBeNull();
+    });
+
     it('should handle invalid JSON gracefully', async () => {
       mockRedisClient.get.mockResolvedValue('invalid-json{');
 
@@ -189,6 +217,215 @@ describe('RedisService', () => {
     });
   });
 
+  describe('lpush', () => {
+    it('should push serialized value onto list', async () => {
+      mockRedisClient.lpush.mockResolvedValue(1);
+
+      const result = await redisService.lpush('queue', { id: 'job-1' });
+
+      expect(result).toBe(true);
+      expect(mockRedisClient.lpush).toHaveBeenCalledWith('queue', JSON.stringify({ id: 'job-1' }));
+    });
+
+    it('should return false on error', async () => {
+      mockRedisClient.lpush.mockRejectedValue(new Error('Redis error'));
+
+      const result = await redisService.lpush('queue', 'job-1');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('rpop', () => {
+    it('should pop and parse value from list', async () => {
+      mockRedisClient.rpop.mockResolvedValue(JSON.stringify('job-1'));
+
+      const result = await redisService.rpop<string>('queue');
+
+      expect(result).toBe('job-1');
+      expect(mockRedisClient.rpop).toHaveBeenCalledWith('queue');
+    });
+
+    it('should return null when list is empty', async () => {
+      mockRedisClient.rpop.mockResolvedValue(null);
+
+      const result = await redisService.rpop('queue');
+
+      expect(result).toBeNull();
+    });
+
+    it('should return null on error', async () => {
+      mockRedisClient.rpop.mockRejectedValue(new Error('Redis error'));
+
+      const result = await redisService.rpop('queue');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('lmove', () => {
+    it('should move the tail of one list onto the other and parse it', async () => {
+      mockRedisClient.lmove.mockResolvedValue(JSON.stringify('job-1'));
+
+      const result = await redisService.lmove<string>('queue', 'processing');
+
+      expect(result).toBe('job-1');
+      expect(mockRedisClient.lmove).toHaveBeenCalledWith('queue', 'processing', 'RIGHT', 'LEFT');
+    });
+
+    it('should return null when the source is empty or on error', async () => {
+      mockRedisClient.lmove.mockResolvedValueOnce(null).mockRejectedValueOnce(new Error('Redis error'));
+
+      expect(await redisService.lmove('queue', 'processing')).toBeNull();
+      expect(await redisService.lmove('queue', 'processing')).toBeNull();
+    });
+  });
+
+  describe('rpush, lrange and lrem', () => {
+    it('should push, list and remove serialized values', async () => {
+      mockRedisClient.rpush.mockResolvedValue(1);
+      mockRedisClient.lrange.mockResolvedValue([JSON.stringify('job-1'), JSON.stringify('job-2')]);
+      mockRedisClient.lrem.mockResolvedValue(1);
+
+      expect(await redisService.rpush('queue', 'job-1')).toBe(true);
+      expect(await redisService.lrange<string>('processing')).toEqual(['job-1', 'job-2']);
+      expect(await redisService.lrem('processing', 'job-1')).toBe(true);
+
+      expect(mockRedisClient.rpush).toHaveBeenCalledWith('queue', JSON.stringify('job-1'));
+      expect(mockRedisClient.lrange).toHaveBeenCalledWith('processing', 0, -1);
+      expect(mockRedisClient.lrem).toHaveBeenCalledWith('processing', 0, JSON.stringify('job-1'));
+    });
+
+    it('should report failures', async () => {
+      mockRedisClient.rpush.mockRejectedValue(new Error('Redis error'));
+      mockRedisClient.lrange.mockRejectedValue(new Error('Redis error'));
+      mockRedisClient.lrem.mockRejectedValue(new Error('Redis error'));
+
+      expect(await redisService.rpush('queue', 'job-1')).toBe(false);
+      expect(await redisService.lrange('processing')).toEqual([]);
+      expect(await redisService.lrem('processing', 'job-1')).toBe(false);
+    });
+  });
+
+  describe('incrby', () => {
+    it('should return the new counter value', async () => {
+      mockRedisClient.incrby.mockResolvedValue(7);
+
+      const result = await redisService.incrby('counter', -3);
+
+      expect(result).toBe(7);
+      expect(mockRedisClient.incrby).toHaveBeenCalledWith('counter', -3);
+    });
+
+    it('should return null on error', async () => {
+      mockRedisClient.incrby.mockRejectedValue(new Error('Redis error'));
+
+      const result = await redisService.incrby('counter', 1);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('resilience', () => {
+    it('should retry idempotent commands', async () => {
+      mockRedisClient.get
+        .mockRejectedValueOnce(new Error('Connection reset'))
+        .mockResolvedValueOnce(JSON.stringify({ data: 'test' }));
+
+      const result = await redisService.get('test-key');
+
+      expect(result).toEqual({ data: 'test' });
+      expect(mockRedisClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry commands that are not idempotent', async () => {
+      mockRedisClient.incrby.mockRejectedValueOnce(new Error('Connection reset'));
+
+      const result = await redisService.incrby('counter', 1);
+
+      expect(result).toBeNull();
+      expect(mockRedisClient.incrby).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report the circuit breaker state', () => {
+      expect(redisService.getCircuitState()).toBe('closed');
+    });
+  });
+
+  describe('takeTokens', () => {
+    it('should run the bucket script and parse its result', async () => {
+      mockRedisClient.eval.mockResolvedValue([1, '4.5', 0, 300]);
+
+      const result = await redisService.takeTokens('bucket', { capacity: 10, refillPerMs: 0.01, now: 1000 });
+
+      expect(result).toEqual({ allowed: true, remaining: 4, retryAfterMs: 0, resetMs: 300 });
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(expect.any(String), 1, 'bucket', 10, 0.01, 1000, 1);
+    });
+
+    it('should report a rejection with the time until a token is available', async () => {
+      mockRedisClient.eval.mockResolvedValue([0, '0.25', 75, 975]);
+
+      const result = await redisService.takeTokens('bucket', { capacity: 10, refillPerMs: 0.01 });
+
+      expect(result).toEqual({ allowed: false, remaining: 0, retryAfterMs: 75, resetMs: 975 });
+    });
+
+    it('should return null on error', async () => {
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis error'));
+
+      const result = await redisService.takeTokens('bucket', { capacity: 10, refillPerMs: 0.01 });
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('slots', () => {
+    it('should take a slot with the script and report whether it was free', async () => {
+      mockRedisClient.eval.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      expect(await redisService.takeSlot('slots', 'a', { capacity: 2, ttlMs: 60000, now: 1000 })).toBe(true);
+      expect(await redisService.takeSlot('slots', 'b', { capacity: 2, ttlMs: 60000, now: 1000 })).toBe(false);
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(expect.stringContaining('ZCARD'), 1, 'slots', 1000, 'a', 60000, 2);
+    });
+
+    it('should return null when the slot cannot be checked', async () => {
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis error'));
+
+      expect(await redisService.takeSlot('slots', 'a', { capacity: 2, ttlMs: 60000 })).toBeNull();
+    });
+
+    it('should release a slot', async () => {
+      mockRedisClient.zrem.mockResolvedValue(1);
+
+      expect(await redisService.releaseSlot('slots', 'a')).toBe(true);
+      expect(mockRedisClient.zrem).toHaveBeenCalledWith('slots', 'a');
+    });
+  });
+
+  describe('set membership', () => {
+    it('should add and remove set members', async () => {
+      mockRedisClient.sadd.mockResolvedValue(1);
+      mockRedisClient.srem.mockResolvedValue(1);
+
+      expect(await redisService.sadd('set', 'a')).toBe(true);
+      expect(await redisService.srem('set', 'a')).toBe(true);
+      expect(mockRedisClient.sadd).toHaveBeenCalledWith('set', 'a');
+      expect(mockRedisClient.srem).toHaveBeenCalledWith('set', 'a');
+    });
+
+    it('should list set members', async () => {
+      mockRedisClient.smembers.mockResolvedValue(['a', 'b']);
+
+      expect(await redisService.smembers('set')).toEqual(['a', 'b']);
+    });
+
+    it('should return empty list on error', async () => {
+      mockRedisClient.smembers.mockRejectedValue(new Error('Redis error'));
+
+      expect(await redisService.smembers('set')).toEqual([]);
+    });
+  });
+
   describe('exists', () => {
     it('should return true when key exists', async () => {
       mockRedisClient.exists.mockResolvedValue(1);
@@ -216,6 +453,37 @@ describe('RedisService', () => {
     });
   });
 
+  describe('locks', () => {
+    it('should take a lock only when no one holds it', async () => {
+      mockRedisClient.set.mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+
+      expect(await redisService.acquireLock('lock', 'token-1', 60000)).toBe(true);
+      expect(await redisService.acquireLock('lock', 'token-2', 60000)).toBe(false);
+      expect(mockRedisClient.set).toHaveBeenCalledWith('lock', 'token-1', 'PX', 60000, 'NX');
+    });
+
+    it('should throw when the lock cannot be taken', async () => {
+      mockRedisClient.set.mockRejectedValue(new Error('Redis error'));
+
+      await expect(redisService.acquireLock('lock', 'token', 60000)).rejects.toThrow('Redis error');
+    });
+
+    it('should renew and release a lock only with its token', async () => {
+      mockRedisClient.eval.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      expect(await redisService.renewLock('lock', 'token', 60000)).toBe(true);
+      expect(await redisService.releaseLock('lock', 'other-token')).toBe(false);
+      expect(mockRedisClient.eval).toHaveBeenNthCalledWith(1, expect.stringContaining('PEXPIRE'), 1, 'lock', 'token', 60000);
+      expect(mockRedisClient.eval).toHaveBeenNthCalledWith(2, expect.stringContaining('DEL'), 1, 'lock', 'other-token');
+    });
+
+    it('should report a failed release as not released', async () => {
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis error'));
+
+      expect(await redisService.releaseLock('lock', 'token')).toBe(false);
+    });
+  });
+
   describe('ping', () => {
     it('should return true when Redis responds with PONG', async () => {
       mockRedisClient.ping.mockResolvedValue('PONG');
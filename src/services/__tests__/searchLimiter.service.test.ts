@@ -0,0 +1,174 @@
+import { searchLimiterService } from '../searchLimiter.service';
+import { metricsService } from '../metrics.service';
+import { ServiceUnavailableError } from '../../middleware/errorHandler';
+import { config } from '../../config';
+
+jest.mock('../metrics.service', () => ({
+  metricsService: {
+    setSearchConcurrency: jest.fn(),
+    recordSearchRejection: jest.fn(),
+  },
+}));
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+jest.mock('../../config', () => ({
+  config: {
+    searchConcurrency: {
+      maxConcurrent: 3,
+      maxConcurrentPerTenant: 2,
+      maxQueued: 3,
+      maxQueuedPerTenant: 2,
+      queueTimeoutMs: 2500,
+    },
+    logging: {
+      level: 'info',
+    },
+  },
+}));
+
+describe('SearchLimiterService', () => {
+  let pending: Array<() => void>;
+  let started: string[];
+
+  // A search that runs until finish() is called
+  const search = (tenantId: string, label: string = tenantId) =>
+    searchLimiterService.run(tenantId, () => {
+      started.push(label);
+      return new Promise<string>((resolve) => pending.push(() => resolve(label)));
+    });
+
+  const settle = async () => {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  };
+
+  const finish = async (index = 0) => {
+    pending.splice(index, 1)[0]();
+    await settle();
+  };
+
+  const finishAll = async () => {
+    while (pending.length > 0) {
+      await finish();
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    pending = [];
+    started = [];
+    config.searchConcurrency.maxConcurrent = 3;
+    config.searchConcurrency.maxConcurrentPerTenant = 2;
+  });
+
+  afterEach(async () => {
+    await finishAll();
+    jest.useRealTimers();
+  });
+
+  it('should run searches within the limits right away', async () => {
+    const results = [search('a'), search('b')];
+    await settle();
+
+    expect(started).toEqual(['a', 'b']);
+    expect(searchLimiterService.getStats()).toEqual({ inFlight: 2, queued: 0 });
+
+    await finishAll();
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b']);
+    expect(searchLimiterService.getStats()).toEqual({ inFlight: 0, queued: 0 });
+  });
+
+  it('should queue searches beyond the tenant limit without holding up other tenants', async () => {
+    search('a', 'a1');
+    search('a', 'a2');
+    const queued = search('a', 'a3');
+    search('b', 'b1');
+    await settle();
+
+    expect(started).toEqual(['a1', 'a2', 'b1']);
+    expect(metricsService.setSearchConcurrency).toHaveBeenLastCalledWith(3, 1);
+
+    await finish(0);
+
+    expect(started).toEqual(['a1', 'a2', 'b1', 'a3']);
+    await finishAll();
+    await expect(queued).resolves.toBe('a3');
+  });
+
+  it('should start waiters in arrival order when a global slot frees up', async () => {
+    search('a', 'a1');
+    search('b', 'b1');
+    search('c', 'c1');
+    search('d', 'd1');
+    search('e', 'e1');
+    await settle();
+
+    await finish(1);
+    expect(started.slice(3)).toEqual(['d1']);
+
+    await finish(0);
+    expect(started.slice(3)).toEqual(['d1', 'e1']);
+  });
+
+  it('should shed searches with 503 when the queue is full', async () => {
+    config.searchConcurrency.maxConcurrent = 1;
+    search('a', 'a1');
+    search('a', 'a2');
+    search('a', 'a3');
+
+    // The tenant's queue share is used up
+    await expect(search('a', 'a4')).rejects.toMatchObject({ statusCode: 503, retryAfterSeconds: 3 });
+
+    search('b', 'b1');
+    // The queue as a whole is full
+    const rejected = search('c', 'c1');
+    await expect(rejected).rejects.toBeInstanceOf(ServiceUnavailableError);
+    expect(metricsService.recordSearchRejection).toHaveBeenCalledWith('a', 'queue_full');
+    expect(metricsService.recordSearchRejection).toHaveBeenCalledWith('c', 'queue_full');
+  });
+
+  it('should shed searches that wait longer than the queue timeout', async () => {
+    config.searchConcurrency.maxConcurrent = 1;
+    search('a', 'a1');
+    const queued = search('b', 'b1');
+
+    jest.advanceTimersByTime(2500);
+
+    await expect(queued).rejects.toMatchObject({
+      statusCode: 503,
+      message: 'Too many concurrent searches. Retry after 3 seconds.',
+    });
+    expect(metricsService.recordSearchRejection).toHaveBeenCalledWith('b', 'queue_timeout');
+    expect(searchLimiterService.getStats()).toEqual({ inFlight: 1, queued: 0 });
+  });
+
+  it('should free the slot when a search fails', async () => {
+    config.searchConcurrency.maxConcurrent = 1;
+
+    await expect(
+      searchLimiterService.run('a', async () => {
+        throw new Error('timeout');
+      })
+    ).rejects.toThrow('timeout');
+
+    expect(searchLimiterService.getStats()).toEqual({ inFlight: 0, queued: 0 });
+  });
+
+  it('should not limit searches when the limits are 0', async () => {
+    config.searchConcurrency.maxConcurrent = 0;
+    config.searchConcurrency.maxConcurrentPerTenant = 0;
+
+    for (let i = 0; i < 10; i++) {
+      search('a');
+    }
+    await settle();
+
+    expect(started).toHaveLength(10);
+  });
+});
@@ -0,0 +1,119 @@
+import { tenantDeletionService } from '../tenantDeletion.service';
+import { tenantRegistryService } from '../tenantRegistry.service';
+import { opensearchService } from '../opensearch.service';
+import { cacheService } from '../cache.service';
+import { apiKeyService } from '../apiKey.service';
+import { tenantSettingsService } from '../tenantSettings.service';
+import { quotaService } from '../quota.service';
+import { AppError } from '../../middleware/errorHandler';
+
+jest.mock('../tenantRegistry.service', () => ({
+  tenantRegistryService: {
+    setStatus: jest.fn(),
+    setDeletionError: jest.fn(),
+    removeTenant: jest.fn(),
+  },
+}));
+jest.mock('../opensearch.service', () => ({
+  opensearchService: {
+    deleteTenantDocuments: jest.fn(),
+  },
+}));
+jest.mock('../cache.service', () => ({
+  cacheService: {
+    invalidateTenant: jest.fn(),
+  },
+}));
+jest.mock('../apiKey.service', () => ({
+  apiKeyService: {
+    revokeTenantKeys: jest.fn(),
+  },
+}));
+jest.mock('../tenantSettings.service', () => ({
+  tenantSettingsService: {
+    deleteTenantSettings: jest.fn(),
+  },
+}));
+jest.mock('../quota.service', () => ({
+  quotaService: {
+    deleteUsage: jest.fn(),
+  },
+}));
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+const flushPurge = async () => {
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+describe('TenantDeletionService', () => {
+  const deleting = { id: 'tenant-1', status: 'deleting', placement: 'shared' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (tenantRegistryService.setStatus as jest.Mock).mockResolvedValue(deleting);
+    (opensearchService.deleteTenantDocuments as jest.Mock).mockResolvedValue(3);
+  });
+
+  it('should mark the tenant deleting, then purge all of its data and remove it', async () => {
+    const tenant = await tenantDeletionService.startDeletion('tenant-1');
+    await flushPurge();
+
+    expect(tenant).toEqual(deleting);
+    expect(tenantRegistryService.setStatus).toHaveBeenCalledWith('tenant-1', 'deleting');
+    expect(opensearchService.deleteTenantDocuments).toHaveBeenCalledWith('tenant-1');
+    expect(cacheService.invalidateTenant).toHaveBeenCalledWith('tenant-1');
+    expect(apiKeyService.revokeTenantKeys).toHaveBeenCalledWith('tenant-1');
+    expect(tenantSettingsService.deleteTenantSettings).toHaveBeenCalledWith('tenant-1');
+    expect(quotaService.deleteUsage).toHaveBeenCalledWith('tenant-1');
+    expect(tenantRegistryService.removeTenant).toHaveBeenCalledWith('tenant-1');
+    expect((tenantRegistryService.setStatus as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+      (opensearchService.deleteTenantDocuments as jest.Mock).mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should keep the tenant record and record why purging failed', async () => {
+    (opensearchService.deleteTenantDocuments as jest.Mock).mockRejectedValue(
+      new AppError(504, 'Delete did not finish within 3600000ms')
+    );
+
+    await tenantDeletionService.startDeletion('tenant-1');
+    await flushPurge();
+
+    expect(tenantRegistryService.removeTenant).not.toHaveBeenCalled();
+    expect(tenantRegistryService.setDeletionError).toHaveBeenCalledWith(
+      'tenant-1',
+      'Delete did not finish within 3600000ms'
+    );
+  });
+
+  it('should not start a second purge of a tenant that is being purged', async () => {
+    let finish: (deleted: number) => void = () => undefined;
+    (opensearchService.deleteTenantDocuments as jest.Mock).mockReturnValue(
+      new Promise((resolve) => {
+        finish = resolve;
+      })
+    );
+
+    await tenantDeletionService.startDeletion('tenant-1');
+    await tenantDeletionService.startDeletion('tenant-1');
+    finish(3);
+    await flushPurge();
+
+    expect(opensearchService.deleteTenantDocuments).toHaveBeenCalledTimes(1);
+    expect(tenantRegistryService.removeTenant).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not purge an unknown tenant', async () => {
+    (tenantRegistryService.setStatus as jest.Mock).mockRejectedValue(new AppError(404, 'Tenant not found'));
+
+    await expect(tenantDeletionService.startDeletion('tenant-2')).rejects.toMatchObject({ statusCode: 404 });
+    expect(opensearchService.deleteTenantDocuments).not.toHaveBeenCalled();
+  });
+});
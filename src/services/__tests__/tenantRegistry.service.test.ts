@@ -0,0 +1,210 @@
+import { tenantRegistryService } from '../tenantRegistry.service';
+import { redisService } from '../redis.service';
+import { config } from '../../config';
+import { CircuitOpenError } from '../../utils/resilience';
+import { installRedisFake } from '../../__tests__/helpers';
+
+jest.mock('../redis.service');
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+jest.mock('../../config', () => ({
+  config: {
+    redis: {
+      host: 'localhost',
+      port: 6379,
+      password: undefined,
+      clusterMode: false,
+      enableTLS: false,
+    },
+    tenants: {
+      registryRequired: true,
+    },
+    logging: {
+      level: 'info',
+    },
+  },
+}));
+
+describe('TenantRegistryService', () => {
+  let store: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ({ store } = installRedisFake(redisService));
+    config.tenants.registryRequired = true;
+  });
+
+  it('should create an active tenant in the shared index', async () => {
+    const tenant = await tenantRegistryService.createTenant('tenant-1', { name: 'Acme' });
+
+    expect(tenant).toMatchObject({ id: 'tenant-1', name: 'Acme', status: 'active', placement: 'shared' });
+    expect(redisService.sadd).toHaveBeenCalledWith('tenants:all', 'tenant-1');
+    await expect(tenantRegistryService.getTenant('tenant-1')).resolves.toEqual(tenant);
+  });
+
+  it('should refuse to create a tenant twice', async () => {
+    await tenantRegistryService.createTenant('tenant-1');
+
+    await expect(tenantRegistryService.createTenant('tenant-1')).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should list registered tenants sorted by ID', async () => {
+    (redisService.smembers as jest.Mock).mockResolvedValue(['zeta', 'alpha', 'gone']);
+    store['tenant:record:zeta'] = { id: 'zeta' };
+    store['tenant:record:alpha'] = { id: 'alpha' };
+
+    const tenants = await tenantRegistryService.listTenants();
+
+    expect(tenants.map((tenant) => tenant.id)).toEqual(['alpha', 'zeta']);
+  });
+
+  it('should suspend and reactivate a tenant', async () => {
+    await tenantRegistryService.createTenant('tenant-1');
+
+    const suspended = await tenantRegistryService.setStatus('tenant-1', 'suspended');
+    expect(suspended).toMatchObject({ status: 'suspended', suspendedAt: expect.any(String) });
+
+    const resumed = await tenantRegistryService.setStatus('tenant-1', 'active');
+    expect(resumed.status).toBe('active');
+    expect(resumed.suspendedAt).toBeUndefined();
+  });
+
+  it('should record a failed deletion until it is retried', async () => {
+    await tenantRegistryService.createTenant('tenant-1');
+    await tenantRegistryService.setStatus('tenant-1', 'deleting');
+
+    const failed = await tenantRegistryService.setDeletionError('tenant-1', 'Delete failed: timeout');
+    expect(failed).toMatchObject({ status: 'deleting', deletionError: 'Delete failed: timeout' });
+
+    const retried = await tenantRegistryService.setStatus('tenant-1', 'deleting');
+    expect(retried.deletionError).toBeUndefined();
+  });
+
+  it('should not change the status of an unknown tenant', async () => {
+    await expect(tenantRegistryService.setStatus('tenant-1', 'suspended')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  describe('assertActive', () => {
+    it('should accept an active tenant', async () => {
+      await tenantRegistryService.createTenant('tenant-1');
+
+      await expect(tenantRegistryService.assertActive('tenant-1')).resolves.toBeUndefined();
+    });
+
+    it('should reject an unknown tenant with 404', async () => {
+      await expect(tenantRegistryService.assertActive('tenant-typo')).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should accept an unknown tenant when the registry is not required', async () => {
+      config.tenants.registryRequired = false;
+
+      await expect(tenantRegistryService.assertActive('tenant-typo')).resolves.toBeUndefined();
+    });
+
+    it('should answer 503 with a retry delay when the registry cannot be read', async () => {
+      (redisService.read as jest.Mock).mockRejectedValueOnce(new Error('Connection refused'));
+
+      await expect(tenantRegistryService.assertActive('tenant-1')).rejects.toMatchObject({
+        statusCode: 503,
+        retryAfterSeconds: 5,
+      });
+
+      config.tenants.registryRequired = false;
+      (redisService.read as jest.Mock).mockRejectedValueOnce(new CircuitOpenError('redis', 12));
+
+      await expect(tenantRegistryService.assertActive('tenant-1')).rejects.toMatchObject({
+        statusCode: 503,
+        retryAfterSeconds: 12,
+      });
+    });
+
+    it('should reject a suspended tenant with 403', async () => {
+      await tenantRegistryService.createTenant('tenant-1');
+      await tenantRegistryService.setStatus('tenant-1', 'suspended');
+
+      await expect(tenantRegistryService.assertActive('tenant-1')).rejects.toMatchObject({
+        statusCode: 403,
+        message: 'Tenant is suspended',
+      });
+    });
+  });
+
+  describe('placement', () => {
+    it('should place tenants in the shared index by default', async () => {
+      await expect(tenantRegistryService.getPlacement('tenant-1')).resolves.toBe('shared');
+    });
+
+    it('should record a dedicated placement and list dedicated tenants', async () => {
+      await tenantRegistryService.createTenant('zeta');
+      await tenantRegistryService.createTenant('alpha');
+      await tenantRegistryService.setPlacement('zeta', 'dedicated');
+      await tenantRegistryService.setPlacement('alpha', 'dedicated');
+
+      await expect(tenantRegistryService.getPlacement('zeta')).resolves.toBe('dedicated');
+      await expect(tenantRegistryService.listDedicatedTenants()).resolves.toEqual(['alpha', 'zeta']);
+
+      await tenantRegistryService.setPlacement('zeta', 'shared');
+      await expect(tenantRegistryService.listDedicatedTenants()).resolves.toEqual(['alpha']);
+    });
+
+    it('should not place an unknown tenant', async () => {
+      await expect(tenantRegistryService.setPlacement('tenant-1', 'dedicated')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  it('should block and unblock the writes of a tenant', async () => {
+    await tenantRegistryService.createTenant('tenant-1');
+
+    await expect(tenantRegistryService.setWritesBlocked('tenant-1', true)).resolves.toMatchObject({
+      writesBlocked: true,
+    });
+    await tenantRegistryService.setWritesBlocked('tenant-1', false);
+
+    expect(store['tenant:record:tenant-1'].writesBlocked).toBeUndefined();
+    await expect(tenantRegistryService.setWritesBlocked('unknown', true)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should merge quota overrides and drop cleared ones', async () => {
+    await tenantRegistryService.createTenant('tenant-1');
+    await tenantRegistryService.setQuotas('tenant-1', { maxDocuments: 1000, maxContentBytes: 5000 });
+
+    const updated = await tenantRegistryService.setQuotas('tenant-1', { maxContentBytes: null, maxDocumentBytes: 100 });
+    expect(updated.quotas).toEqual({ maxDocuments: 1000, maxDocumentBytes: 100 });
+
+    const cleared = await tenantRegistryService.setQuotas('tenant-1', { maxDocuments: null, maxDocumentBytes: null });
+    expect(cleared.quotas).toBeUndefined();
+  });
+
+  it('should assign a rate limit tier and per-group overrides', async () => {
+    await tenantRegistryService.createTenant('tenant-1');
+
+    const updated = await tenantRegistryService.setRateLimits('tenant-1', { tier: 'premium', limits: { search: 50 } });
+    expect(updated).toMatchObject({ tier: 'premium', rateLimits: { search: 50 } });
+
+    const reset = await tenantRegistryService.setRateLimits('tenant-1', { tier: null, limits: { search: null } });
+    expect(reset.tier).toBeUndefined();
+    expect(reset.rateLimits).toBeUndefined();
+  });
+
+  it('should remove the record and set memberships of a deleted tenant', async () => {
+    await tenantRegistryService.createTenant('tenant-1');
+
+    await tenantRegistryService.removeTenant('tenant-1');
+
+    expect(redisService.del).toHaveBeenCalledWith('tenant:record:tenant-1');
+    expect(redisService.srem).toHaveBeenCalledWith('tenants:all', 'tenant-1');
+    expect(redisService.srem).toHaveBeenCalledWith('tenants:dedicated', 'tenant-1');
+  });
+
+  it('should fail when the record cannot be stored', async () => {
+    (redisService.set as jest.Mock).mockResolvedValue(false);
+
+    await expect(tenantRegistryService.createTenant('tenant-1')).rejects.toMatchObject({ statusCode: 503 });
+  });
+});
@@ -0,0 +1,114 @@
+import { tenantSettingsService } from '../tenantSettings.service';
+import { redisService } from '../redis.service';
+import { config } from '../../config';
+import { installRedisFake } from '../../__tests__/helpers';
+
+jest.mock('../redis.service');
+jest.mock('../../utils/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+jest.mock('../../config', () => ({
+  config: {
+    redis: {
+      host: 'localhost',
+      port: 6379,
+      password: undefined,
+      clusterMode: false,
+      enableTLS: false,
+    },
+    search: {
+      defaultLanguage: undefined,
+    },
+    logging: {
+      level: 'info',
+    },
+  },
+}));
+
+describe('TenantSettingsService', () => {
+  let store: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ({ store } = installRedisFake(redisService));
+    config.search.defaultLanguage = undefined;
+  });
+
+  it('should return empty settings for a tenant without stored settings', async () => {
+    await expect(tenantSettingsService.getSettings('tenant-1')).resolves.toEqual({});
+  });
+
+  it('should store, merge and reset the default language', async () => {
+    const updated = await tenantSettingsService.updateSettings('tenant-1', { defaultLanguage: 'de' });
+
+    expect(updated).toEqual({ defaultLanguage: 'de', updatedAt: expect.any(String) });
+    expect(store['tenant:settings:tenant-1'].defaultLanguage).toBe('de');
+
+    await tenantSettingsService.updateSettings('tenant-1', {});
+    expect(store['tenant:settings:tenant-1'].defaultLanguage).toBe('de');
+
+    await tenantSettingsService.updateSettings('tenant-1', { defaultLanguage: null });
+    expect(store['tenant:settings:tenant-1']).not.toHaveProperty('defaultLanguage');
+  });
+
+  it('should throw 503 when the settings cannot be stored', async () => {
+    (redisService.set as jest.Mock).mockResolvedValue(false);
+
+    await expect(
+      tenantSettingsService.updateSettings('tenant-1', { defaultLanguage: 'de' })
+    ).rejects.toMatchObject({ statusCode: 503 });
+  });
+
+  describe('synonyms', () => {
+    it('should return an empty dictionary by default', async () => {
+      await expect(tenantSettingsService.getSynonyms('tenant-1')).resolves.toEqual({ synonyms: [] });
+    });
+
+    it('should store normalized synonym sets', async () => {
+      const stored = await tenantSettingsService.setSynonyms('tenant-1', [['Outage', 'incident'], ['solo']]);
+
+      expect(stored).toEqual({ synonyms: [['outage', 'incident']], updatedAt: expect.any(String) });
+      expect(store['tenant:synonyms:tenant-1'].synonyms).toEqual([['outage', 'incident']]);
+    });
+
+    it('should index the dictionary once per version', async () => {
+      store['tenant:synonyms:tenant-2'] = { synonyms: [['outage', 'incident']], updatedAt: '2024-01-01T00:00:00.000Z' };
+
+      const index = await tenantSettingsService.getSynonymIndex('tenant-2');
+      expect(index.terms.get('outage')).toEqual([0]);
+      await expect(tenantSettingsService.getSynonymIndex('tenant-2')).resolves.toBe(index);
+
+      await tenantSettingsService.setSynonyms('tenant-2', [['k8s', 'kubernetes']]);
+      const updated = await tenantSettingsService.getSynonymIndex('tenant-2');
+      expect(updated).not.toBe(index);
+      expect(updated.terms.get('k8s')).toEqual([0]);
+    });
+
+    it('should throw 503 when the synonyms cannot be stored', async () => {
+      (redisService.set as jest.Mock).mockResolvedValue(false);
+
+      await expect(tenantSettingsService.setSynonyms('tenant-1', [['a', 'b']])).rejects.toMatchObject({
+        statusCode: 503,
+      });
+    });
+  });
+
+  describe('getDefaultLanguage', () => {
+    it('should prefer the tenant setting over the configured default', async () => {
+      config.search.defaultLanguage = 'en';
+      store['tenant:settings:tenant-1'] = { defaultLanguage: 'fr' };
+
+      await expect(tenantSettingsService.getDefaultLanguage('tenant-1')).resolves.toBe('fr');
+      await expect(tenantSettingsService.getDefaultLanguage('tenant-2')).resolves.toBe('en');
+    });
+
+    it('should ignore an unsupported configured default', async () => {
+      config.search.defaultLanguage = 'xx';
+
+      await expect(tenantSettingsService.getDefaultLanguage('tenant-1')).resolves.toBeUndefined();
+    });
+  });
+});
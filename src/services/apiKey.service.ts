@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { redisService } from './redis.service';
+import { AppError, ServiceUnavailableError } from '../middleware/errorHandler';
+import { hashString } from '../utils/hash';
+import logger from '../utils/logger';
+import { ApiKey, ApiKeyInfo, ApiKeyScope } from '../types';
+
+const KEY_PREFIX = 'fdk';
+const KEY_PATTERN = /^fdk_([0-9a-f-]{36})_([A-Za-z0-9_-]+)$/;
+const LOOKUP_RETRY_AFTER_SECONDS = 5;
+
+/**
+ * Tenant-bound API keys.
+ * Keys have the form `fdk_<id>_<secret>`; only the SHA-256 hash of the full key is stored,
+ * so a key can be shown once on creation/rotation and never recovered afterwards.
+ */
+class ApiKeyService {
+  private getKeyRecordKey(keyId: string): string {
+    return `apikey:${keyId}`;
+  }
+
+  private getTenantIndexKey(tenantId: string): string {
+    return `apikeys:tenant:${tenantId}`;
+  }
+
+  async createKey(
+    tenantId: string,
+    scopes: ApiKeyScope[],
+    name?: string
+  ): Promise<{ apiKey: ApiKeyInfo; key: string }> {
+    const id = uuidv4();
+    const key = this.generateKey(id);
+    const record: ApiKey = {
+      id,
+      tenantId,
+      name,
+      scopes,
+      keyHash: hashString(key),
+      createdAt: new Date().toISOString(),
+    };
+
+    const stored =
+      (await redisService.set(this.getKeyRecordKey(id), record)) &&
+      (await redisService.sadd(this.getTenantIndexKey(tenantId), id));
+    if (!stored) {
+      throw new AppError(503, 'Unable to store API key');
+    }
+
+    logger.info('API key created', { tenantId, keyId: id, scopes });
+    return { apiKey: this.toInfo(record), key };
+  }
+
+  async listKeys(tenantId: string): Promise<ApiKeyInfo[]> {
+    const ids = await redisService.smembers(this.getTenantIndexKey(tenantId));
+    const records = await Promise.all(ids.map((id) => redisService.get<ApiKey>(this.getKeyRecordKey(id))));
+    return records
+      .filter((record): record is ApiKey => !!record && record.tenantId === tenantId)
+      .map((record) => this.toInfo(record))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Replace the secret of an existing key. The old key stops working immediately.
+   */
+  async rotateKey(tenantId: string, keyId: string): Promise<{ apiKey: ApiKeyInfo; key: string } | null> {
+    const record = await redisService.get<ApiKey>(this.getKeyRecordKey(keyId));
+    if (!record || record.tenantId !== tenantId) {
+      return null;
+    }
+
+    const key = this.generateKey(keyId);
+    record.keyHash = hashString(key);
+    record.rotatedAt = new Date().toISOString();
+
+    if (!(await redisService.set(this.getKeyRecordKey(keyId), record))) {
+      throw new AppError(503, 'Unable to store API key');
+    }
+
+    logger.info('API key rotated', { tenantId, keyId });
+    return { apiKey: this.toInfo(record), key };
+  }
+
+  async revokeKey(tenantId: string, keyId: string): Promise<boolean> {
+    const record = await redisService.get<ApiKey>(this.getKeyRecordKey(keyId));
+    if (!record || record.tenantId !== tenantId) {
+      return false;
+    }
+
+    await redisService.del(this.getKeyRecordKey(keyId));
+    await redisService.srem(this.getTenantIndexKey(tenantId), keyId);
+
+    logger.info('API key revoked', { tenantId, keyId });
+    return true;
+  }
+
+  /**
+   * Revoke every key of the tenant, returning how many there were
+   */
+  async revokeTenantKeys(tenantId: string): Promise<number> {
+    const ids = await redisService.smembers(this.getTenantIndexKey(tenantId));
+    await Promise.all(ids.map((id) => redisService.del(this.getKeyRecordKey(id))));
+    await redisService.del(this.getTenantIndexKey(tenantId));
+
+    logger.info('API keys revoked for tenant', { tenantId, count: ids.length });
+    return ids.length;
+  }
+
+  /**
+   * Resolve a presented key to its record, or null if unknown, revoked or rotated away.
+   * A failed lookup throws 503, so an outage does not turn valid keys into 401s.
+   */
+  async verifyKey(key: string): Promise<ApiKey | null> {
+    const match = KEY_PATTERN.exec(key);
+    if (!match) {
+      return null;
+    }
+
+    let record: ApiKey | null;
+    try {
+      record = await redisService.read<ApiKey>(this.getKeyRecordKey(match[1]));
+    } catch (error) {
+      logger.error('API key lookup failed', { keyId: match[1], error: (error as Error).message });
+      // An open circuit already says when to retry
+      if (error instanceof ServiceUnavailableError) {
+        throw error;
+      }
+      throw new ServiceUnavailableError('API key store is unavailable', LOOKUP_RETRY_AFTER_SECONDS);
+    }
+    if (!record) {
+      return null;
+    }
+
+    const presented = Buffer.from(hashString(key), 'hex');
+    const expected = Buffer.from(record.keyHash, 'hex');
+    if (presented.length !== expected.length || !crypto.timingSafeEqual(presented, expected)) {
+      return null;
+    }
+
+    return record;
+  }
+
+  isApiKey(token: string): boolean {
+    return token.startsWith(`${KEY_PREFIX}_`);
+  }
+
+  private generateKey(id: string): string {
+    return `${KEY_PREFIX}_${id}_${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  private toInfo(record: ApiKey): ApiKeyInfo {
+    const { keyHash: _keyHash, ...info } = record;
+    return info;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -1,14 +1,29 @@
 import { redisService } from './redis.service';
 import { config } from '../config';
 import { hashQuery } from '../utils/hash';
-import { SearchResponse, Document } from '../types';
+import { getPrincipalCacheKey } from '../utils/acl';
+import { AccessPrincipal, SearchResponse, SuggestResponse, Document } from '../types';
 import logger from '../utils/logger';
 import { metricsService } from './metrics.service';
 
 class CacheService {
-  private getSearchKey(tenantId: string, query: string, filters: Record<string, any>, offset: number, limit: number): string {
+  // Search results are partitioned by principal, since ACLs make them caller-specific
+  private getSearchKey(
+    tenantId: string,
+    query: string,
+    filters: Record<string, any>,
+    offset: number,
+    limit: number,
+    principal?: AccessPrincipal
+  ): string {
     const queryHash = hashQuery(query, { ...filters, offset, limit });
-    return `search:${tenantId}:${queryHash}`;
+    return `search:${tenantId}:${getPrincipalCacheKey(principal)}:${queryHash}`;
+  }
+
+  // Kept under the tenant's search prefix so writes invalidate suggestions as well
+  private getSuggestKey(tenantId: string, prefix: string, limit: number, principal?: AccessPrincipal): string {
+    const queryHash = hashQuery(prefix.toLowerCase(), { limit });
+    return `search:${tenantId}:suggest:${getPrincipalCacheKey(principal)}:${queryHash}`;
   }
 
   private getDocumentKey(tenantId: string, docId: string): string {
@@ -20,9 +35,10 @@ class CacheService {
     query: string,
     filters: Record<string, any>,
     offset: number,
-    limit: number
+    limit: number,
+    principal?: AccessPrincipal
   ): Promise<SearchResponse | null> {
-    const key = this.getSearchKey(tenantId, query, filters, offset, limit);
+    const key = this.getSearchKey(tenantId, query, filters, offset, limit, principal);
     const cached = await redisService.get<SearchResponse>(key);
     if (cached) {
       logger.debug('Cache hit for search', { tenantId, query });
@@ -39,13 +55,40 @@ class CacheService {
     filters: Record<string, any>,
     offset: number,
     limit: number,
-    result: SearchResponse
+    result: SearchResponse,
+    principal?: AccessPrincipal
   ): Promise<void> {
-    const key = this.getSearchKey(tenantId, query, filters, offset, limit);
+    const key = this.getSearchKey(tenantId, query, filters, offset, limit, principal);
     await redisService.set(key, result, config.cache.searchTtlSeconds);
     logger.debug('Cached search result', { tenantId, query });
   }
 
+  async getSuggestions(
+    tenantId: string,
+    prefix: string,
+    limit: number,
+    principal?: AccessPrincipal
+  ): Promise<SuggestResponse | null> {
+    const cached = await redisService.get<SuggestResponse>(this.getSuggestKey(tenantId, prefix, limit, principal));
+    if (cached) {
+      metricsService.recordCacheHit('suggest');
+    } else {
+      metricsService.recordCacheMiss('suggest');
+    }
+    return cached;
+  }
+
+  async setSuggestions(
+    tenantId: string,
+    prefix: string,
+    limit: number,
+    result: SuggestResponse,
+    principal?: AccessPrincipal
+  ): Promise<void> {
+    const key = this.getSuggestKey(tenantId, prefix, limit, principal);
+    await redisService.set(key, result, config.cache.suggestTtlSeconds);
+  }
+
   async getDocument(tenantId: string, docId: string): Promise<Document | null> {
     const key = this.getDocumentKey(tenantId, docId);
     const cached = await redisService.get<Document>(key);
@@ -74,11 +117,25 @@ class CacheService {
     logger.debug('Invalidated document cache', { tenantId, docId });
   }
 
+  async invalidateDocuments(tenantId: string, docIds: string[]): Promise<void> {
+    await Promise.all(docIds.map((docId) => redisService.del(this.getDocumentKey(tenantId, docId))));
+    logger.debug('Invalidated document cache entries', { tenantId, count: docIds.length });
+  }
+
   async invalidateTenantSearches(tenantId: string): Promise<void> {
     const pattern = `search:${tenantId}:*`;
     const deleted = await redisService.delPattern(pattern);
     logger.debug('Invalidated tenant search cache', { tenantId, deletedCount: deleted });
   }
+
+  /**
+   * Drop every cached search and document of the tenant
+   */
+  async invalidateTenant(tenantId: string): Promise<void> {
+    const deleted =
+      (await redisService.delPattern(`search:${tenantId}:*`)) + (await redisService.delPattern(`doc:${tenantId}:*`));
+    logger.debug('Invalidated tenant cache', { tenantId, deletedCount: deleted });
+  }
 }
 
 export const cacheService = new CacheService();
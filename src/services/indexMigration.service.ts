@@ -0,0 +1,667 @@
+import { v4 as uuidv4 } from 'uuid';
+import { opensearchService } from './opensearch.service';
+import { redisService } from './redis.service';
+import { tenantRegistryService } from './tenantRegistry.service';
+import { config } from '../config';
+import {
+  INDEX_MAPPING_VERSION,
+  buildIndexDefinition,
+  getIndexVersion,
+  getTenantIndexAlias,
+  getVersionedIndexName,
+} from '../config/indexMapping';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { IndexAliasStatus, IndexMigration, IndexStatus, TenantPlacement } from '../types';
+
+const TENANT_COUNT_PAGE_SIZE = 1000;
+
+// One migration or tenant move runs at a time across all instances and the CLI. The lock
+// expires unless renewed, so one held by a crashed instance is freed after a minute.
+const MIGRATION_LOCK_KEY = 'index-migration:lock';
+const MIGRATION_LOCK_TTL_MS = 60000;
+const MIGRATION_LOCK_RENEW_INTERVAL_MS = 20000;
+
+// Fills in size_bytes (the UTF-8 length of content) and re-derives the language fields for
+// documents written before they existed, and sets the routing the destination expects: the
+// tenant in the shared index, none in a dedicated one
+const REINDEX_SCRIPT = `
+if (ctx._source.size_bytes == null && ctx._source.content != null) {
+  String content = ctx._source.content;
+  long bytes = 0;
+  for (int i = 0; i < content.length(); i++) {
+    char c = content.charAt(i);
+    if (c < 0x80) {
+      bytes += 1;
+    } else if (c < 0x800) {
+      bytes += 2;
+    } else if (Character.isHighSurrogate(c) && i + 1 < content.length()) {
+      bytes += 4;
+      i++;
+    } else {
+      bytes += 3;
+    }
+  }
+  ctx._source.size_bytes = bytes;
+}
+if (ctx._source.language != null) {
+  ctx._source['title_' + ctx._source.language] = ctx._source.title;
+  ctx._source['content_' + ctx._source.language] = ctx._source.content;
+}
+ctx._routing = params.routeByTenant ? ctx._source.tenant_id : null;
+`;
+
+interface CopyOptions {
+  routeByTenant: boolean;
+  tenantId?: string;
+}
+
+interface MigrationLock {
+  token: string;
+  renewal: NodeJS.Timeout;
+  // Set when a renewal found the lock expired or taken; the run stops before its next step
+  lost: boolean;
+}
+
+interface PlannedStep {
+  migration: IndexMigration;
+  run: (migration: IndexMigration) => Promise<void>;
+}
+
+/**
+ * Zero-downtime mapping migrations and tenant moves.
+ *
+ * The service always addresses aliases: the OPENSEARCH_INDEX alias for the shared index and
+ * one alias per tenant with a dedicated index. A migration creates the index for
+ * INDEX_MAPPING_VERSION from the declarative definition in config/indexMapping, reindexes the
+ * current index into it, verifies document counts per tenant and then swaps the alias in one
+ * atomic request. A tenant move copies one tenant between the shared and a dedicated index the
+ * same way and switches its placement in the tenant registry.
+ *
+ * Reads keep working throughout. Writes made during the copy are picked up by a catch-up pass;
+ * for the last pass and the switch the source index, or the moving tenant, is write-blocked,
+ * so writes arriving then fail with 503 and can be retried against the new location. Deletes
+ * made during the copy are not carried over and fail the count check. One operation runs at
+ * a time, under a lock in Redis; taking it also lifts write blocks, of indices and of tenants,
+ * that a crashed run left behind.
+ */
+class IndexMigrationService {
+  private lock?: MigrationLock;
+  private migrations?: IndexMigration[];
+
+  private get alias(): string {
+    return config.opensearch.index;
+  }
+
+  async getStatus(): Promise<IndexStatus> {
+    const shared = await this.getAliasStatus(this.alias);
+    const dedicated = await Promise.all(
+      (await tenantRegistryService.listDedicatedTenants()).map(async (tenantId) => ({
+        tenantId,
+        ...(await this.getAliasStatus(getTenantIndexAlias(this.alias, tenantId))),
+      }))
+    );
+
+    return {
+      ...shared,
+      upToDate: shared.upToDate && dedicated.every((status) => status.upToDate),
+      targetVersion: INDEX_MAPPING_VERSION,
+      dedicated,
+      ...(this.migrations && { migrations: this.migrations }),
+    };
+  }
+
+  /**
+   * Migrate every outdated index to the current mapping version. Throws if a step fails
+   * or there is nothing to migrate.
+   */
+  async migrate(options: { deleteOld?: boolean } = {}): Promise<IndexMigration[]> {
+    const plan = await this.lockAndPlan(() => this.planUpgrade(options.deleteOld === true));
+    await this.execute(plan);
+    return plan.map((step) => step.migration);
+  }
+
+  /**
+   * Start a migration in the background and return its planned steps; progress is
+   * reported by getStatus()
+   */
+  async startMigration(options: { deleteOld?: boolean } = {}): Promise<IndexMigration[]> {
+    const plan = await this.lockAndPlan(() => this.planUpgrade(options.deleteOld === true));
+    this.execute(plan).catch(() => {
+      // Failures are recorded on the migration and logged by execute()
+    });
+    return plan.map((step) => step.migration);
+  }
+
+  /**
+   * Move a tenant's documents into a dedicated index, or back into the shared index
+   */
+  async moveTenant(tenantId: string, placement: TenantPlacement): Promise<IndexMigration> {
+    const plan = await this.lockAndPlan(() => this.planMove(tenantId, placement));
+    await this.execute(plan);
+    return plan[0].migration;
+  }
+
+  async startTenantMove(tenantId: string, placement: TenantPlacement): Promise<IndexMigration> {
+    const plan = await this.lockAndPlan(() => this.planMove(tenantId, placement));
+    this.execute(plan).catch(() => {
+      // Failures are recorded on the migration and logged by execute()
+    });
+    return plan[0].migration;
+  }
+
+  /**
+   * Lift write blocks left behind by a run that did not finish, unless a migration is
+   * running elsewhere. Called on startup; failures are logged.
+   */
+  async recoverInterrupted(): Promise<void> {
+    try {
+      if (!(await this.tryLock())) {
+        return;
+      }
+    } catch (error) {
+      logger.warn('Could not check for an interrupted index migration', { error: (error as Error).message });
+      return;
+    }
+
+    try {
+      await this.clearStaleWriteBlocks();
+    } catch (error) {
+      logger.warn('Could not lift write blocks of an interrupted index migration', {
+        error: (error as Error).message,
+      });
+    } finally {
+      await this.unlock();
+    }
+  }
+
+  /**
+   * Take the migration lock, lift what an interrupted run left behind and plan the steps.
+   * The lock is released when planning fails, or by execute() once the steps have run.
+   */
+  private async lockAndPlan(plan: () => Promise<PlannedStep[]>): Promise<PlannedStep[]> {
+    if (!(await this.tryLock())) {
+      throw new AppError(409, 'An index migration is already running');
+    }
+    try {
+      await this.clearStaleWriteBlocks();
+      return await plan();
+    } catch (error) {
+      await this.unlock();
+      throw error;
+    }
+  }
+
+  private async tryLock(): Promise<boolean> {
+    const token = uuidv4();
+    if (this.lock || !(await redisService.acquireLock(MIGRATION_LOCK_KEY, token, MIGRATION_LOCK_TTL_MS))) {
+      return false;
+    }
+
+    const lock: MigrationLock = {
+      token,
+      lost: false,
+      renewal: setInterval(async () => {
+        try {
+          if (!(await redisService.renewLock(MIGRATION_LOCK_KEY, token, MIGRATION_LOCK_TTL_MS))) {
+            lock.lost = true;
+            clearInterval(lock.renewal);
+            logger.error('Index migration lock was lost');
+          }
+        } catch (error) {
+          // Retried at the next interval; the lock outlives a few missed renewals
+          logger.warn('Could not renew the index migration lock', { error: (error as Error).message });
+        }
+      }, MIGRATION_LOCK_RENEW_INTERVAL_MS),
+    };
+    lock.renewal.unref();
+    this.lock = lock;
+    return true;
+  }
+
+  private async unlock(): Promise<void> {
+    const lock = this.lock;
+    if (!lock) return;
+    clearInterval(lock.renewal);
+    this.lock = undefined;
+    await redisService.releaseLock(MIGRATION_LOCK_KEY, lock.token);
+  }
+
+  /**
+   * Another run may have taken over once the lock is lost; stop before changing anything more
+   */
+  private assertLockHeld(): void {
+    if (this.lock?.lost) {
+      throw new AppError(409, 'The index migration lock was lost; another run may have taken over');
+    }
+  }
+
+  /**
+   * With the lock held no run is in progress, so a write-blocked index behind one of the
+   * aliases, or a tenant whose writes are blocked, was left so by a run that crashed before
+   * lifting the block
+   */
+  private async clearStaleWriteBlocks(): Promise<void> {
+    for (const tenant of await tenantRegistryService.listTenants()) {
+      if (tenant.writesBlocked) {
+        logger.warn('Lifting the write block of an interrupted tenant move', { tenantId: tenant.id });
+        await tenantRegistryService.setWritesBlocked(tenant.id, false);
+      }
+    }
+
+    const client = opensearchService.getClient();
+    for (const { alias } of await this.listAliases()) {
+      const { indices } = await this.resolveAlias(alias);
+      if (indices.length === 0) {
+        continue;
+      }
+
+      const response = await opensearchService.call(
+        'indices.getSettings',
+        () => client.indices.getSettings({ index: indices.join(','), name: 'index.blocks.write', flat_settings: true }),
+        { idempotent: true }
+      );
+      for (const index of indices) {
+        if (String(response.body[index]?.settings?.['index.blocks.write']) === 'true') {
+          logger.warn('Lifting the write block of an interrupted index migration', { index });
+          await this.setWriteBlock(index, false);
+        }
+      }
+    }
+  }
+
+  private async listAliases(): Promise<{ alias: string; tenantId?: string }[]> {
+    return [
+      { alias: this.alias },
+      ...(await tenantRegistryService.listDedicatedTenants()).map((tenantId) => ({
+        alias: getTenantIndexAlias(this.alias, tenantId),
+        tenantId,
+      })),
+    ];
+  }
+
+  private async planUpgrade(deleteOld: boolean): Promise<PlannedStep[]> {
+    const plan: PlannedStep[] = [];
+    for (const { alias, tenantId } of await this.listAliases()) {
+      const { indices, legacy } = await this.resolveAlias(alias);
+      if (indices.length > 1) {
+        throw new AppError(409, `Alias ${alias} points to several indices: ${indices.join(', ')}`);
+      }
+      const target = getVersionedIndexName(alias, INDEX_MAPPING_VERSION);
+      if (indices[0] === target) {
+        continue;
+      }
+
+      plan.push({
+        migration: {
+          status: 'pending',
+          alias,
+          ...(tenantId && { tenantId }),
+          ...(indices[0] && { source: indices[0] }),
+          target,
+        },
+        run: (migration) => this.upgrade(migration, { legacy, shared: !tenantId, deleteOld }),
+      });
+    }
+
+    if (plan.length === 0) {
+      throw new AppError(409, `Index is already at mapping version ${INDEX_MAPPING_VERSION}`);
+    }
+    return plan;
+  }
+
+  private async planMove(tenantId: string, placement: TenantPlacement): Promise<PlannedStep[]> {
+    const tenant = await tenantRegistryService.getTenant(tenantId);
+    if (!tenant) {
+      throw new AppError(404, 'Tenant not found');
+    }
+    if (tenant.placement === placement) {
+      throw new AppError(409, `Tenant is already placed in the ${placement} index`);
+    }
+
+    const alias = getTenantIndexAlias(this.alias, tenantId);
+    const migration: IndexMigration = {
+      status: 'pending',
+      alias,
+      tenantId,
+      placement,
+      ...(placement === 'dedicated'
+        ? { source: this.alias, target: getVersionedIndexName(alias, INDEX_MAPPING_VERSION) }
+        : { source: alias, target: this.alias }),
+    };
+
+    return [
+      {
+        migration,
+        run: (step) => (placement === 'dedicated' ? this.moveToDedicated(step) : this.moveToShared(step)),
+      },
+    ];
+  }
+
+  /**
+   * Run the planned steps in order, stopping at the first failure
+   */
+  private async execute(plan: PlannedStep[]): Promise<void> {
+    this.migrations = plan.map((step) => step.migration);
+
+    try {
+      for (const { migration, run } of plan) {
+        migration.status = 'running';
+        migration.startedAt = new Date().toISOString();
+        logger.info('Index migration started', {
+          alias: migration.alias,
+          tenantId: migration.tenantId,
+          source: migration.source,
+          target: migration.target,
+        });
+
+        try {
+          await run(migration);
+          migration.status = 'completed';
+          migration.completedAt = new Date().toISOString();
+          logger.info('Index migration completed', {
+            alias: migration.alias,
+            target: migration.target,
+            tenants: migration.tenants,
+          });
+        } catch (error) {
+          migration.status = 'failed';
+          migration.completedAt = new Date().toISOString();
+          migration.error = (error as Error).message;
+          logger.error('Index migration failed', {
+            alias: migration.alias,
+            source: migration.source,
+            target: migration.target,
+            error: migration.error,
+          });
+          throw error;
+        }
+      }
+    } finally {
+      await this.unlock();
+    }
+  }
+
+  private async upgrade(
+    migration: IndexMigration,
+    options: { legacy: boolean; shared: boolean; deleteOld: boolean }
+  ): Promise<void> {
+    const client = opensearchService.getClient();
+    const { alias, source, target } = migration;
+
+    await this.dropIndex(target);
+    await opensearchService.call('indices.create', () =>
+      client.indices.create({ index: target, body: buildIndexDefinition({ shared: options.shared }) })
+    );
+
+    // Moving the alias is a single atomic request; a legacy index has the alias's name and
+    // has to be removed in the same request
+    const actions: Record<string, any>[] = [{ add: { index: target, alias, is_write_index: true } }];
+    if (!source) {
+      await opensearchService.call('indices.updateAliases', () => client.indices.updateAliases({ body: { actions } }));
+      return;
+    }
+    if (options.legacy) {
+      actions.push({ remove_index: { index: source } });
+    } else {
+      actions.unshift({ remove: { index: source, alias } });
+    }
+
+    const copyOptions = { routeByTenant: options.shared };
+    const since = await this.copy(migration, copyOptions);
+
+    // Nothing can be written to the source from here on, so the last pass misses nothing
+    await this.setWriteBlock(source, true);
+    try {
+      await this.catchUp(migration, copyOptions, since);
+      await this.verifyCounts(migration);
+      await opensearchService.call('indices.updateAliases', () => client.indices.updateAliases({ body: { actions } }));
+    } catch (error) {
+      await this.setWriteBlock(source, false);
+      throw error;
+    }
+
+    if (options.legacy) {
+      return;
+    }
+    if (options.deleteOld) {
+      await opensearchService.call('indices.delete', () => client.indices.delete({ index: source }));
+    } else {
+      await this.setWriteBlock(source, false);
+    }
+  }
+
+  private async moveToDedicated(migration: IndexMigration): Promise<void> {
+    const client = opensearchService.getClient();
+    const tenantId = migration.tenantId as string;
+
+    // Anything behind the tenant's alias is left over from an earlier attempt; the tenant
+    // is still served from the shared index
+    for (const index of (await this.resolveAlias(migration.alias)).indices) {
+      await this.dropIndex(index);
+    }
+    await this.dropIndex(migration.target);
+    await opensearchService.call('indices.create', () =>
+      client.indices.create({
+        index: migration.target,
+        body: {
+          ...buildIndexDefinition({ shared: false }),
+          aliases: { [migration.alias]: { is_write_index: true } },
+        },
+      })
+    );
+
+    await this.copyAndSwitch(migration, { routeByTenant: false, tenantId }, 'dedicated');
+
+    // The copies in the shared index are no longer read; remove them
+    const response = await opensearchService.call('deleteByQuery', () =>
+      client.deleteByQuery({
+        index: this.alias,
+        routing: tenantId,
+        body: { query: { term: { tenant_id: tenantId } } },
+        conflicts: 'proceed',
+        refresh: true,
+        wait_for_completion: false,
+      })
+    );
+    await opensearchService.waitForTask(response.body.task, 'Delete');
+  }
+
+  private async moveToShared(migration: IndexMigration): Promise<void> {
+    const tenantId = migration.tenantId as string;
+    const { indices } = await this.resolveAlias(migration.alias);
+
+    await this.copyAndSwitch(migration, { routeByTenant: true, tenantId }, 'shared');
+
+    for (const index of indices) {
+      await this.dropIndex(index);
+    }
+  }
+
+  /**
+   * Copy a tenant to the migration's target and switch its placement. The tenant's writes
+   * are blocked for the last catch-up and the switch; one more pass after the switch picks
+   * up writes that were already on their way to the old location when the block was set.
+   */
+  private async copyAndSwitch(
+    migration: IndexMigration,
+    options: CopyOptions & { tenantId: string },
+    placement: TenantPlacement
+  ): Promise<void> {
+    const since = await this.copy(migration, options);
+
+    await tenantRegistryService.setWritesBlocked(options.tenantId, true);
+    try {
+      await this.catchUp(migration, options, since);
+      await this.verifyCounts(migration, options.tenantId);
+      await tenantRegistryService.setPlacement(options.tenantId, placement);
+      await this.catchUp(migration, options, since);
+    } finally {
+      await tenantRegistryService.setWritesBlocked(options.tenantId, false);
+    }
+  }
+
+  /**
+   * Copy documents from the migration's source to its target and catch up on documents
+   * written meanwhile. Returns when the catch-up started, for a last pass once writes stop.
+   */
+  private async copy(migration: IndexMigration, options: CopyOptions): Promise<string> {
+    const tenantFilter = options.tenantId ? [{ term: { tenant_id: options.tenantId } }] : [];
+    await this.reindex(migration.source as string, migration.target, options.routeByTenant, tenantFilter);
+
+    const since = new Date().toISOString();
+    await this.catchUp(migration, options, migration.startedAt as string);
+    return since;
+  }
+
+  /**
+   * Copy the documents written to the source since the given time
+   */
+  private async catchUp(migration: IndexMigration, options: CopyOptions, since: string): Promise<void> {
+    const tenantFilter = options.tenantId ? [{ term: { tenant_id: options.tenantId } }] : [];
+    await this.reindex(migration.source as string, migration.target, options.routeByTenant, [
+      ...tenantFilter,
+      { range: { updated_at: { gte: since } } },
+    ]);
+  }
+
+  /**
+   * Compare the per-tenant document counts of the migration's source and target
+   */
+  private async verifyCounts(migration: IndexMigration, tenantId?: string): Promise<void> {
+    const source = migration.source as string;
+    const { target } = migration;
+    const tenantFilter = tenantId ? [{ term: { tenant_id: tenantId } }] : [];
+
+    const [sourceCounts, targetCounts] = await Promise.all([
+      this.countByTenant(source, tenantFilter),
+      this.countByTenant(target, tenantFilter),
+    ]);
+    migration.tenants = {};
+    for (const tenantId of new Set([...Object.keys(sourceCounts), ...Object.keys(targetCounts)])) {
+      migration.tenants[tenantId] = { source: sourceCounts[tenantId] || 0, target: targetCounts[tenantId] || 0 };
+    }
+
+    const mismatched = Object.entries(migration.tenants)
+      .filter(([, counts]) => counts.source !== counts.target)
+      .map(([tenantId]) => tenantId);
+    if (mismatched.length > 0) {
+      throw new AppError(500, `Document counts differ after reindex for tenants: ${mismatched.join(', ')}`);
+    }
+    // Verification is the last step before the switch
+    this.assertLockHeld();
+  }
+
+  private async getAliasStatus(alias: string): Promise<IndexAliasStatus> {
+    const { indices, legacy } = await this.resolveAlias(alias);
+    const versions = indices.map((index) => (legacy ? 0 : getIndexVersion(alias, index)));
+    const currentVersion = versions.length === 1 ? versions[0] : null;
+
+    return { alias, indices, currentVersion, upToDate: currentVersion === INDEX_MAPPING_VERSION };
+  }
+
+  /**
+   * Physical indices behind an alias. A concrete index with the alias's own name is
+   * a legacy, pre-versioning index.
+   */
+  private async resolveAlias(alias: string): Promise<{ indices: string[]; legacy: boolean }> {
+    const client = opensearchService.getClient();
+    try {
+      const response = await opensearchService.call('indices.getAlias', () => client.indices.getAlias({ name: alias }), {
+        idempotent: true,
+      });
+      return { indices: Object.keys(response.body).sort(), legacy: false };
+    } catch (error: any) {
+      if (error.statusCode !== 404) {
+        throw error;
+      }
+      const exists = await opensearchService.call('indices.exists', () => client.indices.exists({ index: alias }), {
+        idempotent: true,
+      });
+      return exists.body ? { indices: [alias], legacy: true } : { indices: [], legacy: false };
+    }
+  }
+
+  private async setWriteBlock(index: string, blocked: boolean): Promise<void> {
+    const client = opensearchService.getClient();
+    await opensearchService.call(
+      'indices.putSettings',
+      () => client.indices.putSettings({ index, body: { 'index.blocks.write': blocked } }),
+      { idempotent: true }
+    );
+    logger.info(blocked ? 'Index write-blocked' : 'Index write block lifted', { index });
+  }
+
+  private async dropIndex(index: string): Promise<void> {
+    const client = opensearchService.getClient();
+    const exists = await opensearchService.call('indices.exists', () => client.indices.exists({ index }), {
+      idempotent: true,
+    });
+    if (exists.body) {
+      await opensearchService.call('indices.delete', () => client.indices.delete({ index }));
+    }
+  }
+
+  private async reindex(
+    source: string,
+    target: string,
+    routeByTenant: boolean,
+    filter: Record<string, any>[]
+  ): Promise<void> {
+    this.assertLockHeld();
+    const client = opensearchService.getClient();
+    const response = await opensearchService.call('reindex', () =>
+      client.reindex({
+        body: {
+          source: { index: source, ...(filter.length > 0 && { query: { bool: { filter } } }) },
+          dest: { index: target },
+          script: { source: REINDEX_SCRIPT, lang: 'painless', params: { routeByTenant } },
+        },
+        refresh: true,
+        wait_for_completion: false,
+      })
+    );
+
+    const result = await opensearchService.waitForTask(response.body.task, 'Reindex');
+    logger.info('Reindex finished', { source, target, created: result?.created, updated: result?.updated });
+  }
+
+  private async countByTenant(index: string, filter: Record<string, any>[]): Promise<Record<string, number>> {
+    const client = opensearchService.getClient();
+    const counts: Record<string, number> = {};
+    let after: Record<string, any> | undefined;
+
+    do {
+      const response = await opensearchService.call(
+        'search',
+        () =>
+          client.search({
+            index,
+            body: {
+              size: 0,
+              ...(filter.length > 0 && { query: { bool: { filter } } }),
+              aggs: {
+                tenants: {
+                  composite: {
+                    size: TENANT_COUNT_PAGE_SIZE,
+                    sources: [{ tenant: { terms: { field: 'tenant_id' } } }],
+                    ...(after && { after }),
+                  },
+                },
+              },
+            },
+          }),
+        { idempotent: true }
+      );
+      const aggregation = response.body.aggregations?.tenants;
+      for (const bucket of aggregation?.buckets || []) {
+        counts[bucket.key.tenant] = bucket.doc_count;
+      }
+      after = aggregation?.buckets?.length ? aggregation.after_key : undefined;
+    } while (after);
+
+    return counts;
+  }
+}
+
+export const indexMigrationService = new IndexMigrationService();
@@ -0,0 +1,267 @@
+import { v4 as uuidv4 } from 'uuid';
+import { redisService } from './redis.service';
+import { quotaService } from './quota.service';
+import { cacheService } from './cache.service';
+import { tenantRegistryService } from './tenantRegistry.service';
+import { config } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { ParsedBulkRequest } from '../utils/bulk';
+import { AccessPrincipal, BulkOperation, IngestJob } from '../types';
+
+// The hash tag keeps both lists in one cluster slot, which moving jobs between them requires
+const QUEUE_KEY = '{ingest}:queue';
+// Jobs taken off the queue and not finished yet, each covered by its worker's lease
+const PROCESSING_KEY = '{ingest}:processing';
+// Renewed after every chunk; a job whose lease expired was abandoned by a crashed worker
+const LEASE_SECONDS = 300;
+const MAX_REPORTED_ERRORS = 1000;
+
+interface IngestPayload {
+  operations: BulkOperation[];
+  positions: number[];
+  // The submitter's access, checked again when the job runs
+  principal?: AccessPrincipal;
+}
+
+/**
+ * Asynchronous ingestion jobs.
+ * Jobs are queued in Redis and processed by an in-process worker that polls the queue,
+ * so any instance of the service can pick up work submitted to another. A job is moved to
+ * a processing list while it runs and removed when it finishes, so a job whose worker
+ * crashed is requeued instead of lost.
+ */
+class IngestService {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  // Processing jobs seen without a lease on the last check
+  private unleased = new Set<string>();
+
+  private getJobKey(jobId: string): string {
+    return `ingest:job:${jobId}`;
+  }
+
+  private getPayloadKey(jobId: string): string {
+    return `ingest:payload:${jobId}`;
+  }
+
+  private getLeaseKey(jobId: string): string {
+    return `ingest:lease:${jobId}`;
+  }
+
+  async createJob(tenantId: string, request: ParsedBulkRequest, principal?: AccessPrincipal): Promise<IngestJob> {
+    const job: IngestJob = {
+      id: uuidv4(),
+      tenantId,
+      status: 'queued',
+      total: request.total,
+      processed: request.invalid.length,
+      succeeded: 0,
+      failed: request.invalid.length,
+      errors: request.invalid.slice(0, MAX_REPORTED_ERRORS),
+      errorsTruncated: request.invalid.length > MAX_REPORTED_ERRORS || undefined,
+      createdAt: new Date().toISOString(),
+    };
+    const payload: IngestPayload = { operations: request.operations, positions: request.positions, principal };
+
+    const stored =
+      (await redisService.set(this.getPayloadKey(job.id), payload, config.ingest.jobTtlSeconds)) &&
+      (await this.saveJob(job)) &&
+      (await redisService.lpush(QUEUE_KEY, job.id));
+
+    if (!stored) {
+      throw new AppError(503, 'Unable to queue ingestion job');
+    }
+
+    logger.info('Ingestion job queued', { tenantId, jobId: job.id, total: job.total });
+    return job;
+  }
+
+  async getJob(tenantId: string, jobId: string): Promise<IngestJob | null> {
+    const job = await redisService.get<IngestJob>(this.getJobKey(jobId));
+    if (!job || job.tenantId !== tenantId) {
+      return null;
+    }
+    return job;
+  }
+
+  /**
+   * Take the next job off the queue and process it.
+   * Returns false when the queue is empty.
+   */
+  async processNext(): Promise<boolean> {
+    const jobId = await redisService.lmove<string>(QUEUE_KEY, PROCESSING_KEY);
+    if (!jobId) {
+      return false;
+    }
+
+    await redisService.set(this.getLeaseKey(jobId), true, LEASE_SECONDS);
+    try {
+      await this.processJob(jobId);
+    } finally {
+      await redisService.lrem(PROCESSING_KEY, jobId);
+      await redisService.del(this.getLeaseKey(jobId));
+    }
+    return true;
+  }
+
+  /**
+   * Put jobs back on the queue whose worker stopped before finishing them. A job is requeued
+   * once it was seen without a lease on two checks in a row, since a worker takes the lease
+   * right after taking the job. Returns how many were requeued.
+   */
+  async requeueStaleJobs(): Promise<number> {
+    const unleased = new Set<string>();
+    let requeued = 0;
+    for (const jobId of await redisService.lrange<string>(PROCESSING_KEY)) {
+      if (await redisService.exists(this.getLeaseKey(jobId))) {
+        continue;
+      }
+      if (!this.unleased.has(jobId)) {
+        unleased.add(jobId);
+        continue;
+      }
+      // Pushed to the tail, so it is taken next; pushed before it is removed, so a crash
+      // in between leaves it in both lists rather than in neither
+      if ((await redisService.rpush(QUEUE_KEY, jobId)) && (await redisService.lrem(PROCESSING_KEY, jobId))) {
+        requeued += 1;
+        logger.warn('Requeued abandoned ingestion job', { jobId });
+      }
+    }
+    this.unleased = unleased;
+    return requeued;
+  }
+
+  startWorker(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+    logger.info('Ingestion worker started', { pollIntervalMs: config.ingest.pollIntervalMs });
+  }
+
+  stopWorker(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => this.poll(), delayMs);
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.requeueStaleJobs();
+      while (this.running && (await this.processNext())) {
+        // Drain the queue before sleeping again
+      }
+    } catch (error) {
+      logger.error('Ingestion worker error', { error: (error as Error).message });
+    } finally {
+      if (this.running) {
+        this.schedule(config.ingest.pollIntervalMs);
+      }
+    }
+  }
+
+  private async processJob(jobId: string): Promise<void> {
+    const job = await redisService.get<IngestJob>(this.getJobKey(jobId));
+    if (!job) {
+      logger.warn('Ingestion job not found', { jobId });
+      return;
+    }
+    if (job.status === 'completed' || job.status === 'failed') {
+      // Finished by a worker that stopped before taking it off the processing list
+      return;
+    }
+
+    try {
+      const payload = await redisService.get<IngestPayload>(this.getPayloadKey(jobId));
+      if (!payload) {
+        throw new Error('Job payload not found or expired');
+      }
+      // The tenant may have been suspended or deleted while the job was queued
+      await tenantRegistryService.assertActive(job.tenantId);
+
+      job.status = 'processing';
+      job.startedAt = job.startedAt || new Date().toISOString();
+      await this.saveJob(job);
+
+      const chunkSize = Math.max(1, config.bulk.chunkSize);
+      // A requeued job resumes after the chunks its previous worker recorded; invalid
+      // entries were counted as processed up front
+      const resumeAt = job.processed - (job.total - payload.operations.length);
+      const touchedIds: string[] = [];
+      payload.operations.slice(0, resumeAt).forEach((op) => {
+        if (op.action !== 'create') {
+          touchedIds.push(op.id);
+        }
+      });
+
+      for (let start = resumeAt; start < payload.operations.length; start += chunkSize) {
+        const { results } = await quotaService.executeBulk(
+          job.tenantId,
+          payload.operations.slice(start, start + chunkSize),
+          payload.principal
+        );
+
+        results.forEach((result, i) => {
+          const item = { ...result, position: payload.positions[start + i] };
+          job.processed += 1;
+          if (item.status < 300) {
+            job.succeeded += 1;
+            if (item.action !== 'create' && item.id) {
+              touchedIds.push(item.id);
+            }
+          } else {
+            job.failed += 1;
+            if (job.errors.length < MAX_REPORTED_ERRORS) {
+              job.errors.push(item);
+            } else {
+              job.errorsTruncated = true;
+            }
+          }
+        });
+
+        // Persist progress after every chunk so pollers see it move
+        await this.saveJob(job);
+        await redisService.set(this.getLeaseKey(jobId), true, LEASE_SECONDS);
+      }
+
+      await cacheService.invalidateDocuments(job.tenantId, touchedIds);
+      await cacheService.invalidateTenantSearches(job.tenantId);
+
+      job.status = 'completed';
+      job.completedAt = new Date().toISOString();
+      await this.saveJob(job);
+      await redisService.del(this.getPayloadKey(jobId));
+
+      logger.info('Ingestion job completed', {
+        tenantId: job.tenantId,
+        jobId,
+        succeeded: job.succeeded,
+        failed: job.failed,
+      });
+    } catch (error) {
+      job.status = 'failed';
+      job.error = (error as Error).message;
+      job.completedAt = new Date().toISOString();
+      await this.saveJob(job);
+
+      logger.error('Ingestion job failed', {
+        error: (error as Error).message,
+        tenantId: job.tenantId,
+        jobId,
+      });
+    }
+  }
+
+  private saveJob(job: IngestJob): Promise<boolean> {
+    return redisService.set(this.getJobKey(job.id), job, config.ingest.jobTtlSeconds);
+  }
+}
+
+export const ingestService = new IngestService();
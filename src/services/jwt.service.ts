@@ -0,0 +1,193 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import { config } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { ApiKeyScope, JwtPrincipal } from '../types';
+
+const VALID_SCOPES: ApiKeyScope[] = ['read', 'write', 'admin'];
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+function base64UrlDecode(segment: string): Buffer {
+  return Buffer.from(segment, 'base64url');
+}
+
+function parseSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(base64UrlDecode(segment).toString('utf8')) as T;
+  } catch {
+    throw new AppError(401, 'Malformed token');
+  }
+}
+
+/**
+ * Read a claim by name, falling back to dot notation for nested claims
+ */
+function readClaim(payload: Record<string, any>, claim: string): any {
+  if (claim in payload) {
+    return payload[claim];
+  }
+  return claim.split('.').reduce((value: any, part) => (value == null ? undefined : value[part]), payload);
+}
+
+/**
+ * Read a claim holding a list, accepting either an array or a space/comma separated string
+ */
+function readListClaim(payload: Record<string, any>, claim: string): string[] {
+  const value = readClaim(payload, claim);
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (typeof value === 'string') {
+    return value.split(/[\s,]+/).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Verifies SSO-issued JWTs (HS256 with a shared secret, RS256 with a local JWKS file)
+ * and maps their claims to a tenant principal.
+ */
+class JwtService {
+  private jwksCache?: { path: string; keys: Map<string | undefined, KeyObject> };
+
+  isEnabled(): boolean {
+    return !!(config.auth.jwt.hs256Secret || config.auth.jwt.jwksPath);
+  }
+
+  isJwt(token: string): boolean {
+    return token.split('.').length === 3;
+  }
+
+  verify(token: string): JwtPrincipal {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new AppError(401, 'Malformed token');
+    }
+    const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+    const header = parseSegment<JwtHeader>(headerSegment);
+    const payload = parseSegment<Record<string, any>>(payloadSegment);
+    const signingInput = Buffer.from(`${headerSegment}.${payloadSegment}`);
+    const signature = base64UrlDecode(signatureSegment);
+
+    // Each algorithm is only accepted with its own key type, which rules out alg confusion
+    if (header.alg === 'HS256' && config.auth.jwt.hs256Secret) {
+      const expected = crypto.createHmac('sha256', config.auth.jwt.hs256Secret).update(signingInput).digest();
+      if (expected.length !== signature.length || !crypto.timingSafeEqual(expected, signature)) {
+        throw new AppError(401, 'Invalid token signature');
+      }
+    } else if (header.alg === 'RS256' && config.auth.jwt.jwksPath) {
+      const key = this.getJwksKey(header.kid);
+      if (!crypto.verify('RSA-SHA256', signingInput, key, signature)) {
+        throw new AppError(401, 'Invalid token signature');
+      }
+    } else {
+      throw new AppError(401, `Unsupported token algorithm: ${header.alg}`);
+    }
+
+    this.validateClaims(payload);
+
+    const tenantId = readClaim(payload, config.auth.jwt.tenantClaim);
+    if (typeof tenantId !== 'string' || tenantId.length === 0) {
+      throw new AppError(403, `Token is missing tenant claim: ${config.auth.jwt.tenantClaim}`);
+    }
+
+    const roles = readListClaim(payload, config.auth.jwt.rolesClaim);
+    const groups = readListClaim(payload, config.auth.jwt.groupsClaim);
+    const department = readClaim(payload, config.auth.jwt.departmentClaim);
+
+    // OAuth scope claim. Tokens without one, or with only scopes meant for other services
+    // (an OIDC `openid profile email`, say), are not scope-restricted.
+    const { scopeClaim: scopeClaimName, scopePrefix } = config.auth.jwt;
+    const scopeClaim = readClaim(payload, scopeClaimName) ?? payload.scp;
+    const scopes =
+      scopeClaim === undefined
+        ? []
+        : (Array.isArray(scopeClaim) ? scopeClaim : String(scopeClaim).split(' '))
+            .filter((scope): scope is string => typeof scope === 'string' && scope.startsWith(scopePrefix))
+            .map((scope) => scope.slice(scopePrefix.length))
+            .filter((scope): scope is ApiKeyScope => VALID_SCOPES.includes(scope as ApiKeyScope));
+
+    return {
+      tenantId,
+      userId: payload.sub,
+      roles,
+      groups,
+      department: typeof department === 'string' ? department : undefined,
+      scopes: scopes.length > 0 ? scopes : undefined,
+      claims: payload,
+    };
+  }
+
+  private validateClaims(payload: Record<string, any>): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = config.auth.jwt.clockToleranceSeconds;
+
+    if (typeof payload.exp !== 'number') {
+      throw new AppError(401, 'Token has no expiry');
+    }
+    // Document ACLs are evaluated against the subject; a token without one would be unrestricted
+    if (typeof payload.sub !== 'string' || payload.sub.length === 0) {
+      throw new AppError(401, 'Token has no subject');
+    }
+    if (payload.exp + tolerance < now) {
+      throw new AppError(401, 'Token has expired');
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - tolerance > now) {
+      throw new AppError(401, 'Token is not yet valid');
+    }
+
+    const { issuer, audience } = config.auth.jwt;
+    if (issuer && payload.iss !== issuer) {
+      throw new AppError(401, 'Token issuer is not accepted');
+    }
+    if (audience) {
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      if (!audiences.includes(audience)) {
+        throw new AppError(401, 'Token audience is not accepted');
+      }
+    }
+  }
+
+  private getJwksKey(kid?: string): KeyObject {
+    const keys = this.loadJwks();
+    const key = kid !== undefined ? keys.get(kid) : keys.size === 1 ? keys.values().next().value : undefined;
+    if (!key) {
+      throw new AppError(401, 'No matching signing key for token');
+    }
+    return key;
+  }
+
+  private loadJwks(): Map<string | undefined, KeyObject> {
+    const path = config.auth.jwt.jwksPath as string;
+    if (this.jwksCache && this.jwksCache.path === path) {
+      return this.jwksCache.keys;
+    }
+
+    try {
+      const jwks = JSON.parse(fs.readFileSync(path, 'utf8'));
+      const keys = new Map<string | undefined, KeyObject>();
+      for (const jwk of jwks.keys || []) {
+        if (jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig')) {
+          continue;
+        }
+        keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+
+      this.jwksCache = { path, keys };
+      logger.info('JWKS loaded', { path, keyCount: keys.size });
+      return keys;
+    } catch (error) {
+      logger.error('Failed to load JWKS', { path, error: (error as Error).message });
+      throw new AppError(500, 'Token verification keys are unavailable');
+    }
+  }
+}
+
+export const jwtService = new JwtService();
@@ -1,5 +1,8 @@
 import { Registry, Counter, Histogram, Gauge, collectDefaultMetrics } from 'prom-client';
 import logger from '../utils/logger';
+import { CircuitState } from '../types';
+
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
 
 /**
  * Prometheus metrics registry and collectors
@@ -19,6 +22,16 @@ class MetricsService {
   
   // Rate Limit Metrics
   private rateLimitViolations: Counter<string>;
+
+  // Search Concurrency Metrics
+  private searchInFlight: Gauge<string>;
+  private searchQueueDepth: Gauge<string>;
+  private searchRejections: Counter<string>;
+
+  // Dependency Metrics
+  private circuitBreakerState: Gauge<string>;
+  private circuitBreakerRejections: Counter<string>;
+  private dependencyRetries: Counter<string>;
   
   // System Metrics
   private uptimeGauge: Gauge<string>;
@@ -71,7 +84,49 @@ class MetricsService {
     this.rateLimitViolations = new Counter({
       name: 'rate_limit_violations_total',
       help: 'Total number of rate limit violations',
-      labelNames: ['tenant_id'],
+      labelNames: ['tenant_id', 'policy'],
+      registers: [this.register],
+    });
+
+    // Search Concurrency
+    this.searchInFlight = new Gauge({
+      name: 'search_in_flight',
+      help: 'Number of searches currently running',
+      registers: [this.register],
+    });
+
+    this.searchQueueDepth = new Gauge({
+      name: 'search_queue_depth',
+      help: 'Number of searches waiting for a concurrency slot',
+      registers: [this.register],
+    });
+
+    this.searchRejections = new Counter({
+      name: 'search_rejections_total',
+      help: 'Total number of searches shed by the concurrency limiter',
+      labelNames: ['tenant_id', 'reason'],
+      registers: [this.register],
+    });
+
+    // Dependencies
+    this.circuitBreakerState = new Gauge({
+      name: 'circuit_breaker_state',
+      help: 'Circuit breaker state per dependency (0 = closed, 1 = half-open, 2 = open)',
+      labelNames: ['dependency'],
+      registers: [this.register],
+    });
+
+    this.circuitBreakerRejections = new Counter({
+      name: 'circuit_breaker_rejections_total',
+      help: 'Total number of calls rejected by an open circuit breaker',
+      labelNames: ['dependency', 'operation'],
+      registers: [this.register],
+    });
+
+    this.dependencyRetries = new Counter({
+      name: 'dependency_retries_total',
+      help: 'Total number of retried dependency calls',
+      labelNames: ['dependency', 'operation'],
       registers: [this.register],
     });
 
@@ -127,8 +182,44 @@ class MetricsService {
   /**
    * Record rate limit violation
    */
-  recordRateLimitViolation(tenantId: string): void {
-    this.rateLimitViolations.inc({ tenant_id: tenantId });
+  recordRateLimitViolation(tenantId: string, policy: string = 'default'): void {
+    this.rateLimitViolations.inc({ tenant_id: tenantId, policy });
+  }
+
+  /**
+   * Record running and queued searches
+   */
+  setSearchConcurrency(inFlight: number, queued: number): void {
+    this.searchInFlight.set(inFlight);
+    this.searchQueueDepth.set(queued);
+  }
+
+  /**
+   * Record a search shed by the concurrency limiter
+   */
+  recordSearchRejection(tenantId: string, reason: string): void {
+    this.searchRejections.inc({ tenant_id: tenantId, reason });
+  }
+
+  /**
+   * Record a dependency's circuit breaker state
+   */
+  setCircuitBreakerState(dependency: string, state: CircuitState): void {
+    this.circuitBreakerState.set({ dependency }, CIRCUIT_STATE_VALUES[state]);
+  }
+
+  /**
+   * Record a call rejected by an open circuit breaker
+   */
+  recordCircuitBreakerRejection(dependency: string, operation: string): void {
+    this.circuitBreakerRejections.inc({ dependency, operation });
+  }
+
+  /**
+   * Record a retried dependency call
+   */
+  recordDependencyRetry(dependency: string, operation: string): void {
+    this.dependencyRetries.inc({ dependency, operation });
   }
 
   /**
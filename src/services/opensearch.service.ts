@@ -1,17 +1,160 @@
 import { Client } from '@opensearch-project/opensearch';
+import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config';
 import logger from '../utils/logger';
-import { Document, DocumentIndex, SearchQuery, SearchResult } from '../types';
+import { formatVersion, parseVersion, matchesVersion, hasPreconditions } from '../utils/etag';
+import { buildAclFilter, canAccess } from '../utils/acl';
+import { parseAdvancedQuery } from '../utils/queryParser';
+import { SUPPORTED_LANGUAGES, getLanguageFields } from '../utils/language';
+import {
+  INDEX_MAPPING_VERSION,
+  buildIndexDefinition,
+  getTenantIndexAlias,
+  getVersionedIndexName,
+} from '../config/indexMapping';
+import { SynonymIndex, expandSynonyms } from '../utils/synonyms';
+import { getContentBytes } from '../utils/quota';
+import { tenantSettingsService } from './tenantSettings.service';
+import { tenantRegistryService } from './tenantRegistry.service';
+import { searchLimiterService } from './searchLimiter.service';
+import { redisService } from './redis.service';
+import { metricsService } from './metrics.service';
+import { CallOptions, ResiliencePolicy } from '../utils/resilience';
+import { AppError, ServiceUnavailableError } from '../middleware/errorHandler';
+import {
+  AccessPrincipal,
+  BulkItemResult,
+  CircuitState,
+  BulkOperation,
+  Document,
+  DocumentChanges,
+  DocumentIndex,
+  FacetField,
+  LanguageCode,
+  Preconditions,
+  SearchFacets,
+  SearchFilterField,
+  SearchPage,
+  SearchQuery,
+  SearchSort,
+  SearchResult,
+  SuggestResponse,
+  TenantPlacement,
+} from '../types';
+
+// Indexed field behind each /search filter parameter
+const FILTER_FIELDS: Record<SearchFilterField, string> = {
+  tag: 'tags',
+  author: 'metadata.author',
+  type: 'metadata.type',
+  department: 'metadata.department',
+};
+
+const MAX_SPELLING_SUGGESTIONS = 3;
+
+// Synonym alternatives score a little below the words the user actually typed
+const SYNONYM_BOOST = 0.8;
+
+// Index (or alias) holding a tenant's documents, and the routing value to address them with
+export interface IndexTarget {
+  index: string;
+  routing?: string;
+}
+
+interface SearchOutcome {
+  results: SearchResult[];
+  total: number;
+  facets?: SearchFacets;
+  page?: SearchPage;
+  suggestions?: string[];
+  correctedQuery?: string;
+}
+
+// Client errors (missing documents, version conflicts, bad queries) come from a healthy
+// cluster; only server errors, throttling and failed connections count against it
+function isOpenSearchFailure(error: unknown): boolean {
+  const statusCode = (error as any)?.statusCode;
+  return !(typeof statusCode === 'number' && statusCode < 500 && statusCode !== 429);
+}
+
+// Writes to an index, or of a tenant, are blocked while a migration finishes copying them
+// (see IndexMigrationService); they are turned away with 503 and this delay
+const WRITE_BLOCK_RETRY_AFTER_SECONDS = 5;
+
+const TASK_POLL_INTERVAL_MS = 1000;
+
+// Requests that run long, with the timeout each gets. They go through a circuit breaker of
+// their own, so a slow bulk write or reindex does not open the circuit in front of searches.
+const LONG_RUNNING_OPERATIONS: Record<string, 'bulkTimeoutMs' | 'adminTimeoutMs'> = {
+  bulk: 'bulkTimeoutMs',
+  reindex: 'adminTimeoutMs',
+  deleteByQuery: 'adminTimeoutMs',
+  'indices.create': 'adminTimeoutMs',
+  'indices.delete': 'adminTimeoutMs',
+  'indices.putSettings': 'adminTimeoutMs',
+  'indices.refresh': 'adminTimeoutMs',
+  'indices.updateAliases': 'adminTimeoutMs',
+};
+
+function createResiliencePolicy(dependency: string): ResiliencePolicy {
+  return new ResiliencePolicy(dependency, () => ({ ...config.resilience, ...config.resilience.opensearch }), {
+    isFailure: isOpenSearchFailure,
+    onStateChange: (state) => metricsService.setCircuitBreakerState(dependency, state),
+    onRetry: (operation) => metricsService.recordDependencyRetry(dependency, operation),
+    onReject: (operation) => metricsService.recordCircuitBreakerRejection(dependency, operation),
+  });
+}
+
+function isWriteBlocked(error: any): boolean {
+  return error?.statusCode === 403 && error?.body?.error?.type === 'cluster_block_exception';
+}
+
+// Points-in-time of a tenant's cursor searches, held open until their keep-alive passes
+function getOpenCursorsKey(tenantId: string): string {
+  return `search:cursors:${tenantId}`;
+}
+
+// doc_id is unique within a tenant, which makes any sort deterministic for search_after
+const TIEBREAK_SORT = { doc_id: { order: 'asc' } };
+
+// Applies a bulk partial update, then re-derives the language fields from the merged
+// document, which a plain partial `doc` update cannot see. Fields other than metadata are
+// replaced whole, where a partial `doc` update would deep-merge objects such as the ACL
+const LANGUAGE_UPDATE_SCRIPT = `
+for (entry in params.doc.entrySet()) {
+  if (entry.getKey() == 'metadata' && ctx._source.metadata instanceof Map) {
+    ctx._source.metadata.putAll(entry.getValue());
+  } else {
+    ctx._source[entry.getKey()] = entry.getValue();
+  }
+}
+for (code in params.languages) {
+  ctx._source.remove('title_' + code);
+  ctx._source.remove('content_' + code);
+}
+if (ctx._source.language == null && params.defaultLanguage != null) {
+  ctx._source.language = params.defaultLanguage;
+}
+if (ctx._source.language != null) {
+  ctx._source['title_' + ctx._source.language] = ctx._source.title;
+  ctx._source['content_' + ctx._source.language] = ctx._source.content;
+}
+`;
 
 class OpenSearchService {
   private client: Client;
   private indexName: string;
+  private resilience = createResiliencePolicy('opensearch');
+  private longRunningResilience = createResiliencePolicy('opensearch_long_running');
 
   constructor() {
     this.indexName = config.opensearch.index;
     
+    const { timeoutMs, bulkTimeoutMs, adminTimeoutMs } = config.resilience.opensearch;
     const clientConfig: any = {
       node: config.opensearch.node,
+      // The resilience policy times requests out; the client must not give up before it
+      requestTimeout: Math.max(timeoutMs, bulkTimeoutMs, adminTimeoutMs),
     };
 
     // Only add auth if username/password are provided
@@ -27,63 +170,26 @@ class OpenSearchService {
 
   async initializeIndex(): Promise<void> {
     try {
-      const exists = await this.client.indices.exists({ index: this.indexName });
+      const exists = await this.call('indices.exists', () => this.client.indices.exists({ index: this.indexName }), {
+        idempotent: true,
+      });
       
       if (!exists.body) {
-        logger.info('Creating OpenSearch index', { index: this.indexName });
-        
-        await this.client.indices.create({
-          index: this.indexName,
-          body: {
-            settings: {
-              number_of_shards: 1,
-              number_of_replicas: 0,
-              analysis: {
-                analyzer: {
-                  default: {
-                    type: 'standard',
-                  },
-                },
-              },
-            },
-            mappings: {
-              properties: {
-                tenant_id: {
-                  type: 'keyword',
-                },
-                doc_id: {
-                  type: 'keyword',
-                },
-                title: {
-                  type: 'text',
-                  analyzer: 'standard',
-                },
-                content: {
-                  type: 'text',
-                  analyzer: 'standard',
-                },
-                tags: {
-                  type: 'keyword',
-                },
-                metadata: {
-                  properties: {
-                    author: { type: 'keyword' },
-                    type: { type: 'keyword' },
-                    department: { type: 'keyword' },
-                  },
-                },
-                created_at: {
-                  type: 'date',
-                },
-                updated_at: {
-                  type: 'date',
-                },
-              },
+        // The configured name is an alias over the index of the current mapping version
+        const index = getVersionedIndexName(this.indexName, INDEX_MAPPING_VERSION);
+        logger.info('Creating OpenSearch index', { index, alias: this.indexName });
+
+        await this.call('indices.create', () =>
+          this.client.indices.create({
+            index,
+            body: {
+              ...buildIndexDefinition(),
+              aliases: { [this.indexName]: { is_write_index: true } },
             },
-          },
-        });
+          })
+        );
 
-        logger.info('OpenSearch index created', { index: this.indexName });
+        logger.info('OpenSearch index created', { index, alias: this.indexName });
       } else {
         logger.info('OpenSearch index already exists', { index: this.indexName });
       }
@@ -96,45 +202,77 @@ class OpenSearchService {
     }
   }
 
-  async indexDocument(tenantId: string, document: Document): Promise<void> {
+  /**
+   * Index a document and return it as stored (final id, timestamps and version).
+   * With `createOnly`, indexing fails with 409 if the id is already taken.
+   */
+  async indexDocument(
+    tenantId: string,
+    document: Document,
+    options: { ifVersion?: string; createOnly?: boolean } = {}
+  ): Promise<Document> {
+    const docId = document.id || this.generateDocId();
     try {
       const now = new Date().toISOString();
-      const docId = document.id || this.generateDocId();
+      const language = document.language || (await tenantSettingsService.getDefaultLanguage(tenantId));
 
       const indexDoc: DocumentIndex = {
         tenant_id: tenantId,
         doc_id: docId,
         title: document.title,
         content: document.content,
+        size_bytes: getContentBytes(document.content),
         tags: document.tags || [],
         metadata: document.metadata || {},
+        ...(document.acl && { acl: document.acl }),
+        ...this.languageFields(language, document.title, document.content),
         created_at: document.createdAt || now,
         updated_at: document.updatedAt || now,
       };
 
-      await this.client.index({
-        index: this.indexName,
-        id: `${tenantId}_${docId}`,
-        body: indexDoc,
-        refresh: true,
-      });
+      const target = await this.resolveWriteTarget(tenantId);
+      const response = await this.call('index', () =>
+        this.client.index({
+          ...target,
+          id: `${tenantId}_${docId}`,
+          body: indexDoc,
+          refresh: true,
+          ...(options.createOnly && { op_type: 'create' }),
+          ...this.concurrencyParams(options.ifVersion),
+        })
+      );
 
       logger.info('Document indexed', { tenantId, docId });
-    } catch (error) {
+      return {
+        ...this.mapIndexToDocument(indexDoc),
+        version: formatVersion(response?.body?._seq_no, response?.body?._primary_term),
+      };
+    } catch (error: any) {
+      if (error.statusCode === 409) {
+        if (options.createOnly) {
+          logger.warn('Document id already exists', { tenantId, docId });
+          throw new AppError(409, `Document with id '${docId}' already exists`);
+        }
+        logger.warn('Version conflict on document index', { tenantId, docId });
+        throw new AppError(412, 'Precondition failed: document has been modified');
+      }
       logger.error('Failed to index document', {
-        error: (error as Error).message,
+        error: error.message,
         tenantId,
-        docId: document.id,
+        docId,
       });
       throw error;
     }
   }
 
-  async getDocument(tenantId: string, docId: string): Promise<Document | null> {
+  /**
+   * Fetch a document. With a principal, documents its ACL does not grant are reported as missing.
+   */
+  async getDocument(tenantId: string, docId: string, principal?: AccessPrincipal): Promise<Document | null> {
     try {
-      const response = await this.client.get({
-        index: this.indexName,
-        id: `${tenantId}_${docId}`,
+      const target = await this.resolveTarget(tenantId);
+      const response = await this.call('get', () => this.client.get({ ...target, id: `${tenantId}_${docId}` }), {
+        idempotent: true,
       });
 
       const source = response.body._source as DocumentIndex;
@@ -145,7 +283,15 @@ class OpenSearchService {
         return null;
       }
 
-      return this.mapIndexToDocument(source);
+      if (!canAccess(source.acl, principal)) {
+        logger.debug('Document hidden by ACL', { tenantId, docId, userId: principal?.userId });
+        return null;
+      }
+
+      return {
+        ...this.mapIndexToDocument(source),
+        version: formatVersion(response.body._seq_no, response.body._primary_term),
+      };
     } catch (error: any) {
       if (error.statusCode === 404) {
         return null;
@@ -159,13 +305,88 @@ class OpenSearchService {
     }
   }
 
-  async deleteDocument(tenantId: string, docId: string): Promise<boolean> {
+  async updateDocument(
+    tenantId: string,
+    docId: string,
+    changes: DocumentChanges,
+    mode: 'replace' | 'merge',
+    preconditions?: Preconditions,
+    principal?: AccessPrincipal
+  ): Promise<Document | null> {
     try {
-      await this.client.delete({
-        index: this.indexName,
-        id: `${tenantId}_${docId}`,
-        refresh: true,
+      const existing = await this.getDocument(tenantId, docId, principal);
+      this.checkPreconditions(existing, preconditions);
+      if (!existing) {
+        return null;
+      }
+
+      const updated: Document =
+        mode === 'replace'
+          ? {
+              id: docId,
+              tenantId,
+              title: changes.title as string,
+              content: changes.content as string,
+              tags: changes.tags,
+              metadata: changes.metadata,
+              acl: changes.acl,
+              language: changes.language,
+              createdAt: existing.createdAt,
+            }
+          : {
+              ...existing,
+              ...changes,
+              metadata: changes.metadata
+                ? { ...(existing.metadata || {}), ...changes.metadata }
+                : existing.metadata,
+            };
+
+      // created_at is always preserved; updated_at always moves forward
+      updated.createdAt = existing.createdAt;
+      updated.updatedAt = new Date().toISOString();
+
+      // Write against the version we read so concurrent writers cannot be silently overwritten
+      const stored = await this.indexDocument(tenantId, updated, { ifVersion: existing.version });
+
+      logger.info('Document updated', { tenantId, docId, mode });
+      return stored;
+    } catch (error) {
+      logger.error('Failed to update document', {
+        error: (error as Error).message,
+        tenantId,
+        docId,
       });
+      throw error;
+    }
+  }
+
+  async deleteDocument(
+    tenantId: string,
+    docId: string,
+    preconditions?: Preconditions,
+    principal?: AccessPrincipal
+  ): Promise<boolean> {
+    try {
+      let ifVersion: string | undefined;
+      if (hasPreconditions(preconditions) || principal) {
+        const existing = await this.getDocument(tenantId, docId, principal);
+        this.checkPreconditions(existing, preconditions);
+        if (!existing) {
+          // Missing, or not visible to the principal
+          return false;
+        }
+        ifVersion = existing.version;
+      }
+
+      const target = await this.resolveWriteTarget(tenantId);
+      await this.call('delete', () =>
+        this.client.delete({
+          ...target,
+          id: `${tenantId}_${docId}`,
+          refresh: true,
+          ...this.concurrencyParams(ifVersion),
+        })
+      );
 
       logger.info('Document deleted', { tenantId, docId });
       return true;
@@ -174,6 +395,10 @@ class OpenSearchService {
         logger.debug('Document not found for deletion', { tenantId, docId });
         return false;
       }
+      if (error.statusCode === 409) {
+        logger.warn('Version conflict on document delete', { tenantId, docId });
+        throw new AppError(412, 'Precondition failed: document has been modified');
+      }
       logger.error('Failed to delete document', {
         error: error.message,
         tenantId,
@@ -183,7 +408,365 @@ class OpenSearchService {
     }
   }
 
-  async search(tenantId: string, query: SearchQuery): Promise<{ results: SearchResult[]; total: number }> {
+  /**
+   * Execute create/update/delete operations through the _bulk API in chunks.
+   * Returns one result per operation, in input order. The index is refreshed
+   * once, on the final chunk, instead of per document.
+   *
+   * With a principal, updates and deletes of documents its ACL does not grant are reported
+   * as missing (404), like getDocument does; the others are written against the version
+   * that was checked, so an ACL changed in the meantime fails them with 409.
+   */
+  async bulk(tenantId: string, operations: BulkOperation[], principal?: AccessPrincipal): Promise<BulkItemResult[]> {
+    const chunkSize = Math.max(1, config.bulk.chunkSize);
+    const results: BulkItemResult[] = [];
+    const defaultLanguage = await tenantSettingsService.getDefaultLanguage(tenantId);
+    const target = await this.resolveWriteTarget(tenantId);
+    const meta = (id: string, version?: string) => ({
+      _index: target.index,
+      _id: `${tenantId}_${id}`,
+      ...(target.routing && { routing: target.routing }),
+      ...this.concurrencyParams(version),
+    });
+
+    for (let start = 0; start < operations.length; start += chunkSize) {
+      const chunk = operations.slice(start, start + chunkSize);
+      const isLastChunk = start + chunkSize >= operations.length;
+      const now = new Date().toISOString();
+      const ids = chunk.map((op) => (op.action === 'create' ? op.document.id || this.generateDocId() : op.id));
+      const chunkResults: BulkItemResult[] = new Array(chunk.length);
+
+      try {
+        const versions = principal
+          ? await this.getAccessibleVersions(
+              tenantId,
+              target,
+              ids.filter((_id, i) => chunk[i].action !== 'create'),
+              principal
+            )
+          : undefined;
+
+        const body: any[] = [];
+        // Chunk positions of the operations sent to OpenSearch
+        const sent: number[] = [];
+
+        chunk.forEach((op, i) => {
+          const docId = ids[i];
+          if (op.action !== 'create' && versions && !versions.has(docId)) {
+            chunkResults[i] = {
+              position: start + i,
+              action: op.action,
+              id: docId,
+              status: 404,
+              error: 'Document not found',
+            };
+            return;
+          }
+          sent.push(i);
+
+          if (op.action === 'create') {
+            body.push({ create: meta(docId) });
+            body.push({
+              tenant_id: tenantId,
+              doc_id: docId,
+              title: op.document.title,
+              content: op.document.content,
+              size_bytes: getContentBytes(op.document.content),
+              tags: op.document.tags || [],
+              metadata: op.document.metadata || {},
+              ...(op.document.acl && { acl: op.document.acl }),
+              ...this.languageFields(op.document.language || defaultLanguage, op.document.title, op.document.content),
+              created_at: op.document.createdAt || now,
+              updated_at: op.document.updatedAt || now,
+            } as DocumentIndex);
+          } else if (op.action === 'update') {
+            body.push({ update: meta(docId, versions?.get(docId)) });
+            const doc = {
+              ...op.changes,
+              ...(op.changes.content !== undefined && { size_bytes: getContentBytes(op.changes.content) }),
+              updated_at: now,
+            };
+            const { title, content, language, acl } = op.changes;
+            if (title !== undefined || content !== undefined || language !== undefined || acl !== undefined) {
+              body.push({
+                script: {
+                  source: LANGUAGE_UPDATE_SCRIPT,
+                  lang: 'painless',
+                  params: { doc, languages: SUPPORTED_LANGUAGES, defaultLanguage: defaultLanguage ?? null },
+                },
+              });
+            } else {
+              body.push({ doc });
+            }
+          } else {
+            body.push({ delete: meta(docId, versions?.get(docId)) });
+          }
+        });
+
+        if (sent.length > 0) {
+          const response = await this.call('bulk', () =>
+            this.client.bulk({
+              body,
+              refresh: isLastChunk,
+            })
+          );
+
+          const items = response.body.items || [];
+          sent.forEach((i, k) => {
+            const op = chunk[i];
+            const item = items[k]?.[op.action] || {};
+            const status = item.error?.type === 'cluster_block_exception' ? 503 : item.status || 500;
+            chunkResults[i] = {
+              position: start + i,
+              action: op.action,
+              id: ids[i],
+              status,
+              ...(status < 300
+                ? { result: item.result }
+                : { error: item.error?.reason || item.error?.type || item.result || 'Unknown error' }),
+            };
+          });
+        } else if (isLastChunk && start > 0) {
+          // Earlier chunks were written without a refresh
+          await this.call('indices.refresh', () => this.client.indices.refresh({ index: target.index }));
+        }
+      } catch (error) {
+        // A failed chunk fails its operations but does not abort the remaining chunks
+        logger.error('Bulk chunk failed', {
+          error: (error as Error).message,
+          tenantId,
+          chunkStart: start,
+          chunkSize: chunk.length,
+        });
+        chunk.forEach((op, i) => {
+          chunkResults[i] = chunkResults[i] || {
+            position: start + i,
+            action: op.action,
+            id: ids[i],
+            status: 500,
+            error: (error as Error).message,
+          };
+        });
+      }
+
+      results.push(...chunkResults);
+    }
+
+    const failed = results.filter((r) => r.status >= 300).length;
+    logger.info('Bulk operations executed', { tenantId, total: operations.length, failed });
+
+    return results;
+  }
+
+  /**
+   * Versions of the given documents that exist and that the principal may access
+   */
+  private async getAccessibleVersions(
+    tenantId: string,
+    target: IndexTarget,
+    docIds: string[],
+    principal: AccessPrincipal
+  ): Promise<Map<string, string>> {
+    const versions = new Map<string, string>();
+    if (docIds.length === 0) {
+      return versions;
+    }
+
+    const response = await this.call(
+      'mget',
+      () =>
+        this.client.mget({
+          ...target,
+          _source_includes: ['tenant_id', 'doc_id', 'acl'],
+          body: { ids: docIds.map((docId) => `${tenantId}_${docId}`) },
+        }),
+      { idempotent: true }
+    );
+
+    for (const doc of response.body.docs || []) {
+      const source = doc._source as Partial<DocumentIndex> | undefined;
+      const version = formatVersion(doc._seq_no, doc._primary_term);
+      const visible = doc.found && source?.tenant_id === tenantId && canAccess(source.acl, principal);
+      if (visible && source?.doc_id && version) {
+        versions.set(source.doc_id, version);
+      }
+    }
+    return versions;
+  }
+
+  /**
+   * Delete all of a tenant's documents: the indices behind its dedicated alias, if any, and
+   * its documents in the shared index. Returns the number deleted from the shared index.
+   */
+  async deleteTenantDocuments(tenantId: string): Promise<number> {
+    const alias = getTenantIndexAlias(this.indexName, tenantId);
+    try {
+      const response = await this.call('indices.getAlias', () => this.client.indices.getAlias({ name: alias }), {
+        idempotent: true,
+      });
+      for (const index of Object.keys(response.body)) {
+        await this.call('indices.delete', () => this.client.indices.delete({ index }));
+      }
+    } catch (error: any) {
+      if (error.statusCode !== 404) {
+        throw error;
+      }
+    }
+
+    // Runs as a task for as long as there are documents to delete
+    const response = await this.call('deleteByQuery', () =>
+      this.client.deleteByQuery({
+        index: this.indexName,
+        routing: tenantId,
+        body: { query: { term: { tenant_id: tenantId } } },
+        conflicts: 'proceed',
+        refresh: true,
+        wait_for_completion: false,
+      })
+    );
+    const result = await this.waitForTask(response.body.task, 'Delete');
+
+    logger.info('Tenant documents deleted', { tenantId, deleted: result?.deleted });
+    return result?.deleted || 0;
+  }
+
+  /**
+   * Count a tenant's documents and sum their content sizes, the source of truth for quotas.
+   * Documents indexed before size_bytes existed count as 0 bytes until migrated.
+   */
+  async getTenantUsage(tenantId: string): Promise<{ documents: number; contentBytes: number }> {
+    const target = await this.resolveTarget(tenantId);
+    const response = await this.call(
+      'search',
+      () =>
+        this.client.search({
+          ...target,
+          body: {
+            size: 0,
+            track_total_hits: true,
+            query: { term: { tenant_id: tenantId } },
+            aggs: { size_bytes: { sum: { field: 'size_bytes' } } },
+          },
+        }),
+      { idempotent: true }
+    );
+
+    return {
+      documents: response.body.hits.total.value,
+      contentBytes: Math.round(response.body.aggregations?.size_bytes?.value || 0),
+    };
+  }
+
+  /**
+   * Stored content sizes of the given documents that exist, as counted against storage
+   * quotas; documents indexed before size_bytes existed count as 0 bytes
+   */
+  async getContentSizes(tenantId: string, docIds: string[]): Promise<Map<string, number>> {
+    const sizes = new Map<string, number>();
+    if (docIds.length === 0) {
+      return sizes;
+    }
+
+    const target = await this.resolveTarget(tenantId);
+    const response = await this.call(
+      'mget',
+      () =>
+        this.client.mget({
+          ...target,
+          _source_includes: ['tenant_id', 'doc_id', 'size_bytes'],
+          body: { ids: docIds.map((docId) => `${tenantId}_${docId}`) },
+        }),
+      { idempotent: true }
+    );
+
+    for (const doc of response.body.docs || []) {
+      const source = doc._source as Partial<DocumentIndex> | undefined;
+      if (doc.found && source?.tenant_id === tenantId && source.doc_id) {
+        sizes.set(source.doc_id, source.size_bytes || 0);
+      }
+    }
+    return sizes;
+  }
+
+  /**
+   * Search within a tenant. Passing `page` switches from offset paging to a point-in-time
+   * search continued with search_after; the returned `page` positions the next request.
+   *
+   * Free-text queries with few or no hits get spelling suggestions on their first page;
+   * with `autocorrect`, a zero-hit query is re-run with the best suggestion.
+   *
+   * Searches are subject to the concurrency limits and may be shed with a 503.
+   */
+  async search(
+    tenantId: string,
+    query: SearchQuery,
+    principal?: AccessPrincipal,
+    page?: SearchPage
+  ): Promise<SearchOutcome> {
+    return searchLimiterService.run(tenantId, () => this.runSearch(tenantId, query, principal, page));
+  }
+
+  private async runSearch(
+    tenantId: string,
+    query: SearchQuery,
+    principal?: AccessPrincipal,
+    page?: SearchPage
+  ): Promise<SearchOutcome> {
+    if (!query.language) {
+      const language = await tenantSettingsService.getDefaultLanguage(tenantId);
+      query = language ? { ...query, language } : query;
+    }
+
+    // Tenant synonyms expand free-text queries; advanced queries are taken literally
+    const synonyms =
+      query.syntax !== 'advanced' && query.q && query.q.trim()
+        ? await tenantSettingsService.getSynonymIndex(tenantId)
+        : undefined;
+
+    const outcome = await this.executeSearch(tenantId, query, principal, page, synonyms);
+
+    const eligible =
+      !page && !query.offset && query.syntax !== 'advanced' && !!query.q && query.q.trim().length > 0;
+    if (!eligible || outcome.total > config.search.suggestMaxHits) {
+      return outcome;
+    }
+
+    const suggestions = await this.suggestCorrections(tenantId, query.q, principal);
+    if (suggestions.length === 0) {
+      return outcome;
+    }
+
+    if (query.autocorrect && outcome.total === 0) {
+      const corrected = await this.executeSearch(
+        tenantId,
+        { ...query, q: suggestions[0] },
+        principal,
+        undefined,
+        synonyms
+      );
+      if (corrected.total > 0) {
+        logger.info('Search autocorrected', { tenantId, query: query.q, correctedQuery: suggestions[0] });
+        return { ...corrected, suggestions, correctedQuery: suggestions[0] };
+      }
+    }
+
+    return { ...outcome, suggestions };
+  }
+
+  private async executeSearch(
+    tenantId: string,
+    query: SearchQuery,
+    principal?: AccessPrincipal,
+    page?: SearchPage,
+    synonyms?: SynonymIndex
+  ): Promise<SearchOutcome> {
+    // Parse errors are client errors, raised before anything is sent to OpenSearch
+    const advancedQuery =
+      query.syntax === 'advanced' && query.q && query.q.trim()
+        ? parseAdvancedQuery(query.q, query.language)
+        : undefined;
+    const languageFields = query.language ? getLanguageFields(query.language) : undefined;
+
     try {
       const offset = query.offset || 0;
       const limit = Math.min(query.limit || 10, 50);
@@ -196,19 +779,43 @@ class OpenSearchService {
         term: { tenant_id: tenantId },
       });
 
+      // ACL filter (mandatory for end-user principals), applied before scoring so
+      // hidden documents never reach results, totals or highlights
+      if (principal) {
+        filterClauses.push(buildAclFilter(principal));
+      }
+
       // Full-text search query
-      if (query.q && query.q.trim()) {
+      if (advancedQuery) {
+        mustClauses.push(advancedQuery);
+      } else if (query.q && query.q.trim()) {
+        const fields = [
+          'title^3',
+          'content',
+          'tags^2',
+          // Stemmed matches for documents in the query's language
+          ...(languageFields ? [`${languageFields.title}^3`, languageFields.content] : []),
+        ];
         mustClauses.push({
           bool: {
             should: [
               {
                 multi_match: {
                   query: query.q,
-                  fields: ['title^3', 'content', 'tags^2'],
+                  fields,
                   type: 'best_fields',
                   operator: 'or',
                 },
               },
+              // Each synonym is matched as a whole, so multi-word synonyms stay phrases
+              ...(synonyms ? expandSynonyms(query.q, synonyms) : []).map((alternative) => ({
+                multi_match: {
+                  query: alternative,
+                  fields,
+                  type: 'phrase',
+                  boost: SYNONYM_BOOST,
+                },
+              })),
             ],
           },
         });
@@ -218,25 +825,31 @@ class OpenSearchService {
       }
 
       // Additional filters
-      if (query.tag) {
-        filterClauses.push({
-          term: { tags: query.tag },
-        });
+      if (query.tag && query.tag.length > 0) {
+        if (query.tagMode === 'all') {
+          query.tag.forEach((tag) => filterClauses.push({ term: { tags: tag } }));
+        } else {
+          filterClauses.push(this.termsFilter('tags', query.tag));
+        }
       }
 
-      if (query.author) {
-        filterClauses.push({
-          term: { 'metadata.author': query.author },
-        });
+      for (const field of ['author', 'type', 'department'] as const) {
+        const values = query[field];
+        if (values && values.length > 0) {
+          filterClauses.push(this.termsFilter(FILTER_FIELDS[field], values));
+        }
       }
 
+      const mustNotClauses: any[] = Object.entries(query.exclude || {})
+        .filter(([, values]) => values && values.length > 0)
+        .map(([field, values]) => this.termsFilter(FILTER_FIELDS[field as SearchFilterField], values as string[]));
+
       if (query.from || query.to) {
-        const rangeFilter: any = {};
-        if (query.from) rangeFilter.gte = query.from;
-        if (query.to) rangeFilter.lte = query.to;
-        filterClauses.push({
-          range: { created_at: rangeFilter },
-        });
+        filterClauses.push(this.rangeFilter('created_at', query.from, query.to));
+      }
+
+      if (query.updatedFrom || query.updatedTo) {
+        filterClauses.push(this.rangeFilter('updated_at', query.updatedFrom, query.updatedTo));
       }
 
       const searchBody: any = {
@@ -244,9 +857,9 @@ class OpenSearchService {
           bool: {
             must: mustClauses,
             filter: filterClauses,
+            ...(mustNotClauses.length > 0 && { must_not: mustNotClauses }),
           },
         },
-        from: offset,
         size: limit,
         _source: ['doc_id', 'title', 'content', 'tags', 'metadata'],
         highlight: {
@@ -256,14 +869,54 @@ class OpenSearchService {
               fragment_size: 150,
               number_of_fragments: 1,
             },
+            ...(languageFields && {
+              [languageFields.title]: {},
+              [languageFields.content]: {
+                fragment_size: 150,
+                number_of_fragments: 1,
+              },
+            }),
           },
         },
       };
 
-      const response = await this.client.search({
-        index: this.indexName,
-        body: searchBody,
-      });
+      if (query.facets && query.facets.length > 0) {
+        searchBody.aggs = this.buildFacetAggregations(query.facets, query.interval);
+      }
+
+      const sort = this.buildSort(query.sort);
+      if (query.sort && query.sort.length > 0) {
+        searchBody.sort = sort;
+        // Keep reporting relevance scores when ordering by other fields
+        searchBody.track_scores = true;
+      }
+
+      const target = await this.resolveTarget(tenantId);
+      let pitId: string | undefined;
+      if (page) {
+        if (page.pitId) {
+          // The page extends the point-in-time's keep-alive, and so its slot
+          pitId = page.pitId;
+          await this.trackPointInTime(tenantId, pitId);
+        } else {
+          pitId = await this.openPointInTime(tenantId, target);
+        }
+        searchBody.pit = { id: pitId, keep_alive: `${config.search.cursorKeepAliveSeconds}s` };
+        searchBody.sort = [...sort, TIEBREAK_SORT];
+        searchBody.track_total_hits = true;
+        if (page.searchAfter) {
+          searchBody.search_after = page.searchAfter;
+        }
+      } else {
+        searchBody.from = offset;
+      }
+
+      // Point-in-time searches address the PIT instead of an index
+      const response = await this.call(
+        'search',
+        () => this.client.search(page ? { body: searchBody } : { ...target, body: searchBody }),
+        { idempotent: true }
+      );
 
       const hits = response.body.hits.hits || [];
       const total = response.body.hits.total.value || 0;
@@ -274,10 +927,14 @@ class OpenSearchService {
         
         // Use highlighted snippet if available, otherwise truncate content
         let snippet = '';
-        if (highlight.content && highlight.content.length > 0) {
-          snippet = highlight.content[0];
-        } else if (highlight.title && highlight.title.length > 0) {
-          snippet = highlight.title[0];
+        const highlighted = [
+          'content',
+          ...(languageFields ? [languageFields.content] : []),
+          'title',
+          ...(languageFields ? [languageFields.title] : []),
+        ].find((field) => highlight[field] && highlight[field].length > 0);
+        if (highlighted) {
+          snippet = highlight[highlighted][0];
         } else {
           snippet = source.content.substring(0, 150) + (source.content.length > 150 ? '...' : '');
         }
@@ -291,8 +948,21 @@ class OpenSearchService {
         };
       });
 
-      return { results, total };
-    } catch (error) {
+      const facets =
+        query.facets && query.facets.length > 0
+          ? this.mapFacets(query.facets, response.body.aggregations)
+          : undefined;
+      const nextPage: SearchPage | undefined = page && {
+        pitId: response.body.pit_id || pitId,
+        searchAfter: hits.length > 0 ? hits[hits.length - 1].sort : page.searchAfter,
+      };
+
+      return { results, total, ...(facets && { facets }), ...(nextPage && { page: nextPage }) };
+    } catch (error: any) {
+      if (page?.pitId && error.statusCode === 404) {
+        logger.warn('Search point-in-time expired', { tenantId });
+        throw new AppError(410, 'Cursor has expired; start a new search');
+      }
       logger.error('Search failed', {
         error: (error as Error).message,
         tenantId,
@@ -302,9 +972,248 @@ class OpenSearchService {
     }
   }
 
+  /**
+   * "Did you mean" corrections from phrase suggesters over title and content.
+   * The index-wide term dictionary proposes candidates; each is collated against the
+   * caller's tenant (and ACL) so only corrections with hits they can see are offered.
+   * Failures only cost the suggestions, never the search.
+   */
+  private async suggestCorrections(tenantId: string, text: string, principal?: AccessPrincipal): Promise<string[]> {
+    const filter: any[] = [{ term: { tenant_id: tenantId } }];
+    if (principal) {
+      filter.push(buildAclFilter(principal));
+    }
+
+    const phraseSuggester = (field: string) => ({
+      phrase: {
+        field,
+        size: MAX_SPELLING_SUGGESTIONS,
+        gram_size: 1,
+        max_errors: 2,
+        direct_generator: [{ field, suggest_mode: 'always', min_word_length: 3 }],
+        collate: {
+          query: {
+            source: {
+              bool: {
+                filter,
+                must: { match: { [field]: { query: '{{suggestion}}', operator: 'and' } } },
+              },
+            },
+          },
+          prune: false,
+        },
+      },
+    });
+
+    try {
+      const target = await this.resolveTarget(tenantId);
+      const response = await this.call(
+        'search',
+        () =>
+          this.client.search({
+            ...target,
+            body: {
+              size: 0,
+              suggest: {
+                text,
+                title: phraseSuggester('title'),
+                content: phraseSuggester('content'),
+              },
+            },
+          }),
+        { idempotent: true }
+      );
+
+      const suggest = response.body.suggest || {};
+      const options: Array<{ text: string; score: number }> = [...(suggest.title || []), ...(suggest.content || [])]
+        .flatMap((entry: any) => entry.options || []);
+
+      const seen = new Set<string>([text.trim().toLowerCase()]);
+      return options
+        .sort((a, b) => b.score - a.score)
+        .map((option) => option.text)
+        .filter((suggestion) => {
+          const key = suggestion.toLowerCase();
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .slice(0, MAX_SPELLING_SUGGESTIONS);
+    } catch (error) {
+      logger.warn('Spelling suggestions failed', { error: (error as Error).message, tenantId });
+      return [];
+    }
+  }
+
+  /**
+   * Typeahead for the search box: titles whose words start with the typed prefix,
+   * and tags starting with it, in a single request
+   */
+  async suggest(
+    tenantId: string,
+    prefix: string,
+    limit: number,
+    principal?: AccessPrincipal
+  ): Promise<Omit<SuggestResponse, 'tenantId' | 'prefix'>> {
+    const filterClauses: any[] = [{ term: { tenant_id: tenantId } }];
+    if (principal) {
+      filterClauses.push(buildAclFilter(principal));
+    }
+
+    const titleMatch = { match: { 'title.autocomplete': { query: prefix, operator: 'and' } } };
+    const tagMatch = { prefix: { tags: { value: prefix, case_insensitive: true } } };
+
+    try {
+      const target = await this.resolveTarget(tenantId);
+      const response = await this.call(
+        'search',
+        () =>
+          this.client.search({
+            ...target,
+            body: {
+              size: 0,
+              query: {
+                bool: {
+                  filter: filterClauses,
+                  should: [titleMatch, tagMatch],
+                  minimum_should_match: 1,
+                },
+              },
+              aggs: {
+                titles: {
+                  filter: titleMatch,
+                  aggs: {
+                    top: { top_hits: { size: limit, _source: ['doc_id', 'title'] } },
+                  },
+                },
+                tags: {
+                  filter: tagMatch,
+                  aggs: {
+                    values: {
+                      // Documents also carry non-matching tags, so buckets are narrowed to the prefix too
+                      terms: { field: 'tags', size: limit, include: `${this.caseInsensitivePattern(prefix)}.*` },
+                    },
+                  },
+                },
+              },
+            },
+          }),
+        { idempotent: true }
+      );
+
+      const aggregations = response.body.aggregations || {};
+      const titles = (aggregations.titles?.top?.hits?.hits || []).map((hit: any) => ({
+        id: hit._source.doc_id,
+        title: hit._source.title,
+      }));
+      const tags = (aggregations.tags?.values?.buckets || []).map((bucket: any) => ({
+        value: bucket.key,
+        count: bucket.doc_count,
+      }));
+
+      return { titles, tags };
+    } catch (error) {
+      logger.error('Suggest failed', {
+        error: (error as Error).message,
+        tenantId,
+        prefix,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Release a point-in-time once its cursor is exhausted; expiry cleans up abandoned ones
+   */
+  async closePointInTime(tenantId: string, pitId: string): Promise<void> {
+    try {
+      await this.call('deletePit', () => this.client.deletePit({ body: { pit_id: [pitId] } }));
+    } catch (error) {
+      logger.warn('Failed to close point-in-time', { error: (error as Error).message });
+    }
+    if (config.search.maxOpenCursors > 0) {
+      await redisService.releaseSlot(getOpenCursorsKey(tenantId), pitId);
+    }
+  }
+
+  /**
+   * The underlying client, for index administration (see IndexMigrationService). Requests
+   * sent with it should go through call().
+   */
+  getClient(): Client {
+    return this.client;
+  }
+
+  /**
+   * Send a request to OpenSearch through the resilience policy: a timeout per attempt,
+   * retries for idempotent requests and the circuit breaker. With the circuit open,
+   * requests fail right away with 503; so do writes to an index blocked by a migration.
+   * Long-running operations get their longer timeout and their own circuit breaker.
+   */
+  async call<T>(operation: string, request: () => Promise<T>, options: CallOptions = {}): Promise<T> {
+    const timeoutKey = LONG_RUNNING_OPERATIONS[operation];
+    try {
+      if (timeoutKey) {
+        return await this.longRunningResilience.execute(operation, request, {
+          ...options,
+          timeoutMs: options.timeoutMs ?? config.resilience.opensearch[timeoutKey],
+        });
+      }
+      return await this.resilience.execute(operation, request, options);
+    } catch (error) {
+      if (isWriteBlocked(error)) {
+        throw new ServiceUnavailableError(
+          `Index is being migrated. Retry after ${WRITE_BLOCK_RETRY_AFTER_SECONDS} seconds.`,
+          WRITE_BLOCK_RETRY_AFTER_SECONDS
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for a background task, so long requests are not bound by the client's request
+   * timeout; returns the task's response, and fails with its first failure. A task still
+   * running after OPENSEARCH_TASK_TIMEOUT_MS is cancelled and fails with 504.
+   */
+  async waitForTask(taskId: string, operation: string): Promise<Record<string, any> | undefined> {
+    const { taskTimeoutMs } = config.resilience.opensearch;
+    const deadline = Date.now() + taskTimeoutMs;
+    for (;;) {
+      const task = await this.call('tasks.get', () => this.client.tasks.get({ task_id: taskId }), {
+        idempotent: true,
+      });
+      if (task.body.completed) {
+        const failures = task.body.error ? [task.body.error] : task.body.response?.failures || [];
+        if (failures.length > 0) {
+          const reason = failures[0].reason || failures[0].cause?.reason || 'unknown error';
+          throw new AppError(500, `${operation} failed: ${reason}`);
+        }
+        return task.body.response;
+      }
+      if (Date.now() >= deadline) {
+        await this.cancelTask(taskId);
+        throw new AppError(504, `${operation} did not finish within ${taskTimeoutMs}ms`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, TASK_POLL_INTERVAL_MS));
+    }
+  }
+
+  private async cancelTask(taskId: string): Promise<void> {
+    try {
+      await this.call('tasks.cancel', () => this.client.tasks.cancel({ task_id: taskId }), { idempotent: true });
+    } catch (error) {
+      logger.warn('Could not cancel OpenSearch task', { taskId, error: (error as Error).message });
+    }
+  }
+
+  getCircuitState(): CircuitState {
+    return this.resilience.getState();
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
-      const response = await this.client.cluster.health();
+      const response = await this.call('cluster.health', () => this.client.cluster.health(), { idempotent: true });
       return response.body.status !== 'red';
     } catch (error) {
       logger.error('OpenSearch health check failed', { error: (error as Error).message });
@@ -312,6 +1221,168 @@ class OpenSearchService {
     }
   }
 
+  /**
+   * Where a tenant's documents live: its dedicated index, or the shared index routed to the
+   * tenant's shard. Every document operation goes through this.
+   */
+  async resolveTarget(tenantId: string): Promise<IndexTarget> {
+    const placement = await tenantRegistryService.getPlacement(tenantId);
+    return this.getTarget(tenantId, placement);
+  }
+
+  /**
+   * Like resolveTarget, for writes: while the tenant is being moved between indices they
+   * fail with 503
+   */
+  private async resolveWriteTarget(tenantId: string): Promise<IndexTarget> {
+    const tenant = await tenantRegistryService.getTenant(tenantId);
+    if (tenant?.writesBlocked) {
+      throw new ServiceUnavailableError(
+        `Tenant is being moved. Retry after ${WRITE_BLOCK_RETRY_AFTER_SECONDS} seconds.`,
+        WRITE_BLOCK_RETRY_AFTER_SECONDS
+      );
+    }
+    return this.getTarget(tenantId, tenant?.placement || 'shared');
+  }
+
+  private getTarget(tenantId: string, placement: TenantPlacement): IndexTarget {
+    return placement === 'dedicated'
+      ? { index: getTenantIndexAlias(this.indexName, tenantId) }
+      : { index: this.indexName, routing: tenantId };
+  }
+
+  /**
+   * Open a point-in-time for a cursor search. A tenant holding SEARCH_MAX_OPEN_CURSORS of
+   * them already gets 429; the one just opened is closed again.
+   */
+  private async openPointInTime(tenantId: string, target: IndexTarget): Promise<string> {
+    const response = await this.call('createPit', () =>
+      this.client.createPit({
+        ...target,
+        keep_alive: `${config.search.cursorKeepAliveSeconds}s`,
+      })
+    );
+    const pitId: string = response.body.pit_id;
+
+    if ((await this.trackPointInTime(tenantId, pitId)) === false) {
+      await this.closePointInTime(tenantId, pitId);
+      throw new AppError(
+        429,
+        `Too many open search cursors (at most ${config.search.maxOpenCursors}); ` +
+          'page through or let earlier ones expire'
+      );
+    }
+    return pitId;
+  }
+
+  /**
+   * Hold a slot for the point-in-time until its keep-alive passes; false when the tenant's
+   * slots are all taken, null when unlimited or Redis is unavailable (the limit fails open)
+   */
+  private async trackPointInTime(tenantId: string, pitId: string): Promise<boolean | null> {
+    const { maxOpenCursors, cursorKeepAliveSeconds } = config.search;
+    if (maxOpenCursors <= 0) {
+      return null;
+    }
+    return redisService.takeSlot(getOpenCursorsKey(tenantId), pitId, {
+      capacity: maxOpenCursors,
+      ttlMs: cursorKeepAliveSeconds * 1000,
+    });
+  }
+
+  private buildSort(sort?: SearchSort[]): Record<string, any>[] {
+    if (!sort || sort.length === 0) {
+      return [{ _score: { order: 'desc' } }];
+    }
+    return sort.map(({ field, order }) => ({ [field]: { order } }));
+  }
+
+  /**
+   * Regex matching the literal text in any letter case (terms `include` has no case-insensitive flag)
+   */
+  private caseInsensitivePattern(text: string): string {
+    return Array.from(text)
+      .map((char) => {
+        const lower = char.toLowerCase();
+        const upper = char.toUpperCase();
+        if (lower !== upper) {
+          return `[${lower}${upper}]`;
+        }
+        return /[.?+*|{}[\]()"\\#@&<>~]/.test(char) ? `\\${char}` : char;
+      })
+      .join('');
+  }
+
+  private termsFilter(field: string, values: string[]): Record<string, any> {
+    return values.length === 1 ? { term: { [field]: values[0] } } : { terms: { [field]: values } };
+  }
+
+  private rangeFilter(field: string, from?: string, to?: string): Record<string, any> {
+    const range: any = {};
+    if (from) range.gte = from;
+    if (to) range.lte = to;
+    return { range: { [field]: range } };
+  }
+
+  /**
+   * Terms aggregations for keyword facets and a date histogram for created_at.
+   * Aggregations run over the filtered query, so counts respect tenant and ACL filters.
+   */
+  private buildFacetAggregations(facets: FacetField[], interval?: string): Record<string, any> {
+    const aggs: Record<string, any> = {};
+    for (const field of facets) {
+      aggs[field] =
+        field === 'created_at'
+          ? {
+              date_histogram: {
+                field,
+                calendar_interval: interval || config.search.defaultFacetInterval,
+                min_doc_count: 1,
+              },
+            }
+          : { terms: { field, size: config.search.facetSize } };
+    }
+    return aggs;
+  }
+
+  private mapFacets(facets: FacetField[], aggregations: Record<string, any> = {}): SearchFacets {
+    const result: SearchFacets = {};
+    for (const field of facets) {
+      const buckets: any[] = aggregations[field]?.buckets || [];
+      result[field] = buckets.map((bucket) => ({
+        value: String(bucket.key_as_string ?? bucket.key),
+        count: bucket.doc_count,
+      }));
+    }
+    return result;
+  }
+
+  /**
+   * Evaluate If-Match / If-None-Match against the current document state.
+   * Throws 412 when a precondition does not hold.
+   */
+  private checkPreconditions(existing: Document | null, preconditions?: Preconditions): void {
+    if (!preconditions) {
+      return;
+    }
+
+    if (preconditions.ifMatch && !matchesVersion(preconditions.ifMatch, existing?.version, !!existing)) {
+      throw new AppError(412, 'Precondition failed: If-Match does not match current document version');
+    }
+
+    if (preconditions.ifNoneMatch && matchesVersion(preconditions.ifNoneMatch, existing?.version, !!existing)) {
+      throw new AppError(412, 'Precondition failed: If-None-Match matches current document version');
+    }
+  }
+
+  private concurrencyParams(version?: string): { if_seq_no?: number; if_primary_term?: number } {
+    const parsed = version ? parseVersion(version) : null;
+    if (!parsed) {
+      return {};
+    }
+    return { if_seq_no: parsed.seqNo, if_primary_term: parsed.primaryTerm };
+  }
+
   private mapIndexToDocument(source: DocumentIndex): Document {
     return {
       id: source.doc_id,
@@ -320,13 +1391,26 @@ class OpenSearchService {
       content: source.content,
       tags: source.tags,
       metadata: source.metadata,
+      ...(source.acl && { acl: source.acl }),
+      ...(source.language && { language: source.language }),
       createdAt: source.created_at,
       updatedAt: source.updated_at,
     };
   }
 
+  /**
+   * The stored language plus the title/content copies analyzed for it
+   */
+  private languageFields(language: LanguageCode | undefined, title: string, content: string): Partial<DocumentIndex> {
+    if (!language) {
+      return {};
+    }
+    const fields = getLanguageFields(language);
+    return { language, [fields.title]: title, [fields.content]: content };
+  }
+
   private generateDocId(): string {
-    return `doc_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    return uuidv4();
   }
 }
 
@@ -0,0 +1,403 @@
+import { redisService } from './redis.service';
+import { opensearchService } from './opensearch.service';
+import { tenantRegistryService } from './tenantRegistry.service';
+import { config } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { getContentBytes } from '../utils/quota';
+import {
+  AccessPrincipal,
+  BulkItemResult,
+  BulkOperation,
+  Document,
+  DocumentChanges,
+  Preconditions,
+  TenantQuotas,
+  TenantUsage,
+} from '../types';
+
+// A document write checked against the quotas. Creates add a document; the content's
+// size is charged less the stored size it replaces, so updates are charged their growth.
+export interface QuotaWrite {
+  contentBytes: number;
+  create: boolean;
+  previousBytes?: number;
+}
+
+export interface QuotaRejection {
+  status: 413 | 429;
+  error: string;
+}
+
+export interface QuotaReservation {
+  documents: number;
+  contentBytes: number;
+}
+
+export interface QuotaAdmission {
+  // One entry per write; undefined when the write was admitted
+  rejections: Array<QuotaRejection | undefined>;
+  reserved: QuotaReservation;
+  usage: TenantUsage;
+}
+
+function getAddedBytes(write: QuotaWrite): number {
+  return write.contentBytes - (write.previousBytes || 0);
+}
+
+/**
+ * Per-tenant quotas on document count and storage.
+ *
+ * Usage is tracked with Redis counters that writes reserve against before they reach
+ * OpenSearch, so concurrent writers cannot overshoot a limit. Creates and growing updates
+ * reserve what they add; shrinking updates and deletes give back the stored size they
+ * replace once they succeed. Writes racing on one document can still leave the counters
+ * off until the next reconciliation recounts both from OpenSearch.
+ * When Redis is unavailable writes are admitted rather than failed.
+ */
+class QuotaService {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  private getDocumentsKey(tenantId: string): string {
+    return `quota:${tenantId}:documents`;
+  }
+
+  private getBytesKey(tenantId: string): string {
+    return `quota:${tenantId}:bytes`;
+  }
+
+  private getReconciledKey(tenantId: string): string {
+    return `quota:${tenantId}:reconciled`;
+  }
+
+  /**
+   * The service-wide defaults merged with the tenant's overrides
+   */
+  async getLimits(tenantId: string): Promise<TenantQuotas> {
+    const tenant = await tenantRegistryService.getTenant(tenantId);
+    return {
+      maxDocuments: tenant?.quotas?.maxDocuments ?? config.quotas.maxDocuments,
+      maxContentBytes: tenant?.quotas?.maxContentBytes ?? config.quotas.maxContentBytes,
+      maxDocumentBytes: tenant?.quotas?.maxDocumentBytes ?? config.quotas.maxDocumentBytes,
+    };
+  }
+
+  /**
+   * Current usage. Counters that do not exist yet are seeded from OpenSearch.
+   */
+  async getUsage(tenantId: string): Promise<TenantUsage> {
+    const [limits, documents, contentBytes, reconciledAt] = await Promise.all([
+      this.getLimits(tenantId),
+      redisService.get<number>(this.getDocumentsKey(tenantId)),
+      redisService.get<number>(this.getBytesKey(tenantId)),
+      redisService.get<string>(this.getReconciledKey(tenantId)),
+    ]);
+
+    if (documents === null || contentBytes === null) {
+      return this.reconcile(tenantId);
+    }
+
+    return {
+      tenantId,
+      documents: Math.max(0, documents),
+      contentBytes: Math.max(0, contentBytes),
+      limits,
+      ...(reconciledAt && { reconciledAt }),
+    };
+  }
+
+  /**
+   * Check writes against the quotas in order and reserve what the admitted ones add.
+   * Oversized documents are rejected with 413, writes beyond the document or storage
+   * quota with 429. Reservations of writes that then fail must be released, and the
+   * shrinkage of updates that succeed refunded.
+   */
+  async admit(tenantId: string, writes: QuotaWrite[]): Promise<QuotaAdmission> {
+    const usage = await this.getUsage(tenantId);
+    const { limits } = usage;
+    const reserved: QuotaReservation = { documents: 0, contentBytes: 0 };
+
+    const rejections = writes.map((write): QuotaRejection | undefined => {
+      if (limits.maxDocumentBytes > 0 && write.contentBytes > limits.maxDocumentBytes) {
+        return { status: 413, error: `Document content exceeds the limit of ${limits.maxDocumentBytes} bytes` };
+      }
+      const addedBytes = Math.max(0, getAddedBytes(write));
+      if (write.create && limits.maxDocuments > 0 && usage.documents + reserved.documents + 1 > limits.maxDocuments) {
+        return { status: 429, error: `Document quota of ${limits.maxDocuments} documents exceeded` };
+      }
+      if (
+        addedBytes > 0 &&
+        limits.maxContentBytes > 0 &&
+        usage.contentBytes + reserved.contentBytes + addedBytes > limits.maxContentBytes
+      ) {
+        return { status: 429, error: `Storage quota of ${limits.maxContentBytes} bytes exceeded` };
+      }
+      reserved.documents += write.create ? 1 : 0;
+      reserved.contentBytes += addedBytes;
+      return undefined;
+    });
+
+    if (reserved.documents === 0 && reserved.contentBytes === 0) {
+      return { rejections, reserved, usage };
+    }
+
+    const documents = await redisService.incrby(this.getDocumentsKey(tenantId), reserved.documents);
+    const contentBytes = await redisService.incrby(this.getBytesKey(tenantId), reserved.contentBytes);
+    if (documents === null || contentBytes === null) {
+      logger.warn('Quota counters unavailable, admitting writes', { tenantId });
+      return { rejections, reserved: { documents: 0, contentBytes: 0 }, usage };
+    }
+
+    // Concurrent writers reserved in the meantime: back out rather than exceed the quota
+    const overDocuments = limits.maxDocuments > 0 && documents > limits.maxDocuments;
+    const overBytes = limits.maxContentBytes > 0 && contentBytes > limits.maxContentBytes;
+    if (overDocuments || overBytes) {
+      await this.release(tenantId, reserved);
+      const rejectWrite = (write: QuotaWrite): QuotaRejection | undefined => {
+        if (overDocuments && write.create) {
+          return { status: 429, error: `Document quota of ${limits.maxDocuments} documents exceeded` };
+        }
+        if (overBytes && getAddedBytes(write) > 0) {
+          return { status: 429, error: `Storage quota of ${limits.maxContentBytes} bytes exceeded` };
+        }
+        return undefined;
+      };
+      return {
+        rejections: rejections.map((existing, i) => existing || rejectWrite(writes[i])),
+        reserved: { documents: 0, contentBytes: 0 },
+        usage: { ...usage, documents: documents - reserved.documents, contentBytes: contentBytes - reserved.contentBytes },
+      };
+    }
+
+    return { rejections, reserved, usage: { ...usage, documents, contentBytes } };
+  }
+
+  /**
+   * Admit a single document write, throwing the rejection as an error
+   */
+  async admitDocument(
+    tenantId: string,
+    content: string,
+    create: boolean,
+    previousBytes?: number
+  ): Promise<QuotaAdmission> {
+    const admission = await this.admit(tenantId, [{ contentBytes: getContentBytes(content), create, previousBytes }]);
+    const rejection = admission.rejections[0];
+    if (rejection) {
+      throw new AppError(rejection.status, rejection.error);
+    }
+    return admission;
+  }
+
+  async release(tenantId: string, reservation: QuotaReservation): Promise<void> {
+    if (reservation.documents > 0) {
+      await redisService.incrby(this.getDocumentsKey(tenantId), -reservation.documents);
+    }
+    if (reservation.contentBytes > 0) {
+      await redisService.incrby(this.getBytesKey(tenantId), -reservation.contentBytes);
+    }
+  }
+
+  /**
+   * Update one document within the tenant's quotas: new content is charged its growth over
+   * the stored size before the write and refunded its shrinkage after it. Returns null when
+   * the document does not exist or the principal may not access it.
+   */
+  async executeUpdate(
+    tenantId: string,
+    docId: string,
+    changes: DocumentChanges,
+    mode: 'replace' | 'merge',
+    preconditions?: Preconditions,
+    principal?: AccessPrincipal
+  ): Promise<Document | null> {
+    let reserved: QuotaReservation = { documents: 0, contentBytes: 0 };
+    let refund = 0;
+    if (changes.content !== undefined) {
+      const previousBytes = (await opensearchService.getContentSizes(tenantId, [docId])).get(docId);
+      const admission = await this.admitDocument(tenantId, changes.content, false, previousBytes);
+      reserved = admission.reserved;
+      refund = Math.max(0, (previousBytes || 0) - getContentBytes(changes.content));
+    }
+
+    let document: Document | null;
+    try {
+      document = await opensearchService.updateDocument(tenantId, docId, changes, mode, preconditions, principal);
+    } catch (error) {
+      await this.release(tenantId, reserved);
+      throw error;
+    }
+
+    await this.release(tenantId, document ? { documents: 0, contentBytes: refund } : reserved);
+    return document;
+  }
+
+  /**
+   * Delete one document and give back its document and stored size. Returns whether it
+   * was deleted.
+   */
+  async executeDelete(
+    tenantId: string,
+    docId: string,
+    preconditions?: Preconditions,
+    principal?: AccessPrincipal
+  ): Promise<boolean> {
+    const previousBytes = (await opensearchService.getContentSizes(tenantId, [docId])).get(docId);
+    const deleted = await opensearchService.deleteDocument(tenantId, docId, preconditions, principal);
+    if (deleted) {
+      await this.release(tenantId, { documents: 1, contentBytes: previousBytes || 0 });
+    }
+    return deleted;
+  }
+
+  /**
+   * Run bulk operations within the tenant's quotas. Rejected operations are answered with
+   * their 413/429 status without reaching OpenSearch. Returns one result per operation,
+   * in input order, and the usage after the batch. With a principal, updates and deletes
+   * are limited to the documents it may access.
+   */
+  async executeBulk(
+    tenantId: string,
+    operations: BulkOperation[],
+    principal?: AccessPrincipal
+  ): Promise<{ results: BulkItemResult[]; usage: TenantUsage }> {
+    // Stored sizes of the documents whose content is replaced or deleted
+    const sizedIds = operations
+      .filter((op) => op.action === 'delete' || (op.action === 'update' && op.changes.content !== undefined))
+      .map((op) => (op.action === 'create' ? op.document.id : op.id) as string);
+    const sizes = await opensearchService.getContentSizes(tenantId, sizedIds);
+
+    const writes = operations.map((op): QuotaWrite => {
+      if (op.action === 'create') {
+        return { contentBytes: getContentBytes(op.document.content), create: true };
+      }
+      if (op.action === 'update' && op.changes.content !== undefined) {
+        return { contentBytes: getContentBytes(op.changes.content), create: false, previousBytes: sizes.get(op.id) };
+      }
+      return { contentBytes: 0, create: false };
+    });
+    const admission = await this.admit(tenantId, writes);
+
+    const admitted = operations.map((_op, i) => i).filter((i) => !admission.rejections[i]);
+    const executed = admitted.length > 0
+      ? await opensearchService.bulk(tenantId, admitted.map((i) => operations[i]), principal)
+      : [];
+
+    const results: BulkItemResult[] = new Array(operations.length);
+    admission.rejections.forEach((rejection, i) => {
+      if (rejection) {
+        const op = operations[i];
+        results[i] = {
+          position: i,
+          action: op.action,
+          id: op.action === 'create' ? op.document.id : op.id,
+          status: rejection.status,
+          error: rejection.error,
+        };
+      }
+    });
+
+    const unused: QuotaReservation = { documents: 0, contentBytes: 0 };
+    const removed: QuotaReservation = { documents: 0, contentBytes: 0 };
+    executed.forEach((result, i) => {
+      const position = admitted[i];
+      const write = writes[position];
+      results[position] = { ...result, position };
+      if (result.status >= 300) {
+        unused.documents += write.create ? 1 : 0;
+        unused.contentBytes += Math.max(0, getAddedBytes(write));
+      } else if (result.action === 'delete') {
+        removed.documents += 1;
+        removed.contentBytes += sizes.get(result.id as string) || 0;
+      } else {
+        removed.contentBytes += Math.max(0, -getAddedBytes(write));
+      }
+    });
+
+    // Reservations are only made when the counters are available
+    if (admission.reserved.documents > 0 || admission.reserved.contentBytes > 0) {
+      await this.release(tenantId, unused);
+    }
+    await this.release(tenantId, removed);
+
+    return { results, usage: await this.getUsage(tenantId) };
+  }
+
+  /**
+   * Recount a tenant's usage from OpenSearch and overwrite the counters
+   */
+  async reconcile(tenantId: string): Promise<TenantUsage> {
+    const [limits, counted] = await Promise.all([
+      this.getLimits(tenantId),
+      opensearchService.getTenantUsage(tenantId),
+    ]);
+    const reconciledAt = new Date().toISOString();
+
+    await redisService.set(this.getDocumentsKey(tenantId), counted.documents);
+    await redisService.set(this.getBytesKey(tenantId), counted.contentBytes);
+    await redisService.set(this.getReconciledKey(tenantId), reconciledAt);
+
+    logger.debug('Tenant usage reconciled', { tenantId, ...counted });
+    return { tenantId, ...counted, limits, reconciledAt };
+  }
+
+  /**
+   * Reconcile every registered tenant; one failing tenant does not stop the others
+   */
+  async reconcileAll(): Promise<number> {
+    const tenants = await tenantRegistryService.listTenants();
+    let reconciled = 0;
+    for (const tenant of tenants) {
+      if (tenant.status === 'deleting') continue;
+      try {
+        await this.reconcile(tenant.id);
+        reconciled += 1;
+      } catch (error) {
+        logger.error('Failed to reconcile tenant usage', { tenantId: tenant.id, error: (error as Error).message });
+      }
+    }
+    logger.info('Tenant usage reconciled', { tenants: reconciled });
+    return reconciled;
+  }
+
+  async deleteUsage(tenantId: string): Promise<void> {
+    await redisService.del(this.getDocumentsKey(tenantId));
+    await redisService.del(this.getBytesKey(tenantId));
+    await redisService.del(this.getReconciledKey(tenantId));
+  }
+
+  startReconciler(): void {
+    if (this.running || config.quotas.reconcileIntervalMs <= 0) return;
+    this.running = true;
+    this.schedule(0);
+    logger.info('Quota reconciler started', { intervalMs: config.quotas.reconcileIntervalMs });
+  }
+
+  stopReconciler(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => this.run(), delayMs);
+    this.timer.unref();
+  }
+
+  private async run(): Promise<void> {
+    try {
+      await this.reconcileAll();
+    } catch (error) {
+      logger.error('Quota reconciler error', { error: (error as Error).message });
+    } finally {
+      if (this.running) {
+        this.schedule(config.quotas.reconcileIntervalMs);
+      }
+    }
+  }
+}
+
+export const quotaService = new QuotaService();
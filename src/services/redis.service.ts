@@ -1,9 +1,96 @@
 import Redis, { Cluster } from 'ioredis';
 import { config } from '../config';
 import logger from '../utils/logger';
+import { ResiliencePolicy } from '../utils/resilience';
+import { metricsService } from './metrics.service';
+import { CircuitState } from '../types';
+
+// Refills a token bucket for the time since it was last touched, then takes `cost` tokens if
+// that many are available. Runs atomically, so concurrent requests cannot overdraw the bucket.
+// Returns [allowed, tokens left, ms until enough tokens for a retry, ms until the bucket is full].
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1])
+local ts = tonumber(bucket[2])
+if tokens == nil or ts == nil then
+  tokens = capacity
+  ts = now
+end
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+-- Clocks of different instances may disagree slightly; never move the bucket back in time
+ts = math.max(ts, now)
+
+local allowed = 0
+local retry = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retry = math.ceil((cost - tokens) / rate)
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(ts))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate))
+return { allowed, tostring(tokens), retry, math.ceil((capacity - tokens) / rate) }
+`;
+
+// Holds a member in a sorted set of at most `capacity` members, each expiring `ttl` ms after it
+// was last taken. Expired members are dropped first; a member already held only has its
+// expiry extended. Returns 1 when the member holds a slot, 0 when all slots are taken.
+const SLOT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local ttl = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+if not redis.call('ZSCORE', KEYS[1], ARGV[2]) and redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[4]) then
+  return 0
+end
+redis.call('ZADD', KEYS[1], now + ttl, ARGV[2])
+redis.call('PEXPIRE', KEYS[1], ttl)
+return 1
+`;
+
+// Extends or deletes a lock only while it still holds the caller's token, so a holder whose
+// lock expired cannot renew or release the lock another holder has taken since
+const RENEW_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  // Whole tokens left after this request
+  remaining: number;
+  // When rejected, how long until enough tokens have refilled
+  retryAfterMs: number;
+  // How long until the bucket is full again
+  resetMs: number;
+}
 
 class RedisService {
   private client: Redis | Cluster;
+  private resilience = new ResiliencePolicy(
+    'redis',
+    () => ({ ...config.resilience, ...config.resilience.redis }),
+    {
+      onStateChange: (state) => metricsService.setCircuitBreakerState('redis', state),
+      onRetry: (operation) => metricsService.recordDependencyRetry('redis', operation),
+      onReject: (operation) => metricsService.recordCircuitBreakerRejection('redis', operation),
+    }
+  );
 
   constructor() {
     // Determine if we should use cluster mode
@@ -71,22 +158,29 @@ class RedisService {
 
   async get<T>(key: string): Promise<T | null> {
     try {
-      const value = await this.client.get(key);
-      if (!value) return null;
-      return JSON.parse(value) as T;
+      return await this.read<T>(key);
     } catch (error) {
       logger.error('Redis get error', { key, error: (error as Error).message });
       return null;
     }
   }
 
+  /**
+   * Like get, but a failed lookup throws instead of being reported as a missing key
+   */
+  async read<T>(key: string): Promise<T | null> {
+    const value = await this.call('get', () => this.client.get(key), true);
+    if (!value) return null;
+    return JSON.parse(value) as T;
+  }
+
   async set(key: string, value: any, ttlSeconds?: number): Promise<boolean> {
     try {
       const serialized = JSON.stringify(value);
       if (ttlSeconds) {
-        await this.client.setex(key, ttlSeconds, serialized);
+        await this.call('setex', () => this.client.setex(key, ttlSeconds, serialized), true);
       } else {
-        await this.client.set(key, serialized);
+        await this.call('set', () => this.client.set(key, serialized), true);
       }
       return true;
     } catch (error) {
@@ -97,7 +191,7 @@ class RedisService {
 
   async del(key: string): Promise<boolean> {
     try {
-      await this.client.del(key);
+      await this.call('del', () => this.client.del(key), true);
       return true;
     } catch (error) {
       logger.error('Redis delete error', { key, error: (error as Error).message });
@@ -107,18 +201,191 @@ class RedisService {
 
   async delPattern(pattern: string): Promise<number> {
     try {
-      const keys = await this.client.keys(pattern);
+      const keys = await this.call('keys', () => this.client.keys(pattern), true);
       if (keys.length === 0) return 0;
-      return await this.client.del(...keys);
+      return await this.call('del', () => this.client.del(...keys), true);
     } catch (error) {
       logger.error('Redis delete pattern error', { pattern, error: (error as Error).message });
       return 0;
     }
   }
 
+  async lpush(key: string, value: any): Promise<boolean> {
+    try {
+      await this.call('lpush', () => this.client.lpush(key, JSON.stringify(value)));
+      return true;
+    } catch (error) {
+      logger.error('Redis lpush error', { key, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  async rpop<T>(key: string): Promise<T | null> {
+    try {
+      const value = await this.call('rpop', () => this.client.rpop(key));
+      if (!value) return null;
+      return JSON.parse(value) as T;
+    } catch (error) {
+      logger.error('Redis rpop error', { key, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  async rpush(key: string, value: any): Promise<boolean> {
+    try {
+      await this.call('rpush', () => this.client.rpush(key, JSON.stringify(value)));
+      return true;
+    } catch (error) {
+      logger.error('Redis rpush error', { key, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  /**
+   * Atomically move the tail of one list to the head of another, so an element taken off a
+   * queue is never only held in memory; returns null when the source is empty or on failure
+   */
+  async lmove<T>(source: string, destination: string): Promise<T | null> {
+    try {
+      const value = await this.call('lmove', () => this.client.lmove(source, destination, 'RIGHT', 'LEFT'));
+      if (!value) return null;
+      return JSON.parse(value) as T;
+    } catch (error) {
+      logger.error('Redis lmove error', { source, destination, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  async lrange<T>(key: string): Promise<T[]> {
+    try {
+      const values = await this.call('lrange', () => this.client.lrange(key, 0, -1), true);
+      return values.map((value) => JSON.parse(value) as T);
+    } catch (error) {
+      logger.error('Redis lrange error', { key, error: (error as Error).message });
+      return [];
+    }
+  }
+
+  /**
+   * Remove every occurrence of a value from a list
+   */
+  async lrem(key: string, value: any): Promise<boolean> {
+    try {
+      await this.call('lrem', () => this.client.lrem(key, 0, JSON.stringify(value)), true);
+      return true;
+    } catch (error) {
+      logger.error('Redis lrem error', { key, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  /**
+   * Atomically add to an integer counter; returns the new value, or null on failure
+   */
+  async incrby(key: string, amount: number): Promise<number | null> {
+    try {
+      return await this.call('incrby', () => this.client.incrby(key, amount));
+    } catch (error) {
+      logger.error('Redis incrby error', { key, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  /**
+   * Take tokens from a token bucket holding up to `capacity` tokens that refills at
+   * `refillPerMs` tokens per millisecond; returns null on failure
+   */
+  async takeTokens(
+    key: string,
+    options: { capacity: number; refillPerMs: number; cost?: number; now?: number }
+  ): Promise<TokenBucketResult | null> {
+    try {
+      const [allowed, tokens, retryAfterMs, resetMs] = (await this.call('eval', () =>
+        this.client.eval(
+          TOKEN_BUCKET_SCRIPT,
+          1,
+          key,
+          options.capacity,
+          options.refillPerMs,
+          options.now ?? Date.now(),
+          options.cost ?? 1
+        )
+      )) as [number, string, number, number];
+
+      return {
+        allowed: allowed === 1,
+        remaining: Math.floor(parseFloat(tokens)),
+        retryAfterMs,
+        resetMs,
+      };
+    } catch (error) {
+      logger.error('Redis token bucket error', { key, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  /**
+   * Take one of `capacity` slots for `member` until `ttlMs` passes, or extend the one it
+   * holds; false when all slots are taken, null on failure
+   */
+  async takeSlot(
+    key: string,
+    member: string,
+    options: { capacity: number; ttlMs: number; now?: number }
+  ): Promise<boolean | null> {
+    try {
+      const result = await this.call('eval', () =>
+        this.client.eval(SLOT_SCRIPT, 1, key, options.now ?? Date.now(), member, options.ttlMs, options.capacity)
+      );
+      return result === 1;
+    } catch (error) {
+      logger.error('Redis slot error', { key, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  async releaseSlot(key: string, member: string): Promise<boolean> {
+    try {
+      await this.call('zrem', () => this.client.zrem(key, member), true);
+      return true;
+    } catch (error) {
+      logger.error('Redis zrem error', { key, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  async sadd(key: string, member: string): Promise<boolean> {
+    try {
+      await this.call('sadd', () => this.client.sadd(key, member), true);
+      return true;
+    } catch (error) {
+      logger.error('Redis sadd error', { key, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  async srem(key: string, member: string): Promise<boolean> {
+    try {
+      await this.call('srem', () => this.client.srem(key, member), true);
+      return true;
+    } catch (error) {
+      logger.error('Redis srem error', { key, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    try {
+      return await this.call('smembers', () => this.client.smembers(key), true);
+    } catch (error) {
+      logger.error('Redis smembers error', { key, error: (error as Error).message });
+      return [];
+    }
+  }
+
   async exists(key: string): Promise<boolean> {
     try {
-      const result = await this.client.exists(key);
+      const result = await this.call('exists', () => this.client.exists(key), true);
       return result === 1;
     } catch (error) {
       logger.error('Redis exists error', { key, error: (error as Error).message });
@@ -126,18 +393,63 @@ class RedisService {
     }
   }
 
+  /**
+   * Take a lock that expires after `ttlMs` unless renewed; false when another holder has
+   * it. Throws when Redis cannot be reached, so no one assumes a lock they do not hold.
+   */
+  async acquireLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    // Not retried: a retry of a SET that did reach Redis would find the caller's own lock
+    const result = await this.call('set', () => this.client.set(key, token, 'PX', ttlMs, 'NX'));
+    return result === 'OK';
+  }
+
+  /**
+   * Extend a lock held with `token`; false when it expired or is held by someone else.
+   * Throws when Redis cannot be reached.
+   */
+  async renewLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const result = await this.call('eval', () => this.client.eval(RENEW_LOCK_SCRIPT, 1, key, token, ttlMs), true);
+    return result === 1;
+  }
+
+  /**
+   * Release a lock held with `token`. Failures are logged; the lock then expires on its own.
+   */
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    try {
+      const result = await this.call('eval', () => this.client.eval(RELEASE_LOCK_SCRIPT, 1, key, token), true);
+      return result === 1;
+    } catch (error) {
+      logger.error('Redis lock release error', { key, error: (error as Error).message });
+      return false;
+    }
+  }
+
   async ping(): Promise<boolean> {
     try {
-      const result = await this.client.ping();
+      const result = await this.call('ping', () => this.client.ping(), true);
       return result === 'PONG';
     } catch (error) {
       return false;
     }
   }
 
+  getCircuitState(): CircuitState {
+    return this.resilience.getState();
+  }
+
   async close(): Promise<void> {
     await this.client.quit();
   }
+
+  /**
+   * Send a command through the resilience policy: a timeout per attempt, retries when
+   * `idempotent`, and the circuit breaker. An open circuit fails commands right away, so
+   * callers fall back without waiting for Redis.
+   */
+  private call<T>(operation: string, command: () => Promise<T>, idempotent = false): Promise<T> {
+    return this.resilience.execute(operation, command, { idempotent });
+  }
 }
 
 export const redisService = new RedisService();
@@ -0,0 +1,120 @@
+import { config } from '../config';
+import { metricsService } from './metrics.service';
+import { ServiceUnavailableError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+
+interface Waiter {
+  tenantId: string;
+  resolve: () => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Limits how many searches run at once, overall and per tenant, so a few tenants firing
+ * slow queries concurrently cannot pin the cluster. Searches beyond the limits wait in a
+ * bounded queue; when the queue is full or the wait times out they are shed with a 503.
+ *
+ * Waiters start in arrival order, except that a waiter whose tenant is at its limit does
+ * not hold up other tenants. The limits apply per instance.
+ */
+class SearchLimiterService {
+  private inFlight = 0;
+  private tenantInFlight = new Map<string, number>();
+  private queue: Waiter[] = [];
+
+  /**
+   * Run a search once a slot is free
+   */
+  async run<T>(tenantId: string, search: () => Promise<T>): Promise<T> {
+    await this.acquire(tenantId);
+    try {
+      return await search();
+    } finally {
+      this.release(tenantId);
+    }
+  }
+
+  getStats(): { inFlight: number; queued: number } {
+    return { inFlight: this.inFlight, queued: this.queue.length };
+  }
+
+  private acquire(tenantId: string): Promise<void> {
+    if (this.hasSlot(tenantId)) {
+      this.start(tenantId);
+      return Promise.resolve();
+    }
+
+    const { maxQueued, maxQueuedPerTenant, queueTimeoutMs } = config.searchConcurrency;
+    const queuedForTenant = this.queue.filter((waiter) => waiter.tenantId === tenantId).length;
+    if (this.queue.length >= maxQueued || queuedForTenant >= maxQueuedPerTenant) {
+      return Promise.reject(this.shed(tenantId, 'queue_full'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        tenantId,
+        resolve,
+        timer: setTimeout(() => {
+          this.queue = this.queue.filter((queued) => queued !== waiter);
+          this.updateMetrics();
+          reject(this.shed(tenantId, 'queue_timeout'));
+        }, queueTimeoutMs),
+      };
+      this.queue.push(waiter);
+      this.updateMetrics();
+    });
+  }
+
+  private release(tenantId: string): void {
+    this.inFlight -= 1;
+    const running = (this.tenantInFlight.get(tenantId) || 0) - 1;
+    if (running > 0) {
+      this.tenantInFlight.set(tenantId, running);
+    } else {
+      this.tenantInFlight.delete(tenantId);
+    }
+
+    for (let i = 0; i < this.queue.length; ) {
+      const waiter = this.queue[i];
+      if (!this.hasSlot(waiter.tenantId)) {
+        i += 1;
+        continue;
+      }
+      this.queue.splice(i, 1);
+      clearTimeout(waiter.timer);
+      this.start(waiter.tenantId);
+      waiter.resolve();
+    }
+    this.updateMetrics();
+  }
+
+  private hasSlot(tenantId: string): boolean {
+    const { maxConcurrent, maxConcurrentPerTenant } = config.searchConcurrency;
+    return (
+      (maxConcurrent <= 0 || this.inFlight < maxConcurrent) &&
+      (maxConcurrentPerTenant <= 0 || (this.tenantInFlight.get(tenantId) || 0) < maxConcurrentPerTenant)
+    );
+  }
+
+  private start(tenantId: string): void {
+    this.inFlight += 1;
+    this.tenantInFlight.set(tenantId, (this.tenantInFlight.get(tenantId) || 0) + 1);
+    this.updateMetrics();
+  }
+
+  private shed(tenantId: string, reason: 'queue_full' | 'queue_timeout'): ServiceUnavailableError {
+    const retryAfter = Math.max(1, Math.ceil(config.searchConcurrency.queueTimeoutMs / 1000));
+    metricsService.recordSearchRejection(tenantId, reason);
+    logger.warn('Search shed', { tenantId, reason, inFlight: this.inFlight, queued: this.queue.length });
+    return new ServiceUnavailableError(
+      `Too many concurrent searches. Retry after ${retryAfter} seconds.`,
+      retryAfter
+    );
+  }
+
+  private updateMetrics(): void {
+    metricsService.setSearchConcurrency(this.inFlight, this.queue.length);
+  }
+}
+
+export const searchLimiterService = new SearchLimiterService();
@@ -0,0 +1,56 @@
+import { tenantRegistryService } from './tenantRegistry.service';
+import { opensearchService } from './opensearch.service';
+import { cacheService } from './cache.service';
+import { apiKeyService } from './apiKey.service';
+import { tenantSettingsService } from './tenantSettings.service';
+import { quotaService } from './quota.service';
+import logger from '../utils/logger';
+import { TenantRecord } from '../types';
+
+/**
+ * Deletes tenants with all of their documents, cache entries, API keys and settings.
+ *
+ * The tenant is marked `deleting` first, so it is rejected while the purge runs in the
+ * background. Once purged its record is removed; a failed purge is recorded on the record
+ * (`deletionError`) and can be retried by deleting the tenant again.
+ */
+class TenantDeletionService {
+  private purging = new Set<string>();
+
+  /**
+   * Mark the tenant `deleting` and start purging it; returns the marked record
+   */
+  async startDeletion(tenantId: string): Promise<TenantRecord> {
+    const tenant = await tenantRegistryService.setStatus(tenantId, 'deleting');
+    if (!this.purging.has(tenantId)) {
+      this.purging.add(tenantId);
+      this.purge(tenantId).finally(() => this.purging.delete(tenantId));
+    }
+    return tenant;
+  }
+
+  private async purge(tenantId: string): Promise<void> {
+    try {
+      const deleted = await opensearchService.deleteTenantDocuments(tenantId);
+      await cacheService.invalidateTenant(tenantId);
+      await apiKeyService.revokeTenantKeys(tenantId);
+      await tenantSettingsService.deleteTenantSettings(tenantId);
+      await quotaService.deleteUsage(tenantId);
+      await tenantRegistryService.removeTenant(tenantId);
+
+      logger.info('Tenant deleted', { tenantId, documents: deleted });
+    } catch (error) {
+      logger.error('Tenant deletion failed', { tenantId, error: (error as Error).message });
+      try {
+        await tenantRegistryService.setDeletionError(tenantId, (error as Error).message);
+      } catch (recordError) {
+        logger.error('Could not record the failed tenant deletion', {
+          tenantId,
+          error: (recordError as Error).message,
+        });
+      }
+    }
+  }
+}
+
+export const tenantDeletionService = new TenantDeletionService();
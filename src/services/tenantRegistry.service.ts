@@ -0,0 +1,265 @@
+import { redisService } from './redis.service';
+import { config } from '../config';
+import { AppError, ServiceUnavailableError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { RateLimitGroup, RateLimitLimits, TenantPlacement, TenantQuotas, TenantRecord, TenantStatus } from '../types';
+
+const TENANTS_SET_KEY = 'tenants:all';
+const DEDICATED_SET_KEY = 'tenants:dedicated';
+const LOOKUP_RETRY_AFTER_SECONDS = 5;
+
+/**
+ * Registry of tenants, their lifecycle status and where their documents are stored.
+ * Tenants are created explicitly, so a mistyped tenant ID is rejected instead of
+ * silently starting a new, empty tenant.
+ */
+class TenantRegistryService {
+  private getTenantKey(tenantId: string): string {
+    return `tenant:record:${tenantId}`;
+  }
+
+  async createTenant(tenantId: string, options: { name?: string } = {}): Promise<TenantRecord> {
+    if (await this.getTenant(tenantId)) {
+      throw new AppError(409, 'Tenant already exists');
+    }
+
+    const now = new Date().toISOString();
+    const record: TenantRecord = {
+      id: tenantId,
+      ...(options.name && { name: options.name }),
+      status: 'active',
+      placement: 'shared',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const stored =
+      (await redisService.set(this.getTenantKey(tenantId), record)) &&
+      (await redisService.sadd(TENANTS_SET_KEY, tenantId));
+    if (!stored) {
+      throw new AppError(503, 'Unable to store tenant record');
+    }
+
+    logger.info('Tenant created', { tenantId });
+    return record;
+  }
+
+  /**
+   * The tenant's record, or null when there is none. A failed lookup throws 503 rather
+   * than passing for an unknown tenant.
+   */
+  async getTenant(tenantId: string): Promise<TenantRecord | null> {
+    try {
+      return await redisService.read<TenantRecord>(this.getTenantKey(tenantId));
+    } catch (error) {
+      logger.error('Tenant registry lookup failed', { tenantId, error: (error as Error).message });
+      // An open circuit already says when to retry
+      if (error instanceof ServiceUnavailableError) {
+        throw error;
+      }
+      throw new ServiceUnavailableError('Tenant registry is unavailable', LOOKUP_RETRY_AFTER_SECONDS);
+    }
+  }
+
+  async listTenants(): Promise<TenantRecord[]> {
+    const ids = await redisService.smembers(TENANTS_SET_KEY);
+    const records = await Promise.all(ids.map((id) => this.getTenant(id)));
+    return records
+      .filter((record): record is TenantRecord => !!record)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Suspend, reactivate or mark a tenant for deletion
+   */
+  async setStatus(tenantId: string, status: TenantStatus): Promise<TenantRecord> {
+    const existing = await this.requireTenant(tenantId);
+    const now = new Date().toISOString();
+    const record: TenantRecord = { ...existing, status, updatedAt: now };
+    delete record.deletionError;
+    if (status === 'suspended') {
+      record.suspendedAt = existing.suspendedAt || now;
+    } else if (status === 'active') {
+      delete record.suspendedAt;
+    }
+
+    if (!(await redisService.set(this.getTenantKey(tenantId), record))) {
+      throw new AppError(503, 'Unable to store tenant record');
+    }
+
+    logger.info('Tenant status updated', { tenantId, status });
+    return record;
+  }
+
+  /**
+   * Override the tenant's quotas; a null limit removes the override
+   */
+  async setQuotas(
+    tenantId: string,
+    quotas: { [K in keyof TenantQuotas]?: number | null }
+  ): Promise<TenantRecord> {
+    const existing = await this.requireTenant(tenantId);
+    const merged: Partial<TenantQuotas> = { ...existing.quotas };
+    for (const [name, limit] of Object.entries(quotas) as Array<[keyof TenantQuotas, number | null | undefined]>) {
+      if (limit === null) {
+        delete merged[name];
+      } else if (limit !== undefined) {
+        merged[name] = limit;
+      }
+    }
+
+    const record: TenantRecord = { ...existing, quotas: merged, updatedAt: new Date().toISOString() };
+    if (Object.keys(merged).length === 0) {
+      delete record.quotas;
+    }
+
+    if (!(await redisService.set(this.getTenantKey(tenantId), record))) {
+      throw new AppError(503, 'Unable to store tenant record');
+    }
+
+    logger.info('Tenant quotas updated', { tenantId, quotas: merged });
+    return record;
+  }
+
+  /**
+   * Assign the tenant's rate limit tier and override its limits per route group; null
+   * resets the tier to the default or removes an override
+   */
+  async setRateLimits(
+    tenantId: string,
+    changes: { tier?: string | null; limits?: { [K in RateLimitGroup]?: number | null } }
+  ): Promise<TenantRecord> {
+    const existing = await this.requireTenant(tenantId);
+    const rateLimits: RateLimitLimits = { ...existing.rateLimits };
+    for (const [group, limit] of Object.entries(changes.limits || {}) as Array<[RateLimitGroup, number | null | undefined]>) {
+      if (limit === null) {
+        delete rateLimits[group];
+      } else if (limit !== undefined) {
+        rateLimits[group] = limit;
+      }
+    }
+
+    const record: TenantRecord = { ...existing, rateLimits, updatedAt: new Date().toISOString() };
+    if (changes.tier === null) {
+      delete record.tier;
+    } else if (changes.tier !== undefined) {
+      record.tier = changes.tier;
+    }
+    if (Object.keys(rateLimits).length === 0) {
+      delete record.rateLimits;
+    }
+
+    if (!(await redisService.set(this.getTenantKey(tenantId), record))) {
+      throw new AppError(503, 'Unable to store tenant record');
+    }
+
+    logger.info('Tenant rate limits updated', { tenantId, tier: record.tier, rateLimits: record.rateLimits });
+    return record;
+  }
+
+  /**
+   * Remove the tenant's record. Its data must have been purged beforehand.
+   */
+  async removeTenant(tenantId: string): Promise<void> {
+    const removed =
+      (await redisService.del(this.getTenantKey(tenantId))) &&
+      (await redisService.srem(TENANTS_SET_KEY, tenantId)) &&
+      (await redisService.srem(DEDICATED_SET_KEY, tenantId));
+    if (!removed) {
+      throw new AppError(503, 'Unable to remove tenant record');
+    }
+
+    logger.info('Tenant removed', { tenantId });
+  }
+
+  /**
+   * Reject tenants that may not be served: unknown ones (404, unless the registry is not
+   * required) and suspended or deleting ones (403). Fails with 503 when the registry
+   * cannot be read.
+   */
+  async assertActive(tenantId: string): Promise<void> {
+    const tenant = await this.getTenant(tenantId);
+    if (!tenant) {
+      if (config.tenants.registryRequired) {
+        throw new AppError(404, 'Tenant not found');
+      }
+      return;
+    }
+    if (tenant.status !== 'active') {
+      throw new AppError(403, `Tenant is ${tenant.status}`);
+    }
+  }
+
+  async getPlacement(tenantId: string): Promise<TenantPlacement> {
+    return (await this.getTenant(tenantId))?.placement || 'shared';
+  }
+
+  /**
+   * Record where the tenant's documents live. Only the index migration moves documents,
+   * so this is called by it once a move has been verified.
+   */
+  async setPlacement(tenantId: string, placement: TenantPlacement): Promise<TenantRecord> {
+    const existing = await this.requireTenant(tenantId);
+    const record: TenantRecord = { ...existing, placement, updatedAt: new Date().toISOString() };
+
+    const stored =
+      (await redisService.set(this.getTenantKey(tenantId), record)) &&
+      (placement === 'dedicated'
+        ? await redisService.sadd(DEDICATED_SET_KEY, tenantId)
+        : await redisService.srem(DEDICATED_SET_KEY, tenantId));
+    if (!stored) {
+      throw new AppError(503, 'Unable to store tenant record');
+    }
+
+    logger.info('Tenant placement updated', { tenantId, placement });
+    return record;
+  }
+
+  /**
+   * Block or allow the tenant's document writes. Only the index migration blocks them,
+   * while it finishes moving the tenant.
+   */
+  async setWritesBlocked(tenantId: string, blocked: boolean): Promise<TenantRecord> {
+    const existing = await this.requireTenant(tenantId);
+    const record: TenantRecord = { ...existing, updatedAt: new Date().toISOString() };
+    if (blocked) {
+      record.writesBlocked = true;
+    } else {
+      delete record.writesBlocked;
+    }
+
+    if (!(await redisService.set(this.getTenantKey(tenantId), record))) {
+      throw new AppError(503, 'Unable to store tenant record');
+    }
+
+    logger.info(blocked ? 'Tenant writes blocked' : 'Tenant writes unblocked', { tenantId });
+    return record;
+  }
+
+  /**
+   * Record why purging a `deleting` tenant failed, for whoever polls the tenant
+   */
+  async setDeletionError(tenantId: string, error: string): Promise<TenantRecord> {
+    const existing = await this.requireTenant(tenantId);
+    const record: TenantRecord = { ...existing, deletionError: error, updatedAt: new Date().toISOString() };
+
+    if (!(await redisService.set(this.getTenantKey(tenantId), record))) {
+      throw new AppError(503, 'Unable to store tenant record');
+    }
+    return record;
+  }
+
+  async listDedicatedTenants(): Promise<string[]> {
+    return (await redisService.smembers(DEDICATED_SET_KEY)).sort();
+  }
+
+  private async requireTenant(tenantId: string): Promise<TenantRecord> {
+    const tenant = await this.getTenant(tenantId);
+    if (!tenant) {
+      throw new AppError(404, 'Tenant not found');
+    }
+    return tenant;
+  }
+}
+
+export const tenantRegistryService = new TenantRegistryService();
@@ -0,0 +1,109 @@
+import { redisService } from './redis.service';
+import { config } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import { isSupportedLanguage } from '../utils/language';
+import { SynonymIndex, buildSynonymIndex, normalizeSynonymSets } from '../utils/synonyms';
+import logger from '../utils/logger';
+import { LanguageCode, TenantSettings, TenantSynonyms } from '../types';
+
+/**
+ * Per-tenant search settings and synonym dictionaries, stored in Redis.
+ * Tenants without stored settings fall back to the service-wide defaults.
+ */
+class TenantSettingsService {
+  // Indexed dictionaries by tenant, with the version they were built from
+  private synonymIndices = new Map<string, { updatedAt?: string; index: SynonymIndex }>();
+
+  private getSettingsKey(tenantId: string): string {
+    return `tenant:settings:${tenantId}`;
+  }
+
+  private getSynonymsKey(tenantId: string): string {
+    return `tenant:synonyms:${tenantId}`;
+  }
+
+  async getSettings(tenantId: string): Promise<TenantSettings> {
+    return (await redisService.get<TenantSettings>(this.getSettingsKey(tenantId))) || {};
+  }
+
+  /**
+   * Merge changes into the stored settings. A null value resets that setting to the default.
+   */
+  async updateSettings(tenantId: string, changes: { defaultLanguage?: LanguageCode | null }): Promise<TenantSettings> {
+    const settings: TenantSettings = { ...(await this.getSettings(tenantId)) };
+
+    if (changes.defaultLanguage === null) {
+      delete settings.defaultLanguage;
+    } else if (changes.defaultLanguage !== undefined) {
+      settings.defaultLanguage = changes.defaultLanguage;
+    }
+    settings.updatedAt = new Date().toISOString();
+
+    if (!(await redisService.set(this.getSettingsKey(tenantId), settings))) {
+      throw new AppError(503, 'Unable to store tenant settings');
+    }
+
+    logger.info('Tenant settings updated', { tenantId, defaultLanguage: settings.defaultLanguage });
+    return settings;
+  }
+
+  async getSynonyms(tenantId: string): Promise<TenantSynonyms> {
+    return (await redisService.get<TenantSynonyms>(this.getSynonymsKey(tenantId))) || { synonyms: [] };
+  }
+
+  /**
+   * The tenant's synonyms indexed for query expansion. The index is only rebuilt when the
+   * stored dictionary changed, so searches do not pay for the dictionary's size.
+   */
+  async getSynonymIndex(tenantId: string): Promise<SynonymIndex> {
+    const { synonyms, updatedAt } = await this.getSynonyms(tenantId);
+    const cached = this.synonymIndices.get(tenantId);
+    if (cached && cached.updatedAt === updatedAt) {
+      return cached.index;
+    }
+
+    const index = buildSynonymIndex(synonyms);
+    this.synonymIndices.set(tenantId, { updatedAt, index });
+    return index;
+  }
+
+  /**
+   * Replace the tenant's synonym dictionary
+   */
+  async setSynonyms(tenantId: string, synonyms: string[][]): Promise<TenantSynonyms> {
+    const record: TenantSynonyms = {
+      synonyms: normalizeSynonymSets(synonyms),
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (!(await redisService.set(this.getSynonymsKey(tenantId), record))) {
+      throw new AppError(503, 'Unable to store synonyms');
+    }
+
+    this.synonymIndices.set(tenantId, { updatedAt: record.updatedAt, index: buildSynonymIndex(record.synonyms) });
+    logger.info('Tenant synonyms updated', { tenantId, sets: record.synonyms.length });
+    return record;
+  }
+
+  /**
+   * Remove the tenant's settings and synonyms
+   */
+  async deleteTenantSettings(tenantId: string): Promise<void> {
+    await redisService.del(this.getSettingsKey(tenantId));
+    await redisService.del(this.getSynonymsKey(tenantId));
+    this.synonymIndices.delete(tenantId);
+  }
+
+  /**
+   * Language for documents and queries of the tenant that do not name one
+   */
+  async getDefaultLanguage(tenantId: string): Promise<LanguageCode | undefined> {
+    const { defaultLanguage } = await this.getSettings(tenantId);
+    if (defaultLanguage) {
+      return defaultLanguage;
+    }
+    return isSupportedLanguage(config.search.defaultLanguage) ? config.search.defaultLanguage : undefined;
+  }
+}
+
+export const tenantSettingsService = new TenantSettingsService();
@@ -1,3 +1,14 @@
+export interface DocumentAcl {
+  users?: string[];
+  groups?: string[];
+  departments?: string[];
+}
+
+/**
+ * ISO 639-1 code of a language with its own analyzed fields
+ */
+export type LanguageCode = 'en' | 'de' | 'fr' | 'es' | 'it' | 'pt' | 'nl';
+
 export interface Document {
   id?: string;
   tenantId: string;
@@ -10,8 +21,11 @@ export interface Document {
     department?: string;
     [key: string]: any;
   };
+  acl?: DocumentAcl;
+  language?: LanguageCode;
   createdAt?: string;
   updatedAt?: string;
+  version?: string;
 }
 
 export interface DocumentIndex {
@@ -26,20 +40,127 @@ export interface DocumentIndex {
     department?: string;
     [key: string]: any;
   };
+  acl?: DocumentAcl;
+  language?: LanguageCode;
+  // UTF-8 size of `content`, summed for quota reconciliation
+  size_bytes?: number;
+  // Title/content copies analyzed for `language`, e.g. title_en
+  [languageField: `title_${string}` | `content_${string}`]: string | undefined;
   created_at: string;
   updated_at: string;
 }
 
+export type DocumentChanges = Partial<Pick<Document, 'title' | 'content' | 'tags' | 'metadata' | 'acl' | 'language'>>;
+
+/**
+ * End-user identity that document ACLs are evaluated against
+ */
+export interface AccessPrincipal {
+  userId?: string;
+  groups: string[];
+  departments: string[];
+}
+
+export type BulkOperation =
+  | { action: 'create'; document: Document }
+  | { action: 'update'; id: string; changes: DocumentChanges }
+  | { action: 'delete'; id: string };
+
+export interface BulkItemResult {
+  position: number;
+  action: BulkOperation['action'];
+  id?: string;
+  status: number;
+  result?: string;
+  error?: string;
+}
+
+export interface BulkResponse {
+  tenantId: string;
+  errors: boolean;
+  items: BulkItemResult[];
+}
+
+export type IngestJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface IngestJob {
+  id: string;
+  tenantId: string;
+  status: IngestJobStatus;
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  errors: BulkItemResult[];
+  errorsTruncated?: boolean;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface Preconditions {
+  ifMatch?: string[];
+  ifNoneMatch?: string[];
+}
+
+export type FacetField = 'tags' | 'metadata.author' | 'metadata.type' | 'metadata.department' | 'created_at';
+
+export type FacetInterval = 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type SearchFilterField = 'tag' | 'author' | 'type' | 'department';
+
+export type SearchSortField = '_score' | 'created_at' | 'updated_at' | 'title.keyword';
+
+export interface SearchSort {
+  field: SearchSortField;
+  order: 'asc' | 'desc';
+}
+
 export interface SearchQuery {
   q: string;
+  // `advanced` parses `q` as a field/boolean query instead of free text
+  syntax?: 'simple' | 'advanced';
   offset?: number;
   limit?: number;
-  tag?: string;
-  author?: string;
+  tag?: string[];
+  // Whether documents need any (default) or all of the requested tags
+  tagMode?: 'any' | 'all';
+  author?: string[];
+  type?: string[];
+  department?: string[];
+  // Values a document must not have (`-tag=draft`)
+  exclude?: Partial<Record<SearchFilterField, string[]>>;
   from?: string;
   to?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  // Re-run a zero-hit query with its best spelling correction
+  autocorrect?: boolean;
+  // Language of the query text; the tenant's default language when omitted
+  language?: LanguageCode;
+  // Result order, most significant key first; relevance when omitted
+  sort?: SearchSort[];
+  facets?: FacetField[];
+  // Bucket size of the created_at date histogram facet
+  interval?: FacetInterval;
 }
 
+/**
+ * Position in a point-in-time search, for search_after pagination
+ */
+export interface SearchPage {
+  pitId?: string;
+  searchAfter?: Array<string | number>;
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export type SearchFacets = Partial<Record<FacetField, FacetBucket[]>>;
+
 export interface SearchResult {
   id: string;
   title: string;
@@ -55,18 +176,176 @@ export interface SearchResponse {
   limit: number;
   total: number;
   results: SearchResult[];
+  facets?: SearchFacets;
+  // "Did you mean" corrections of `query`, best first, when it had few or no hits
+  suggestions?: string[];
+  // Set when `results` are for this corrected query instead of `query` (autocorrect)
+  correctedQuery?: string;
+  // Opaque cursor for the next page, when paginating with cursors
+  nextCursor?: string;
 }
 
+export interface SuggestResponse {
+  tenantId: string;
+  prefix: string;
+  titles: Array<{ id: string; title: string }>;
+  tags: FacetBucket[];
+}
+
+// Circuit breaker of a dependency; see utils/resilience
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
 export interface HealthStatus {
   status: 'UP' | 'DOWN' | 'DEGRADED';
   dependencies: {
     elasticsearch: 'UP' | 'DOWN';
     redis: 'UP' | 'DOWN';
   };
+  circuitBreakers: {
+    elasticsearch: CircuitState;
+    redis: CircuitState;
+  };
+}
+
+export interface IndexMigration {
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  // Alias being migrated: the shared alias, or a tenant's dedicated alias
+  alias: string;
+  // Set for dedicated indices and for tenant moves
+  tenantId?: string;
+  // Set for tenant moves: the placement the tenant is moved to
+  placement?: TenantPlacement;
+  // Index (or alias) the documents are copied from; absent when there was none yet
+  source?: string;
+  target: string;
+  startedAt?: string;
+  completedAt?: string;
+  // Document counts per tenant in the source and target index
+  tenants?: Record<string, { source: number; target: number }>;
+  error?: string;
+}
+
+export interface IndexAliasStatus {
+  alias: string;
+  // Physical indices behind the alias (or the alias name itself for a legacy unversioned index)
+  indices: string[];
+  currentVersion: number | null;
+  upToDate: boolean;
+}
+
+export interface IndexStatus extends IndexAliasStatus {
+  targetVersion: number;
+  // Dedicated tenant indices; `upToDate` above covers them as well
+  dedicated: (IndexAliasStatus & { tenantId: string })[];
+  // Operations of the last migration or tenant move started by this instance
+  migrations?: IndexMigration[];
+}
+
+export type ApiKeyScope = 'read' | 'write' | 'admin';
+
+export interface ApiKey {
+  id: string;
+  tenantId: string;
+  name?: string;
+  scopes: ApiKeyScope[];
+  keyHash: string;
+  createdAt: string;
+  rotatedAt?: string;
+}
+
+export type ApiKeyInfo = Omit<ApiKey, 'keyHash'>;
+
+export type TenantPlacement = 'shared' | 'dedicated';
+
+// Only active tenants are served; `deleting` marks a deletion that has not finished purging
+export type TenantStatus = 'active' | 'suspended' | 'deleting';
+
+export interface TenantRecord {
+  id: string;
+  name?: string;
+  status: TenantStatus;
+  // Whether the tenant's documents live in the shared index or an index of their own
+  placement: TenantPlacement;
+  createdAt: string;
+  updatedAt: string;
+  suspendedAt?: string;
+  // Overrides of the service-wide quota defaults
+  quotas?: Partial<TenantQuotas>;
+  // Rate limit tier; the configured default tier when unset
+  tier?: string;
+  // Requests per window by route group, replacing the tier's limits
+  rateLimits?: RateLimitLimits;
+  // Set while a move between indices finishes; the tenant's writes fail with 503 meanwhile
+  writesBlocked?: boolean;
+  // Why the last purge of a `deleting` tenant failed; cleared when it is retried
+  deletionError?: string;
+}
+
+// Route groups limited by separate buckets
+export type RateLimitGroup = 'search' | 'write' | 'read';
+
+export type RateLimitLimits = Partial<Record<RateLimitGroup, number>>;
+
+export interface RateLimitPolicy {
+  // Reported in X-RateLimit-Policy, e.g. `standard:search` or `tenant:write` for an override
+  name: string;
+  group: RateLimitGroup;
+  // Sustained rate: maxRequests per windowMs
+  maxRequests: number;
+  windowMs: number;
+  // Requests that may arrive at once (token bucket capacity)
+  burst: number;
+}
+
+// Limits on a tenant's data; 0 means unlimited
+export interface TenantQuotas {
+  maxDocuments: number;
+  // Total UTF-8 size of all documents' content
+  maxContentBytes: number;
+  // UTF-8 size of a single document's content
+  maxDocumentBytes: number;
+}
+
+export interface TenantUsage {
+  tenantId: string;
+  documents: number;
+  contentBytes: number;
+  limits: TenantQuotas;
+  // When the counters were last corrected from OpenSearch
+  reconciledAt?: string;
+}
+
+export interface TenantSynonyms {
+  // Each set lists terms that are searched as equivalents
+  synonyms: string[][];
+  updatedAt?: string;
+}
+
+export interface TenantSettings {
+  // Applied to documents and queries that do not name a language
+  defaultLanguage?: LanguageCode;
+  updatedAt?: string;
+}
+
+export interface JwtPrincipal {
+  tenantId: string;
+  userId: string;
+  roles: string[];
+  groups: string[];
+  department?: string;
+  scopes?: ApiKeyScope[];
+  claims: Record<string, any>;
 }
 
 export interface RequestContext {
   tenantId: string;
+  apiKeyId?: string;
+  userId?: string;
+  roles?: string[];
+  groups?: string[];
+  department?: string;
+  // Undefined for legacy X-Tenant-Id requests (and tokens without a scope claim), which are not scope-restricted
+  scopes?: ApiKeyScope[];
   [key: string]: any;
 }
 
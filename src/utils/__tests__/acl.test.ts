@@ -0,0 +1,65 @@
+import { getAccessPrincipal, isRestricted, canAccess, buildAclFilter, getPrincipalCacheKey } from '../acl';
+
+describe('ACL Utils', () => {
+  describe('getAccessPrincipal', () => {
+    it('should be unrestricted for callers without a user identity', () => {
+      expect(getAccessPrincipal(undefined)).toBeUndefined();
+      expect(getAccessPrincipal({ tenantId: 'tenant-1', apiKeyId: 'key-1' })).toBeUndefined();
+    });
+
+    it('should combine roles and groups and read the department', () => {
+      const principal = getAccessPrincipal({
+        tenantId: 'tenant-1',
+        userId: 'alice',
+        roles: ['editor'],
+        groups: ['legal', 'editor'],
+        department: 'finance',
+      });
+
+      expect(principal).toEqual({ userId: 'alice', groups: ['editor', 'legal'], departments: ['finance'] });
+    });
+  });
+
+  describe('canAccess', () => {
+    const principal = { userId: 'alice', groups: ['legal'], departments: ['finance'] };
+
+    it('should allow documents without ACL entries', () => {
+      expect(isRestricted(undefined)).toBe(false);
+      expect(isRestricted({ users: [] })).toBe(false);
+      expect(canAccess({ users: [] }, principal)).toBe(true);
+    });
+
+    it('should allow unrestricted principals', () => {
+      expect(canAccess({ users: ['bob'] }, undefined)).toBe(true);
+    });
+
+    it('should match users, groups or departments', () => {
+      expect(canAccess({ users: ['alice'] }, principal)).toBe(true);
+      expect(canAccess({ groups: ['legal'] }, principal)).toBe(true);
+      expect(canAccess({ departments: ['finance'] }, principal)).toBe(true);
+      expect(canAccess({ users: ['bob'], groups: ['hr'] }, principal)).toBe(false);
+    });
+  });
+
+  describe('buildAclFilter', () => {
+    it('should match unrestricted documents or any granted principal', () => {
+      const filter = buildAclFilter({ userId: 'alice', groups: ['legal'], departments: [] });
+
+      expect(filter.bool.minimum_should_match).toBe(1);
+      expect(filter.bool.should).toHaveLength(3);
+      expect(filter.bool.should).toContainEqual({ term: { 'acl.users': 'alice' } });
+      expect(filter.bool.should).toContainEqual({ terms: { 'acl.groups': ['legal'] } });
+    });
+  });
+
+  describe('getPrincipalCacheKey', () => {
+    it('should partition by principal', () => {
+      const alice = { userId: 'alice', groups: [], departments: [] };
+      const bob = { userId: 'bob', groups: [], departments: [] };
+
+      expect(getPrincipalCacheKey(undefined)).toBe('all');
+      expect(getPrincipalCacheKey(alice)).toBe(getPrincipalCacheKey({ ...alice }));
+      expect(getPrincipalCacheKey(alice)).not.toBe(getPrincipalCacheKey(bob));
+    });
+  });
+});
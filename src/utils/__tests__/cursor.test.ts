@@ -0,0 +1,33 @@
+import { encodeCursor, decodeCursor, SearchCursor } from '../cursor';
+
+describe('Cursor Utils', () => {
+  const cursor: SearchCursor = {
+    tenantId: 'tenant-1',
+    principal: 'all',
+    query: { q: 'payment', limit: 10 },
+    pitId: 'pit-1',
+    searchAfter: [1.5, 'doc-1'],
+    seen: 10,
+  };
+
+  it('should round-trip a signed cursor', () => {
+    const token = encodeCursor(cursor);
+
+    expect(decodeCursor(token, 'tenant-1', 'all')).toEqual(cursor);
+  });
+
+  it('should reject cursors of another tenant or principal', () => {
+    const token = encodeCursor(cursor);
+
+    expect(() => decodeCursor(token, 'tenant-2', 'all')).toThrow('Invalid cursor');
+    expect(() => decodeCursor(token, 'tenant-1', 'abc123')).toThrow('Invalid cursor');
+  });
+
+  it('should reject tampered cursors', () => {
+    const [, signature] = encodeCursor(cursor).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...cursor, tenantId: 'tenant-2' })).toString('base64url');
+
+    expect(() => decodeCursor(`${forged}.${signature}`, 'tenant-2', 'all')).toThrow('Invalid cursor');
+    expect(() => decodeCursor('garbage', 'tenant-1', 'all')).toThrow('Invalid cursor');
+  });
+});
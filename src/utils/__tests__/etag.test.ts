@@ -0,0 +1,73 @@
+import {
+  formatVersion,
+  parseVersion,
+  toETag,
+  parseETagList,
+  parsePreconditions,
+  hasPreconditions,
+  matchesVersion,
+} from '../etag';
+
+describe('ETag Utils', () => {
+  describe('formatVersion / parseVersion', () => {
+    it('should round-trip sequence number and primary term', () => {
+      const version = formatVersion(12, 3);
+
+      expect(version).toBe('12-3');
+      expect(parseVersion(version as string)).toEqual({ seqNo: 12, primaryTerm: 3 });
+    });
+
+    it('should return undefined when version info is missing', () => {
+      expect(formatVersion(undefined, 1)).toBeUndefined();
+      expect(formatVersion(1, undefined)).toBeUndefined();
+    });
+
+    it('should return null for malformed versions', () => {
+      expect(parseVersion('abc')).toBeNull();
+      expect(parseVersion('1-')).toBeNull();
+    });
+  });
+
+  describe('toETag', () => {
+    it('should quote the version', () => {
+      expect(toETag('1-1')).toBe('"1-1"');
+    });
+  });
+
+  describe('parseETagList', () => {
+    it('should return undefined for missing header', () => {
+      expect(parseETagList(undefined)).toBeUndefined();
+    });
+
+    it('should parse quoted, weak and wildcard tags', () => {
+      expect(parseETagList('"1-1", W/"2-1"')).toEqual(['1-1', '2-1']);
+      expect(parseETagList('*')).toEqual(['*']);
+    });
+  });
+
+  describe('parsePreconditions', () => {
+    it('should read If-Match and If-None-Match headers', () => {
+      const preconditions = parsePreconditions({ 'if-match': '"1-1"', 'if-none-match': '*' });
+
+      expect(preconditions).toEqual({ ifMatch: ['1-1'], ifNoneMatch: ['*'] });
+      expect(hasPreconditions(preconditions)).toBe(true);
+    });
+
+    it('should report no preconditions when headers are absent', () => {
+      expect(hasPreconditions(parsePreconditions({}))).toBe(false);
+      expect(hasPreconditions(undefined)).toBe(false);
+    });
+  });
+
+  describe('matchesVersion', () => {
+    it('should match wildcard only when the document exists', () => {
+      expect(matchesVersion(['*'], '1-1', true)).toBe(true);
+      expect(matchesVersion(['*'], undefined, false)).toBe(false);
+    });
+
+    it('should match listed versions', () => {
+      expect(matchesVersion(['1-1', '2-1'], '2-1', true)).toBe(true);
+      expect(matchesVersion(['1-1'], '2-1', true)).toBe(false);
+    });
+  });
+});
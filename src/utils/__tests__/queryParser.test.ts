@@ -0,0 +1,157 @@
+import { parseAdvancedQuery } from '../queryParser';
+import { AppError } from '../../middleware/errorHandler';
+
+function parseErrorOf(input: string): AppError {
+  try {
+    parseAdvancedQuery(input);
+  } catch (error) {
+    return error as AppError;
+  }
+  throw new Error(`Expected '${input}' to fail`);
+}
+
+describe('Advanced Query Parser', () => {
+  describe('terms and fields', () => {
+    it('should search default fields for bare terms', () => {
+      expect(parseAdvancedQuery('payment')).toEqual({
+        multi_match: { query: 'payment', fields: ['title^3', 'content', 'tags^2'], type: 'best_fields' },
+      });
+    });
+
+    it('should map field prefixes to indexed fields', () => {
+      expect(parseAdvancedQuery('title:payment')).toEqual({ match: { title: { query: 'payment' } } });
+      expect(parseAdvancedQuery('author:bob')).toEqual({ term: { 'metadata.author': 'bob' } });
+      expect(parseAdvancedQuery('tags:errors')).toEqual({ term: { tags: 'errors' } });
+    });
+
+    it('should translate phrases per field type', () => {
+      expect(parseAdvancedQuery('title:"payment gateway"')).toEqual({
+        match_phrase: { title: 'payment gateway' },
+      });
+      expect(parseAdvancedQuery('"payment gateway"')).toEqual({
+        multi_match: { query: 'payment gateway', fields: ['title^3', 'content'], type: 'phrase' },
+      });
+    });
+
+    it('should translate wildcards, keeping escaped characters literal', () => {
+      expect(parseAdvancedQuery('tags:pay*')).toEqual({
+        wildcard: { tags: { value: 'pay*', case_insensitive: true } },
+      });
+      expect(parseAdvancedQuery('title:why\\?')).toEqual({ match: { title: { query: 'why?' } } });
+    });
+
+    it('should accept epoch millis and date math as date bounds', () => {
+      expect(parseAdvancedQuery('updated_at:[now-7d/d TO 1735603200000]')).toEqual({
+        range: { updated_at: { gte: 'now-7d/d', lte: '1735603200000' } },
+      });
+    });
+
+    it('should translate inclusive, exclusive and open ranges', () => {
+      expect(parseAdvancedQuery('created_at:[2024-01-01 TO 2024-12-31}')).toEqual({
+        range: { created_at: { gte: '2024-01-01', lt: '2024-12-31' } },
+      });
+      expect(parseAdvancedQuery('updated_at:{2024-06-01 TO *]')).toEqual({
+        range: { updated_at: { gt: '2024-06-01' } },
+      });
+    });
+  });
+
+  describe('boolean operators', () => {
+    it('should combine AND, OR and NOT', () => {
+      expect(parseAdvancedQuery('title:"payment gateway" AND tags:errors NOT author:bob')).toEqual({
+        bool: {
+          must: [{ match_phrase: { title: 'payment gateway' } }, { term: { tags: 'errors' } }],
+          must_not: [{ term: { 'metadata.author': 'bob' } }],
+        },
+      });
+    });
+
+    it('should give AND precedence over OR and honour grouping', () => {
+      const tagA = { term: { tags: 'a' } };
+      const tagB = { term: { tags: 'b' } };
+      const tagC = { term: { tags: 'c' } };
+
+      expect(parseAdvancedQuery('tags:a OR tags:b tags:c')).toEqual({
+        bool: { should: [tagA, { bool: { must: [tagB, tagC] } }], minimum_should_match: 1 },
+      });
+      expect(parseAdvancedQuery('(tags:a || tags:b) && tags:c')).toEqual({
+        bool: { must: [{ bool: { should: [tagA, tagB], minimum_should_match: 1 } }, tagC] },
+      });
+    });
+
+    it('should apply a field to a group of values', () => {
+      expect(parseAdvancedQuery('tags:(a OR -b)')).toEqual({
+        bool: {
+          should: [{ term: { tags: 'a' } }, { bool: { must_not: [{ term: { tags: 'b' } }] } }],
+          minimum_should_match: 1,
+        },
+      });
+    });
+  });
+
+  describe('query language', () => {
+    it('should add the language fields to unfielded terms and phrases', () => {
+      expect(parseAdvancedQuery('timeouts', 'en')).toEqual({
+        multi_match: {
+          query: 'timeouts',
+          fields: ['title^3', 'content', 'tags^2', 'title_en^3', 'content_en'],
+          type: 'best_fields',
+        },
+      });
+      expect(parseAdvancedQuery('"time outs"', 'en')).toEqual({
+        multi_match: {
+          query: 'time outs',
+          fields: ['title^3', 'content', 'title_en^3', 'content_en'],
+          type: 'phrase',
+        },
+      });
+    });
+
+    it('should match text fields together with their language variant', () => {
+      expect(parseAdvancedQuery('title:fehler author:jane', 'de')).toEqual({
+        bool: {
+          must: [
+            { multi_match: { query: 'fehler', fields: ['title', 'title_de'], type: 'best_fields' } },
+            { term: { 'metadata.author': 'jane' } },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('errors', () => {
+    it.each([
+      ['title:"payment', 'unterminated phrase at position 6'],
+      ['(tags:a OR tags:b', "expected ')' at position 17"],
+      ['tags:a)', "unexpected ')' at position 6"],
+      ['secret:x', "unknown field 'secret' at position 0"],
+      ['title:*pay', 'leading wildcards are not allowed at position 6'],
+      ['created_at:2024', "field 'created_at' only supports ranges at position 11"],
+      ['title:[a TO b]', "field 'title' does not support ranges at position 6"],
+      ['tags:[a b]', "range must have the form '[from TO to]' at position 5"],
+      ['created_at:[foo TO 2024-12-31]', "invalid date 'foo' at position 12"],
+      ['created_at:[2024-01-01 TO  bar}', "invalid date 'bar' at position 27"],
+      ['created_at:[2024-13-01 TO *]', "invalid date '2024-13-01' at position 12"],
+      ['tags:a AND', 'unexpected end of query at position 10'],
+    ])('should reject %s', (input, message) => {
+      const error = parseErrorOf(input);
+
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toBe(`Invalid query: ${message}`);
+    });
+
+    it('should limit nesting depth', () => {
+      const error = parseErrorOf(`${'('.repeat(20)}a${')'.repeat(20)}`);
+
+      expect(error.message).toContain('nesting deeper than');
+    });
+
+    it('should count chained operators against the nesting depth', () => {
+      const error = parseErrorOf(`${'!'.repeat(20000)}tags:a`);
+
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toBe('Invalid query: nesting deeper than 16 levels at position 16');
+    });
+  });
+});
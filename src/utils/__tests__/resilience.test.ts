@@ -0,0 +1,223 @@
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  DependencyTimeoutError,
+  ResilienceOptions,
+  ResiliencePolicy,
+  getBackoffDelay,
+  withTimeout,
+} from '../resilience';
+
+jest.mock('../logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+describe('Resilience Utils', () => {
+  let options: ResilienceOptions;
+
+  const failing = () => Promise.reject(new Error('Connection refused'));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(0);
+    options = {
+      timeoutMs: 1000,
+      retries: 2,
+      retryBaseDelayMs: 100,
+      retryMaxDelayMs: 300,
+      failureThreshold: 3,
+      resetTimeoutMs: 10000,
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should pick a random delay up to the capped exponential bound', () => {
+      expect(getBackoffDelay(0, 100, 300, () => 0.5)).toBe(50);
+      expect(getBackoffDelay(1, 100, 300, () => 0.999)).toBe(199);
+      expect(getBackoffDelay(5, 100, 300, () => 0.999)).toBe(299);
+      expect(getBackoffDelay(5, 100, 300, () => 0)).toBe(0);
+    });
+  });
+
+  describe('withTimeout', () => {
+    it('should reject when the request does not settle in time', async () => {
+      const result = withTimeout(() => new Promise(() => undefined), 1000, () => new Error('too slow'));
+
+      jest.advanceTimersByTime(1000);
+
+      await expect(result).rejects.toThrow('too slow');
+    });
+
+    it('should pass through the result and not time out without a limit', async () => {
+      await expect(withTimeout(async () => 'ok', 1000, () => new Error('too slow'))).resolves.toBe('ok');
+      await expect(withTimeout(async () => 'ok', 0, () => new Error('too slow'))).resolves.toBe('ok');
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe('CircuitBreaker', () => {
+    let onStateChange: jest.Mock;
+    let breaker: CircuitBreaker;
+
+    beforeEach(() => {
+      onStateChange = jest.fn();
+      breaker = new CircuitBreaker('opensearch', () => options, onStateChange);
+    });
+
+    const trip = async () => {
+      for (let i = 0; i < options.failureThreshold; i++) {
+        await expect(breaker.execute(failing)).rejects.toThrow('Connection refused');
+      }
+    };
+
+    it('should open after consecutive failures and reject calls right away', async () => {
+      await trip();
+
+      expect(breaker.getState()).toBe('open');
+      expect(onStateChange).toHaveBeenCalledWith('open');
+
+      const request = jest.fn();
+      jest.setSystemTime(2500);
+      await expect(breaker.execute(request)).rejects.toMatchObject({
+        statusCode: 503,
+        retryAfterSeconds: 8,
+      });
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should reset the failure count on success', async () => {
+      await expect(breaker.execute(failing)).rejects.toThrow();
+      await expect(breaker.execute(failing)).rejects.toThrow();
+      await breaker.execute(async () => 'ok');
+      await expect(breaker.execute(failing)).rejects.toThrow();
+
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should not count errors that are not failures', async () => {
+      const notFound = Object.assign(new Error('Not Found'), { statusCode: 404 });
+      for (let i = 0; i < 5; i++) {
+        await expect(breaker.execute(() => Promise.reject(notFound), () => false)).rejects.toBe(notFound);
+      }
+
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should let one probe through after the reset timeout and close when it succeeds', async () => {
+      await trip();
+      jest.setSystemTime(10000);
+
+      let finishProbe: (value: string) => void = () => undefined;
+      const probe = breaker.execute(() => new Promise<string>((resolve) => (finishProbe = resolve)));
+
+      expect(breaker.getState()).toBe('half_open');
+      await expect(breaker.execute(async () => 'other')).rejects.toBeInstanceOf(CircuitOpenError);
+
+      finishProbe('ok');
+      await expect(probe).resolves.toBe('ok');
+      expect(breaker.getState()).toBe('closed');
+      expect(onStateChange.mock.calls.map(([state]) => state)).toEqual(['open', 'half_open', 'closed']);
+    });
+
+    it('should open again when the probe fails', async () => {
+      await trip();
+      jest.setSystemTime(10000);
+
+      await expect(breaker.execute(failing)).rejects.toThrow('Connection refused');
+
+      expect(breaker.getState()).toBe('open');
+      await expect(breaker.execute(async () => 'ok')).rejects.toMatchObject({ retryAfterSeconds: 10 });
+    });
+  });
+
+  describe('ResiliencePolicy', () => {
+    const run = async <T>(promise: Promise<T>): Promise<T> => {
+      // Let the retry delays elapse
+      const settled = promise.then(
+        (value) => ({ value }),
+        (error) => ({ error })
+      );
+      await jest.runAllTimersAsync();
+      const outcome: any = await settled;
+      if ('error' in outcome) throw outcome.error;
+      return outcome.value;
+    };
+
+    it('should retry idempotent calls with backoff', async () => {
+      const onRetry = jest.fn();
+      const policy = new ResiliencePolicy('redis', () => options, { onRetry });
+      const request = jest.fn().mockRejectedValueOnce(new Error('Connection reset')).mockResolvedValue('ok');
+
+      await expect(run(policy.execute('get', request, { idempotent: true }))).resolves.toBe('ok');
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith('get');
+    });
+
+    it('should give up after the configured retries', async () => {
+      const policy = new ResiliencePolicy('redis', () => options);
+      const request = jest.fn(failing);
+
+      await expect(run(policy.execute('get', request, { idempotent: true }))).rejects.toThrow('Connection refused');
+
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry calls that are not idempotent', async () => {
+      const policy = new ResiliencePolicy('redis', () => options);
+      const request = jest.fn(failing);
+
+      await expect(run(policy.execute('incrby', request))).rejects.toThrow('Connection refused');
+
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry errors that are not failures', async () => {
+      const policy = new ResiliencePolicy('opensearch', () => options, { isFailure: () => false });
+      const request = jest.fn(failing);
+
+      await expect(run(policy.execute('get', request, { idempotent: true }))).rejects.toThrow();
+
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out attempts with 504 and count them as failures', async () => {
+      options.retries = 0;
+      const policy = new ResiliencePolicy('opensearch', () => options);
+
+      const result = policy.execute('search', () => new Promise(() => undefined), { idempotent: true });
+      jest.advanceTimersByTime(1000);
+
+      await expect(result).rejects.toBeInstanceOf(DependencyTimeoutError);
+      await expect(result).rejects.toMatchObject({
+        statusCode: 504,
+        message: 'opensearch did not respond to search within 1000ms',
+      });
+    });
+
+    it('should stop retrying once the circuit opens', async () => {
+      const onReject = jest.fn();
+      const onStateChange = jest.fn();
+      options.failureThreshold = 2;
+      const policy = new ResiliencePolicy('opensearch', () => options, { onReject, onStateChange });
+      const request = jest.fn(failing);
+
+      await expect(run(policy.execute('search', request, { idempotent: true }))).rejects.toBeInstanceOf(
+        CircuitOpenError
+      );
+
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(policy.getState()).toBe('open');
+      expect(onStateChange).toHaveBeenCalledWith('open');
+      expect(onReject).toHaveBeenCalledWith('search');
+    });
+  });
+});
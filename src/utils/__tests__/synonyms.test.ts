@@ -0,0 +1,71 @@
+import {
+  buildSynonymIndex,
+  expandSynonyms,
+  normalizeSynonymSets,
+  MAX_SYNONYM_EXPANSIONS,
+  MAX_SYNONYM_SETS,
+  MAX_SYNONYM_SET_SIZE,
+} from '../synonyms';
+
+describe('Synonym Utils', () => {
+  describe('normalizeSynonymSets', () => {
+    it('should lowercase, collapse whitespace and deduplicate terms', () => {
+      expect(normalizeSynonymSets([[' Outage ', 'INCIDENT', 'outage', 'Service   Disruption']])).toEqual([
+        ['outage', 'incident', 'service disruption'],
+      ]);
+    });
+
+    it('should drop sets with fewer than two distinct terms', () => {
+      expect(normalizeSynonymSets([['k8s', 'K8S'], ['a', 'b']])).toEqual([['a', 'b']]);
+    });
+  });
+
+  describe('expandSynonyms', () => {
+    const sets = buildSynonymIndex([
+      ['outage', 'incident', 'service disruption'],
+      ['k8s', 'kubernetes'],
+      ['e-mail', 'electronic mail'],
+    ]);
+
+    it('should return the other terms of every set mentioned in the text', () => {
+      expect(expandSynonyms('Outage in k8s', sets)).toEqual(['incident', 'service disruption', 'kubernetes']);
+    });
+
+    it('should match multi-word terms and skip terms already present', () => {
+      expect(expandSynonyms('service disruption incident', sets)).toEqual(['outage']);
+    });
+
+    it('should only match whole words', () => {
+      expect(expandSynonyms('outages', sets)).toEqual([]);
+      expect(expandSynonyms('k8sx', sets)).toEqual([]);
+    });
+
+    it('should ignore punctuation between the words of a term', () => {
+      expect(expandSynonyms('E Mail setup', sets)).toEqual(['electronic mail']);
+      expect(expandSynonyms('service-disruption!', sets)).toEqual(['outage', 'incident']);
+    });
+
+    it('should cap the number of alternatives', () => {
+      const large = buildSynonymIndex([Array.from({ length: 50 }, (_, i) => `term${i}`)]);
+
+      expect(expandSynonyms('term0', large)).toHaveLength(MAX_SYNONYM_EXPANSIONS);
+    });
+
+    it('should expand queries quickly against a dictionary of the maximum size', () => {
+      const index = buildSynonymIndex(
+        Array.from({ length: MAX_SYNONYM_SETS }, (_, set) =>
+          Array.from({ length: MAX_SYNONYM_SET_SIZE }, (_, term) => `word${set} phrase ${term}`)
+        )
+      );
+      const query = Array.from({ length: 2000 }, (_, i) => `word${i % MAX_SYNONYM_SETS} phrase`).join(' ');
+
+      const startedAt = Date.now();
+      for (let i = 0; i < 10; i++) {
+        expandSynonyms(query, index);
+      }
+
+      expect(Date.now() - startedAt).toBeLessThan(500);
+      expect(expandSynonyms('word7 phrase 3', index)).toHaveLength(MAX_SYNONYM_SET_SIZE - 1);
+    });
+  });
+});
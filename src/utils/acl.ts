@@ -0,0 +1,79 @@
+import { hashString } from './hash';
+import { AccessPrincipal, DocumentAcl, RequestContext } from '../types';
+
+/**
+ * Derive the ACL principal from the request context.
+ * Only end-user identities (JWT callers, which always carry a subject) are ACL-restricted;
+ * API keys and legacy header callers act for the whole tenant and get undefined (unrestricted).
+ */
+export function getAccessPrincipal(context?: RequestContext): AccessPrincipal | undefined {
+  if (!context?.userId) {
+    return undefined;
+  }
+
+  return {
+    userId: context.userId,
+    groups: Array.from(new Set([...(context.roles || []), ...(context.groups || [])])).sort(),
+    departments: context.department ? [context.department] : [],
+  };
+}
+
+/**
+ * A document without any ACL entries is visible to every user of its tenant
+ */
+export function isRestricted(acl?: DocumentAcl): boolean {
+  return !!(acl?.users?.length || acl?.groups?.length || acl?.departments?.length);
+}
+
+export function canAccess(acl: DocumentAcl | undefined, principal?: AccessPrincipal): boolean {
+  if (!principal || !isRestricted(acl)) {
+    return true;
+  }
+
+  return !!(
+    (principal.userId && acl?.users?.includes(principal.userId)) ||
+    acl?.groups?.some((group) => principal.groups.includes(group)) ||
+    acl?.departments?.some((department) => principal.departments.includes(department))
+  );
+}
+
+/**
+ * OpenSearch filter matching documents the principal may see: unrestricted documents,
+ * or documents whose ACL names the user, one of their groups or their department
+ */
+export function buildAclFilter(principal: AccessPrincipal): Record<string, any> {
+  const should: any[] = [
+    {
+      bool: {
+        must_not: [
+          { exists: { field: 'acl.users' } },
+          { exists: { field: 'acl.groups' } },
+          { exists: { field: 'acl.departments' } },
+        ],
+      },
+    },
+  ];
+
+  if (principal.userId) {
+    should.push({ term: { 'acl.users': principal.userId } });
+  }
+  if (principal.groups.length > 0) {
+    should.push({ terms: { 'acl.groups': principal.groups } });
+  }
+  if (principal.departments.length > 0) {
+    should.push({ terms: { 'acl.departments': principal.departments } });
+  }
+
+  return { bool: { should, minimum_should_match: 1 } };
+}
+
+/**
+ * Stable cache partition for a principal, so cached results are never shared
+ * between callers that can see different documents
+ */
+export function getPrincipalCacheKey(principal?: AccessPrincipal): string {
+  if (!principal) {
+    return 'all';
+  }
+  return hashString(JSON.stringify(principal)).substring(0, 16);
+}
@@ -0,0 +1,84 @@
+import { AppError } from '../middleware/errorHandler';
+import { BulkOperationSchema } from '../schemas/document.schema';
+import { BulkItemResult, BulkOperation } from '../types';
+
+export interface ParsedBulkRequest {
+  total: number;
+  operations: BulkOperation[];
+  // Original position of each entry in `operations`
+  positions: number[];
+  // Entries rejected before reaching OpenSearch
+  invalid: BulkItemResult[];
+}
+
+/**
+ * Read bulk entries from either a JSON array body or an NDJSON text body.
+ * Lines that are not valid JSON are kept as parse errors so positions stay stable.
+ */
+function readBulkEntries(body: unknown): Array<{ value?: unknown; parseError?: string }> {
+  if (Array.isArray(body)) {
+    return body.map((value) => ({ value }));
+  }
+
+  if (typeof body === 'string') {
+    return body
+      .split(/\r?\n/)
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        try {
+          return { value: JSON.parse(line) };
+        } catch (error) {
+          return { parseError: `Invalid JSON: ${(error as Error).message}` };
+        }
+      });
+  }
+
+  throw new AppError(400, 'Bulk request body must be a JSON array or NDJSON');
+}
+
+/**
+ * Parse and validate a bulk request body into tenant-scoped operations
+ */
+export function parseBulkRequest(body: unknown, tenantId: string, maxOperations: number): ParsedBulkRequest {
+  const entries = readBulkEntries(body);
+  if (entries.length === 0) {
+    throw new AppError(400, 'Bulk request must contain at least one operation');
+  }
+  if (entries.length > maxOperations) {
+    throw new AppError(400, `Bulk request exceeds maximum of ${maxOperations} operations`);
+  }
+
+  const parsed: ParsedBulkRequest = { total: entries.length, operations: [], positions: [], invalid: [] };
+
+  entries.forEach((entry, position) => {
+    const action = (entry.value as any)?.action;
+    if (entry.parseError) {
+      parsed.invalid.push({ position, action, status: 400, error: entry.parseError });
+      return;
+    }
+
+    const validationResult = BulkOperationSchema.safeParse(entry.value);
+    if (!validationResult.success) {
+      parsed.invalid.push({
+        position,
+        action,
+        id: (entry.value as any)?.id,
+        status: 400,
+        error: `Validation error: ${validationResult.error.message}`,
+      });
+      return;
+    }
+
+    const op = validationResult.data;
+    parsed.positions.push(position);
+    if (op.action === 'create') {
+      parsed.operations.push({ action: 'create', document: { ...op.document, tenantId } });
+    } else if (op.action === 'update') {
+      parsed.operations.push({ action: 'update', id: op.id, changes: op.document });
+    } else {
+      parsed.operations.push({ action: 'delete', id: op.id });
+    }
+  });
+
+  return parsed;
+}
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { config } from '../config';
+import { AppError } from '../middleware/errorHandler';
+import { SearchQuery } from '../types';
+
+export interface SearchCursor {
+  tenantId: string;
+  // ACL partition of the caller that started the search (see getPrincipalCacheKey)
+  principal: string;
+  query: SearchQuery;
+  pitId: string;
+  searchAfter: Array<string | number>;
+  // Results returned before the page this cursor points to
+  seen: number;
+}
+
+// Without a configured secret, cursors are only valid on the instance that issued them
+const fallbackSecret = crypto.randomBytes(32);
+
+function sign(payload: string): Buffer {
+  return crypto
+    .createHmac('sha256', config.search.cursorSecret || fallbackSecret)
+    .update(payload)
+    .digest();
+}
+
+/**
+ * Encode a cursor as `<payload>.<signature>` (both base64url)
+ */
+export function encodeCursor(cursor: SearchCursor): string {
+  const payload = Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  return `${payload}.${sign(payload).toString('base64url')}`;
+}
+
+/**
+ * Decode a cursor, rejecting tampered cursors and cursors issued to another tenant or principal
+ */
+export function decodeCursor(token: string, tenantId: string, principal: string): SearchCursor {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    throw new AppError(400, 'Invalid cursor');
+  }
+
+  const expected = sign(payload);
+  const presented = Buffer.from(signature, 'base64url');
+  if (presented.length !== expected.length || !crypto.timingSafeEqual(presented, expected)) {
+    throw new AppError(400, 'Invalid cursor');
+  }
+
+  let cursor: SearchCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new AppError(400, 'Invalid cursor');
+  }
+
+  if (cursor.tenantId !== tenantId || cursor.principal !== principal) {
+    throw new AppError(400, 'Invalid cursor');
+  }
+
+  return cursor;
+}
@@ -0,0 +1,63 @@
+import { IncomingHttpHeaders } from 'http';
+import { Preconditions } from '../types';
+
+/**
+ * Build a document version string from OpenSearch sequence number and primary term
+ */
+export function formatVersion(seqNo?: number, primaryTerm?: number): string | undefined {
+  if (seqNo === undefined || primaryTerm === undefined) {
+    return undefined;
+  }
+  return `${seqNo}-${primaryTerm}`;
+}
+
+/**
+ * Parse a document version string back into OpenSearch concurrency parameters
+ */
+export function parseVersion(version: string): { seqNo: number; primaryTerm: number } | null {
+  const match = /^(\d+)-(\d+)$/.exec(version);
+  if (!match) {
+    return null;
+  }
+  return { seqNo: Number(match[1]), primaryTerm: Number(match[2]) };
+}
+
+export function toETag(version: string): string {
+  return `"${version}"`;
+}
+
+/**
+ * Parse an If-Match / If-None-Match header value into a list of versions.
+ * Weak validators are compared by their opaque value; '*' is kept as-is.
+ */
+export function parseETagList(header: string | string[] | undefined): string[] | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const raw = Array.isArray(header) ? header.join(',') : header;
+  return raw
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1'))
+    .filter((tag) => tag.length > 0);
+}
+
+export function parsePreconditions(headers: IncomingHttpHeaders): Preconditions {
+  return {
+    ifMatch: parseETagList(headers['if-match']),
+    ifNoneMatch: parseETagList(headers['if-none-match']),
+  };
+}
+
+export function hasPreconditions(preconditions?: Preconditions): boolean {
+  return !!(preconditions && (preconditions.ifMatch || preconditions.ifNoneMatch));
+}
+
+/**
+ * Check whether a version list (from If-Match / If-None-Match) matches the current version
+ */
+export function matchesVersion(list: string[], currentVersion: string | undefined, exists: boolean): boolean {
+  if (!exists) {
+    return false;
+  }
+  return list.includes('*') || (!!currentVersion && list.includes(currentVersion));
+}
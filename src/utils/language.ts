@@ -0,0 +1,92 @@
+import { LanguageCode } from '../types';
+
+interface LanguageDefinition {
+  // Name used for the analyzers and OpenSearch's `_<name>_` stopword list
+  name: string;
+  stemmer: string;
+}
+
+/**
+ * Languages with their own analyzed title/content sub-fields.
+ * Light stemmers are preferred where OpenSearch offers them: they conflate plurals and
+ * inflections without the over-stemming of the aggressive variants.
+ */
+const LANGUAGES: Record<LanguageCode, LanguageDefinition> = {
+  en: { name: 'english', stemmer: 'english' },
+  de: { name: 'german', stemmer: 'light_german' },
+  fr: { name: 'french', stemmer: 'light_french' },
+  es: { name: 'spanish', stemmer: 'light_spanish' },
+  it: { name: 'italian', stemmer: 'light_italian' },
+  pt: { name: 'portuguese', stemmer: 'light_portuguese' },
+  nl: { name: 'dutch', stemmer: 'dutch' },
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGES) as LanguageCode[];
+
+export function isSupportedLanguage(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && value in LANGUAGES;
+}
+
+/**
+ * Fields holding a document's title and content analyzed for its language.
+ * Only the fields of the document's own language are populated.
+ */
+export function getLanguageFields(language: LanguageCode): { title: string; content: string } {
+  return { title: `title_${language}`, content: `content_${language}` };
+}
+
+/**
+ * Index settings for the language analyzers. Each language gets an index analyzer
+ * (lowercase, stopwords, stemming) and a search analyzer that additionally expands synonyms;
+ * synonym_graph may only run at search time.
+ */
+export function buildLanguageAnalysis(synonyms: string[]): {
+  filter: Record<string, any>;
+  analyzer: Record<string, any>;
+} {
+  const filter: Record<string, any> = {};
+  const analyzer: Record<string, any> = {};
+
+  if (synonyms.length > 0) {
+    filter.search_synonyms = { type: 'synonym_graph', synonyms, lenient: true };
+  }
+
+  for (const { name, stemmer } of Object.values(LANGUAGES)) {
+    filter[`${name}_stop`] = { type: 'stop', stopwords: `_${name}_` };
+    filter[`${name}_stemmer`] = { type: 'stemmer', language: stemmer };
+
+    analyzer[`${name}_text`] = {
+      type: 'custom',
+      tokenizer: 'standard',
+      filter: ['lowercase', `${name}_stop`, `${name}_stemmer`],
+    };
+    analyzer[`${name}_search`] = {
+      type: 'custom',
+      tokenizer: 'standard',
+      filter: [
+        'lowercase',
+        ...(synonyms.length > 0 ? ['search_synonyms'] : []),
+        `${name}_stop`,
+        `${name}_stemmer`,
+      ],
+    };
+  }
+
+  return { filter, analyzer };
+}
+
+/**
+ * Mapping properties for every language's title/content fields
+ */
+export function buildLanguageMappings(): Record<string, any> {
+  const properties: Record<string, any> = {};
+
+  for (const [code, { name }] of Object.entries(LANGUAGES)) {
+    const fields = getLanguageFields(code as LanguageCode);
+    const definition = { type: 'text', analyzer: `${name}_text`, search_analyzer: `${name}_search` };
+    properties[fields.title] = definition;
+    properties[fields.content] = definition;
+  }
+
+  return properties;
+}
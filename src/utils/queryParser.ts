@@ -0,0 +1,458 @@
+import { AppError } from '../middleware/errorHandler';
+import { getLanguageFields } from './language';
+import { LanguageCode } from '../types';
+
+/**
+ * Parser for the `syntax=advanced` search mode.
+ *
+ * Supports a Lucene-like subset: `field:value`, `"phrases"`, `AND`/`OR`/`NOT` (also `&&`, `||`,
+ * `!`, `+` and `-`), parentheses (also `field:(a OR b)`), `*`/`?` wildcards and `[a TO b]` /
+ * `{a TO b}` ranges. Adjacent clauses are combined with AND.
+ *
+ * The query is translated into plain match/term/wildcard/range clauses over a fixed set of
+ * fields; it is never handed to OpenSearch's own query_string parser, so user input can only
+ * ever narrow the surrounding tenant-filtered query. With a query language, text clauses also
+ * match that language's stemmed title/content fields.
+ */
+
+type FieldType = 'text' | 'keyword' | 'date';
+
+interface FieldDefinition {
+  path: string;
+  type: FieldType;
+}
+
+const FIELDS: Record<string, FieldDefinition> = {
+  title: { path: 'title', type: 'text' },
+  content: { path: 'content', type: 'text' },
+  tags: { path: 'tags', type: 'keyword' },
+  tag: { path: 'tags', type: 'keyword' },
+  author: { path: 'metadata.author', type: 'keyword' },
+  'metadata.author': { path: 'metadata.author', type: 'keyword' },
+  type: { path: 'metadata.type', type: 'keyword' },
+  'metadata.type': { path: 'metadata.type', type: 'keyword' },
+  department: { path: 'metadata.department', type: 'keyword' },
+  'metadata.department': { path: 'metadata.department', type: 'keyword' },
+  created_at: { path: 'created_at', type: 'date' },
+  updated_at: { path: 'updated_at', type: 'date' },
+};
+
+// Fields searched by terms and phrases without a field prefix
+const DEFAULT_FIELDS = ['title^3', 'content', 'tags^2'];
+const DEFAULT_PHRASE_FIELDS = ['title^3', 'content'];
+
+const MAX_DEPTH = 16;
+const MAX_CLAUSES = 64;
+
+// Bounds of date ranges: an ISO 8601 date or date-time, epoch milliseconds, or `now` with
+// optional date math (`now-7d`, `now/d`)
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d{1,9})?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const EPOCH_MILLIS = /^\d{1,13}$/;
+const DATE_MATH = /^now([+-]\d+[yMwdhHms])*(\/[yMwdhHms])?$/;
+
+function isDateBound(value: string): boolean {
+  if (ISO_DATE.test(value)) {
+    return !Number.isNaN(Date.parse(value));
+  }
+  return EPOCH_MILLIS.test(value) || DATE_MATH.test(value);
+}
+
+type TokenType =
+  | 'LPAREN'
+  | 'RPAREN'
+  | 'AND'
+  | 'OR'
+  | 'NOT'
+  | 'PLUS'
+  | 'FIELD'
+  | 'TERM'
+  | 'PHRASE'
+  | 'RANGE'
+  | 'EOF';
+
+interface Token {
+  type: TokenType;
+  position: number;
+  value: string;
+  // Wildcard pattern for TERM tokens containing unescaped `*` or `?`
+  pattern?: string;
+  range?: {
+    from?: string;
+    to?: string;
+    includeFrom: boolean;
+    includeTo: boolean;
+    // Positions of the bounds, for errors about them
+    fromPosition: number;
+    toPosition: number;
+  };
+}
+
+const SPECIAL_CHARS = new Set(['(', ')', '"', ':', '[', ']', '{', '}']);
+
+function parseError(message: string, position: number): AppError {
+  return new AppError(400, `Invalid query: ${message} at position ${position}`);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'LPAREN' : 'RPAREN', position: start, value: char });
+      i++;
+      continue;
+    }
+
+    if (input.startsWith('&&', i) || input.startsWith('||', i)) {
+      tokens.push({ type: char === '&' ? 'AND' : 'OR', position: start, value: input.substring(i, i + 2) });
+      i += 2;
+      continue;
+    }
+
+    // Prefix operators only count when directly attached to the next clause
+    if ((char === '-' || char === '!' || char === '+') && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: char === '+' ? 'PLUS' : 'NOT', position: start, value: char });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          i++;
+        }
+        value += input[i];
+        i++;
+      }
+      if (i >= input.length) {
+        throw parseError('unterminated phrase', start);
+      }
+      i++;
+      tokens.push({ type: 'PHRASE', position: start, value });
+      continue;
+    }
+
+    if (char === '[' || char === '{') {
+      const end = input.slice(i + 1).search(/[\]}]/);
+      if (end === -1) {
+        throw parseError('unterminated range', start);
+      }
+      const closing = input[i + 1 + end];
+      const inner = input.substring(i + 1, i + 1 + end);
+      const bounds = inner.trim().split(/\s+TO\s+/);
+      if (bounds.length !== 2 || !bounds[0] || !bounds[1]) {
+        throw parseError("range must have the form '[from TO to]'", start);
+      }
+      const bound = (value: string) => (value === '*' ? undefined : value.replace(/^"(.*)"$/, '$1'));
+      tokens.push({
+        type: 'RANGE',
+        position: start,
+        value: input.substring(i, i + end + 2),
+        range: {
+          from: bound(bounds[0]),
+          to: bound(bounds[1]),
+          includeFrom: char === '[',
+          includeTo: closing === ']',
+          fromPosition: i + 1 + inner.length - inner.trimStart().length,
+          toPosition: i + 1 + inner.trimEnd().length - bounds[1].length,
+        },
+      });
+      i += end + 2;
+      continue;
+    }
+
+    if (SPECIAL_CHARS.has(char)) {
+      throw parseError(`unexpected '${char}'`, start);
+    }
+
+    // Bare term, possibly a field prefix (`name:`)
+    let value = '';
+    let pattern = '';
+    let wildcard = false;
+    while (i < input.length && !/\s/.test(input[i]) && !SPECIAL_CHARS.has(input[i])) {
+      if (input[i] === '\\' && i + 1 < input.length) {
+        const escaped = input[i + 1];
+        value += escaped;
+        pattern += /[*?\\]/.test(escaped) ? `\\${escaped}` : escaped;
+        i += 2;
+        continue;
+      }
+      if (input[i] === '*' || input[i] === '?') {
+        wildcard = true;
+      }
+      value += input[i];
+      pattern += input[i];
+      i++;
+    }
+
+    if (input[i] === ':') {
+      tokens.push({ type: 'FIELD', position: start, value });
+      i++;
+      continue;
+    }
+
+    if (value === 'AND' || value === 'OR' || value === 'NOT') {
+      tokens.push({ type: value, position: start, value });
+      continue;
+    }
+
+    tokens.push({ type: 'TERM', position: start, value, ...(wildcard && { pattern }) });
+  }
+
+  tokens.push({ type: 'EOF', position: input.length, value: '' });
+  return tokens;
+}
+
+class QueryParser {
+  private index = 0;
+  private depth = 0;
+  private clauses = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly language?: LanguageCode
+  ) {}
+
+  parse(): Record<string, any> {
+    const query = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'EOF') {
+      throw parseError(`unexpected '${token.value}'`, token.position);
+    }
+    return query;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private startsClause(token: Token): boolean {
+    return ['LPAREN', 'NOT', 'PLUS', 'FIELD', 'TERM', 'PHRASE', 'RANGE'].includes(token.type);
+  }
+
+  private parseOr(field?: FieldDefinition & { name: string }): Record<string, any> {
+    const should = [this.parseAnd(field)];
+    while (this.peek().type === 'OR') {
+      this.next();
+      should.push(this.parseAnd(field));
+    }
+    return should.length === 1 ? should[0] : { bool: { should, minimum_should_match: 1 } };
+  }
+
+  private parseAnd(field?: FieldDefinition & { name: string }): Record<string, any> {
+    const must: Record<string, any>[] = [];
+    const mustNot: Record<string, any>[] = [];
+
+    do {
+      if (this.peek().type === 'AND') {
+        this.next();
+      }
+      const { clause, negated } = this.parseUnary(field);
+      (negated ? mustNot : must).push(clause);
+    } while (this.peek().type === 'AND' || this.startsClause(this.peek()));
+
+    if (must.length === 1 && mustNot.length === 0) {
+      return must[0];
+    }
+    return {
+      bool: {
+        ...(must.length > 0 && { must }),
+        ...(mustNot.length > 0 && { must_not: mustNot }),
+      },
+    };
+  }
+
+  private parseUnary(field?: FieldDefinition & { name: string }): { clause: Record<string, any>; negated: boolean } {
+    // Each prefix operator counts as a level of nesting, so long chains are rejected early
+    let negated = false;
+    let operators = 0;
+    while (this.peek().type === 'NOT' || this.peek().type === 'PLUS') {
+      const token = this.next();
+      if (this.depth + ++operators > MAX_DEPTH) {
+        throw parseError(`nesting deeper than ${MAX_DEPTH} levels`, token.position);
+      }
+      if (token.type === 'NOT') {
+        negated = !negated;
+      }
+    }
+    return { clause: this.parsePrimary(field), negated };
+  }
+
+  private parsePrimary(field?: FieldDefinition & { name: string }): Record<string, any> {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'LPAREN': {
+        if (++this.depth > MAX_DEPTH) {
+          throw parseError(`nesting deeper than ${MAX_DEPTH} levels`, token.position);
+        }
+        const clause = this.parseOr(field);
+        const closing = this.next();
+        if (closing.type !== 'RPAREN') {
+          throw parseError("expected ')'", closing.position);
+        }
+        this.depth--;
+        return clause;
+      }
+      case 'FIELD': {
+        if (field) {
+          throw parseError(`field '${token.value}' cannot be nested inside field '${field.name}'`, token.position);
+        }
+        const definition = FIELDS[token.value];
+        if (!definition) {
+          throw parseError(`unknown field '${token.value}'`, token.position);
+        }
+        const target = this.peek();
+        if (!['LPAREN', 'TERM', 'PHRASE', 'RANGE'].includes(target.type)) {
+          throw parseError(`expected a value for field '${token.value}'`, target.position);
+        }
+        return this.parsePrimary({ ...definition, name: token.value });
+      }
+      case 'TERM':
+        return this.termClause(token, field);
+      case 'PHRASE':
+        return this.phraseClause(token, field);
+      case 'RANGE':
+        return this.rangeClause(token, field);
+      case 'EOF':
+        throw parseError('unexpected end of query', token.position);
+      default:
+        throw parseError(`unexpected '${token.value}'`, token.position);
+    }
+  }
+
+  /**
+   * Text fields to match for a field (or the defaults), including the language variants
+   */
+  private textFields(field: FieldDefinition | undefined, defaults: string[]): string[] {
+    const paths = field ? [field.path] : defaults;
+    if (!this.language) {
+      return paths;
+    }
+    const languageFields = getLanguageFields(this.language);
+    const variants = paths.flatMap((path) => {
+      const [name, boost] = path.split('^');
+      const variant = languageFields[name as keyof typeof languageFields];
+      return variant ? [boost ? `${variant}^${boost}` : variant] : [];
+    });
+    return [...paths, ...variants];
+  }
+
+  private countClause(token: Token): void {
+    if (++this.clauses > MAX_CLAUSES) {
+      throw parseError(`more than ${MAX_CLAUSES} clauses`, token.position);
+    }
+  }
+
+  private termClause(token: Token, field?: FieldDefinition & { name: string }): Record<string, any> {
+    this.countClause(token);
+
+    if (field?.type === 'date') {
+      throw parseError(`field '${field.name}' only supports ranges`, token.position);
+    }
+
+    if (token.pattern !== undefined) {
+      if (/^[*?]/.test(token.pattern)) {
+        throw parseError('leading wildcards are not allowed', token.position);
+      }
+      const wildcard = (path: string) => ({
+        wildcard: { [path]: { value: token.pattern, case_insensitive: true } },
+      });
+      if (!field) {
+        return {
+          bool: {
+            should: DEFAULT_FIELDS.map((name) => wildcard(name.split('^')[0])),
+            minimum_should_match: 1,
+          },
+        };
+      }
+      return wildcard(field.path);
+    }
+
+    if (!field) {
+      return {
+        multi_match: { query: token.value, fields: this.textFields(undefined, DEFAULT_FIELDS), type: 'best_fields' },
+      };
+    }
+    if (field.type === 'text') {
+      if (this.language) {
+        return { multi_match: { query: token.value, fields: this.textFields(field, []), type: 'best_fields' } };
+      }
+      return { match: { [field.path]: { query: token.value } } };
+    }
+    return { term: { [field.path]: token.value } };
+  }
+
+  private phraseClause(token: Token, field?: FieldDefinition & { name: string }): Record<string, any> {
+    this.countClause(token);
+
+    if (!field) {
+      return {
+        multi_match: { query: token.value, fields: this.textFields(undefined, DEFAULT_PHRASE_FIELDS), type: 'phrase' },
+      };
+    }
+    if (field.type === 'date') {
+      throw parseError(`field '${field.name}' only supports ranges`, token.position);
+    }
+    if (field.type === 'text') {
+      if (this.language) {
+        return { multi_match: { query: token.value, fields: this.textFields(field, []), type: 'phrase' } };
+      }
+      return { match_phrase: { [field.path]: token.value } };
+    }
+    return { term: { [field.path]: token.value } };
+  }
+
+  private rangeClause(token: Token, field?: FieldDefinition & { name: string }): Record<string, any> {
+    this.countClause(token);
+
+    if (!field) {
+      throw parseError('ranges require a field', token.position);
+    }
+    if (field.type === 'text') {
+      throw parseError(`field '${field.name}' does not support ranges`, token.position);
+    }
+
+    const { from, to, includeFrom, includeTo, fromPosition, toPosition } = token.range!;
+    if (field.type === 'date') {
+      if (from !== undefined && !isDateBound(from)) {
+        throw parseError(`invalid date '${from}'`, fromPosition);
+      }
+      if (to !== undefined && !isDateBound(to)) {
+        throw parseError(`invalid date '${to}'`, toPosition);
+      }
+    }
+
+    return {
+      range: {
+        [field.path]: {
+          ...(from !== undefined && { [includeFrom ? 'gte' : 'gt']: from }),
+          ...(to !== undefined && { [includeTo ? 'lte' : 'lt']: to }),
+        },
+      },
+    };
+  }
+}
+
+/**
+ * Translate an advanced query string into an OpenSearch query clause.
+ * Throws a 400 AppError naming the character position of the first problem.
+ */
+export function parseAdvancedQuery(input: string, language?: LanguageCode): Record<string, any> {
+  return new QueryParser(tokenize(input), language).parse();
+}
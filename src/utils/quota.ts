@@ -0,0 +1,23 @@
+import { Response } from 'express';
+import { TenantUsage } from '../types';
+
+/**
+ * Size of a document's content as counted against storage quotas
+ */
+export function getContentBytes(content: string): number {
+  return Buffer.byteLength(content, 'utf8');
+}
+
+/**
+ * Report a tenant's usage on a write response. Limit headers are omitted for unlimited quotas.
+ */
+export function setQuotaHeaders(res: Response, usage: TenantUsage): void {
+  res.setHeader('X-Quota-Documents-Used', usage.documents.toString());
+  if (usage.limits.maxDocuments > 0) {
+    res.setHeader('X-Quota-Documents-Limit', usage.limits.maxDocuments.toString());
+  }
+  res.setHeader('X-Quota-Storage-Used', usage.contentBytes.toString());
+  if (usage.limits.maxContentBytes > 0) {
+    res.setHeader('X-Quota-Storage-Limit', usage.limits.maxContentBytes.toString());
+  }
+}
@@ -0,0 +1,32 @@
+import { config } from '../config';
+import { RateLimitGroup, RateLimitPolicy, TenantRecord } from '../types';
+
+export const RATE_LIMIT_GROUPS: RateLimitGroup[] = ['search', 'write', 'read'];
+
+export function isRateLimitTier(tier: string): boolean {
+  return tier === config.rateLimit.defaultTier || tier in config.rateLimit.tiers;
+}
+
+/**
+ * The policy limiting a tenant's requests to a route group: the tenant's own override,
+ * else its tier's limit, else RATE_LIMIT_MAX_REQUESTS
+ */
+export function resolveRateLimitPolicy(tenant: TenantRecord | null, group: RateLimitGroup): RateLimitPolicy {
+  const override = tenant?.rateLimits?.[group];
+  if (override !== undefined) {
+    return buildPolicy(`tenant:${group}`, group, override);
+  }
+
+  const tier = tenant?.tier || config.rateLimit.defaultTier;
+  return buildPolicy(`${tier}:${group}`, group, config.rateLimit.tiers[tier]?.[group] ?? config.rateLimit.maxRequests);
+}
+
+function buildPolicy(name: string, group: RateLimitGroup, maxRequests: number): RateLimitPolicy {
+  return {
+    name,
+    group,
+    maxRequests,
+    windowMs: config.rateLimit.windowMs,
+    burst: Math.max(1, Math.round(maxRequests * config.rateLimit.burstFactor)),
+  };
+}
@@ -0,0 +1,218 @@
+import { AppError, ServiceUnavailableError } from '../middleware/errorHandler';
+import logger from './logger';
+import { CircuitState } from '../types';
+
+export interface ResilienceOptions {
+  // Time limit per attempt; 0 disables it
+  timeoutMs: number;
+  // Further attempts for idempotent calls
+  retries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before it lets a probe through
+  resetTimeoutMs: number;
+}
+
+export interface ResilienceHooks {
+  // Errors that say nothing about the dependency's health (a 404, say) are neither counted nor retried
+  isFailure?: (error: unknown) => boolean;
+  onStateChange?: (state: CircuitState) => void;
+  onRetry?: (operation: string) => void;
+  onReject?: (operation: string) => void;
+}
+
+export interface CallOptions {
+  // Safe to send again when an attempt failed or timed out
+  idempotent?: boolean;
+  // Overrides the policy's timeout, for requests known to run long; 0 disables it
+  timeoutMs?: number;
+}
+
+export class DependencyTimeoutError extends AppError {
+  constructor(dependency: string, operation: string, timeoutMs: number) {
+    super(504, `${dependency} did not respond to ${operation} within ${timeoutMs}ms`);
+    Object.setPrototypeOf(this, DependencyTimeoutError.prototype);
+  }
+}
+
+export class CircuitOpenError extends ServiceUnavailableError {
+  constructor(dependency: string, retryAfterSeconds: number) {
+    super(`${dependency} is unavailable. Retry after ${retryAfterSeconds} seconds.`, retryAfterSeconds);
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to the exponential bound, so
+ * callers that failed together do not retry together
+ */
+export function getBackoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number {
+  return Math.floor(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+/**
+ * Reject with `onTimeout()` when the request does not settle in time. The request itself is
+ * not aborted; its late result is ignored.
+ */
+export async function withTimeout<T>(
+  request: () => Promise<T>,
+  timeoutMs: number,
+  onTimeout: () => Error
+): Promise<T> {
+  if (timeoutMs <= 0) {
+    return request();
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(onTimeout()), timeoutMs);
+  });
+  try {
+    return await Promise.race([request(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Stops calling a dependency that keeps failing. After `failureThreshold` consecutive
+ * failures the circuit opens and calls are rejected right away. Once `resetTimeoutMs` has
+ * passed, the next call is let through as a probe (half-open): its success closes the
+ * circuit, its failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(
+    private name: string,
+    private getOptions: () => Pick<ResilienceOptions, 'failureThreshold' | 'resetTimeoutMs'>,
+    private onStateChange?: (state: CircuitState) => void
+  ) {}
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  async execute<T>(request: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    this.admit();
+    try {
+      const result = await request();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.recordFailure();
+      } else {
+        // The dependency answered, just not with what was asked for
+        this.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  private admit(): void {
+    if (this.state === 'open') {
+      const remainingMs = this.openedAt + this.getOptions().resetTimeoutMs - Date.now();
+      if (remainingMs > 0) {
+        throw new CircuitOpenError(this.name, Math.max(1, Math.ceil(remainingMs / 1000)));
+      }
+      this.transition('half_open');
+    }
+
+    if (this.state === 'half_open') {
+      // One probe at a time; everything else is rejected until it settles
+      if (this.probing) {
+        throw new CircuitOpenError(this.name, 1);
+      }
+      this.probing = true;
+    }
+  }
+
+  private recordSuccess(): void {
+    this.failures = 0;
+    this.probing = false;
+    this.transition('closed');
+  }
+
+  private recordFailure(): void {
+    this.failures += 1;
+    this.probing = false;
+    if (this.state === 'half_open' || this.failures >= this.getOptions().failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    if (this.state === state) return;
+    this.state = state;
+    logger.warn('Circuit breaker state changed', { dependency: this.name, state });
+    this.onStateChange?.(state);
+  }
+}
+
+/**
+ * Timeout, retries with jittered backoff for idempotent calls, and a circuit breaker for
+ * one dependency. Every attempt passes the breaker, so retries stop once it opens.
+ * Options are read on every call.
+ */
+export class ResiliencePolicy {
+  private breaker: CircuitBreaker;
+
+  constructor(
+    private name: string,
+    private getOptions: () => ResilienceOptions,
+    private hooks: ResilienceHooks = {}
+  ) {
+    this.breaker = new CircuitBreaker(name, getOptions, hooks.onStateChange);
+  }
+
+  getState(): CircuitState {
+    return this.breaker.getState();
+  }
+
+  async execute<T>(operation: string, request: () => Promise<T>, options: CallOptions = {}): Promise<T> {
+    const { retries, retryBaseDelayMs, retryMaxDelayMs, ...defaults } = this.getOptions();
+    const timeoutMs = options.timeoutMs ?? defaults.timeoutMs;
+    const isFailure = this.hooks.isFailure || (() => true);
+    const attempts = options.idempotent ? retries + 1 : 1;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.breaker.execute(
+          () => withTimeout(request, timeoutMs, () => new DependencyTimeoutError(this.name, operation, timeoutMs)),
+          isFailure
+        );
+      } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          this.hooks.onReject?.(operation);
+          throw error;
+        }
+        if (attempt + 1 >= attempts || !isFailure(error)) {
+          throw error;
+        }
+
+        const delayMs = getBackoffDelay(attempt, retryBaseDelayMs, retryMaxDelayMs);
+        logger.warn('Retrying dependency call', {
+          dependency: this.name,
+          operation,
+          attempt: attempt + 1,
+          delayMs,
+          error: (error as Error).message,
+        });
+        this.hooks.onRetry?.(operation);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Query-time synonym expansion.
+ * A synonym set lists terms (single words or phrases) that mean the same thing; a query
+ * mentioning one of them is also matched against the others. Expanding queries instead of
+ * the index keeps one shared index usable with a different dictionary per tenant.
+ */
+
+// Upper bound on alternatives added to one query, whatever the dictionary size
+export const MAX_SYNONYM_EXPANSIONS = 20;
+
+// Dictionary size limits
+export const MAX_SYNONYM_SETS = 500;
+export const MAX_SYNONYM_SET_SIZE = 20;
+export const MAX_SYNONYM_TERM_LENGTH = 100;
+
+function normalizeTerm(term: string): string {
+  return term.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Lowercase and deduplicate terms, dropping sets left with fewer than two terms
+ */
+export function normalizeSynonymSets(sets: string[][]): string[][] {
+  return sets
+    .map((set) => Array.from(new Set(set.map(normalizeTerm).filter(Boolean))))
+    .filter((set) => set.length > 1);
+}
+
+export interface SynonymIndex {
+  sets: string[][];
+  // Each term by its words joined with single spaces, to the sets it belongs to
+  terms: Map<string, number[]>;
+  // Leading words of every term; a lookup in a query stops once its words leave them
+  prefixes: Set<string>;
+}
+
+function getWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Index the terms of normalized synonym sets, so expanding a query costs lookups for the
+ * query's words rather than a scan of the dictionary
+ */
+export function buildSynonymIndex(sets: string[][]): SynonymIndex {
+  const terms = new Map<string, number[]>();
+  const prefixes = new Set<string>();
+
+  sets.forEach((set, index) => {
+    for (const term of set) {
+      const words = getWords(term);
+      if (words.length === 0) {
+        continue;
+      }
+      const key = words.join(' ');
+      const indices = terms.get(key) || [];
+      if (!indices.includes(index)) {
+        terms.set(key, [...indices, index]);
+      }
+      words.forEach((_word, i) => prefixes.add(words.slice(0, i + 1).join(' ')));
+    }
+  });
+
+  return { sets, terms, prefixes };
+}
+
+/**
+ * Alternatives for the synonym terms found in the text, excluding terms the text already
+ * contains. Terms match whole words, ignoring case and punctuation between words.
+ */
+export function expandSynonyms(text: string, index: SynonymIndex): string[] {
+  const words = getWords(text);
+  if (words.length === 0 || index.terms.size === 0) {
+    return [];
+  }
+
+  const present = new Set<string>();
+  const matched = new Set<number>();
+  for (let start = 0; start < words.length; start++) {
+    let key = '';
+    for (let end = start; end < words.length; end++) {
+      key = key ? `${key} ${words[end]}` : words[end];
+      if (!index.prefixes.has(key)) {
+        break;
+      }
+      const sets = index.terms.get(key);
+      if (sets) {
+        present.add(key);
+        sets.forEach((set) => matched.add(set));
+      }
+    }
+  }
+
+  const alternatives = new Set<string>();
+  for (const set of Array.from(matched).sort((a, b) => a - b)) {
+    for (const term of index.sets[set]) {
+      if (!present.has(getWords(term).join(' '))) {
+        alternatives.add(term);
+      }
+    }
+  }
+
+  return Array.from(alternatives).slice(0, MAX_SYNONYM_EXPANSIONS);
+}